@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for the Generation Cache Key
+ * Tests cover: normalizing the text, stable keys for identical requests, and new keys for anything that
+ * changes the prompt
+ */
+
+import { describe, it, expect } from "vitest";
+import { generationCacheKey, normalizeCacheText } from "@/lib/generation/cache-key";
+
+describe("normalizeCacheText", () => {
+  it("should ignore line endings, runs of spaces, blank lines and surrounding whitespace", () => {
+    // Act & Assert
+    expect(normalizeCacheText("  Cells\r\n\r\n\r\n  divide   by\tmitosis. \r\n")).toBe("Cells\n\ndivide by mitosis.");
+  });
+
+  it("should compose accented letters the same way", () => {
+    // Act & Assert
+    expect(normalizeCacheText("Mito\u0301za")).toBe("Mit\u00f3za");
+  });
+
+  it("should keep case and punctuation, which the model sees", () => {
+    // Act & Assert
+    expect(normalizeCacheText("DNA, not RNA!")).toBe("DNA, not RNA!");
+  });
+});
+
+describe("generationCacheKey", () => {
+  const text = "Mitosis is the division of a cell nucleus into two identical nuclei.";
+
+  it("should give the same SHA-256 key for the same request", () => {
+    // Act
+    const key = generationCacheKey(text, "openai/gpt-4o-mini", { difficulty: "expert" });
+
+    // Assert
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(generationCacheKey(`  ${text.replace(/ /g, "  ")}\n`, "openai/gpt-4o-mini", { difficulty: "expert" })).toBe(
+      key
+    );
+  });
+
+  it("should treat the default language and a blank focus as unset", () => {
+    // Act & Assert
+    expect(generationCacheKey(text, "m", { language: "source", focus: "  " })).toBe(generationCacheKey(text, "m"));
+  });
+
+  it.each([
+    ["text", generationCacheKey(`${text} Meiosis halves it.`, "m")],
+    ["model", generationCacheKey(text, "anthropic/claude-3-haiku")],
+    ["language", generationCacheKey(text, "m", { language: "pl" })],
+    ["difficulty", generationCacheKey(text, "m", { difficulty: "intro" })],
+    ["style", generationCacheKey(text, "m", { style: "why_question" })],
+    ["focus", generationCacheKey(text, "m", { focus: "cell cycle phases" })],
+    ["long-document mode", generationCacheKey(text, "m", { longDocument: true })],
+  ])("should give a new key when the %s changes", (_, key) => {
+    expect(key).not.toBe(generationCacheKey(text, "m"));
+  });
+});
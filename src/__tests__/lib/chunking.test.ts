@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for Document Chunking
+ * Tests cover: chunk size bounds, preferred break points, offsets into the source text,
+ * card budget allocation and merging of duplicate questions
+ */
+
+import { describe, it, expect } from "vitest";
+import { allocateCardBudget, mergeFlashcards, splitIntoChunks } from "@/lib/generation/chunking";
+
+/**
+ * Paragraph of roughly `length` characters made of numbered sentences
+ */
+const paragraph = (label: string, length: number) => {
+  const sentences: string[] = [];
+  for (let i = 0; sentences.join(" ").length < length; i++) {
+    sentences.push(`Sentence ${i} of ${label} explains one more detail.`);
+  }
+  return sentences.join(" ");
+};
+
+describe("splitIntoChunks", () => {
+  it("should return a single chunk for text within the limit", () => {
+    // Arrange
+    const text = `  ${paragraph("intro", 3000)}\n`;
+
+    // Act
+    const chunks = splitIntoChunks(text);
+
+    // Assert
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 0, start: 0, end: text.length, text: text.trim() });
+  });
+
+  it("should keep every chunk between the minimum and maximum length", () => {
+    // Arrange
+    const text = Array.from({ length: 30 }, (_, i) => paragraph(`p${i}`, 1500)).join("\n\n");
+
+    // Act
+    const chunks = splitIntoChunks(text, { maxLength: 8000, minLength: 1000 });
+
+    // Assert
+    expect(chunks.length).toBeGreaterThan(5);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeGreaterThanOrEqual(1000);
+      expect(chunk.text.length).toBeLessThanOrEqual(9000);
+    }
+  });
+
+  it("should produce contiguous slices that cover the whole text", () => {
+    // Arrange
+    const text = Array.from({ length: 12 }, (_, i) => paragraph(`p${i}`, 2500)).join("\n\n");
+
+    // Act
+    const chunks = splitIntoChunks(text, { maxLength: 8000, minLength: 1000 });
+
+    // Assert
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+    chunks.slice(1).forEach((chunk, i) => expect(chunk.start).toBe(chunks[i].end));
+    chunks.forEach((chunk) => expect(text.slice(chunk.start, chunk.end).trim()).toBe(chunk.text));
+  });
+
+  it("should prefer section headings over paragraph breaks", () => {
+    // Arrange
+    const sectionOne = `# Section one\n\n${paragraph("a", 2500)}\n\n${paragraph("b", 2500)}`;
+    const sectionTwo = `# Section two\n\n${paragraph("c", 2500)}\n\n${paragraph("d", 2500)}`;
+    const text = `${sectionOne}\n\n${sectionTwo}`;
+
+    // Act
+    const chunks = splitIntoChunks(text, { maxLength: 8000, minLength: 1000 });
+
+    // Assert
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toBe(sectionOne);
+    expect(chunks[1].text).toBe(sectionTwo);
+  });
+
+  it("should fall back to sentence breaks inside a long paragraph", () => {
+    // Arrange
+    const text = paragraph("long", 20000);
+
+    // Act
+    const chunks = splitIntoChunks(text, { maxLength: 8000, minLength: 1000 });
+
+    // Assert
+    expect(chunks.length).toBeGreaterThanOrEqual(3);
+    chunks.slice(0, -1).forEach((chunk) => expect(chunk.text.endsWith(".")).toBe(true));
+  });
+
+  it("should hard split text without any break points", () => {
+    // Arrange
+    const text = "x".repeat(20000);
+
+    // Act
+    const chunks = splitIntoChunks(text, { maxLength: 8000, minLength: 1000 });
+
+    // Assert
+    expect(chunks.map((chunk) => chunk.text.length)).toEqual([8000, 8000, 4000]);
+  });
+
+  it("should merge a short tail into the previous chunk", () => {
+    // Arrange
+    const text = `${paragraph("main", 7900)}\n\n${paragraph("tail", 500)}`;
+
+    // Act
+    const chunks = splitIntoChunks(text, { maxLength: 8000, minLength: 1000 });
+
+    // Assert
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].end).toBe(text.length);
+  });
+});
+
+describe("allocateCardBudget", () => {
+  it("should split the budget in proportion to chunk length", () => {
+    // Act
+    const budget = allocateCardBudget([{ text: "a".repeat(6000) }, { text: "b".repeat(3000) }], 9);
+
+    // Assert
+    expect(budget).toEqual([6, 3]);
+  });
+
+  it("should hand out the remainder to the largest fractions and keep the total", () => {
+    // Act
+    const budget = allocateCardBudget(
+      [{ text: "a".repeat(5000) }, { text: "b".repeat(3000) }, { text: "c".repeat(2000) }],
+      7
+    );
+
+    // Assert
+    expect(budget).toEqual([4, 2, 1]);
+    expect(budget.reduce((sum, cards) => sum + cards, 0)).toBe(7);
+  });
+
+  it("should leave some chunks without cards when the budget is smaller than the chunk count", () => {
+    // Act
+    const budget = allocateCardBudget(
+      [{ text: "a".repeat(4000) }, { text: "b".repeat(3000) }, { text: "c".repeat(2000) }],
+      2
+    );
+
+    // Assert
+    expect(budget).toEqual([1, 1, 0]);
+  });
+
+  it("should return zeros for an empty budget", () => {
+    // Act & Assert
+    expect(allocateCardBudget([{ text: "a" }, { text: "b" }], 0)).toEqual([0, 0]);
+  });
+});
+
+describe("mergeFlashcards", () => {
+  it("should drop questions that differ only in case, spacing and punctuation", () => {
+    // Arrange
+    const batches = [
+      [
+        { front: "What is TypeScript?", back: "A typed superset of JavaScript" },
+        { front: "What is Vitest?", back: "A test runner" },
+      ],
+      [
+        { front: "what is  typescript", back: "JavaScript with types" },
+        { front: "What is Astro?", back: "A web framework" },
+      ],
+    ];
+
+    // Act
+    const merged = mergeFlashcards(batches, 10);
+
+    // Assert
+    expect(merged.map((card) => card.front)).toEqual(["What is TypeScript?", "What is Vitest?", "What is Astro?"]);
+    expect(merged[0].back).toBe("A typed superset of JavaScript");
+  });
+
+  it("should cap the merged cards at the budget", () => {
+    // Arrange
+    const batches = [
+      [{ front: "Q1", back: "A1" }],
+      [
+        { front: "Q2", back: "A2" },
+        { front: "Q3", back: "A3" },
+      ],
+    ];
+
+    // Act & Assert
+    expect(mergeFlashcards(batches, 2).map((card) => card.front)).toEqual(["Q1", "Q2"]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for the LLM Provider Factory
+ * Tests cover: provider selection by AI_PROVIDER, the openrouter default and missing or unknown configuration
+ */
+
+import { describe, it, expect } from "vitest";
+import { createLLMProvider, LLMConfigError } from "@/lib/llm/create-provider";
+import { FakeLLMProvider } from "@/lib/llm/fake.provider";
+import { OpenAICompatibleClient } from "@/lib/llm/openai-compatible.client";
+import { OpenRouterClient } from "@/lib/llm/openrouter.client";
+
+describe("createLLMProvider", () => {
+  it("should default to OpenRouter", () => {
+    // Act
+    const provider = createLLMProvider({ OPENROUTER_API_KEY: "sk-or-test" });
+
+    // Assert
+    expect(provider).toBeInstanceOf(OpenRouterClient);
+    expect(provider.name).toBe("openrouter");
+  });
+
+  it("should create an OpenAI-compatible client for a self-hosted server", () => {
+    // Act
+    const provider = createLLMProvider({
+      AI_PROVIDER: "openai-compatible",
+      LLM_BASE_URL: "http://localhost:11434/v1",
+      LLM_MODEL: "llama3.1",
+    });
+
+    // Assert
+    expect(provider).toBeInstanceOf(OpenAICompatibleClient);
+    expect(provider).not.toBeInstanceOf(OpenRouterClient);
+  });
+
+  it("should create the fake provider without any other settings", () => {
+    // Act & Assert
+    expect(createLLMProvider({ AI_PROVIDER: "fake" })).toBeInstanceOf(FakeLLMProvider);
+  });
+
+  it.each([
+    [{}, "OPENROUTER_API_KEY must be set"],
+    [{ AI_PROVIDER: "openai-compatible", LLM_MODEL: "llama3.1" }, "LLM_BASE_URL and LLM_MODEL must be set"],
+    [{ AI_PROVIDER: "gpt" }, 'Unknown AI_PROVIDER "gpt"'],
+  ])("should reject incomplete configuration %j", (env, message) => {
+    // Act & Assert
+    expect(() => createLLMProvider(env)).toThrow(LLMConfigError);
+    expect(() => createLLMProvider(env)).toThrow(message);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit Tests for Edit Distance
+ * Tests cover: equal and empty texts, insertions, deletions and substitutions, characters outside
+ * the Basic Multilingual Plane, and summing the edits of a card
+ */
+
+import { describe, it, expect } from "vitest";
+import { cardEditDistance, editDistance } from "@/lib/generation/edit-distance";
+
+describe("editDistance", () => {
+  it("should be 0 for equal texts and the length of the other text when one is empty", () => {
+    // Act & Assert
+    expect(editDistance("mitosis", "mitosis")).toBe(0);
+    expect(editDistance("", "cell")).toBe(4);
+    expect(editDistance("cell", "")).toBe(4);
+  });
+
+  it("should count inserted, deleted and replaced characters", () => {
+    // Act & Assert
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("What is ATP?", "What is ATP")).toBe(1);
+    expect(editDistance("flaw", "lawn")).toBe(2);
+  });
+
+  it("should count case and punctuation changes", () => {
+    expect(editDistance("dna", "DNA.")).toBe(4);
+  });
+
+  it("should count a character outside the Basic Multilingual Plane once", () => {
+    expect(editDistance("Cell 🔬", "Cell 🧪")).toBe(1);
+  });
+});
+
+describe("cardEditDistance", () => {
+  it("should sum the edits of the front and the back", () => {
+    // Arrange
+    const generated = { front: "What is ATP?", back: "An energy carrier" };
+    const accepted = { front: "What is ATP?", back: "The energy carrier of the cell" };
+
+    // Act
+    const distance = cardEditDistance(generated, accepted);
+
+    // Assert
+    expect(distance).toBe(editDistance(generated.back, accepted.back));
+    expect(cardEditDistance(generated, { front: "What's ATP?", back: generated.back })).toBe(2);
+  });
+});
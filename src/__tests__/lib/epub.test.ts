@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for EPUB Extraction
+ * Tests cover: reading order, titles from the EPUB 3 navigation document and the EPUB 2 NCX,
+ * continuation files, skipped covers and non-linear items, and broken archives
+ */
+
+import { describe, it, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { EpubFormatError, extractEpub } from "@/lib/extraction/epub";
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+const chapter = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>Ignored</title></head><body>${body}</body></html>`;
+
+/**
+ * Zip an EPUB whose package document lists `spine` (manifest ids) in reading order
+ */
+function buildEpub(files: Record<string, string>, manifest: string, spine: string, spineAttributes = "") {
+  const opf = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Cell Biology &amp; You</dc:title></metadata>
+  <manifest>${manifest}</manifest>
+  <spine${spineAttributes}>${spine}</spine>
+</package>`;
+
+  return zipSync({
+    mimetype: strToU8("application/epub+zip"),
+    "META-INF/container.xml": strToU8(CONTAINER),
+    "OEBPS/content.opf": strToU8(opf),
+    ...Object.fromEntries(Object.entries(files).map(([path, content]) => [`OEBPS/${path}`, strToU8(content)])),
+    "OEBPS/images/cover.jpg": new Uint8Array([0xff, 0xd8, 0xff]),
+  });
+}
+
+describe("extractEpub", () => {
+  it("should read chapters in spine order with titles from the navigation document", () => {
+    // Arrange
+    const nav = chapter(`<nav epub:type="toc"><ol>
+      <li><a href="text/ch1.xhtml">1. The Cell</a></li>
+      <li><a href="text/ch2.xhtml#start">2. Energy</a></li>
+    </ol></nav>`);
+    const epub = buildEpub(
+      {
+        "nav.xhtml": nav,
+        "text/cover.xhtml": chapter('<img src="../images/cover.jpg" alt="Cover"/>'),
+        "text/ch1.xhtml": chapter("<h1>Chapter One</h1><p>Cells are small.</p>"),
+        "text/ch1b.xhtml": chapter("<p>More about cells.</p>"),
+        "text/ch2.xhtml": chapter("<p>ATP stores energy.</p>"),
+        "text/notes.xhtml": chapter("<h1>Notes</h1><p>Out of the reading order.</p>"),
+      },
+      `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+       <item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>
+       <item id="c1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+       <item id="c1b" href="text/ch1b.xhtml" media-type="application/xhtml+xml"/>
+       <item id="c2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+       <item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>`,
+      `<itemref idref="cover"/><itemref idref="nav"/><itemref idref="c1"/><itemref idref="c1b"/>
+       <itemref idref="c2"/><itemref idref="notes" linear="no"/>`
+    );
+
+    // Act
+    const result = extractEpub(epub);
+
+    // Assert - the cover has no text, and the untitled file continues chapter one
+    expect(result.title).toBe("Cell Biology & You");
+    expect(result.sections).toEqual([
+      { title: "1. The Cell", level: 1, text: "# Chapter One\n\nCells are small.\n\nMore about cells." },
+      { title: "2. Energy", level: 1, text: "ATP stores energy." },
+    ]);
+  });
+
+  it("should take titles from the NCX of an EPUB 2 book, then from the first heading", () => {
+    // Arrange
+    const ncx = `<?xml version="1.0"?><ncx><navMap>
+      <navPoint id="p1"><navLabel><text>Photosynthesis</text></navLabel><content src="ch%201.html"/></navPoint>
+    </navMap></ncx>`;
+    const epub = buildEpub(
+      {
+        "toc.ncx": ncx,
+        "ch 1.html": chapter("<p>Light is captured.</p>"),
+        "ch2.html": chapter("<h2>Respiration</h2><p>Sugar is burned.</p>"),
+      },
+      `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+       <item id="c1" href="ch%201.html" media-type="application/xhtml+xml"/>
+       <item id="c2" href="ch2.html" media-type="application/xhtml+xml"/>`,
+      `<itemref idref="c1"/><itemref idref="c2"/>`,
+      ' toc="ncx"'
+    );
+
+    // Act
+    const result = extractEpub(epub);
+
+    // Assert
+    expect(result.sections.map((section) => section.title)).toEqual(["Photosynthesis", "Respiration"]);
+  });
+
+  it("should throw EpubFormatError for a broken archive or a missing package document", () => {
+    // Arrange
+    const withoutPackage = zipSync({ mimetype: strToU8("application/epub+zip") });
+
+    // Act & Assert
+    expect(() => extractEpub(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x00]))).toThrow(EpubFormatError);
+    expect(() => extractEpub(withoutPackage)).toThrow("The EPUB has no package document");
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for Document Extraction
+ * Tests cover: format detection, size and type errors, extraction per format, empty documents,
+ * unreadable files, and truncation of very long documents
+ */
+
+import { describe, it, expect } from "vitest";
+import { DocumentExtractionError, detectFormat, extractDocument } from "@/lib/extraction/extract-document";
+import { ErrorCodes, ValidationConstraints } from "@/types";
+
+const file = (name: string, content: string | Uint8Array) => ({
+  name,
+  data: typeof content === "string" ? new TextEncoder().encode(content) : content,
+});
+
+describe("detectFormat", () => {
+  it("should detect the format from the extension", () => {
+    expect(detectFormat(file("notes.MD", "# Notes"))).toBe("markdown");
+    expect(detectFormat(file("page.htm", "<p>Hi</p>"))).toBe("html");
+    expect(detectFormat(file("lecture.vtt", "WEBVTT"))).toBe("subtitles");
+    expect(detectFormat(file("paper.pdf", "%PDF-1.7"))).toBe("pdf");
+    expect(detectFormat(file("book.epub", "PK\x03\x04rest"))).toBe("epub");
+  });
+
+  it("should reject unknown extensions and binary files that do not match theirs", () => {
+    // Act
+    const errors = [file("slides.pptx", "PK"), file("paper.pdf", "not a pdf"), file("book.epub", "%PDF-")].map(
+      (upload) => {
+        try {
+          detectFormat(upload);
+        } catch (error) {
+          return error;
+        }
+      }
+    );
+
+    // Assert
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(DocumentExtractionError);
+      expect((error as DocumentExtractionError).code).toBe(ErrorCodes.UNSUPPORTED_FILE_TYPE);
+      expect((error as DocumentExtractionError).statusCode).toBe(415);
+    }
+  });
+});
+
+describe("extractDocument", () => {
+  it("should extract the sections of a Markdown file", async () => {
+    // Act
+    const result = await extractDocument(file("notes.md", "# Cells\n\nCells are small.\n\n# Energy\n\nATP."));
+
+    // Assert
+    expect(result).toEqual({
+      file_name: "notes.md",
+      format: "markdown",
+      title: null,
+      sections: [
+        { title: "Cells", level: 1, text: "# Cells\n\nCells are small." },
+        { title: "Energy", level: 1, text: "# Energy\n\nATP." },
+      ],
+      characters: 39,
+      truncated: false,
+    });
+  });
+
+  it("should extract an HTML page with its title", async () => {
+    // Act
+    const result = await extractDocument(
+      file("page.html", "<title>Cells</title><nav>Home</nav><h2>Membranes</h2><p>Lipid bilayers.</p>")
+    );
+
+    // Assert
+    expect(result.title).toBe("Cells");
+    expect(result.sections).toEqual([{ title: "Membranes", level: 2, text: "## Membranes\n\nLipid bilayers." }]);
+  });
+
+  it("should throw FILE_TOO_LARGE for files over the upload limit", async () => {
+    // Arrange
+    const upload = file("big.md", new Uint8Array(ValidationConstraints.documentUpload.maxBytes + 1));
+
+    // Act
+    const error = await extractDocument(upload).catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(DocumentExtractionError);
+    expect(error.code).toBe(ErrorCodes.FILE_TOO_LARGE);
+    expect(error.statusCode).toBe(413);
+  });
+
+  it("should throw NO_TEXT_FOUND when nothing readable is left", async () => {
+    // Act
+    const error = await extractDocument(file("empty.html", "<nav>Menu</nav><script>run()</script>")).catch((e) => e);
+
+    // Assert
+    expect(error.code).toBe(ErrorCodes.NO_TEXT_FOUND);
+    expect(error.statusCode).toBe(422);
+  });
+
+  it("should throw INVALID_INPUT for a file that cannot be parsed", async () => {
+    // Act
+    const error = await extractDocument(file("book.epub", "PK\x03\x04 broken")).catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(DocumentExtractionError);
+    expect(error.code).toBe(ErrorCodes.INVALID_INPUT);
+    expect(error.statusCode).toBe(422);
+    expect(error.message).toBe("The file is not a valid EPUB archive");
+  });
+
+  it("should leave out text past the extraction limit and mark the result as truncated", async () => {
+    // Arrange
+    const limit = ValidationConstraints.documentUpload.extractedTextMaxLength;
+    const paragraph = `${"word ".repeat(999)}end.`;
+    const chapter = (title: string) => `# ${title}\n\n${Array(150).fill(paragraph).join("\n\n")}`;
+    const markdown = ["One", "Two", "Three"].map(chapter).join("\n\n");
+
+    // Act
+    const result = await extractDocument(file("book.md", markdown));
+
+    // Assert - the chapter crossing the limit is cut at a paragraph break
+    expect(result.truncated).toBe(true);
+    expect(result.characters).toBeLessThanOrEqual(limit);
+    expect(result.sections.map((section) => section.title)).toEqual(["One", "Two"]);
+    expect(result.sections[1].text.endsWith("end.")).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for the Fake LLM Provider
+ * Tests cover: deterministic output, the card budget, streaming, text without usable sentences and refining
+ */
+
+import { describe, it, expect } from "vitest";
+import { FakeLLMProvider } from "@/lib/llm/fake.provider";
+
+const TEXT =
+  "Photosynthesis converts light energy into chemical energy in plants. " +
+  "It takes place mainly in the chloroplasts of leaf cells. Too short here. " +
+  "The process releases oxygen as a by-product into the atmosphere!";
+
+describe("FakeLLMProvider", () => {
+  const provider = new FakeLLMProvider();
+
+  it("should turn each sentence into a card, skipping short ones", async () => {
+    // Act
+    const cards = await provider.generateFlashcards(TEXT, 10);
+
+    // Assert
+    expect(cards).toEqual([
+      {
+        front: 'What does the text say about "Photosynthesis converts light energy into chemical"?',
+        back: "Photosynthesis converts light energy into chemical energy in plants.",
+        source_quote: "Photosynthesis converts light energy into chemical energy in plants.",
+      },
+      {
+        front: 'What does the text say about "It takes place mainly in the"?',
+        back: "It takes place mainly in the chloroplasts of leaf cells.",
+        source_quote: "It takes place mainly in the chloroplasts of leaf cells.",
+      },
+      {
+        front: 'What does the text say about "The process releases oxygen as a"?',
+        back: "The process releases oxygen as a by-product into the atmosphere!",
+        source_quote: "The process releases oxygen as a by-product into the atmosphere!",
+      },
+    ]);
+  });
+
+  it("should return the same cards for the same input and respect the budget", async () => {
+    // Act
+    const first = await provider.generateFlashcards(TEXT, 2);
+    const second = await provider.generateFlashcards(TEXT, 2);
+
+    // Assert
+    expect(first).toHaveLength(2);
+    expect(second).toEqual(first);
+  });
+
+  it("should stream the same cards it generates", async () => {
+    // Act
+    const streamed = [];
+    for await (const card of provider.streamFlashcards(TEXT, 10)) {
+      streamed.push(card);
+    }
+
+    // Assert
+    expect(streamed).toEqual(await provider.generateFlashcards(TEXT, 10));
+  });
+
+  it("should fall back to a single card when no sentence is long enough", async () => {
+    // Act
+    const cards = await provider.generateFlashcards("x".repeat(1200), 5);
+
+    // Assert
+    expect(cards).toHaveLength(1);
+    expect(cards[0].back).toHaveLength(500);
+  });
+
+  it("should return a refined card trimmed to the length limits", async () => {
+    // Act
+    const cards = await provider.refineFlashcard({ front: " Q? ", back: "a".repeat(600) });
+
+    // Assert
+    expect(cards).toEqual([{ front: "Q?", back: "a".repeat(500) }]);
+  });
+});
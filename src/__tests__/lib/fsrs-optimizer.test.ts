@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for the FSRS Optimizer
+ * Tests cover: history replay and loss, fitting on a simulated history, bounds and edge cases, yielding to the
+ * event loop while fitting, and counting the reviews a fit uses
+ */
+
+import { describe, it, expect } from "vitest";
+import { FSRS_DEFAULT_WEIGHTS, nextInterval, nextMemoryState, retrievability } from "@/lib/scheduling/fsrs";
+import { computeLoss, countFittedReviews, optimizeWeights, type FsrsReviewLog } from "@/lib/scheduling/fsrs-optimizer";
+import type { ReviewGrade } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.parse("2025-01-01T09:00:00Z");
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32) so the simulated history is stable
+ */
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Simulate a learner whose memory follows `trueWeights`, reviewed on the default schedule.
+ * A card is recalled with the true retrievability and then graded "good".
+ */
+const simulateHistory = (trueWeights: readonly number[], cards: number, reviewsPerCard: number): FsrsReviewLog[] => {
+  const random = seededRandom(42);
+  const logs: FsrsReviewLog[] = [];
+
+  for (let card = 1; card <= cards; card++) {
+    let time = START + card * 60_000;
+    let trueState = nextMemoryState(null, "good", 0, trueWeights);
+    let scheduledState = nextMemoryState(null, "good", 0, FSRS_DEFAULT_WEIGHTS);
+    logs.push({ flashcard_id: card, grade: "good", reviewed_at: new Date(time).toISOString() });
+
+    for (let review = 1; review < reviewsPerCard; review++) {
+      const interval = nextInterval(scheduledState.stability, 0.9);
+      time += interval * DAY_MS;
+
+      const recalled = random() < retrievability(interval, trueState.stability);
+      const grade: ReviewGrade = recalled ? "good" : "again";
+      logs.push({ flashcard_id: card, grade, reviewed_at: new Date(time).toISOString() });
+
+      trueState = nextMemoryState(trueState, grade, interval, trueWeights);
+      scheduledState = nextMemoryState(scheduledState, grade, interval, FSRS_DEFAULT_WEIGHTS);
+    }
+  }
+
+  return logs;
+};
+
+describe("computeLoss", () => {
+  it("should ignore first reviews and same-day repeats", () => {
+    // Arrange
+    const logs: FsrsReviewLog[] = [
+      { flashcard_id: 1, grade: "good", reviewed_at: "2025-01-01T09:00:00Z" },
+      { flashcard_id: 1, grade: "again", reviewed_at: "2025-01-01T10:00:00Z" },
+    ];
+
+    // Act & Assert
+    expect(computeLoss(logs)).toBe(0);
+  });
+
+  it("should penalize a lapse predicted as very likely recalled more than a recall", () => {
+    // Arrange
+    const recalled: FsrsReviewLog[] = [
+      { flashcard_id: 1, grade: "easy", reviewed_at: "2025-01-01T09:00:00Z" },
+      { flashcard_id: 1, grade: "good", reviewed_at: "2025-01-03T09:00:00Z" },
+    ];
+    const forgotten: FsrsReviewLog[] = [recalled[0], { ...recalled[1], grade: "again" }];
+
+    // Act & Assert
+    expect(computeLoss(forgotten)).toBeGreaterThan(computeLoss(recalled));
+  });
+
+  it("should replay reviews in time order regardless of input order", () => {
+    // Arrange
+    const logs = simulateHistory(FSRS_DEFAULT_WEIGHTS, 5, 5);
+
+    // Act & Assert
+    expect(computeLoss([...logs].reverse())).toBeCloseTo(computeLoss(logs), 12);
+  });
+});
+
+describe("optimizeWeights", () => {
+  it("should reduce the loss on a learner who forgets faster than the defaults assume", async () => {
+    // Arrange: a weaker memory than the defaults (lower initial stability and growth)
+    const trueWeights = FSRS_DEFAULT_WEIGHTS.map((weight, index) =>
+      index <= 3 ? weight * 0.4 : index === 8 ? weight * 0.7 : weight
+    );
+    const logs = simulateHistory(trueWeights, 60, 6);
+
+    // Act
+    const result = await optimizeWeights(logs, { maxSweeps: 15 });
+
+    // Assert
+    expect(result.review_count).toBe(60 * 5);
+    expect(result.loss_after).toBeLessThan(result.loss_before);
+    expect(result.loss_after).toBeCloseTo(computeLoss(logs, result.weights), 12);
+    expect(result.weights[2]).toBeLessThan(FSRS_DEFAULT_WEIGHTS[2]);
+  });
+
+  it("should return 17 weights within the model's bounds", async () => {
+    // Arrange
+    const logs = simulateHistory(FSRS_DEFAULT_WEIGHTS, 10, 4);
+
+    // Act
+    const result = await optimizeWeights(logs, { initialWeights: FSRS_DEFAULT_WEIGHTS.map(() => 1000), maxSweeps: 2 });
+
+    // Assert
+    expect(result.weights).toHaveLength(17);
+    expect(result.weights[0]).toBeLessThanOrEqual(100);
+    expect(result.weights[7]).toBeLessThanOrEqual(0.75);
+    expect(result.weights.every((weight) => Number.isFinite(weight))).toBe(true);
+  });
+
+  it("should keep the starting weights when there is nothing to fit", async () => {
+    // Act
+    const result = await optimizeWeights([{ flashcard_id: 1, grade: "good", reviewed_at: "2025-01-01T09:00:00Z" }]);
+
+    // Assert
+    expect(result.review_count).toBe(0);
+    expect(result.weights).toEqual([...FSRS_DEFAULT_WEIGHTS]);
+  });
+
+  it("should let other work run while it fits", async () => {
+    // Arrange
+    const logs = simulateHistory(FSRS_DEFAULT_WEIGHTS, 10, 4);
+    const order: string[] = [];
+    setImmediate(() => order.push("other work"));
+
+    // Act
+    await optimizeWeights(logs, { maxSweeps: 1 }).then(() => order.push("fit"));
+
+    // Assert
+    expect(order).toEqual(["other work", "fit"]);
+  });
+});
+
+describe("countFittedReviews", () => {
+  it("should count the reviews after the first that come at least a day after the previous one", () => {
+    // Arrange
+    const logs: FsrsReviewLog[] = [
+      { flashcard_id: 1, grade: "good", reviewed_at: "2025-01-01T09:00:00Z" },
+      { flashcard_id: 1, grade: "again", reviewed_at: "2025-01-01T18:00:00Z" },
+      { flashcard_id: 1, grade: "good", reviewed_at: "2025-01-03T09:00:00Z" },
+      { flashcard_id: 2, grade: "good", reviewed_at: "2025-01-02T09:00:00Z" },
+    ];
+
+    // Act & Assert
+    expect(countFittedReviews(logs)).toBe(1);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Unit Tests for the FSRS Scheduler
+ * Tests cover: forgetting curve, intervals for a desired retention, first-review memory state,
+ * stability and difficulty updates per grade, and full card scheduling
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  FSRS_DEFAULT_WEIGHTS,
+  elapsedDays,
+  isValidWeights,
+  nextInterval,
+  nextMemoryState,
+  retrievability,
+  scheduleFsrs,
+} from "@/lib/scheduling/fsrs";
+import type { ReviewGrade } from "@/types";
+
+const GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+const NOW = new Date("2025-11-26T12:00:00Z");
+const w = FSRS_DEFAULT_WEIGHTS;
+
+describe("retrievability", () => {
+  it("should be 1 right after a review and 0.9 after `stability` days", () => {
+    expect(retrievability(0, 10)).toBe(1);
+    expect(retrievability(10, 10)).toBeCloseTo(0.9, 10);
+  });
+
+  it("should decrease as time passes", () => {
+    expect(retrievability(5, 10)).toBeGreaterThan(retrievability(20, 10));
+  });
+});
+
+describe("nextInterval", () => {
+  it("should equal stability at 90% retention", () => {
+    expect(nextInterval(15, 0.9)).toBe(15);
+  });
+
+  it("should shorten intervals for higher retention targets", () => {
+    expect(nextInterval(30, 0.95)).toBeLessThan(nextInterval(30, 0.9));
+    expect(nextInterval(30, 0.8)).toBeGreaterThan(nextInterval(30, 0.9));
+  });
+
+  it("should keep intervals between one day and the cap", () => {
+    expect(nextInterval(0.01, 0.97)).toBe(1);
+    expect(nextInterval(1_000_000, 0.7)).toBe(36500);
+  });
+});
+
+describe("elapsedDays", () => {
+  it("should count whole days since the last review", () => {
+    expect(elapsedDays("2025-11-20T18:00:00Z", NOW)).toBe(5);
+  });
+
+  it("should be 0 for cards never reviewed or reviewed in the future", () => {
+    expect(elapsedDays(null, NOW)).toBe(0);
+    expect(elapsedDays("2025-11-30T00:00:00Z", NOW)).toBe(0);
+  });
+});
+
+describe("nextMemoryState", () => {
+  it.each([
+    ["again", 0],
+    ["hard", 1],
+    ["good", 2],
+    ["easy", 3],
+  ] as const)("should take the initial stability for '%s' from weight %s", (grade, index) => {
+    // Act
+    const state = nextMemoryState(null, grade, 0, w);
+
+    // Assert
+    expect(state.stability).toBe(w[index]);
+    expect(state.retrievability).toBeNull();
+  });
+
+  it("should start harder cards with a higher difficulty", () => {
+    // Act
+    const [again, hard, good, easy] = GRADES.map((grade) => nextMemoryState(null, grade, 0, w).difficulty);
+
+    // Assert
+    expect(again).toBeGreaterThan(hard);
+    expect(hard).toBeGreaterThan(good);
+    expect(good).toBeGreaterThan(easy);
+    expect(good).toBeCloseTo(w[4], 10);
+  });
+
+  it("should order stability after a review as again < hard < good < easy", () => {
+    // Arrange
+    const state = { stability: 10, difficulty: 5 };
+
+    // Act
+    const [again, hard, good, easy] = GRADES.map((grade) => nextMemoryState(state, grade, 10, w).stability);
+
+    // Assert
+    expect(again).toBeLessThan(hard);
+    expect(hard).toBeLessThan(good);
+    expect(good).toBeLessThan(easy);
+  });
+
+  it("should grow stability on recall and never raise it on a lapse", () => {
+    // Arrange
+    const state = { stability: 10, difficulty: 5 };
+
+    // Act & Assert
+    expect(nextMemoryState(state, "good", 10, w).stability).toBeGreaterThan(10);
+    expect(nextMemoryState(state, "again", 10, w).stability).toBeLessThanOrEqual(10);
+  });
+
+  it("should reward recalling a card late more than recalling it early", () => {
+    // Arrange
+    const state = { stability: 10, difficulty: 5 };
+
+    // Act
+    const early = nextMemoryState(state, "good", 2, w).stability;
+    const late = nextMemoryState(state, "good", 30, w).stability;
+
+    // Assert
+    expect(late).toBeGreaterThan(early);
+  });
+
+  it("should keep difficulty within 1-10", () => {
+    for (const grade of GRADES) {
+      const low = nextMemoryState({ stability: 5, difficulty: 1 }, grade, 5, w);
+      const high = nextMemoryState({ stability: 5, difficulty: 10 }, grade, 5, w);
+
+      expect(low.difficulty).toBeGreaterThanOrEqual(1);
+      expect(high.difficulty).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it("should report the retrievability at review time", () => {
+    // Act
+    const state = nextMemoryState({ stability: 10, difficulty: 5 }, "good", 10, w);
+
+    // Assert
+    expect(state.retrievability).toBeCloseTo(0.9, 10);
+  });
+});
+
+describe("scheduleFsrs", () => {
+  const parameters = { weights: w, desiredRetention: 0.9 };
+
+  it("should initialize a card without a memory state", () => {
+    // Act
+    const result = scheduleFsrs({ stability: null, difficulty: null, last_reviewed_at: null }, "good", parameters, NOW);
+
+    // Assert
+    expect(result.stability).toBe(w[2]);
+    expect(result.retrievability).toBeNull();
+    expect(result.elapsed_days).toBe(0);
+    expect(result.interval).toBe(Math.round(w[2]));
+    expect(result.next_review_date).toBe("2025-11-30");
+  });
+
+  it("should use the time since the last review", () => {
+    // Act
+    const result = scheduleFsrs(
+      { stability: 10, difficulty: 5, last_reviewed_at: "2025-11-16T12:00:00Z" },
+      "good",
+      parameters,
+      NOW
+    );
+
+    // Assert
+    expect(result.elapsed_days).toBe(10);
+    expect(result.retrievability).toBeCloseTo(0.9, 10);
+    expect(result.interval).toBe(Math.round(result.stability));
+  });
+
+  it("should bring a forgotten card back the next day", () => {
+    // Act
+    const result = scheduleFsrs(
+      { stability: 100, difficulty: 5, last_reviewed_at: "2025-08-01T12:00:00Z" },
+      "again",
+      parameters,
+      NOW
+    );
+
+    // Assert
+    expect(result.interval).toBe(1);
+    expect(result.next_review_date).toBe("2025-11-27");
+  });
+
+  it("should schedule sooner for a higher desired retention", () => {
+    // Arrange
+    const card = { stability: 20, difficulty: 5, last_reviewed_at: "2025-11-06T12:00:00Z" };
+
+    // Act
+    const relaxed = scheduleFsrs(card, "good", { weights: w, desiredRetention: 0.8 }, NOW);
+    const strict = scheduleFsrs(card, "good", { weights: w, desiredRetention: 0.95 }, NOW);
+
+    // Assert
+    expect(strict.interval).toBeLessThan(relaxed.interval);
+    expect(strict.stability).toBe(relaxed.stability);
+  });
+
+  it("should fall back to the default weights when the given ones are malformed", () => {
+    // Arrange
+    const card = { stability: null, difficulty: null, last_reviewed_at: null };
+
+    // Act
+    const result = scheduleFsrs(card, "easy", { weights: [1, 2, 3], desiredRetention: 0.9 }, NOW);
+
+    // Assert
+    expect(result.stability).toBe(w[3]);
+  });
+});
+
+describe("isValidWeights", () => {
+  it("should accept 17 finite numbers only", () => {
+    expect(isValidWeights([...w])).toBe(true);
+    expect(isValidWeights(w.slice(0, 16))).toBe(false);
+    expect(isValidWeights([...w.slice(0, 16), Number.NaN])).toBe(false);
+    expect(isValidWeights(null)).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit Tests for Generation Worker
+ * Tests cover: concurrency, queue order, cancelling queued and running jobs, failing tasks, and job heartbeats
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { GenerationWorker } from "@/lib/jobs/generation-worker";
+
+/**
+ * A task that runs until `finish` is called or its signal is aborted
+ */
+const controllableTask = () => {
+  let finish: () => void = () => undefined;
+  const task = {
+    started: false,
+    aborted: false,
+    finish: () => finish(),
+    run: (signal: AbortSignal) =>
+      new Promise<void>((resolve) => {
+        task.started = true;
+        finish = resolve;
+        signal.addEventListener("abort", () => {
+          task.aborted = true;
+          resolve();
+        });
+      }),
+  };
+  return task;
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("GenerationWorker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should run at most `concurrency` jobs at a time, in queue order", async () => {
+    // Arrange
+    const worker = new GenerationWorker(2);
+    const tasks = [controllableTask(), controllableTask(), controllableTask()];
+
+    // Act
+    tasks.forEach((task, i) => worker.enqueue(i + 1, task.run));
+
+    // Assert
+    expect(tasks.map((t) => t.started)).toEqual([true, true, false]);
+    expect(worker.size).toBe(3);
+
+    tasks[1].finish();
+    await flush();
+
+    expect(tasks[2].started).toBe(true);
+    expect(worker.size).toBe(2);
+  });
+
+  it("should drop a queued job when it is cancelled", async () => {
+    // Arrange
+    const worker = new GenerationWorker(1);
+    const first = controllableTask();
+    const second = controllableTask();
+    worker.enqueue(1, first.run);
+    worker.enqueue(2, second.run);
+
+    // Act
+    const cancelled = worker.cancel(2);
+    first.finish();
+    await flush();
+
+    // Assert
+    expect(cancelled).toBe(true);
+    expect(second.started).toBe(false);
+    expect(worker.size).toBe(0);
+  });
+
+  it("should abort the signal of a running job when it is cancelled", async () => {
+    // Arrange
+    const worker = new GenerationWorker(1);
+    const task = controllableTask();
+    worker.enqueue(1, task.run);
+
+    // Act
+    const cancelled = worker.cancel(1);
+    await flush();
+
+    // Assert
+    expect(cancelled).toBe(true);
+    expect(task.aborted).toBe(true);
+    expect(worker.size).toBe(0);
+  });
+
+  it("should report jobs it does not have", () => {
+    // Arrange
+    const worker = new GenerationWorker();
+
+    // Act & Assert
+    expect(worker.cancel(42)).toBe(false);
+  });
+
+  it("should keep running the queue after a task fails", async () => {
+    // Arrange
+    const worker = new GenerationWorker(1);
+    const next = controllableTask();
+
+    // Act
+    worker.enqueue(1, () => Promise.reject(new Error("boom")));
+    worker.enqueue(2, next.run);
+    await flush();
+
+    // Assert
+    expect(next.started).toBe(true);
+  });
+
+  it("should beat the heartbeats of its queued and running jobs until they finish", async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const worker = new GenerationWorker(1, 1000);
+    const running = controllableTask();
+    const queued = controllableTask();
+    const runningHeartbeat = vi.fn().mockResolvedValue(undefined);
+    const queuedHeartbeat = vi.fn().mockResolvedValue(undefined);
+    worker.enqueue(1, running.run, runningHeartbeat);
+    worker.enqueue(2, queued.run, queuedHeartbeat);
+
+    // Act
+    await vi.advanceTimersByTimeAsync(2000);
+
+    // Assert
+    expect(runningHeartbeat).toHaveBeenCalledTimes(2);
+    expect(queuedHeartbeat).toHaveBeenCalledTimes(2);
+
+    running.finish();
+    await vi.advanceTimersByTimeAsync(0);
+    queued.finish();
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(worker.size).toBe(0);
+    expect(runningHeartbeat).toHaveBeenCalledTimes(2);
+    expect(queuedHeartbeat).toHaveBeenCalledTimes(2);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should keep beating after a heartbeat fails", async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const worker = new GenerationWorker(1, 1000);
+    const heartbeat = vi.fn().mockRejectedValueOnce(new Error("network")).mockResolvedValue(undefined);
+    worker.enqueue(1, controllableTask().run, heartbeat);
+
+    // Act
+    await vi.advanceTimersByTimeAsync(2000);
+
+    // Assert
+    expect(heartbeat).toHaveBeenCalledTimes(2);
+    worker.cancel(1);
+  });
+});
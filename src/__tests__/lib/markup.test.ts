@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for Markup Extraction
+ * Tests cover: HTML boilerplate removal, main-content detection, headings and lists, entities,
+ * Markdown cleanup, and splitting into sections at headings
+ */
+
+import { describe, it, expect } from "vitest";
+import { cleanMarkdown, decodeEntities, htmlToText, splitByHeadings } from "@/lib/extraction/markup";
+
+describe("htmlToText", () => {
+  it("should drop scripts, styles and page furniture", () => {
+    // Arrange
+    const html = `<!DOCTYPE html>
+      <html><head><title>Cells &amp; Tissues</title><style>p { color: red }</style></head>
+      <body>
+        <header><a href="/">Home</a></header>
+        <nav><ul><li>Menu item</li></ul></nav>
+        <div role="navigation">Breadcrumbs</div>
+        <h1>Cells</h1>
+        <p>Cells are the <b>basic unit</b> of life.</p>
+        <script>var x = "<p>not text</p>";</script>
+        <aside>Related posts</aside>
+        <div hidden>Hidden text</div>
+        <footer>© 2024</footer>
+      </body></html>`;
+
+    // Act
+    const result = htmlToText(html);
+
+    // Assert
+    expect(result.title).toBe("Cells & Tissues");
+    expect(result.text).toBe("# Cells\n\nCells are the basic unit of life.");
+  });
+
+  it("should keep only the main content when the page marks it", () => {
+    // Arrange
+    const html = `<body><div class="sidebar">Sidebar links</div>
+      <main><div><h2>Mitosis</h2><p>Mitosis divides a cell.</p></div></main>
+      <div>Cookie banner</div></body>`;
+
+    // Act
+    const { text } = htmlToText(html);
+
+    // Assert
+    expect(text).toBe("## Mitosis\n\nMitosis divides a cell.");
+  });
+
+  it("should keep the main content of an element with the main role", () => {
+    // Act
+    const { text } = htmlToText('<div>Skip me</div><div role="main"><div><p>Keep me</p></div></div><p>And skip</p>');
+
+    // Assert
+    expect(text).toBe("Keep me");
+  });
+
+  it("should turn lists, line breaks and preformatted text into lines", () => {
+    // Arrange
+    const html = "<p>Steps:</p><ol><li>Prophase</li><li>Metaphase</li></ol><p>One<br>Two</p><pre>a  b\n  c</pre>";
+
+    // Act
+    const { text } = htmlToText(html);
+
+    // Assert
+    expect(text).toBe("Steps:\n\n- Prophase\n- Metaphase\n\nOne\nTwo\n\na  b\n  c");
+  });
+
+  it("should not drop content whose class merely mentions hidden", () => {
+    // Act
+    const { text } = htmlToText('<p class="hidden md:block">Visible on desktop</p>');
+
+    // Assert
+    expect(text).toBe("Visible on desktop");
+  });
+});
+
+describe("decodeEntities", () => {
+  it("should decode named and numeric references and keep unknown ones", () => {
+    expect(decodeEntities("a&nbsp;&lt;b&gt; &#8217; &#x41; &unknown;")).toBe("a <b> ’ A &unknown;");
+  });
+});
+
+describe("cleanMarkdown", () => {
+  it("should remove front matter, comments, images and link targets", () => {
+    // Arrange
+    const markdown = [
+      "---",
+      "title: Notes",
+      "---",
+      "<!-- draft -->",
+      "See ![diagram](img.png)[the docs](https://example.com).",
+      "",
+      "[ref]: https://example.com/ref",
+    ].join("\n");
+
+    // Act
+    const result = cleanMarkdown(markdown);
+
+    // Assert
+    expect(result).toBe("See the docs.");
+  });
+
+  it("should turn Setext headings into ATX headings outside code blocks", () => {
+    // Arrange
+    const markdown = "Title\n=====\n\nIntro\n\nPart\n----\n\n```\ncode\n---\n```";
+
+    // Act
+    const result = cleanMarkdown(markdown);
+
+    // Assert
+    expect(result).toBe("# Title\n\nIntro\n\n## Part\n\n```\ncode\n---\n```");
+  });
+});
+
+describe("splitByHeadings", () => {
+  it("should start a section at each heading up to level 3", () => {
+    // Arrange
+    const text =
+      "Preface text.\n\n# One\n\nFirst.\n\n## One.A\n\nNested.\n\n#### Deep\n\nStill One.A.\n\n# Two\n\nSecond.";
+
+    // Act
+    const sections = splitByHeadings(text);
+
+    // Assert
+    expect(sections).toEqual([
+      { title: "Introduction", level: 1, text: "Preface text." },
+      { title: "One", level: 1, text: "# One\n\nFirst." },
+      { title: "One.A", level: 2, text: "## One.A\n\nNested.\n\n#### Deep\n\nStill One.A." },
+      { title: "Two", level: 1, text: "# Two\n\nSecond." },
+    ]);
+  });
+
+  it("should leave out headings without text and ignore headings in code blocks", () => {
+    // Arrange
+    const text = "# Book\n\n## Chapter\n\n```\n# not a heading\n```";
+
+    // Act
+    const sections = splitByHeadings(text);
+
+    // Assert
+    expect(sections).toEqual([{ title: "Chapter", level: 2, text: "## Chapter\n\n```\n# not a heading\n```" }]);
+  });
+
+  it("should strip emphasis markers from titles", () => {
+    expect(splitByHeadings("## The *cell* cycle ##\n\nText.")[0].title).toBe("The cell cycle");
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Unit Tests for the OpenAI-Compatible API Client
+ * Tests cover: request target and headers (with and without an API key), JSON responses,
+ * incremental parsing of streamed completions, source quotes, refining a card, usage reporting, errors reported
+ * mid-stream and cancelling a call that waits to retry
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { LLMApiError, OpenAICompatibleClient } from "@/lib/llm/openai-compatible.client";
+import { OpenRouterClient } from "@/lib/llm/openrouter.client";
+import { PROMPT_VERSION } from "@/lib/llm/prompt";
+
+const TEXT = "Spaced repetition schedules reviews at growing intervals. ".repeat(20);
+
+const CARDS = [
+  { front: "What is spaced repetition?", back: "Reviewing at growing intervals" },
+  { front: "Why does it work?", back: "It exploits the spacing effect" },
+];
+
+const USAGE = { prompt_tokens: 300, completion_tokens: 80, total_tokens: 380, cost: 0.0012 };
+
+/**
+ * Chat completion response carrying `content`, and `usage` if passed
+ */
+const completion = (content: string, usage?: typeof USAGE) =>
+  new Response(
+    JSON.stringify({
+      id: "gen-1",
+      model: "m",
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage,
+    })
+  );
+
+/**
+ * Streamed chat completion: `content` is sent in deltas of `size` characters, then `usage` if passed, then [DONE]
+ */
+const streamedCompletion = (content: string, size: number, usage?: typeof USAGE) => {
+  const encoder = new TextEncoder();
+  const events: string[] = [": keep-alive\n\n"];
+  for (let i = 0; i < content.length; i += size) {
+    events.push(
+      `data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(i, i + size) }, finish_reason: null }] })}\n\n`
+    );
+  }
+  if (usage) {
+    events.push(`data: ${JSON.stringify({ model: "m", choices: [], usage })}\n\n`);
+  }
+  events.push("data: [DONE]\n\n");
+
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        events.forEach((event) => controller.enqueue(encoder.encode(event)));
+        controller.close();
+      },
+    })
+  );
+};
+
+const collect = async (stream: AsyncGenerator<unknown>) => {
+  const items = [];
+  for await (const item of stream) items.push(item);
+  return items;
+};
+
+describe("OpenAICompatibleClient", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should call the configured server without an Authorization header when no API key is set", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(completion(JSON.stringify({ flashcards: CARDS })));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1/", model: "qwen2.5" });
+
+    // Act
+    const cards = await client.generateFlashcards(TEXT, 5);
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    expect(init.headers).not.toHaveProperty("Authorization");
+    expect(JSON.parse(init.body)).toMatchObject({ model: "qwen2.5" });
+    expect(cards).toEqual(CARDS);
+  });
+
+  it("should send the API key and app headers for OpenRouter", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(completion(JSON.stringify({ flashcards: CARDS })));
+    const client = new OpenRouterClient("sk-or-test");
+
+    // Act
+    await client.generateFlashcards(TEXT, 5);
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://openrouter.ai/api/v1/chat/completions");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer sk-or-test", "X-Title": "10x Cards" });
+  });
+
+  it("should ask OpenRouter for usage accounting and report the tokens and cost", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(completion(JSON.stringify({ flashcards: CARDS }), USAGE));
+    const client = new OpenRouterClient("sk-or-test");
+    const onUsage = vi.fn();
+
+    // Act
+    await client.generateFlashcards(TEXT, 5, {}, onUsage);
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ usage: { include: true } });
+    expect(onUsage).toHaveBeenCalledWith({
+      model: "m",
+      promptTokens: 300,
+      completionTokens: 80,
+      cost: 0.0012,
+      promptVersion: PROMPT_VERSION,
+    });
+  });
+
+  it("should not report usage when the server sends none", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(completion(JSON.stringify({ flashcards: CARDS })));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+    const onUsage = vi.fn();
+
+    // Act
+    await client.generateFlashcards(TEXT, 5, {}, onUsage);
+
+    // Assert
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+
+  it("should stop waiting to retry a failed call when the signal is aborted", async () => {
+    // Arrange - the first call fails with a server error, which is retried after 2 seconds
+    fetchMock.mockResolvedValue(new Response("Bad gateway", { status: 502 }));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+    const controller = new AbortController();
+
+    // Act
+    const pending = client.generateFlashcards(TEXT, 5, {}, undefined, controller.signal).catch((e) => e);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    controller.abort();
+    const error = await pending;
+
+    // Assert
+    expect(error).toBeInstanceOf(LLMApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+
+  it("should yield streamed cards as they complete and stop at the budget", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(streamedCompletion(JSON.stringify({ flashcards: [...CARDS, ...CARDS] }), 7));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+
+    // Act
+    const cards = await collect(client.streamFlashcards(TEXT, 3));
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ stream: true });
+    expect(cards).toEqual([...CARDS, CARDS[0]]);
+  });
+
+  it("should request and report the usage sent at the end of a stream", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(streamedCompletion(JSON.stringify({ flashcards: CARDS }), 11, USAGE));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+    const onUsage = vi.fn();
+
+    // Act
+    await collect(client.streamFlashcards(TEXT, 5, {}, onUsage));
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ stream_options: { include_usage: true } });
+    expect(onUsage).toHaveBeenCalledWith({
+      model: "m",
+      promptTokens: 300,
+      completionTokens: 80,
+      cost: 0.0012,
+      promptVersion: PROMPT_VERSION,
+    });
+  });
+
+  it("should report the usage sent after the card limit was reached", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(streamedCompletion(JSON.stringify({ flashcards: [...CARDS, ...CARDS] }), 7, USAGE));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+    const onUsage = vi.fn();
+
+    // Act
+    const cards = await collect(client.streamFlashcards(TEXT, 1, {}, onUsage));
+
+    // Assert
+    expect(cards).toEqual([CARDS[0]]);
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: 300, completionTokens: 80 }));
+  });
+
+  it("should ask for the quoted source passage of each card and keep it", async () => {
+    // Arrange
+    const quoted = { ...CARDS[0], source_quote: "Spaced repetition schedules reviews at growing intervals." };
+    fetchMock.mockResolvedValue(
+      completion(JSON.stringify({ flashcards: [quoted, { ...CARDS[1], source_quote: 42 }] }))
+    );
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+
+    // Act
+    const cards = await client.generateFlashcards(TEXT, 5);
+
+    // Assert - a malformed quote is dropped, not the card
+    const items = JSON.parse(fetchMock.mock.calls[0][1].body).response_format.json_schema.schema.properties.flashcards
+      .items;
+    expect(items.properties).toHaveProperty("source_quote");
+    expect(items.required).toEqual(["front", "back", "source_quote"]);
+    expect(cards).toEqual([quoted, CARDS[1]]);
+  });
+
+  it("should refine a card within the requested number of cards, dropping cards over the length limits", async () => {
+    // Arrange
+    const tooLong = { front: "Q".repeat(201), back: "A" };
+    fetchMock.mockResolvedValue(completion(JSON.stringify({ flashcards: [tooLong, ...CARDS] })));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+
+    // Act
+    const cards = await client.refineFlashcard(CARDS[0], "split into two", 1, "Passage");
+
+    // Assert
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.response_format.json_schema.schema.properties.flashcards.maxItems).toBe(1);
+    expect(body.response_format.json_schema.schema.properties.flashcards.items.required).toEqual(["front", "back"]);
+    expect(body.messages[1].content).toContain('Instruction: "split into two"');
+    expect(cards).toEqual([CARDS[0]]);
+  });
+
+  it("should throw LLMApiError when the stream reports an error", async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(new Response('data: {"error":{"code":429,"message":"Rate limited"}}\n\n'));
+    const client = new OpenAICompatibleClient({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5" });
+
+    // Act
+    const error = await collect(client.streamFlashcards(TEXT, 3)).catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(LLMApiError);
+    expect(error.statusCode).toBe(429);
+    expect(error.message).toBe("Rate limited");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for PDF Extraction
+ * Tests cover: text of each page, running header and footer removal, rejoined hyphenation,
+ * sections from the outline or from runs of pages, and the metadata title
+ */
+
+import { describe, it, expect } from "vitest";
+import { extractPdf, removeRunningLines } from "@/lib/extraction/pdf";
+
+/**
+ * Build an uncompressed PDF with one text line per entry of each page, an optional outline and title
+ */
+function buildPdf(pages: string[][], options: { outline?: { title: string; page: number }[]; title?: string } = {}) {
+  const { outline = [], title } = options;
+  const pageId = (index: number) => 4 + index * 2;
+  const outlineId = 4 + pages.length * 2;
+  const infoId = outline.length > 0 ? outlineId + 1 + outline.length : outlineId;
+  const objects: string[] = [
+    `<< /Type /Catalog /Pages 2 0 R${outline.length > 0 ? ` /Outlines ${outlineId} 0 R` : ""} >>`,
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  pages.forEach((lines, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td 14 TL ${lines.map((line) => `(${line}) Tj T*`).join(" ")} ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId(i) + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  if (outline.length > 0) {
+    const itemId = (index: number) => outlineId + 1 + index;
+    objects.push(
+      `<< /Type /Outlines /First ${itemId(0)} 0 R /Last ${itemId(outline.length - 1)} 0 R /Count ${outline.length} >>`
+    );
+    outline.forEach((item, i) => {
+      const links = [i > 0 && `/Prev ${itemId(i - 1)} 0 R`, i < outline.length - 1 && `/Next ${itemId(i + 1)} 0 R`];
+      objects.push(
+        `<< /Title (${item.title}) /Parent ${outlineId} 0 R ${links.filter(Boolean).join(" ")} /Dest [${pageId(item.page)} 0 R /Fit] >>`
+      );
+    });
+  }
+
+  objects.push(`<< /Title (${title ?? ""}) >>`);
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
+
+describe("extractPdf", () => {
+  it("should split a PDF without an outline into runs of pages", async () => {
+    // Arrange
+    const pages = Array.from({ length: 12 }, (_, i) => [`Body text ${String.fromCharCode(65 + i)}.`]);
+
+    // Act
+    const result = await extractPdf(buildPdf(pages, { title: "Biology Notes" }));
+
+    // Assert
+    expect(result.title).toBe("Biology Notes");
+    expect(result.sections.map((section) => section.title)).toEqual(["Pages 1–10", "Pages 11–12"]);
+    expect(result.sections[1].text).toBe("Body text K.\n\nBody text L.");
+  });
+
+  it("should make a section of each outline entry, with pages before the first as front matter", async () => {
+    // Arrange
+    const pages = [["Preface."], ["Chapter one starts."], ["Chapter one ends."], ["Chapter two."]];
+    const outline = [
+      { title: "Chapter 1", page: 1 },
+      { title: "Chapter 2", page: 3 },
+    ];
+
+    // Act
+    const result = await extractPdf(buildPdf(pages, { outline }));
+
+    // Assert
+    expect(result.title).toBeNull();
+    expect(result.sections).toEqual([
+      { title: "Front matter", level: 1, text: "Preface." },
+      { title: "Chapter 1", level: 1, text: "Chapter one starts.\n\nChapter one ends." },
+      { title: "Chapter 2", level: 1, text: "Chapter two." },
+    ]);
+  });
+
+  it("should rejoin words hyphenated across lines", async () => {
+    // Act
+    const result = await extractPdf(buildPdf([["Light drives photo-", "synthesis in plants.", "Well-known fact."]]));
+
+    // Assert
+    expect(result.sections[0].text).toBe("Light drives photosynthesis in plants.\nWell-known fact.");
+  });
+
+  it("should give no sections for a PDF without text", async () => {
+    // Act
+    const result = await extractPdf(buildPdf([[], []]));
+
+    // Assert
+    expect(result.sections).toEqual([]);
+  });
+});
+
+describe("removeRunningLines", () => {
+  it("should remove headers, footers and page numbers repeated on most pages", () => {
+    // Arrange
+    const topics = ["Cells", "Tissues", "Organs", "Systems"];
+    const pages = topics.map(
+      (topic, i) => `Intro to Biology\n${topic} are described here.\nWhy ${topic} matter.\n${i + 1} of 4`
+    );
+
+    // Act
+    const result = removeRunningLines(pages);
+
+    // Assert
+    expect(result).toEqual(topics.map((topic) => `${topic} are described here.\nWhy ${topic} matter.`));
+  });
+
+  it("should keep repeated lines in the middle of a page and lines on few pages", () => {
+    // Arrange
+    const pages = [
+      "Title page\nA\nB\nRepeated body line\nC\nD",
+      "Other top\nE\nF\nRepeated body line\nG\nH",
+      "Third top\nI\nJ\nRepeated body line\nK\nL",
+    ];
+
+    // Act
+    const result = removeRunningLines(pages);
+
+    // Assert
+    expect(result).toEqual(pages);
+  });
+});
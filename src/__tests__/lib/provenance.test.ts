@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for Source Provenance
+ * Tests cover: locating quotes despite case, punctuation and whitespace changes, rejecting short or
+ * unknown quotes, excerpts cut at word boundaries, and spans stored on flashcard rows
+ */
+
+import { describe, it, expect } from "vitest";
+import { createSourceLocator, excerptSource, toSourceSpan } from "@/lib/generation/provenance";
+
+const TEXT =
+  "Photosynthesis happens in chloroplasts. The light reactions produce ATP and NADPH, which the Calvin cycle uses to fix carbon.";
+
+describe("createSourceLocator", () => {
+  it("should give the span of a verbatim quote", () => {
+    // Arrange
+    const locate = createSourceLocator(TEXT);
+    const quote = "The light reactions produce ATP and NADPH";
+
+    // Act
+    const span = locate(quote);
+
+    // Assert
+    expect(span).toEqual({ start: TEXT.indexOf(quote), end: TEXT.indexOf(quote) + quote.length });
+  });
+
+  it("should locate a quote that differs in case, punctuation and whitespace", () => {
+    // Arrange
+    const locate = createSourceLocator(TEXT);
+
+    // Act
+    const span = locate("the light\n reactions produce ATP and NADPH which the calvin cycle uses");
+
+    // Assert
+    expect(span && TEXT.slice(span.start, span.end)).toBe(
+      "The light reactions produce ATP and NADPH, which the Calvin cycle uses"
+    );
+  });
+
+  it("should give no span for a missing, short or unknown quote", () => {
+    // Arrange
+    const locate = createSourceLocator(TEXT);
+
+    // Act & Assert
+    expect(locate(undefined)).toBeNull();
+    expect(locate("ATP")).toBeNull();
+    expect(locate("Mitochondria are the powerhouse of the cell")).toBeNull();
+  });
+
+  it("should end the span after a character outside the basic plane", () => {
+    // Arrange
+    const text = "Intro. The symbol for the element is 𝔸𝔹 here.";
+    const locate = createSourceLocator(text);
+
+    // Act
+    const span = locate("The symbol for the element is 𝔸𝔹");
+
+    // Assert
+    expect(span && text.slice(span.start, span.end)).toBe("The symbol for the element is 𝔸𝔹");
+  });
+});
+
+describe("excerptSource", () => {
+  it("should return the whole text around a passage when it is short", () => {
+    // Act
+    const excerpt = excerptSource(TEXT, { start: 40, end: 81 });
+
+    // Assert
+    expect(excerpt).toEqual({
+      before: "Photosynthesis happens in chloroplasts. ",
+      passage: "The light reactions produce ATP and NADPH",
+      after: ", which the Calvin cycle uses to fix carbon.",
+    });
+  });
+
+  it("should cut the context at word boundaries", () => {
+    // Act
+    const excerpt = excerptSource(TEXT, { start: 40, end: 81 }, 16);
+
+    // Assert
+    expect(excerpt.before).toBe("chloroplasts. ");
+    expect(excerpt.after).toBe(", which the");
+  });
+
+  it("should clamp a span that runs past the text", () => {
+    // Act
+    const excerpt = excerptSource("Short text.", { start: 6, end: 50 });
+
+    // Assert
+    expect(excerpt).toEqual({ before: "Short ", passage: "text.", after: "" });
+  });
+});
+
+describe("toSourceSpan", () => {
+  it("should give a span only when both offsets are set", () => {
+    expect(toSourceSpan(3, 10)).toEqual({ start: 3, end: 10 });
+    expect(toSourceSpan(null, null)).toBeNull();
+    expect(toSourceSpan(3, undefined)).toBeNull();
+  });
+});
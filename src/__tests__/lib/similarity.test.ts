@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for Card Similarity
+ * Tests cover: normalization, similarity bounds, rewordings and picking the closest duplicate
+ */
+
+import { describe, it, expect } from "vitest";
+import { findDuplicate, normalizeCardText, textSimilarity } from "@/lib/generation/similarity";
+
+describe("normalizeCardText", () => {
+  it("should ignore case, punctuation and extra whitespace", () => {
+    // Act & Assert
+    expect(normalizeCardText("  What's  the  Krebs-cycle?! ")).toBe("what s the krebs cycle");
+  });
+});
+
+describe("textSimilarity", () => {
+  it("should be 1 for texts equal after normalization and 0 for unrelated texts", () => {
+    // Act & Assert
+    expect(textSimilarity("What is HTTP?", "what is http")).toBe(1);
+    expect(textSimilarity("abc", "xyz")).toBe(0);
+  });
+
+  it("should score a small rewording higher than a different question", () => {
+    // Act
+    const reworded = textSimilarity("What is the capital of France?", "What's the capital city of France?");
+    const different = textSimilarity("What is the capital of France?", "When did the French Revolution start?");
+
+    // Assert
+    expect(reworded).toBeGreaterThan(0.8);
+    expect(different).toBeLessThan(0.5);
+  });
+});
+
+describe("findDuplicate", () => {
+  const existing = [
+    { id: 1, front: "What is the capital of France?", back: "Paris" },
+    { id: 2, front: "What is the capital of Germany?", back: "Berlin" },
+  ];
+
+  it("should return the closest existing card above the threshold", () => {
+    // Act
+    const match = findDuplicate({ front: "What's the capital of Germany?", back: "Berlin." }, existing);
+
+    // Assert
+    expect(match).toMatchObject({ id: 2, front: "What is the capital of Germany?" });
+    expect(match?.similarity).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it("should return null when no card is similar enough", () => {
+    // Act & Assert
+    expect(findDuplicate({ front: "Who painted the Mona Lisa?", back: "Leonardo da Vinci" }, existing)).toBeNull();
+    expect(findDuplicate({ front: "What is the capital of France?", back: "Paris" }, [])).toBeNull();
+  });
+
+  it("should not flag the same question with an unrelated answer", () => {
+    // Act & Assert
+    expect(findDuplicate({ front: "What is the capital of France?", back: "Lyon was..." }, existing, 0.9)).toBeNull();
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Unit Tests for the SM-2 Scheduler
+ * Tests cover: every grade on new, young and mature cards, ease factor bounds, interval ordering,
+ * due date calculation and normalization of out-of-range input
+ */
+
+import { describe, it, expect } from "vitest";
+import { clampEaseFactor, scheduleReview } from "@/lib/scheduling/sm2";
+import type { ReviewGrade } from "@/types";
+import { ValidationConstraints } from "@/types";
+
+const GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+const NOW = new Date("2025-11-26T15:30:00Z");
+const { minEaseFactor, maxEaseFactor, defaultEaseFactor } = ValidationConstraints.fsrs;
+
+describe("scheduleReview", () => {
+  describe("new cards (interval 0)", () => {
+    it.each([
+      ["again", 2.3, 1],
+      ["hard", 2.35, 1],
+      ["good", 2.5, 1],
+      ["easy", 2.65, 4],
+    ] as const)("should schedule '%s' with ease %s and interval %s", (grade, ease, interval) => {
+      // Act
+      const result = scheduleReview({ ease_factor: defaultEaseFactor, interval: 0 }, grade, NOW);
+
+      // Assert
+      expect(result.ease_factor).toBe(ease);
+      expect(result.interval).toBe(interval);
+    });
+  });
+
+  describe("young cards (interval 1)", () => {
+    it.each([
+      ["again", 1],
+      ["hard", 1],
+      ["good", 6],
+      ["easy", 8],
+    ] as const)("should schedule '%s' with interval %s", (grade, interval) => {
+      // Act
+      const result = scheduleReview({ ease_factor: defaultEaseFactor, interval: 1 }, grade, NOW);
+
+      // Assert
+      expect(result.interval).toBe(interval);
+    });
+  });
+
+  describe("mature cards", () => {
+    it.each([
+      ["again", 1],
+      ["hard", 12],
+      ["good", 25],
+      ["easy", 33],
+    ] as const)("should schedule '%s' on a 10-day card with interval %s", (grade, interval) => {
+      // Act
+      const result = scheduleReview({ ease_factor: 2.5, interval: 10 }, grade, NOW);
+
+      // Assert
+      expect(result.interval).toBe(interval);
+    });
+
+    it("should multiply the interval by the current ease factor on 'good'", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 1.8, interval: 20 }, "good", NOW);
+
+      // Assert
+      expect(result.interval).toBe(36);
+      expect(result.ease_factor).toBe(1.8);
+    });
+
+    it("should never shorten the interval on 'hard'", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: minEaseFactor, interval: 2 }, "hard", NOW);
+
+      // Assert
+      expect(result.interval).toBeGreaterThanOrEqual(2);
+    });
+
+    it("should reset the interval on 'again' regardless of maturity", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 3.2, interval: 400 }, "again", NOW);
+
+      // Assert
+      expect(result.interval).toBe(1);
+      expect(result.ease_factor).toBe(3);
+    });
+  });
+
+  describe("interval ordering", () => {
+    it.each([0, 1, 2, 5, 10, 30, 100, 365])("should order again <= hard <= good < easy at interval %s", (interval) => {
+      for (const ease of [minEaseFactor, 2.0, defaultEaseFactor, maxEaseFactor]) {
+        // Act
+        const [again, hard, good, easy] = GRADES.map(
+          (grade) => scheduleReview({ ease_factor: ease, interval }, grade, NOW).interval
+        );
+
+        // Assert
+        expect(again).toBeLessThanOrEqual(hard);
+        expect(hard).toBeLessThanOrEqual(good);
+        expect(good).toBeLessThan(easy);
+      }
+    });
+
+    it.each(GRADES)("should always schedule '%s' at least one day ahead", (grade) => {
+      for (const interval of [0, 1, 3, 50]) {
+        // Act
+        const result = scheduleReview({ ease_factor: minEaseFactor, interval }, grade, NOW);
+
+        // Assert
+        expect(result.interval).toBeGreaterThanOrEqual(1);
+        expect(result.next_review_date > "2025-11-26").toBe(true);
+      }
+    });
+
+    it("should cap very long intervals", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: maxEaseFactor, interval: 30000 }, "easy", NOW);
+
+      // Assert
+      expect(result.interval).toBe(36500);
+    });
+  });
+
+  describe("ease factor bounds", () => {
+    it("should not drop below the minimum ease factor", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 1.35, interval: 10 }, "again", NOW);
+
+      // Assert
+      expect(result.ease_factor).toBe(minEaseFactor);
+    });
+
+    it("should not exceed the maximum ease factor", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 3.95, interval: 10 }, "easy", NOW);
+
+      // Assert
+      expect(result.ease_factor).toBe(maxEaseFactor);
+    });
+
+    it.each(GRADES)("should keep '%s' results within bounds for any starting ease", (grade) => {
+      for (const ease of [0, 1.3, 2.5, 4, 10]) {
+        // Act
+        const result = scheduleReview({ ease_factor: ease, interval: 5 }, grade, NOW);
+
+        // Assert
+        expect(result.ease_factor).toBeGreaterThanOrEqual(minEaseFactor);
+        expect(result.ease_factor).toBeLessThanOrEqual(maxEaseFactor);
+      }
+    });
+
+    it("should round the ease factor to two decimals", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 2.333333, interval: 5 }, "hard", NOW);
+
+      // Assert
+      expect(result.ease_factor).toBe(2.18);
+    });
+  });
+
+  describe("due date", () => {
+    it("should add the interval to the review date in UTC", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 2.5, interval: 0 }, "easy", NOW);
+
+      // Assert
+      expect(result.next_review_date).toBe("2025-11-30");
+    });
+
+    it("should roll over month and year boundaries", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 2.5, interval: 1 }, "good", new Date("2025-12-28T23:59:00Z"));
+
+      // Assert
+      expect(result.next_review_date).toBe("2026-01-03");
+    });
+
+    it("should not mutate the given date", () => {
+      // Arrange
+      const now = new Date(NOW);
+
+      // Act
+      scheduleReview({ ease_factor: 2.5, interval: 10 }, "good", now);
+
+      // Assert
+      expect(now.toISOString()).toBe(NOW.toISOString());
+    });
+  });
+
+  describe("input normalization", () => {
+    it("should treat a negative or non-finite interval as a new card", () => {
+      // Act
+      const negative = scheduleReview({ ease_factor: 2.5, interval: -3 }, "easy", NOW);
+      const notANumber = scheduleReview({ ease_factor: 2.5, interval: Number.NaN }, "easy", NOW);
+
+      // Assert
+      expect(negative.interval).toBe(4);
+      expect(notANumber.interval).toBe(4);
+    });
+
+    it("should clamp an out-of-range ease factor before scheduling", () => {
+      // Act
+      const result = scheduleReview({ ease_factor: 9, interval: 10 }, "good", NOW);
+
+      // Assert
+      expect(result.interval).toBe(40);
+      expect(result.ease_factor).toBe(maxEaseFactor);
+    });
+  });
+});
+
+describe("clampEaseFactor", () => {
+  it.each([
+    [0, 1.3],
+    [1.3, 1.3],
+    [2.456, 2.46],
+    [4, 4],
+    [5.5, 4],
+  ])("should clamp %s to %s", (input, expected) => {
+    expect(clampEaseFactor(input)).toBe(expected);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for Server-Sent Events encoding and decoding
+ * Tests cover: round trips, events split across chunks, comments, multi-line data and CRLF line endings
+ */
+
+import { describe, it, expect } from "vitest";
+import { encodeSseEvent, SseDecoder } from "@/lib/generation/sse";
+
+describe("encodeSseEvent", () => {
+  it("should format a named event with a JSON payload", () => {
+    // Act & Assert
+    expect(encodeSseEvent("card", { id: 1 })).toBe('event: card\ndata: {"id":1}\n\n');
+  });
+});
+
+describe("SseDecoder", () => {
+  it("should decode encoded events split across arbitrary chunks", () => {
+    // Arrange
+    const stream = encodeSseEvent("card", { id: 1, front: "Q" }) + encodeSseEvent("done", { generation_id: 7 });
+    const decoder = new SseDecoder();
+
+    // Act
+    const events = [];
+    for (let i = 0; i < stream.length; i += 5) {
+      events.push(...decoder.push(stream.slice(i, i + 5)));
+    }
+
+    // Assert
+    expect(events).toEqual([
+      { event: "card", data: '{"id":1,"front":"Q"}' },
+      { event: "done", data: '{"generation_id":7}' },
+    ]);
+  });
+
+  it("should hold back an event until its terminating blank line arrives", () => {
+    // Arrange
+    const decoder = new SseDecoder();
+
+    // Act & Assert
+    expect(decoder.push("data: first")).toEqual([]);
+    expect(decoder.push("\n\n")).toEqual([{ event: "message", data: "first" }]);
+  });
+
+  it("should skip comments and join multi-line data", () => {
+    // Arrange
+    const decoder = new SseDecoder();
+
+    // Act
+    const events = decoder.push(": OPENROUTER PROCESSING\n\ndata: line one\ndata: line two\n\ndata: [DONE]\n\n");
+
+    // Assert
+    expect(events).toEqual([
+      { event: "message", data: "line one\nline two" },
+      { event: "message", data: "[DONE]" },
+    ]);
+  });
+
+  it("should accept CRLF line endings split between chunks", () => {
+    // Arrange
+    const decoder = new SseDecoder();
+
+    // Act
+    const events = [...decoder.push("event: card\r\ndata: {}\r"), ...decoder.push("\n\r\n")];
+
+    // Assert
+    expect(events).toEqual([{ event: "card", data: "{}" }]);
+  });
+});
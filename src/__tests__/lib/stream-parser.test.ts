@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for the Flashcard Stream Parser
+ * Tests cover: cards split across arbitrary chunk boundaries, strings containing brackets and escapes,
+ * malformed elements, text around the JSON document and the end of the array
+ */
+
+import { describe, it, expect } from "vitest";
+import { FlashcardStreamParser } from "@/lib/generation/stream-parser";
+
+const document = JSON.stringify({
+  flashcards: [
+    { front: "What does {x} mean?", back: 'A "placeholder" with ] and } inside' },
+    { front: "Escapes", back: 'Backslash \\ and quote " survive' },
+    { front: "Nested", back: "Answer", tags: ["a", { b: 1 }] },
+  ],
+});
+
+/**
+ * Feed the text in pieces of `size` characters and collect everything the parser returns
+ */
+const parseInPieces = (text: string, size: number) => {
+  const parser = new FlashcardStreamParser();
+  const elements: unknown[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    elements.push(...parser.push(text.slice(i, i + size)));
+  }
+  return elements;
+};
+
+describe("FlashcardStreamParser", () => {
+  it.each([1, 3, 7, 64, 10000])("should parse every card when streamed in pieces of %s characters", (size) => {
+    // Act
+    const elements = parseInPieces(document, size);
+
+    // Assert
+    expect(elements).toEqual(JSON.parse(document).flashcards);
+  });
+
+  it("should return each card as soon as its object is complete", () => {
+    // Arrange
+    const parser = new FlashcardStreamParser();
+
+    // Act & Assert
+    expect(parser.push('{"flashcards": [{"front": "Q1", "back": "A1"')).toEqual([]);
+    expect(parser.push('}, {"front": "Q2",')).toEqual([{ front: "Q1", back: "A1" }]);
+    expect(parser.push(' "back": "A2"}]}')).toEqual([{ front: "Q2", back: "A2" }]);
+  });
+
+  it("should ignore text around the JSON document", () => {
+    // Act
+    const elements = parseInPieces('Here you go:\n```json\n{"flashcards":[{"front":"Q","back":"A"}]}\n```', 5);
+
+    // Assert
+    expect(elements).toEqual([{ front: "Q", back: "A" }]);
+  });
+
+  it("should stop at the end of the flashcards array", () => {
+    // Act
+    const elements = parseInPieces('{"flashcards":[{"front":"Q","back":"A"}],"extra":[{"front":"X","back":"Y"}]}', 4);
+
+    // Assert
+    expect(elements).toEqual([{ front: "Q", back: "A" }]);
+  });
+
+  it("should skip malformed elements and keep parsing", () => {
+    // Act
+    const elements = parseInPieces('{"flashcards":[{"front":"Q1" "back":"A1"},{"front":"Q2","back":"A2"}]}', 6);
+
+    // Assert
+    expect(elements).toEqual([{ front: "Q2", back: "A2" }]);
+  });
+});
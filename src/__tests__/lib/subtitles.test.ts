@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for Subtitle Extraction
+ * Tests cover: SRT and WebVTT parsing, removal of timestamps, headers and tags, rolling-caption
+ * deduplication, paragraphs, and time-range sections
+ */
+
+import { describe, it, expect } from "vitest";
+import { extractSubtitles } from "@/lib/extraction/subtitles";
+
+describe("extractSubtitles", () => {
+  it("should join SRT cues into text without numbers, timestamps or tags", () => {
+    // Arrange
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:03,500",
+      "<i>Welcome</i> to the lecture.",
+      "",
+      "2",
+      "00:00:04,000 --> 00:00:06,000",
+      "{\\an8}Today: enzymes &amp; catalysis.",
+      "",
+    ].join("\r\n");
+
+    // Act
+    const sections = extractSubtitles(srt);
+
+    // Assert
+    expect(sections).toEqual([
+      { title: "0:00–10:00", level: 1, text: "Welcome to the lecture. Today: enzymes & catalysis." },
+    ]);
+  });
+
+  it("should skip the WebVTT header, notes and styles and strip voice tags", () => {
+    // Arrange
+    const vtt = [
+      "WEBVTT - Lecture 3",
+      "Kind: captions",
+      "",
+      "NOTE This is a comment",
+      "",
+      "STYLE",
+      "::cue { color: yellow }",
+      "",
+      "intro",
+      "00:01.000 --> 00:02.000 align:start",
+      "<v Professor>Enzymes lower <00:01.500><c>activation energy.</c>",
+    ].join("\n");
+
+    // Act
+    const sections = extractSubtitles(vtt);
+
+    // Assert
+    expect(sections.map((section) => section.text)).toEqual(["Enzymes lower activation energy."]);
+  });
+
+  it("should keep lines repeated by rolling captions once", () => {
+    // Arrange
+    const vtt = [
+      "WEBVTT",
+      "",
+      "00:00:01.000 --> 00:00:02.000",
+      "the first line",
+      "",
+      "00:00:02.000 --> 00:00:03.000",
+      "the first line",
+      "the second line",
+      "",
+      "00:00:03.000 --> 00:00:04.000",
+      "the second line",
+      "the third line",
+    ].join("\n");
+
+    // Act
+    const sections = extractSubtitles(vtt);
+
+    // Assert
+    expect(sections[0].text).toBe("the first line the second line the third line");
+  });
+
+  it("should split the text into sections by time and paragraphs at sentence ends", () => {
+    // Arrange
+    const sentence = "A sentence long enough to fill paragraphs quickly when it is repeated many times.";
+    const cues = Array.from({ length: 12 }, (_, i) => {
+      const start = i * 60;
+      const time = (seconds: number) =>
+        `01:${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}.000`;
+      return `${time(start)} --> ${time(start + 30)}\n${i}. ${sentence}`;
+    });
+
+    // Act
+    const sections = extractSubtitles(`WEBVTT\n\n${cues.join("\n\n")}`);
+
+    // Assert
+    expect(sections.map((section) => section.title)).toEqual(["1:00:00–1:10:00", "1:10:00–1:20:00"]);
+    expect(sections[0].text.split("\n\n").length).toBeGreaterThan(1);
+    expect(sections[1].text).toBe(`10. ${sentence} 11. ${sentence}`);
+  });
+
+  it("should return no sections for a file without cues", () => {
+    expect(extractSubtitles("WEBVTT\n\nNOTE nothing here")).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for the quota time windows
+ * Tests cover: local day and month windows, time zones ahead of and behind UTC, daylight saving days,
+ * month and year rollover, and time zone validation
+ */
+
+import { describe, it, expect } from "vitest";
+import { getDayWindow, getMonthWindow, isValidTimeZone } from "@/lib/quota/time-windows";
+
+const iso = (window: { start: Date; end: Date }) => [window.start.toISOString(), window.end.toISOString()];
+
+describe("getDayWindow", () => {
+  it("should run from UTC midnight to UTC midnight in UTC", () => {
+    // Act & Assert
+    expect(iso(getDayWindow(new Date("2025-11-26T15:30:00Z"), "UTC"))).toEqual([
+      "2025-11-26T00:00:00.000Z",
+      "2025-11-27T00:00:00.000Z",
+    ]);
+  });
+
+  it("should use the local date of a time zone ahead of UTC", () => {
+    // Arrange - 23:30 UTC is already the next day in Warsaw (UTC+1 in winter)
+    const now = new Date("2025-11-26T23:30:00Z");
+
+    // Act & Assert
+    expect(iso(getDayWindow(now, "Europe/Warsaw"))).toEqual(["2025-11-26T23:00:00.000Z", "2025-11-27T23:00:00.000Z"]);
+  });
+
+  it("should use the local date of a time zone behind UTC", () => {
+    // Arrange - 03:00 UTC is still the previous evening in New York (UTC-5 in winter)
+    const now = new Date("2025-11-26T03:00:00Z");
+
+    // Act & Assert
+    expect(iso(getDayWindow(now, "America/New_York"))).toEqual([
+      "2025-11-25T05:00:00.000Z",
+      "2025-11-26T05:00:00.000Z",
+    ]);
+  });
+
+  it("should make the day the clocks go forward 23 hours long", () => {
+    // Act
+    const window = getDayWindow(new Date("2025-03-30T12:00:00Z"), "Europe/Warsaw");
+
+    // Assert
+    expect(iso(window)).toEqual(["2025-03-29T23:00:00.000Z", "2025-03-30T22:00:00.000Z"]);
+    expect(window.end.getTime() - window.start.getTime()).toBe(23 * 60 * 60 * 1000);
+  });
+});
+
+describe("getMonthWindow", () => {
+  it("should run from the first of the local month to the first of the next", () => {
+    // Act & Assert
+    expect(iso(getMonthWindow(new Date("2025-11-15T12:00:00Z"), "Europe/Warsaw"))).toEqual([
+      "2025-10-31T23:00:00.000Z",
+      "2025-11-30T23:00:00.000Z",
+    ]);
+  });
+
+  it("should roll over into the next year", () => {
+    // Act & Assert
+    expect(iso(getMonthWindow(new Date("2025-12-31T23:59:59Z"), "UTC"))).toEqual([
+      "2025-12-01T00:00:00.000Z",
+      "2026-01-01T00:00:00.000Z",
+    ]);
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("should accept IANA names and reject anything else", () => {
+    // Act & Assert
+    expect(isValidTimeZone("Europe/Warsaw")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for reading upload forms
+ * Tests cover: parsing a form within the limit, refusing a body by its Content-Length before reading it,
+ * cutting off a body that streams past the limit, and bodies that are not multipart
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { DocumentExtractionError } from "@/lib/extraction/extract-document";
+import { MULTIPART_OVERHEAD_BYTES, readUploadForm } from "@/lib/extraction/upload-form";
+import { ErrorCodes, ValidationConstraints } from "@/types";
+
+const BOUNDARY = "----upload-form-test";
+const LIMIT = ValidationConstraints.documentUpload.maxBytes + MULTIPART_OVERHEAD_BYTES;
+
+/**
+ * A multipart body with one file field
+ */
+const multipart = (content: string) =>
+  new TextEncoder().encode(
+    [
+      `--${BOUNDARY}`,
+      'Content-Disposition: form-data; name="file"; filename="notes.md"',
+      "Content-Type: text/markdown",
+      "",
+      content,
+      `--${BOUNDARY}--`,
+      "",
+    ].join("\r\n")
+  );
+
+/**
+ * A body stream of `chunks` chunks of `chunkSize` bytes, with its `pull` and `cancel` spies
+ */
+const streamOf = (chunks: number, chunkSize: number) => {
+  let sent = 0;
+  const pull = vi.fn((controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (sent++ < chunks) {
+      controller.enqueue(new Uint8Array(chunkSize));
+    } else {
+      controller.close();
+    }
+  });
+  const cancel = vi.fn();
+  return { stream: new ReadableStream<Uint8Array>({ pull, cancel }), pull, cancel };
+};
+
+const upload = (body: BodyInit, headers: Record<string, string> = {}) =>
+  new Request("http://localhost/api/ai/extract", {
+    method: "POST",
+    headers: { "Content-Type": `multipart/form-data; boundary=${BOUNDARY}`, ...headers },
+    body,
+    duplex: "half",
+  } as RequestInit);
+
+describe("readUploadForm", () => {
+  it("should parse the form of a body within the limit", async () => {
+    // Act
+    const form = await readUploadForm(upload(multipart("# Notes")));
+
+    // Assert
+    const file = form.get("file") as Blob & { name: string };
+    expect(file.name).toBe("notes.md");
+    expect(await file.text()).toBe("# Notes");
+  });
+
+  it("should refuse a body by its Content-Length without reading it", async () => {
+    // Arrange
+    const request = upload(multipart("# Notes"), { "Content-Length": String(LIMIT + 1) });
+
+    // Act
+    const error = await readUploadForm(request).catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(DocumentExtractionError);
+    expect(error.code).toBe(ErrorCodes.FILE_TOO_LARGE);
+    expect(error.statusCode).toBe(413);
+    expect(request.bodyUsed).toBe(false);
+  });
+
+  it("should stop reading a body once it streams past the limit", async () => {
+    // Arrange - far more than the limit, in 1 MB chunks
+    const chunkSize = 1024 * 1024;
+    const { stream, pull, cancel } = streamOf(100, chunkSize);
+
+    // Act
+    const error = await readUploadForm(upload(stream)).catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(DocumentExtractionError);
+    expect(error.code).toBe(ErrorCodes.FILE_TOO_LARGE);
+    expect(cancel).toHaveBeenCalled();
+    expect(pull.mock.calls.length).toBeLessThanOrEqual(Math.ceil(LIMIT / chunkSize) + 2);
+  });
+
+  it("should reject a body that is not multipart form data", async () => {
+    // Act
+    const error = await readUploadForm(upload("plain text", { "Content-Type": "text/plain" })).catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(TypeError);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for the Usage Tracker
+ * Tests cover: summing the usage of several calls, the prompt version, unknown cost and latency
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { UsageTracker } from "@/lib/llm/usage-tracker";
+
+describe("UsageTracker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-12-20T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should sum the tokens and cost of every call and time them", () => {
+    // Arrange
+    const tracker = new UsageTracker();
+
+    // Act
+    tracker.record({
+      model: "openai/gpt-4o-mini",
+      promptTokens: 100,
+      completionTokens: 30,
+      cost: 0.001,
+      promptVersion: "v1",
+    });
+    tracker.record({
+      model: "openai/gpt-4o-mini",
+      promptTokens: 50,
+      completionTokens: 20,
+      cost: 0.0005,
+      promptVersion: "v1",
+    });
+    vi.advanceTimersByTime(1200);
+
+    // Assert
+    expect(tracker.toLogFields()).toEqual({
+      model: "openai/gpt-4o-mini",
+      prompt_version: "v1",
+      prompt_tokens: 150,
+      completion_tokens: 50,
+      cost: 0.0015,
+      latency_ms: 1200,
+    });
+  });
+
+  it("should leave the model and cost unknown when nothing was reported", () => {
+    // Arrange
+    const tracker = new UsageTracker();
+
+    // Act
+    tracker.record({ model: "qwen2.5", promptTokens: 10, completionTokens: 5, cost: null, promptVersion: null });
+
+    // Assert
+    expect(tracker.toLogFields()).toMatchObject({ model: "qwen2.5", prompt_version: null, cost: null });
+    expect(new UsageTracker().toLogFields()).toMatchObject({ model: null, prompt_tokens: 0, cost: null });
+  });
+});
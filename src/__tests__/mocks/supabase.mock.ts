@@ -52,6 +52,12 @@ export const createMockSupabaseClient = (): Partial<SupabaseClient> => {
       data: null,
       error: null,
     }),
+    rpc: vi.fn().mockReturnValue({
+      maybeSingle: vi.fn().mockResolvedValue({
+        data: null,
+        error: null,
+      }),
+    }),
   } as any;
 };
 
@@ -0,0 +1,234 @@
+/**
+ * Unit Tests for AI Acceptance Service
+ * Tests cover: classifying decisions as accepted, edited or rejected, skipping cards without a generation,
+ * report query defaults and limits, report rows with rates and totals, admin-only reports across all users,
+ * and database errors
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AIAcceptanceError, AIAcceptanceService, toAcceptanceCounts } from "@/lib/services/ai-acceptance.service";
+import { AcceptanceReportQuerySchema } from "@/lib/validation/ai-generation.schemas";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+describe("AIAcceptanceService", () => {
+  let mockSupabase: any;
+  let service: AIAcceptanceService;
+
+  const userId = "test-user-id";
+
+  const card = {
+    id: 8,
+    front: "What is ATP?",
+    back: "The energy carrier of the cell",
+    generation_id: 42,
+    generated_front: "What is ATP?",
+    generated_back: "The energy carrier of the cell",
+  };
+
+  const adminLookup = (row: unknown) => ({
+    select: vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({ maybeSingle: vi.fn().mockResolvedValue({ data: row, error: null }) }),
+    }),
+  });
+
+  const reportRow = {
+    period_start: "2026-01-26T00:00:00+00:00",
+    model: "openai/gpt-4o-mini",
+    prompt_version: "v1",
+    generations: 3,
+    accepted: 6,
+    edited: 2,
+    rejected: 2,
+    avg_edit_distance: 12.5,
+  };
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new AIAcceptanceService(mockSupabase as never, userId);
+
+    vi.clearAllMocks();
+  });
+
+  describe("recordDecisions", () => {
+    it("should record accepted cards as accepted or edited and rejected cards as rejected", async () => {
+      // Arrange
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(mockSupabase.from).mockReturnValue({ upsert });
+      const edited = { ...card, id: 9, back: "The energy carrier of cells" };
+
+      // Act
+      await service.recordDecisions([card, edited], "accept");
+      await service.recordDecisions([edited], "reject");
+
+      // Assert
+      expect(mockSupabase.from).toHaveBeenCalledWith("ai_card_reviews");
+      expect(upsert).toHaveBeenNthCalledWith(
+        1,
+        [
+          { user_id: userId, generation_id: 42, flashcard_id: 8, decision: "accepted", edit_distance: 0 },
+          { user_id: userId, generation_id: 42, flashcard_id: 9, decision: "edited", edit_distance: 5 },
+        ],
+        { onConflict: "user_id,flashcard_id", ignoreDuplicates: true }
+      );
+      expect(upsert).toHaveBeenNthCalledWith(
+        2,
+        [{ user_id: userId, generation_id: 42, flashcard_id: 9, decision: "rejected", edit_distance: 0 }],
+        expect.anything()
+      );
+    });
+
+    it("should skip cards without a generation and compare cards without generated text to themselves", async () => {
+      // Arrange
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(mockSupabase.from).mockReturnValue({ upsert });
+      const manual = { ...card, id: 10, generation_id: null, generated_front: null, generated_back: null };
+      const backfilled = { ...card, id: 11, generated_front: null, generated_back: null };
+
+      // Act
+      await service.recordDecisions([manual], "accept");
+      await service.recordDecisions([manual, backfilled], "accept");
+
+      // Assert
+      expect(upsert).toHaveBeenCalledTimes(1);
+      expect(upsert.mock.calls[0][0]).toEqual([expect.objectContaining({ flashcard_id: 11, decision: "accepted" })]);
+    });
+
+    it("should throw INTERNAL_ERROR when the decisions cannot be saved", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        upsert: vi.fn().mockResolvedValue({ error: { message: "permission denied" } }),
+      });
+
+      // Act
+      const error = await service.recordDecisions([card], "reject").catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIAcceptanceError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+      expect(error.statusCode).toBe(500);
+    });
+  });
+
+  describe("AcceptanceReportQuerySchema", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-26T15:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should default to the last 30 days by day", () => {
+      expect(AcceptanceReportQuerySchema.parse({})).toEqual({ from: "2025-12-28", to: "2026-01-26", interval: "day" });
+      expect(AcceptanceReportQuerySchema.parse({ to: "2026-01-10", interval: "week" })).toEqual({
+        from: "2025-12-12",
+        to: "2026-01-10",
+        interval: "week",
+      });
+    });
+
+    it("should reject malformed dates, reversed ranges and ranges over the limit", () => {
+      expect(AcceptanceReportQuerySchema.safeParse({ from: "26.01.2026" }).success).toBe(false);
+      expect(AcceptanceReportQuerySchema.safeParse({ from: "2026-01-27", to: "2026-01-26" }).success).toBe(false);
+      expect(AcceptanceReportQuerySchema.safeParse({ from: "2025-01-01", to: "2026-01-26" }).success).toBe(false);
+      expect(AcceptanceReportQuerySchema.safeParse({ interval: "year" }).success).toBe(false);
+    });
+  });
+
+  describe("getReport", () => {
+    it("should query whole UTC days and add rates and totals to the rows", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({
+        data: [reportRow, { ...reportRow, prompt_version: "v2", accepted: 1, edited: 1, rejected: 0, generations: 1 }],
+        error: null,
+      });
+
+      // Act
+      const report = await service.getReport({ from: "2026-01-01", to: "2026-01-31", interval: "week" });
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_acceptance_report", {
+        p_from: "2026-01-01T00:00:00.000Z",
+        p_to: "2026-02-01T00:00:00.000Z",
+        p_interval: "week",
+        p_all_users: false,
+      });
+      expect(report.scope).toBe("user");
+      expect(report.rows[0]).toEqual({
+        period_start: "2026-01-26T00:00:00.000Z",
+        model: "openai/gpt-4o-mini",
+        prompt_version: "v1",
+        generations: 3,
+        accepted: 6,
+        edited: 2,
+        rejected: 2,
+        acceptance_rate: 0.8,
+        unedited_rate: 0.6,
+        avg_edit_distance: 12.5,
+      });
+      expect(report.totals).toEqual({
+        accepted: 7,
+        edited: 3,
+        rejected: 2,
+        acceptance_rate: 0.833,
+        unedited_rate: 0.583,
+        avg_edit_distance: 12.5,
+      });
+    });
+
+    it("should report on all users only for admins", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(adminLookup(null))
+        .mockReturnValueOnce(adminLookup({ user_id: userId }));
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: [], error: null });
+      const params = { from: "2026-01-01", to: "2026-01-31", interval: "month" as const };
+
+      // Act
+      const error = await service.getReport(params, "all").catch((e) => e);
+      const rpcCallsBefore = vi.mocked(mockSupabase.rpc).mock.calls.length;
+      const report = await service.getReport(params, "all");
+
+      // Assert
+      expect(error).toBeInstanceOf(AIAcceptanceError);
+      expect(error.code).toBe(ErrorCodes.FORBIDDEN);
+      expect(error.statusCode).toBe(403);
+      expect(rpcCallsBefore).toBe(0);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "get_ai_acceptance_report",
+        expect.objectContaining({ p_all_users: true })
+      );
+      expect(report).toMatchObject({ scope: "all", rows: [] });
+      expect(report.totals).toMatchObject({ acceptance_rate: null, avg_edit_distance: null });
+    });
+
+    it("should throw INTERNAL_ERROR when the report query fails", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: null, error: { message: "timeout" } });
+
+      // Act
+      const error = await service.getReport({ from: "2026-01-01", to: "2026-01-31", interval: "day" }).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIAcceptanceError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("toAcceptanceCounts", () => {
+    it("should leave the rates unknown when no card was reviewed", () => {
+      expect(toAcceptanceCounts(0, 0, 0, null)).toEqual({
+        accepted: 0,
+        edited: 0,
+        rejected: 0,
+        acceptance_rate: null,
+        unedited_rate: null,
+        avg_edit_distance: null,
+      });
+    });
+  });
+});
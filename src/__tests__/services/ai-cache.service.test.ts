@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for AI Cache Service
+ * Tests cover: cache hits and misses, skipping malformed cards, storing entries with their TTL and size
+ * limit, and database errors
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AICacheError, AICacheService } from "@/lib/services/ai-cache.service";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+describe("AICacheService", () => {
+  let mockSupabase: any;
+  let service: AICacheService;
+
+  const userId = "test-user-id";
+  const cacheKey = "a".repeat(64);
+
+  const mockLookup = (data: unknown, error: unknown = null) => {
+    vi.mocked(mockSupabase.rpc).mockReturnValue({ maybeSingle: vi.fn().mockResolvedValue({ data, error }) });
+  };
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new AICacheService(mockSupabase as never, userId);
+    vi.clearAllMocks();
+  });
+
+  describe("get", () => {
+    it("should return the cached cards with the model and prompt version that produced them", async () => {
+      // Arrange
+      mockLookup({
+        cards: [
+          { front: "What is mitosis?", back: "Division of the nucleus", source_quote: "Mitosis is the division" },
+          { front: "What is meiosis?", back: "Reduction division" },
+        ],
+        model: "openai/gpt-4o-mini",
+        prompt_version: "v2",
+      });
+
+      // Act
+      const entry = await service.get(cacheKey, 5);
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("take_ai_cache_entry", {
+        p_user_id: userId,
+        p_cache_key: cacheKey,
+        p_min_cards: 5,
+      });
+      expect(entry).toEqual({
+        cards: [
+          { front: "What is mitosis?", back: "Division of the nucleus", source_quote: "Mitosis is the division" },
+          { front: "What is meiosis?", back: "Reduction division" },
+        ],
+        model: "openai/gpt-4o-mini",
+        promptVersion: "v2",
+      });
+    });
+
+    it("should return null on a miss", async () => {
+      // Arrange
+      mockLookup(null);
+
+      // Act & Assert
+      await expect(service.get(cacheKey, 5)).resolves.toBeNull();
+    });
+
+    it("should skip malformed cards and miss when none is left", async () => {
+      // Arrange
+      mockLookup({ cards: [{ front: "Only a question" }, "card", null], model: null, prompt_version: null });
+
+      // Act & Assert
+      await expect(service.get(cacheKey, 5)).resolves.toBeNull();
+    });
+
+    it("should throw INTERNAL_ERROR when the lookup fails", async () => {
+      // Arrange
+      mockLookup(null, { message: "permission denied" });
+
+      // Act
+      const error = await service.get(cacheKey, 5).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AICacheError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("put", () => {
+    it("should store the cards with the model and prompt version that produced them", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: null, error: null });
+
+      // Act
+      await service.put(cacheKey, {
+        cards: [{ front: "What is mitosis?", back: "Division of the nucleus" }],
+        model: "openai/gpt-4o-mini",
+        promptVersion: "v2",
+        maxCards: 10,
+      });
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("put_ai_cache_entry", {
+        p_user_id: userId,
+        p_cache_key: cacheKey,
+        p_model: "openai/gpt-4o-mini",
+        p_prompt_version: "v2",
+        p_max_cards: 10,
+        p_cards: [{ front: "What is mitosis?", back: "Division of the nucleus" }],
+      });
+    });
+
+    it("should throw INTERNAL_ERROR when the entry cannot be stored", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: null, error: { message: "check constraint" } });
+
+      // Act
+      const error = await service
+        .put(cacheKey, { cards: [], model: "m", promptVersion: "v2", maxCards: 0 })
+        .catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AICacheError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Unit Tests for AI Job Service
+ * Tests cover: creating, getting and listing jobs, cancellation, running a job to success or failure,
+ * jobs cancelled before or while running, heartbeats, expiring jobs whose heartbeat stopped, and database errors
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AIJobService, AIJobError } from "@/lib/services/ai-job.service";
+import { AIGenerationError } from "@/lib/services/ai-generation.service";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Chainable query mock: every builder method returns the same object, awaiting it
+ * (or its single/maybeSingle) yields `result`
+ */
+const query = (result: { data?: unknown; error?: unknown }) => {
+  const resolved = { data: null, error: null, ...result };
+  const builder: any = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(resolved).then(resolve),
+    single: vi.fn().mockResolvedValue(resolved),
+    maybeSingle: vi.fn().mockResolvedValue(resolved),
+  };
+  for (const method of ["select", "insert", "update", "eq", "in", "order"]) {
+    builder[method] = vi.fn().mockReturnValue(builder);
+  }
+  return builder;
+};
+
+describe("AIJobService", () => {
+  let mockSupabase: any;
+  let service: AIJobService;
+
+  const userId = "test-user-id";
+
+  const request = {
+    text: "a".repeat(1000),
+    deck_id: 1,
+    max_cards: 10,
+    long_document: true,
+    language: "en",
+  };
+
+  const job = (overrides: Record<string, unknown> = {}) => ({
+    id: 7,
+    user_id: userId,
+    deck_id: 1,
+    status: "queued",
+    request,
+    result: null,
+    error: null,
+    created_at: "2026-01-12T10:00:00Z",
+    started_at: null,
+    finished_at: null,
+    updated_at: "2026-01-12T10:00:00Z",
+    heartbeat_at: "2026-01-12T10:04:30Z",
+    ...overrides,
+  });
+
+  const generationResult = {
+    generation_id: 999,
+    deck_id: 1,
+    flashcards: [{ id: 1, front: "Q", back: "A", status: "draft", source: "ai" }],
+    cards_generated: 1,
+  };
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new AIJobService(mockSupabase as never, userId);
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-12T10:05:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createJob", () => {
+    it("should queue the validated request for the user", async () => {
+      // Arrange
+      const insert = query({ data: job() });
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(insert);
+
+      // Act
+      const result = await service.createJob(request as never);
+
+      // Assert
+      expect(mockSupabase.from).toHaveBeenCalledWith("ai_generation_jobs");
+      expect(insert.insert).toHaveBeenCalledWith({ user_id: userId, deck_id: 1, status: "queued", request });
+      expect(result).toEqual({
+        id: 7,
+        deck_id: 1,
+        status: "queued",
+        result: null,
+        error: null,
+        created_at: "2026-01-12T10:00:00Z",
+        started_at: null,
+        finished_at: null,
+      });
+    });
+
+    it("should throw AIJobError when the job cannot be created", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(query({ error: { message: "insert failed" } }));
+
+      // Act
+      const error = await service.createJob(request as never).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIJobError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+      expect(error.statusCode).toBe(500);
+    });
+  });
+
+  describe("getJob", () => {
+    it("should return the user's job with its result", async () => {
+      // Arrange
+      const select = query({ data: job({ status: "succeeded", result: generationResult }) });
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(select);
+
+      // Act
+      const result = await service.getJob(7);
+
+      // Assert
+      expect(select.eq).toHaveBeenCalledWith("id", 7);
+      expect(select.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(result.status).toBe("succeeded");
+      expect(result.result).toEqual(generationResult);
+    });
+
+    it("should throw NOT_FOUND when the job doesn't exist or belongs to another user", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(query({ data: null }));
+
+      // Act
+      const error = await service.getJob(404).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIJobError);
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+      expect(error.statusCode).toBe(404);
+    });
+
+    it("should fail a running job whose heartbeat stopped for longer than the heartbeat timeout", async () => {
+      // Arrange
+      const stale = job({ status: "running", heartbeat_at: "2026-01-12T10:02:00Z" });
+      const update = query({ data: { ...stale, status: "failed", finished_at: "2026-01-12T10:05:00.000Z" } });
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(query({ data: stale }))
+        .mockReturnValueOnce(update);
+
+      // Act
+      const result = await service.getJob(7);
+
+      // Assert
+      expect(update.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "failed",
+          error: expect.objectContaining({ code: ErrorCodes.AI_SERVICE_ERROR }),
+        })
+      );
+      expect(update.in).toHaveBeenCalledWith("status", ["queued", "running"]);
+      expect(update.eq).toHaveBeenCalledWith("heartbeat_at", "2026-01-12T10:02:00Z");
+      expect(result.status).toBe("failed");
+    });
+
+    it("should leave a long-running job with a recent heartbeat alone", async () => {
+      // Arrange - unchanged for an hour apart from its heartbeat
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(
+        query({
+          data: job({
+            status: "running",
+            started_at: "2026-01-12T09:05:00Z",
+            updated_at: "2026-01-12T09:05:00Z",
+            heartbeat_at: "2026-01-12T10:04:30Z",
+          }),
+        })
+      );
+
+      // Act
+      const result = await service.getJob(7);
+
+      // Assert
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+      expect(result.status).toBe("running");
+    });
+  });
+
+  describe("listActiveJobs", () => {
+    it("should list the queued and running jobs of the deck, oldest first", async () => {
+      // Arrange
+      const select = query({ data: [job({ status: "running" }), job({ id: 8 })] });
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(select);
+
+      // Act
+      const result = await service.listActiveJobs(1);
+
+      // Assert
+      expect(select.eq).toHaveBeenCalledWith("deck_id", 1);
+      expect(select.in).toHaveBeenCalledWith("status", ["queued", "running"]);
+      expect(select.order).toHaveBeenCalledWith("created_at", { ascending: true });
+      expect(result.jobs.map((j) => j.id)).toEqual([7, 8]);
+    });
+
+    it("should leave out jobs that expired", async () => {
+      // Arrange
+      const stale = job({ status: "queued", heartbeat_at: "2026-01-12T09:00:00Z" });
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(query({ data: [stale] }))
+        .mockReturnValueOnce(query({ data: { ...stale, status: "failed" } }));
+
+      // Act
+      const result = await service.listActiveJobs(1);
+
+      // Assert
+      expect(result.jobs).toEqual([]);
+    });
+
+    it("should throw AIJobError on database error", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(query({ error: { message: "select failed" } }));
+
+      // Act
+      const error = await service.listActiveJobs(1).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIJobError);
+      expect(error.statusCode).toBe(500);
+    });
+  });
+
+  describe("cancelJob", () => {
+    it("should cancel a queued or running job", async () => {
+      // Arrange
+      const update = query({ data: job({ status: "cancelled", finished_at: "2026-01-12T10:05:00.000Z" }) });
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(update);
+
+      // Act
+      const result = await service.cancelJob(7);
+
+      // Assert
+      expect(update.update).toHaveBeenCalledWith({ status: "cancelled", finished_at: "2026-01-12T10:05:00.000Z" });
+      expect(update.in).toHaveBeenCalledWith("status", ["queued", "running"]);
+      expect(result.status).toBe("cancelled");
+    });
+
+    it("should throw INVALID_STATUS when the job has already finished", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(query({ data: null }))
+        .mockReturnValueOnce(query({ data: job({ status: "succeeded" }) }));
+
+      // Act
+      const error = await service.cancelJob(7).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIJobError);
+      expect(error.code).toBe(ErrorCodes.INVALID_STATUS);
+      expect(error.statusCode).toBe(409);
+      expect(error.details).toEqual({ job_id: 7, status: "succeeded" });
+    });
+
+    it("should throw NOT_FOUND when the job doesn't exist", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(query({ data: null }))
+        .mockReturnValueOnce(query({ data: null }));
+
+      // Act
+      const error = await service.cancelJob(7).catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+    });
+  });
+
+  describe("heartbeat", () => {
+    it("should refresh the heartbeat of an active job", async () => {
+      // Arrange
+      const update = query({});
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(update);
+
+      // Act
+      await service.heartbeat(7);
+
+      // Assert
+      expect(update.update).toHaveBeenCalledWith({ heartbeat_at: "2026-01-12T10:05:00.000Z" });
+      expect(update.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(update.in).toHaveBeenCalledWith("status", ["queued", "running"]);
+    });
+
+    it("should throw AIJobError on database error", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(query({ error: { message: "DB error" } }));
+
+      // Act
+      const error = await service.heartbeat(7).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIJobError);
+      expect(error.statusCode).toBe(500);
+    });
+  });
+
+  describe("runJob", () => {
+    const signal = new AbortController().signal;
+
+    it("should run the generation and record its result", async () => {
+      // Arrange
+      const start = query({ data: job({ status: "running" }) });
+      const finish = query({ data: job({ status: "succeeded" }) });
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(start).mockReturnValueOnce(finish);
+      const generation = { generateAndSaveFlashcards: vi.fn().mockResolvedValue(generationResult) };
+
+      // Act
+      await service.runJob(7, generation as never, signal);
+
+      // Assert
+      expect(start.update).toHaveBeenCalledWith({ status: "running", started_at: "2026-01-12T10:05:00.000Z" });
+      expect(start.in).toHaveBeenCalledWith("status", ["queued"]);
+      expect(generation.generateAndSaveFlashcards).toHaveBeenCalledWith(1, request.text, 10, {
+        language: "en",
+        longDocument: true,
+        signal,
+      });
+      expect(finish.update).toHaveBeenCalledWith({
+        status: "succeeded",
+        result: generationResult,
+        finished_at: "2026-01-12T10:05:00.000Z",
+      });
+      expect(finish.in).toHaveBeenCalledWith("status", ["running"]);
+    });
+
+    it("should record the error of a failed generation", async () => {
+      // Arrange
+      const finish = query({ data: job({ status: "failed" }) });
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(query({ data: job({ status: "running" }) }))
+        .mockReturnValueOnce(finish);
+      const generation = {
+        generateAndSaveFlashcards: vi
+          .fn()
+          .mockRejectedValue(new AIGenerationError("AI service error", ErrorCodes.AI_SERVICE_ERROR, 503)),
+      };
+
+      // Act
+      await service.runJob(7, generation as never, signal);
+
+      // Assert
+      expect(finish.update).toHaveBeenCalledWith({
+        status: "failed",
+        error: { code: ErrorCodes.AI_SERVICE_ERROR, message: "AI service error", details: undefined },
+        finished_at: "2026-01-12T10:05:00.000Z",
+      });
+    });
+
+    it("should hide the details of unexpected errors", async () => {
+      // Arrange
+      const finish = query({ data: job({ status: "failed" }) });
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(query({ data: job({ status: "running" }) }))
+        .mockReturnValueOnce(finish);
+      const generation = { generateAndSaveFlashcards: vi.fn().mockRejectedValue(new Error("socket hang up")) };
+
+      // Act
+      await service.runJob(7, generation as never, signal);
+
+      // Assert
+      expect(finish.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: { code: ErrorCodes.INTERNAL_ERROR, message: "An unexpected error occurred" },
+        })
+      );
+    });
+
+    it("should not generate when the job was cancelled before it started", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(query({ data: null }));
+      const generation = { generateAndSaveFlashcards: vi.fn() };
+
+      // Act
+      await service.runJob(7, generation as never, signal);
+
+      // Assert
+      expect(generation.generateAndSaveFlashcards).not.toHaveBeenCalled();
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep the cancelled status of a job cancelled while running", async () => {
+      // Arrange
+      const finish = query({ data: null });
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce(query({ data: job({ status: "running" }) }))
+        .mockReturnValueOnce(finish);
+      const generation = {
+        generateAndSaveFlashcards: vi
+          .fn()
+          .mockRejectedValue(
+            new AIGenerationError("The generation was cancelled", ErrorCodes.GENERATION_CANCELLED, 409)
+          ),
+      };
+
+      // Act
+      await service.runJob(7, generation as never, signal);
+
+      // Assert: the update only applies to running jobs, so the cancelled job is left as it is
+      expect(finish.in).toHaveBeenCalledWith("status", ["running"]);
+    });
+  });
+});
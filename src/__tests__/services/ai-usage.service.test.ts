@@ -0,0 +1,406 @@
+/**
+ * Unit Tests for AI Usage Service
+ * Tests cover: quota plans with overrides and time zones, daily and monthly usage summed in the database, tokens and cost,
+ * charging refinements, free cache hits, reserving and settling quota, usage history with deck names and
+ * pagination, and database errors
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AIUsageService, AIUsageError, countUsedCards } from "@/lib/services/ai-usage.service";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Chainable query mock: every builder method returns the same object, awaiting it yields `result`
+ */
+const query = (result: { data?: unknown; error?: unknown; count?: number | null }) => {
+  const resolved = { data: null, error: null, count: null, ...result };
+  const builder: any = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(resolved).then(resolve),
+  };
+  for (const method of ["select", "eq", "gte", "lt", "order", "range"]) {
+    builder[method] = vi.fn().mockReturnValue(builder);
+  }
+  return builder;
+};
+
+describe("AIUsageService", () => {
+  let mockSupabase: any;
+  let service: AIUsageService;
+
+  const userId = "test-user-id";
+
+  const log = {
+    id: 12,
+    user_id: userId,
+    deck_id: 1,
+    generated_at: "2025-12-20T10:00:00Z",
+    cards_count: 8,
+    refinements_count: 0,
+    model: "openai/gpt-4o-mini",
+    prompt_tokens: 1200,
+    completion_tokens: 400,
+    cost: 0.0042,
+    latency_ms: 5300,
+    outcome: "success",
+    error_message: null,
+  };
+
+  const mockPlan = (data: unknown, error: unknown = null) => {
+    vi.mocked(mockSupabase.rpc).mockReturnValue({ maybeSingle: vi.fn().mockResolvedValue({ data, error }) });
+  };
+
+  /**
+   * Usage totals of a window, as summed by `get_ai_usage_totals`
+   */
+  const totals = (sums: Record<string, number | null> = {}) => ({
+    cards_count: 0,
+    refinements_count: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    cost: null,
+    ...sums,
+  });
+
+  /**
+   * Mock the quota plan and the usage totals of each window, in the order they are summed.
+   * Returns the mock resolving the totals.
+   */
+  const mockUsage = (plan: unknown, ...windows: unknown[]) => {
+    const getTotals = vi.fn();
+    for (const data of windows) {
+      getTotals.mockResolvedValueOnce({ data, error: null });
+    }
+    vi.mocked(mockSupabase.rpc).mockImplementation(((fn: string) => ({
+      maybeSingle: fn === "get_ai_quota_plan" ? vi.fn().mockResolvedValue({ data: plan, error: null }) : getTotals,
+    })) as never);
+    return getTotals;
+  };
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new AIUsageService(mockSupabase as never, userId);
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-12-20T23:30:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("getUsage", () => {
+    it("should fall back to 50 cards a day in UTC when no plan is configured", async () => {
+      // Arrange
+      mockUsage(null, totals({ cards_count: 10 }));
+
+      // Act
+      const result = await service.getUsage();
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_quota_plan", { p_user_id: userId });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_usage_totals", {
+        p_user_id: userId,
+        p_from: "2025-12-20T00:00:00.000Z",
+        p_to: "2025-12-21T00:00:00.000Z",
+      });
+      expect(result).toMatchObject({
+        plan: { name: "default", daily_limit: 50, monthly_limit: null, timezone: "UTC" },
+        used_today: 10,
+        remaining: 40,
+        reset_at: "2025-12-21T00:00:00.000Z",
+        used_this_month: null,
+        monthly_reset_at: null,
+      });
+    });
+
+    it("should count the day and month in the user's time zone", async () => {
+      // Arrange - 23:30 UTC is already 21 December in Warsaw
+      mockUsage(
+        { plan_name: "pro", daily_card_limit: 100, monthly_card_limit: 1000, timezone: "Europe/Warsaw" },
+        totals(),
+        totals({ cards_count: 400 })
+      );
+
+      // Act
+      const result = await service.getUsage();
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_usage_totals", {
+        p_user_id: userId,
+        p_from: "2025-12-20T23:00:00.000Z",
+        p_to: "2025-12-21T23:00:00.000Z",
+      });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_usage_totals", {
+        p_user_id: userId,
+        p_from: "2025-11-30T23:00:00.000Z",
+        p_to: "2025-12-31T23:00:00.000Z",
+      });
+      expect(result).toMatchObject({
+        daily_limit: 100,
+        used_today: 0,
+        remaining: 100,
+        reset_at: "2025-12-21T23:00:00.000Z",
+        monthly_limit: 1000,
+        used_this_month: 400,
+        monthly_reset_at: "2025-12-31T23:00:00.000Z",
+      });
+    });
+
+    it("should cap the cards left today at what is left of the month", async () => {
+      // Arrange
+      mockUsage(
+        { plan_name: "pro", daily_card_limit: 100, monthly_card_limit: 1000, timezone: "UTC" },
+        totals({ cards_count: 10 }),
+        totals({ cards_count: 980 })
+      );
+
+      // Act & Assert
+      expect((await service.getUsage()).remaining).toBe(20);
+    });
+
+    it("should charge the refinements summed in the database", async () => {
+      // Arrange
+      mockUsage(null, totals({ cards_count: 10, refinements_count: 12 }));
+
+      // Act & Assert
+      expect((await service.getUsage()).used_today).toBe(12);
+    });
+
+    it("should report today's tokens and cost", async () => {
+      // Arrange
+      mockUsage(null, totals({ cards_count: 8, prompt_tokens: 1500, completion_tokens: 400, cost: 0.002 }));
+
+      // Act
+      const result = await service.getUsage();
+
+      // Assert
+      expect(result).toMatchObject({ prompt_tokens_today: 1500, completion_tokens_today: 400, cost_today: 0.002 });
+    });
+
+    it("should use UTC when the stored time zone is unknown", async () => {
+      // Arrange
+      mockUsage(
+        { plan_name: "free", daily_card_limit: 50, monthly_card_limit: null, timezone: "Mars/Olympus" },
+        totals()
+      );
+
+      // Act & Assert
+      expect((await service.getUsage()).plan.timezone).toBe("UTC");
+    });
+
+    it("should throw INTERNAL_ERROR when the plan cannot be read", async () => {
+      // Arrange
+      mockPlan(null, { message: "timeout" });
+
+      // Act
+      const error = await service.getUsage().catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIUsageError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+
+    it("should throw INTERNAL_ERROR when the usage cannot be summed", async () => {
+      // Arrange
+      const getTotals = mockUsage(null);
+      getTotals.mockResolvedValueOnce({ data: null, error: { message: "timeout" } });
+
+      // Act
+      const error = await service.getUsage().catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIUsageError);
+      expect(error.message).toBe("Failed to fetch usage data");
+    });
+  });
+
+  describe("reserve", () => {
+    it("should reserve the cards atomically in the database", async () => {
+      // Arrange
+      mockPlan({ log_id: 31, cards_granted: 4 });
+
+      // Act
+      const reservation = await service.reserve(1, 10, 0);
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("reserve_ai_quota", {
+        p_user_id: userId,
+        p_deck_id: 1,
+        p_cards: 10,
+        p_refinements: 0,
+      });
+      expect(reservation).toEqual({ logId: 31, cards: 4 });
+    });
+
+    it("should return null when nothing is left of the limits", async () => {
+      // Arrange
+      mockPlan({ log_id: null, cards_granted: 0 });
+
+      // Act & Assert
+      await expect(service.reserve(1, 10)).resolves.toBeNull();
+    });
+
+    it("should throw INTERNAL_ERROR when the reservation fails", async () => {
+      // Arrange
+      mockPlan(null, { message: "lock timeout" });
+
+      // Act
+      const error = await service.reserve(1, 10).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIUsageError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("reserveCacheHit", () => {
+    it("should log the served cards as a cache hit", async () => {
+      // Arrange
+      mockPlan({ log_id: 32, cards_granted: 6 });
+
+      // Act
+      const reservation = await service.reserveCacheHit(1, 6);
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("reserve_ai_quota", {
+        p_user_id: userId,
+        p_deck_id: 1,
+        p_cards: 6,
+        p_cache_hit: true,
+      });
+      expect(reservation).toEqual({ logId: 32, cards: 6 });
+    });
+
+    it("should throw INTERNAL_ERROR when no log row is created", async () => {
+      // Arrange
+      mockPlan({ log_id: null, cards_granted: 0 });
+
+      // Act
+      const error = await service.reserveCacheHit(1, 6).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIUsageError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("settle", () => {
+    it("should record the result and usage on the reservation", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: true, error: null });
+
+      // Act
+      await service.settle(
+        { logId: 31, cards: 10 },
+        {
+          cards_count: 3,
+          refinements_count: 0,
+          outcome: "partial",
+          model: "openai/gpt-4o-mini",
+          prompt_version: "v1",
+          prompt_tokens: 900,
+          completion_tokens: 300,
+          cost: null,
+          latency_ms: 4200,
+          error_message: "Connection reset",
+        }
+      );
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("settle_ai_quota", {
+        p_user_id: userId,
+        p_log_id: 31,
+        p_cards_count: 3,
+        p_refinements_count: 0,
+        p_outcome: "partial",
+        p_model: "openai/gpt-4o-mini",
+        p_prompt_tokens: 900,
+        p_completion_tokens: 300,
+        p_cost: undefined,
+        p_latency_ms: 4200,
+        p_error_message: "Connection reset",
+        p_prompt_version: "v1",
+      });
+    });
+
+    it("should throw INTERNAL_ERROR when settling fails", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: null, error: { message: "permission denied" } });
+
+      // Act
+      const error = await service
+        .settle({ logId: 31, cards: 10 }, { cards_count: 0, refinements_count: 0, outcome: "failed" })
+        .catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIUsageError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("listHistory", () => {
+    it("should list the user's logs with deck names and pagination", async () => {
+      // Arrange
+      const list = query({ data: [{ ...log, decks: { name: "Biology" } }], count: 21 });
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(list);
+
+      // Act
+      const result = await service.listHistory({ limit: 20, offset: 0 });
+
+      // Assert
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { user_id, ...expected } = log;
+      expect(result.logs).toEqual([{ ...expected, deck_name: "Biology" }]);
+      expect(result.pagination).toEqual({ total: 21, limit: 20, offset: 0, has_more: true });
+      expect(list.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(list.range).toHaveBeenCalledWith(0, 19);
+    });
+
+    it("should keep logs whose deck was deleted", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(
+        query({ data: [{ ...log, deck_id: null, decks: null }], count: 1 })
+      );
+
+      // Act
+      const result = await service.listHistory({ limit: 20, offset: 0 });
+
+      // Assert
+      expect(result.logs[0]).toMatchObject({ deck_id: null, deck_name: null });
+      expect(result.pagination.has_more).toBe(false);
+    });
+
+    it("should throw INTERNAL_ERROR when the query fails", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValueOnce(query({ error: { message: "timeout" } }));
+
+      // Act
+      const error = await service.listHistory({ limit: 20, offset: 0 }).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AIUsageError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("countUsedCards", () => {
+    it("should charge refinements as a fraction of a card", () => {
+      // Act & Assert
+      expect(countUsedCards([{ cards_count: 10 }, { cards_count: 0, refinements_count: 4 }])).toBe(10);
+      expect(
+        countUsedCards([
+          { cards_count: 10, refinements_count: 3 },
+          { cards_count: 0, refinements_count: 2 },
+        ])
+      ).toBe(11);
+    });
+
+    it("should not charge cache hits", () => {
+      // Act & Assert
+      expect(countUsedCards([{ cards_count: 10 }, { cards_count: 8, cache_hit: true }])).toBe(10);
+    });
+  });
+});
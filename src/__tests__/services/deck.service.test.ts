@@ -0,0 +1,209 @@
+/**
+ * Unit Tests for Deck Service
+ * Tests cover: listing with card counts, deck details, ownership checks, and unique name conflicts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DeckService, DeckServiceError } from "@/lib/services/deck.service";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+describe("DeckService", () => {
+  let mockSupabase: any;
+  let service: DeckService;
+
+  const userId = "test-user-id";
+
+  const deckRow = {
+    id: 1,
+    user_id: userId,
+    name: "Biology",
+    created_at: "2025-11-20T10:00:00Z",
+    updated_at: "2025-11-20T10:00:00Z",
+  };
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new DeckService(mockSupabase as never, userId);
+
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-11-26T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("listDecks", () => {
+    it("should return decks with card counts and pagination", async () => {
+      // Arrange
+      const decksQuery = {
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            order: vi.fn().mockReturnValue({
+              range: vi.fn().mockResolvedValue({ data: [deckRow], error: null, count: 3 }),
+            }),
+          }),
+        }),
+      };
+      vi.mocked(mockSupabase.from).mockReturnValue(decksQuery as never);
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({
+        data: [{ deck_id: 1, cards_count: 3, cards_due_today: 2, cards_new: 1, cards_learning: 2 }],
+        error: null,
+      });
+
+      // Act
+      const result = await service.listDecks({ limit: 1, offset: 0, sort: "created_at", order: "desc" });
+
+      // Assert
+      expect(result.decks).toEqual([
+        {
+          id: 1,
+          name: "Biology",
+          created_at: deckRow.created_at,
+          updated_at: deckRow.updated_at,
+          cards_count: 3,
+          cards_due_today: 2,
+        },
+      ]);
+      expect(result.pagination).toEqual({ total: 3, limit: 1, offset: 0, has_more: true });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_deck_card_counts", { p_deck_ids: [1], p_today: "2025-11-26" });
+    });
+
+    it("should skip counting cards when the user has no decks", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            order: vi.fn().mockReturnValue({
+              range: vi.fn().mockResolvedValue({ data: [], error: null, count: 0 }),
+            }),
+          }),
+        }),
+      } as never);
+
+      // Act
+      const result = await service.listDecks({ limit: 50, offset: 0, sort: "name", order: "asc" });
+
+      // Assert
+      expect(result.decks).toEqual([]);
+      expect(result.pagination.has_more).toBe(false);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getDeck", () => {
+    const mockDeck = () =>
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({ maybeSingle: vi.fn().mockResolvedValue({ data: deckRow, error: null }) }),
+          }),
+        }),
+      } as never);
+
+    it("should return the deck with its card counts by status", async () => {
+      // Arrange
+      mockDeck();
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({
+        data: [{ deck_id: 1, cards_count: 1500, cards_due_today: 40, cards_new: 300, cards_learning: 1200 }],
+        error: null,
+      });
+
+      // Act
+      const deck = await service.getDeck(1);
+
+      // Assert
+      expect(deck).toMatchObject({ cards_count: 1500, cards_due_today: 40, cards_new: 300, cards_learning: 1200 });
+    });
+
+    it("should report zero counts for a deck without cards", async () => {
+      // Arrange
+      mockDeck();
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: [], error: null });
+
+      // Act
+      const deck = await service.getDeck(1);
+
+      // Assert
+      expect(deck).toMatchObject({ cards_count: 0, cards_due_today: 0, cards_new: 0, cards_learning: 0 });
+    });
+
+    it("should throw INTERNAL_ERROR when the cards cannot be counted", async () => {
+      // Arrange
+      mockDeck();
+      vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: null, error: { message: "boom" } });
+
+      // Act
+      const error = await service.getDeck(1).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(DeckServiceError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("createDeck", () => {
+    it("should return the created deck with zero counts", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        insert: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({ data: deckRow, error: null }),
+          }),
+        }),
+      } as never);
+
+      // Act
+      const deck = await service.createDeck("Biology");
+
+      // Assert
+      expect(deck).toMatchObject({ id: 1, name: "Biology", cards_count: 0, cards_due_today: 0 });
+      expect(deck).not.toHaveProperty("user_id");
+    });
+
+    it("should map unique_user_deck_name violations to DECK_EXISTS", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        insert: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: null,
+              error: { code: "23505", message: 'duplicate key value violates "unique_user_deck_name"' },
+            }),
+          }),
+        }),
+      } as never);
+
+      // Act & Assert
+      const error = await service.createDeck("Biology").catch((e) => e);
+      expect(error).toBeInstanceOf(DeckServiceError);
+      expect(error.code).toBe(ErrorCodes.DECK_EXISTS);
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
+  describe("findOwnedDeck", () => {
+    it("should throw NOT_FOUND when the deck does not belong to the user", async () => {
+      // Arrange
+      const eqUser = vi.fn().mockReturnValue({
+        maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      });
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({ eq: eqUser }),
+        }),
+      } as never);
+
+      // Act & Assert
+      const error = await service.findOwnedDeck(42).catch((e) => e);
+      expect(error).toBeInstanceOf(DeckServiceError);
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+      expect(error.statusCode).toBe(404);
+      expect(eqUser).toHaveBeenCalledWith("user_id", userId);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * Unit Tests for Flashcard Service
+ * Tests cover: deck listing with status filters, RLS-scoped lookups, source passages of AI cards, updates,
+ * bulk creation, draft promotion, and recording what was decided about AI drafts
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { FlashcardService, FlashcardServiceError } from "@/lib/services/flashcard.service";
+import { ListFlashcardsQuerySchema } from "@/lib/validation/flashcard.schemas";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+describe("FlashcardService", () => {
+  let mockSupabase: any;
+  let service: FlashcardService;
+
+  const userId = "test-user-id";
+
+  const flashcardRow = {
+    id: 7,
+    deck_id: 1,
+    front: "What is RLS?",
+    back: "Row Level Security",
+    status: "new",
+    source: "manual",
+    ease_factor: 2.5,
+    interval: 0,
+    next_review_date: "2025-11-26",
+    created_at: "2025-11-26T10:00:00Z",
+    updated_at: "2025-11-26T10:00:00Z",
+  };
+
+  const ownedDeckQuery = () => ({
+    select: vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          maybeSingle: vi.fn().mockResolvedValue({ data: { id: 1 }, error: null }),
+        }),
+      }),
+    }),
+  });
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new FlashcardService(mockSupabase as never, userId);
+
+    vi.clearAllMocks();
+  });
+
+  describe("ListFlashcardsQuerySchema", () => {
+    it("should split comma-separated statuses", () => {
+      const result = ListFlashcardsQuerySchema.parse({ status: "draft, new" });
+      expect(result.status).toEqual(["draft", "new"]);
+      expect(result).toMatchObject({ limit: 50, offset: 0, sort: "created_at", order: "desc" });
+    });
+
+    it("should reject unknown statuses", () => {
+      const result = ListFlashcardsQuerySchema.safeParse({ status: "draft,archived" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("listDeckFlashcards", () => {
+    it("should filter by status and return pagination metadata", async () => {
+      // Arrange
+      const range = vi.fn().mockResolvedValue({ data: [flashcardRow], error: null, count: 1 });
+      const secondOrder = vi.fn().mockReturnValue({ range });
+      const firstOrder = vi.fn().mockReturnValue({ order: secondOrder });
+      const inStatus = vi.fn().mockReturnValue({ order: firstOrder });
+      const flashcardsQuery = {
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({ in: inStatus }),
+        }),
+      };
+      vi.mocked(mockSupabase.from).mockImplementation((table: string) =>
+        table === "decks" ? ownedDeckQuery() : flashcardsQuery
+      );
+
+      // Act
+      const result = await service.listDeckFlashcards(1, {
+        limit: 10,
+        offset: 0,
+        status: ["new", "finalized"],
+        sort: "next_review_date",
+        order: "asc",
+      });
+
+      // Assert
+      expect(inStatus).toHaveBeenCalledWith("status", ["new", "finalized"]);
+      expect(firstOrder).toHaveBeenCalledWith("next_review_date", { ascending: true });
+      expect(range).toHaveBeenCalledWith(0, 9);
+      expect(result.flashcards).toEqual([flashcardRow]);
+      expect(result.pagination).toEqual({ total: 1, limit: 10, offset: 0, has_more: false });
+    });
+
+    it("should throw NOT_FOUND when the deck is not owned by the user", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+            }),
+          }),
+        }),
+      } as never);
+
+      // Act & Assert
+      const error = await service
+        .listDeckFlashcards(99, { limit: 50, offset: 0, sort: "created_at", order: "desc" })
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(FlashcardServiceError);
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+    });
+  });
+
+  describe("updateFlashcard", () => {
+    it("should throw NOT_FOUND when RLS hides the flashcard", async () => {
+      // Arrange
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+          }),
+        }),
+      } as never);
+
+      // Act & Assert
+      const error = await service.updateFlashcard(7, { front: "Updated" }).catch((e) => e);
+      expect(error).toBeInstanceOf(FlashcardServiceError);
+      expect(error.statusCode).toBe(404);
+    });
+
+    it("should only send the provided fields", async () => {
+      // Arrange
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: { id: 7, front: "Updated", back: flashcardRow.back, updated_at: "2025-11-27T10:00:00Z" },
+              error: null,
+            }),
+          }),
+        }),
+      });
+      vi.mocked(mockSupabase.from).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            maybeSingle: vi.fn().mockResolvedValue({ data: flashcardRow, error: null }),
+          }),
+        }),
+        update,
+      } as never);
+
+      // Act
+      const result = await service.updateFlashcard(7, { front: "Updated" });
+
+      // Assert
+      expect(update).toHaveBeenCalledWith({ front: "Updated" });
+      expect(result.front).toBe("Updated");
+    });
+  });
+
+  describe("getFlashcardSource", () => {
+    const SOURCE = "Intro. Row Level Security restricts which rows a user can read. Outro.";
+
+    /**
+     * The flashcard lookup, then the source text lookup
+     */
+    const mockSource = (row: unknown, source: unknown) => {
+      const sourceEq = vi.fn().mockReturnValue({
+        maybeSingle: vi.fn().mockResolvedValue({ data: source, error: null }),
+      });
+      vi.mocked(mockSupabase.from)
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              maybeSingle: vi.fn().mockResolvedValue({ data: row, error: null }),
+            }),
+          }),
+        } as never)
+        .mockReturnValueOnce({ select: vi.fn().mockReturnValue({ eq: sourceEq }) } as never);
+      return sourceEq;
+    };
+
+    const aiCard = { ...flashcardRow, source: "ai", generation_id: 42, source_start: 7, source_end: 62 };
+
+    it("should return the passage with the text around it", async () => {
+      // Arrange
+      const sourceEq = mockSource(aiCard, { text: SOURCE });
+
+      // Act
+      const result = await service.getFlashcardSource(7);
+
+      // Assert
+      expect(mockSupabase.from).toHaveBeenLastCalledWith("ai_generation_sources");
+      expect(sourceEq).toHaveBeenCalledWith("generation_id", 42);
+      expect(result).toEqual({
+        flashcard_id: 7,
+        generation_id: 42,
+        span: { start: 7, end: 62 },
+        before: "Intro. ",
+        passage: "Row Level Security restricts which rows a user can read",
+        after: ". Outro.",
+      });
+    });
+
+    it("should throw NOT_FOUND for a card without a source passage", async () => {
+      // Arrange
+      mockSource({ ...flashcardRow, generation_id: null, source_start: null, source_end: null }, null);
+
+      // Act
+      const error = await service.getFlashcardSource(7).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(FlashcardServiceError);
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+      expect(error.message).toBe("This flashcard has no source passage");
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw NOT_FOUND when the source text was not kept", async () => {
+      // Arrange
+      mockSource(aiCard, null);
+
+      // Act
+      const error = await service.getFlashcardSource(7).catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe("bulkCreateFlashcards", () => {
+    const setupInsert = () => {
+      const insert = vi.fn().mockImplementation((rows: any[]) => ({
+        select: vi.fn().mockResolvedValue({
+          data: rows.map((row, index) => ({ ...flashcardRow, ...row, id: 100 + index })),
+          error: null,
+        }),
+      }));
+      vi.mocked(mockSupabase.from).mockImplementation((table: string) =>
+        table === "decks" ? ownedDeckQuery() : { insert }
+      );
+      return insert;
+    };
+
+    it("should insert all valid cards in a single statement", async () => {
+      // Arrange
+      const insert = setupInsert();
+
+      // Act
+      const result = await service.bulkCreateFlashcards(
+        1,
+        [
+          { front: "Q1", back: "A1" },
+          { front: "Q2", back: "A2" },
+        ],
+        { source: "ai", atomic: false }
+      );
+
+      // Assert
+      expect(insert).toHaveBeenCalledTimes(1);
+      expect(insert.mock.calls[0][0]).toHaveLength(2);
+      expect(insert.mock.calls[0][0][0]).toMatchObject({ deck_id: 1, source: "ai", status: "new" });
+      expect(result.summary).toEqual({ total_created: 2, total_failed: 0 });
+      expect(result.failed).toBeUndefined();
+    });
+
+    it("should save valid cards and report invalid ones by index", async () => {
+      // Arrange
+      const insert = setupInsert();
+
+      // Act
+      const result = await service.bulkCreateFlashcards(
+        1,
+        [{ front: "Q1", back: "A1" }, { front: "", back: "A2" }, { front: "Q3", back: "x".repeat(501) }, "nope"],
+        { source: "manual", atomic: false }
+      );
+
+      // Assert
+      expect(insert.mock.calls[0][0]).toHaveLength(1);
+      expect(result.summary).toEqual({ total_created: 1, total_failed: 3 });
+      expect(result.failed?.map((failure) => failure.index)).toEqual([1, 2, 3]);
+      expect(result.failed?.[0].error.field).toBe("front");
+      expect(result.failed?.[1].error.field).toBe("back");
+      expect(result.failed?.[2].flashcard).toEqual({ front: "", back: "" });
+    });
+
+    it("should save nothing in atomic mode when any card is invalid", async () => {
+      // Arrange
+      const insert = setupInsert();
+
+      // Act
+      const error = await service
+        .bulkCreateFlashcards(
+          1,
+          [
+            { front: "Q1", back: "A1" },
+            { front: "", back: "A2" },
+          ],
+          { source: "manual", atomic: true }
+        )
+        .catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(FlashcardServiceError);
+      expect(error.code).toBe(ErrorCodes.INVALID_INPUT);
+      expect(error.details).toHaveLength(1);
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it("should throw ALL_CARDS_INVALID when no card passes validation", async () => {
+      // Arrange
+      const insert = setupInsert();
+
+      // Act
+      const error = await service
+        .bulkCreateFlashcards(1, [{ front: " ", back: "A" }], { source: "manual", atomic: false })
+        .catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.ALL_CARDS_INVALID);
+      expect(error.statusCode).toBe(400);
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("draft review", () => {
+    const draftRow = { ...flashcardRow, id: 8, status: "draft", source: "ai" };
+
+    const lookupQuery = (row: unknown) => ({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          maybeSingle: vi.fn().mockResolvedValue({ data: row, error: null }),
+        }),
+      }),
+    });
+
+    it("should promote a draft in place instead of inserting a new row", async () => {
+      // Arrange
+      const single = vi.fn().mockResolvedValue({
+        data: { id: 8, status: "new", updated_at: "2025-11-27T10:00:00Z" },
+        error: null,
+      });
+      const statusGuard = vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ single }) });
+      const update = vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ eq: statusGuard }) });
+      const insert = vi.fn();
+      vi.mocked(mockSupabase.from).mockReturnValue({ ...lookupQuery(draftRow), update, insert } as never);
+
+      // Act
+      const result = await service.acceptDraft(8);
+
+      // Assert
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: "new" }));
+      expect(statusGuard).toHaveBeenCalledWith("status", "draft");
+      expect(insert).not.toHaveBeenCalled();
+      expect(result).toEqual({ id: 8, status: "new", updated_at: "2025-11-27T10:00:00Z" });
+    });
+
+    it("should refuse to accept or reject a card that is not a draft", async () => {
+      // Arrange
+      const update = vi.fn();
+      const remove = vi.fn();
+      vi.mocked(mockSupabase.from).mockReturnValue({ ...lookupQuery(flashcardRow), update, delete: remove } as never);
+
+      // Act
+      const acceptError = await service.acceptDraft(7).catch((e) => e);
+      const rejectError = await service.rejectDraft(7).catch((e) => e);
+
+      // Assert
+      expect(acceptError).toBeInstanceOf(FlashcardServiceError);
+      expect(acceptError.code).toBe(ErrorCodes.INVALID_STATUS);
+      expect(rejectError.code).toBe(ErrorCodes.INVALID_STATUS);
+      expect(rejectError.statusCode).toBe(400);
+      expect(update).not.toHaveBeenCalled();
+      expect(remove).not.toHaveBeenCalled();
+    });
+
+    it("should delete a rejected draft", async () => {
+      // Arrange
+      const statusGuard = vi.fn().mockResolvedValue({ error: null });
+      const remove = vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ eq: statusGuard }) });
+      vi.mocked(mockSupabase.from).mockReturnValue({ ...lookupQuery(draftRow), delete: remove } as never);
+
+      // Act
+      await service.rejectDraft(8);
+
+      // Assert
+      expect(remove).toHaveBeenCalledTimes(1);
+      expect(statusGuard).toHaveBeenCalledWith("status", "draft");
+    });
+
+    it("should only reject drafts of the given deck in bulk", async () => {
+      // Arrange
+      const select = vi.fn().mockResolvedValue({ data: [{ id: 8 }], error: null });
+      const inIds = vi.fn().mockReturnValue({ select });
+      const statusGuard = vi.fn().mockReturnValue({ in: inIds });
+      const deckGuard = vi.fn().mockReturnValue({ eq: statusGuard });
+      const flashcardsQuery = { delete: vi.fn().mockReturnValue({ eq: deckGuard }) };
+      vi.mocked(mockSupabase.from).mockImplementation((table: string) =>
+        table === "decks" ? ownedDeckQuery() : flashcardsQuery
+      );
+
+      // Act
+      const deletedIds = await service.rejectDrafts(1, [8, 9]);
+
+      // Assert
+      expect(deckGuard).toHaveBeenCalledWith("deck_id", 1);
+      expect(statusGuard).toHaveBeenCalledWith("status", "draft");
+      expect(inIds).toHaveBeenCalledWith("id", [8, 9]);
+      expect(deletedIds).toEqual([8]);
+    });
+
+    it("should record an accepted draft that was edited, with its edit distance", async () => {
+      // Arrange
+      const generatedDraft = { ...draftRow, generation_id: 42, generated_front: "What is RLS", generated_back: "RLS" };
+      const single = vi.fn().mockResolvedValue({
+        data: { id: 8, status: "new", updated_at: "2025-11-27T10:00:00Z" },
+        error: null,
+      });
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ single }) }) }),
+      });
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(mockSupabase.from).mockImplementation((table: string) =>
+        table === "ai_card_reviews" ? { upsert } : { ...lookupQuery(generatedDraft), update }
+      );
+
+      // Act
+      await service.acceptDraft(8);
+
+      // Assert - "?" added to the front, "RLS" expanded to "Row Level Security" in the back
+      expect(upsert).toHaveBeenCalledWith(
+        [{ user_id: userId, generation_id: 42, flashcard_id: 8, decision: "edited", edit_distance: 16 }],
+        { onConflict: "user_id,flashcard_id", ignoreDuplicates: true }
+      );
+    });
+
+    it("should reject drafts in bulk even when their decisions cannot be recorded", async () => {
+      // Arrange
+      const rejected = { id: 8, front: "Q", back: "A", generation_id: 42, generated_front: "Q", generated_back: "A" };
+      const select = vi.fn().mockResolvedValue({ data: [rejected], error: null });
+      const flashcardsQuery = {
+        delete: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ in: vi.fn().mockReturnValue({ select }) }) }),
+        }),
+      };
+      const upsert = vi.fn().mockResolvedValue({ error: { message: "permission denied" } });
+      vi.mocked(mockSupabase.from).mockImplementation((table: string) =>
+        table === "decks" ? ownedDeckQuery() : table === "ai_card_reviews" ? { upsert } : flashcardsQuery
+      );
+
+      // Act
+      const deletedIds = await service.rejectDrafts(1, [8]);
+
+      // Assert
+      expect(deletedIds).toEqual([8]);
+      expect(upsert).toHaveBeenCalledWith(
+        [{ user_id: userId, generation_id: 42, flashcard_id: 8, decision: "rejected", edit_distance: 0 }],
+        expect.anything()
+      );
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Password Service
+ * Tests cover: refusing requests without a session and sessions not created by a recent reset link,
+ * updating the password and ending the recovery session, and passwords Supabase rejects
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { PasswordService, PasswordServiceError } from "@/lib/services/password.service";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+describe("PasswordService", () => {
+  let mockSupabase: any;
+  let service: PasswordService;
+
+  const now = new Date("2026-02-10T12:00:00Z");
+  const secondsAgo = (seconds: number) => Math.floor(now.getTime() / 1000) - seconds;
+
+  /**
+   * Mock the session's assurance level: its authentication methods, or no session at all
+   */
+  const mockSession = (methods: { method: string; timestamp: number }[] | null) => {
+    mockSupabase.auth.mfa = {
+      getAuthenticatorAssuranceLevel: vi.fn().mockResolvedValue({
+        data: methods
+          ? { currentLevel: "aal1", nextLevel: "aal1", currentAuthenticationMethods: methods }
+          : { currentLevel: null, nextLevel: null, currentAuthenticationMethods: [] },
+        error: null,
+      }),
+    };
+  };
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new PasswordService(mockSupabase as never);
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should update the password of a recovery session and sign the user out", async () => {
+    // Arrange
+    mockSession([{ method: "recovery", timestamp: secondsAgo(120) }]);
+    mockSupabase.auth.updateUser.mockResolvedValue({ data: { user: {} }, error: null });
+
+    // Act
+    await service.updatePassword("N3w-password");
+
+    // Assert
+    expect(mockSupabase.auth.updateUser).toHaveBeenCalledWith({ password: "N3w-password" });
+    expect(mockSupabase.auth.signOut).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return 401 INVALID_TOKEN without a session", async () => {
+    // Arrange
+    mockSession(null);
+
+    // Act
+    const error = await service.updatePassword("N3w-password").catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(PasswordServiceError);
+    expect(error.code).toBe(ErrorCodes.INVALID_TOKEN);
+    expect(error.statusCode).toBe(401);
+    expect(mockSupabase.auth.updateUser).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["a password login", [{ method: "password", timestamp: secondsAgo(60) }]],
+    ["a magic link", [{ method: "otp", timestamp: secondsAgo(60) }]],
+    ["a reset link followed over an hour ago", [{ method: "recovery", timestamp: secondsAgo(3601) }]],
+  ])("should return 403 FORBIDDEN for a session created by %s", async (_, methods) => {
+    // Arrange
+    mockSession(methods);
+
+    // Act
+    const error = await service.updatePassword("N3w-password").catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(PasswordServiceError);
+    expect(error.code).toBe(ErrorCodes.FORBIDDEN);
+    expect(error.statusCode).toBe(403);
+    expect(mockSupabase.auth.updateUser).not.toHaveBeenCalled();
+    expect(mockSupabase.auth.signOut).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 INVALID_INPUT when Supabase rejects reusing the current password", async () => {
+    // Arrange
+    mockSession([{ method: "recovery", timestamp: secondsAgo(120) }]);
+    mockSupabase.auth.updateUser.mockResolvedValue({ data: { user: null }, error: { code: "same_password" } });
+
+    // Act
+    const error = await service.updatePassword("0ld-password").catch((e) => e);
+
+    // Assert
+    expect(error.code).toBe(ErrorCodes.INVALID_INPUT);
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe("New password must be different from the old one");
+    expect(mockSupabase.auth.signOut).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 INTERNAL_ERROR when the password cannot be saved", async () => {
+    // Arrange
+    mockSession([{ method: "recovery", timestamp: secondsAgo(120) }]);
+    mockSupabase.auth.updateUser.mockResolvedValue({ data: { user: null }, error: { code: "unexpected_failure" } });
+
+    // Act
+    const error = await service.updatePassword("N3w-password").catch((e) => e);
+
+    // Assert
+    expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    expect(error.statusCode).toBe(500);
+  });
+});
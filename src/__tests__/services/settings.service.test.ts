@@ -0,0 +1,443 @@
+/**
+ * Unit Tests for Settings Service
+ * Tests cover: default settings, FSRS parameters, saving retention and time zone (one time zone change per 30
+ * days), and weight optimization (INSUFFICIENT_HISTORY, the hourly limit, fitting in the background, reading the
+ * history in pages of whole card histories, and reporting lost runs)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SettingsService, SettingsServiceError } from "@/lib/services/settings.service";
+import { FSRS_DEFAULT_WEIGHTS } from "@/lib/scheduling/fsrs";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Chainable query mock: every builder method returns the same object, awaiting it yields `result`
+ */
+const query = (result: { data?: unknown; error?: unknown }) => {
+  const resolved = { data: null, error: null, ...result };
+  const builder: any = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(resolved).then(resolve),
+  };
+  for (const method of ["select", "upsert", "eq", "order", "limit", "range"]) {
+    builder[method] = vi.fn().mockReturnValue(builder);
+  }
+  builder.single = vi.fn().mockResolvedValue(resolved);
+  builder.maybeSingle = vi.fn().mockResolvedValue(resolved);
+  return builder;
+};
+
+describe("SettingsService", () => {
+  let mockSupabase: any;
+  let service: SettingsService;
+
+  const userId = "test-user-id";
+
+  const savedSettings = {
+    desired_retention: 0.85,
+    fsrs_weights: null,
+    weights_optimized_at: null,
+    optimized_review_count: 0,
+    timezone: "Europe/Warsaw",
+    timezone_changed_at: null,
+  };
+
+  /**
+   * Route each `from()` call to the next queued builder for that table
+   */
+  const mockTables = (tables: Record<string, any[]>) => {
+    vi.mocked(mockSupabase.from).mockImplementation((table: string) => {
+      const next = tables[table]?.shift();
+      if (!next) throw new Error(`Unexpected query on ${table}`);
+      return next;
+    });
+  };
+
+  /**
+   * Review history of `cards` cards, each reviewed on three days two days apart
+   */
+  const history = (cards: number) =>
+    Array.from({ length: cards }, (_, i) =>
+      [1, 3, 5].map((day) => ({
+        flashcard_id: i + 1,
+        grade: day === 3 && i % 4 === 0 ? "again" : "good",
+        reviewed_at: `2025-11-0${day}T10:00:00Z`,
+      }))
+    ).flat();
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new SettingsService(mockSupabase as never, userId);
+
+    vi.clearAllMocks();
+  });
+
+  describe("getSettings", () => {
+    it("should return the defaults when the user has no settings row", async () => {
+      // Arrange
+      mockTables({ user_settings: [query({ data: null })] });
+
+      // Act
+      const result = await service.getSettings();
+
+      // Assert
+      expect(result).toEqual({
+        desired_retention: 0.9,
+        fsrs_weights: null,
+        weights_optimized_at: null,
+        optimized_review_count: 0,
+        timezone: "UTC",
+        timezone_changed_at: null,
+      });
+    });
+
+    it("should throw INTERNAL_ERROR when the query fails", async () => {
+      // Arrange
+      mockTables({ user_settings: [query({ error: { message: "boom" } })] });
+
+      // Act
+      const error = await service.getSettings().catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(SettingsServiceError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+
+  describe("getFsrsParameters", () => {
+    it("should fall back to the default weights when none are stored", async () => {
+      // Arrange
+      mockTables({ user_settings: [query({ data: savedSettings })] });
+
+      // Act
+      const result = await service.getFsrsParameters();
+
+      // Assert
+      expect(result).toEqual({ weights: FSRS_DEFAULT_WEIGHTS, desiredRetention: 0.85 });
+    });
+  });
+
+  describe("updateSettings", () => {
+    it("should upsert the user's row", async () => {
+      // Arrange
+      const upsert = query({ data: savedSettings });
+      mockTables({ user_settings: [upsert] });
+
+      // Act
+      const result = await service.updateSettings({ desired_retention: 0.85 });
+
+      // Assert
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        { user_id: userId, desired_retention: 0.85 },
+        { onConflict: "user_id" }
+      );
+      expect(result).toEqual(savedSettings);
+    });
+
+    it("should save the time zone alone", async () => {
+      // Arrange
+      const upsert = query({ data: savedSettings });
+      mockTables({ user_settings: [query({ data: null }), upsert] });
+
+      // Act
+      await service.updateSettings({ timezone: "Europe/Warsaw" });
+
+      // Assert
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        { user_id: userId, timezone: "Europe/Warsaw" },
+        { onConflict: "user_id" }
+      );
+    });
+
+    it("should throw RATE_LIMIT_EXCEEDED when the time zone changed within 30 days", async () => {
+      // Arrange
+      const changedAt = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString();
+      mockTables({ user_settings: [query({ data: { ...savedSettings, timezone_changed_at: changedAt } })] });
+
+      // Act
+      const error = await service.updateSettings({ timezone: "Pacific/Kiritimati" }).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(SettingsServiceError);
+      expect(error.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+      expect(error.statusCode).toBe(429);
+      expect(error.details).toEqual({
+        retry_at: new Date(Date.parse(changedAt) + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it("should save the unchanged time zone and the retention within 30 days of a change", async () => {
+      // Arrange
+      const changedAt = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const upsert = query({ data: savedSettings });
+      mockTables({ user_settings: [query({ data: { ...savedSettings, timezone_changed_at: changedAt } }), upsert] });
+
+      // Act
+      await service.updateSettings({ desired_retention: 0.85, timezone: "Europe/Warsaw" });
+
+      // Assert
+      expect(upsert.upsert).toHaveBeenCalled();
+    });
+
+    it("should change the time zone again once 30 days have passed", async () => {
+      // Arrange
+      const changedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+      const upsert = query({ data: savedSettings });
+      mockTables({ user_settings: [query({ data: { ...savedSettings, timezone_changed_at: changedAt } }), upsert] });
+
+      // Act
+      await service.updateSettings({ timezone: "America/New_York" });
+
+      // Assert
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        { user_id: userId, timezone: "America/New_York" },
+        { onConflict: "user_id" }
+      );
+    });
+
+    it("should throw RATE_LIMIT_EXCEEDED when the database refuses a parallel change", async () => {
+      // Arrange
+      mockTables({
+        user_settings: [
+          query({ data: savedSettings }),
+          query({ error: { code: "55000", message: "once every 30 days" } }),
+        ],
+      });
+
+      // Act
+      const error = await service.updateSettings({ timezone: "America/New_York" }).catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+      expect(error.statusCode).toBe(429);
+    });
+  });
+
+  describe("startFsrsOptimization", () => {
+    const run = (startedMinutesAgo: number, status = "succeeded") => ({
+      id: 6,
+      user_id: userId,
+      status,
+      review_count: 60,
+      loss_before: 0.4,
+      loss_after: 0.3,
+      error_message: null,
+      started_at: new Date(Date.now() - startedMinutesAgo * 60 * 1000).toISOString(),
+      finished_at: null,
+    });
+
+    /**
+     * Mock the two run functions: starting returns `runId`, finishing succeeds. Returns the finish mock.
+     */
+    const mockRunFunctions = (runId: number | null) => {
+      const finish = vi.fn().mockResolvedValue({ data: true, error: null });
+      vi.mocked(mockSupabase.rpc).mockImplementation((fn: string, args: unknown) =>
+        fn === "start_fsrs_optimization" ? Promise.resolve({ data: runId, error: null }) : finish(args)
+      );
+      return finish;
+    };
+
+    it("should throw INSUFFICIENT_HISTORY when there are too few repeat reviews", async () => {
+      // Arrange
+      mockRunFunctions(7);
+      mockTables({
+        fsrs_optimization_runs: [query({ data: null })],
+        user_settings: [query({ data: null })],
+        flashcard_performance: [query({ data: history(10) })],
+      });
+
+      // Act
+      const error = await service.startFsrsOptimization().catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(SettingsServiceError);
+      expect(error.code).toBe(ErrorCodes.INSUFFICIENT_HISTORY);
+      expect(error.statusCode).toBe(422);
+      expect(error.details).toEqual({ review_count: 20, required: 50 });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it("should throw RATE_LIMIT_EXCEEDED without reading the history when the last run started within the hour", async () => {
+      // Arrange
+      const latest = run(20);
+      mockTables({ fsrs_optimization_runs: [query({ data: latest })] });
+
+      // Act
+      const error = await service.startFsrsOptimization().catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+      expect(error.statusCode).toBe(429);
+      expect(error.details).toEqual({
+        retry_at: new Date(Date.parse(latest.started_at) + 60 * 60 * 1000).toISOString(),
+      });
+      expect(mockSupabase.from).not.toHaveBeenCalledWith("flashcard_performance");
+    });
+
+    it("should throw RATE_LIMIT_EXCEEDED when a parallel request started a run first", async () => {
+      // Arrange
+      mockRunFunctions(null);
+      mockTables({
+        fsrs_optimization_runs: [query({ data: run(90) }), query({ data: run(0, "running") })],
+        user_settings: [query({ data: null })],
+        flashcard_performance: [query({ data: history(30) })],
+      });
+
+      // Act
+      const error = await service.startFsrsOptimization().catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+    });
+
+    it("should return the running run at once, then save the fitted weights and record the outcome", async () => {
+      // Arrange
+      const finish = mockRunFunctions(6);
+      const upsert = query({ data: { ...savedSettings, optimized_review_count: 60 } });
+      mockTables({
+        fsrs_optimization_runs: [query({ data: null }), query({ data: run(0, "running") })],
+        user_settings: [query({ data: null }), query({ data: savedSettings }), upsert],
+        flashcard_performance: [query({ data: history(30) })],
+      });
+
+      // Act
+      const started = await service.startFsrsOptimization();
+
+      // Assert
+      expect(started.optimization).toMatchObject({ id: 6, status: "running" });
+      expect(upsert.upsert).not.toHaveBeenCalled();
+
+      // Act
+      await started.run();
+
+      // Assert
+      const saved = upsert.upsert.mock.calls[0][0];
+      expect(saved.fsrs_weights).toHaveLength(17);
+      expect(saved.optimized_review_count).toBe(60);
+      expect(saved.weights_optimized_at).toEqual(expect.any(String));
+      const outcome = finish.mock.calls[0][0];
+      expect(outcome).toMatchObject({ p_run_id: 6, p_status: "succeeded", p_review_count: 60 });
+      expect(outcome.p_loss_after).toBeLessThanOrEqual(outcome.p_loss_before);
+    });
+
+    it("should record a failed run when the weights cannot be saved", async () => {
+      // Arrange
+      const finish = mockRunFunctions(6);
+      mockTables({
+        fsrs_optimization_runs: [query({ data: null }), query({ data: run(0, "running") })],
+        user_settings: [query({ data: null }), query({ data: savedSettings }), query({ error: { message: "boom" } })],
+        flashcard_performance: [query({ data: history(30) })],
+      });
+      const started = await service.startFsrsOptimization();
+
+      // Act
+      await started.run();
+
+      // Assert
+      expect(finish).toHaveBeenCalledWith({
+        p_run_id: 6,
+        p_status: "failed",
+        p_error_message: "Failed to save settings",
+      });
+    });
+
+    it("should read the history page by page until a page comes back short", async () => {
+      // Arrange - 1200 reviews of 400 cards
+      const finish = mockRunFunctions(6);
+      const reviews = history(400);
+      const pages = [query({ data: reviews.slice(0, 1000) }), query({ data: reviews.slice(1000) })];
+      mockTables({
+        fsrs_optimization_runs: [query({ data: null }), query({ data: run(0, "running") })],
+        user_settings: [query({ data: null }), query({ data: savedSettings }), query({ data: savedSettings })],
+        flashcard_performance: [...pages],
+      });
+
+      // Act
+      await (await service.startFsrsOptimization()).run();
+
+      // Assert
+      expect(pages[0].range).toHaveBeenCalledWith(0, 999);
+      expect(pages[1].range).toHaveBeenCalledWith(1000, 1999);
+      expect(pages[0].order).toHaveBeenNthCalledWith(1, "flashcard_id", { ascending: false });
+      expect(finish).toHaveBeenCalledWith(expect.objectContaining({ p_review_count: 800 }));
+    });
+
+    it("should stop at the review limit and leave out the card whose history it cuts", async () => {
+      // Arrange - 9990 cards reviewed once, then a card reviewed 20 times across the limit of 10000
+      const reviews = [
+        ...Array.from({ length: 9990 }, (_, i) => ({
+          flashcard_id: i + 2,
+          grade: "good",
+          reviewed_at: "2025-11-01T10:00:00Z",
+        })),
+        ...Array.from({ length: 20 }, (_, day) => ({
+          flashcard_id: 1,
+          grade: "good",
+          reviewed_at: new Date(Date.UTC(2025, 10, day + 1, 10)).toISOString(),
+        })),
+      ];
+      const pages = Array.from({ length: 11 }, (_, page) =>
+        query({ data: reviews.slice(page * 1000, Math.min(page * 1000 + 1000, 10001)) })
+      );
+      mockTables({
+        fsrs_optimization_runs: [query({ data: null })],
+        user_settings: [query({ data: null })],
+        flashcard_performance: [...pages],
+      });
+
+      // Act
+      const error = await service.startFsrsOptimization().catch((e) => e);
+
+      // Assert - none of the cut card's repeat reviews were fitted
+      expect(pages[10].range).toHaveBeenCalledWith(10000, 10000);
+      expect(error.code).toBe(ErrorCodes.INSUFFICIENT_HISTORY);
+      expect(error.details).toEqual({ review_count: 0, required: 50 });
+    });
+  });
+
+  describe("getOptimization", () => {
+    it("should report a run still running after the hour as failed", async () => {
+      // Arrange
+      mockTables({
+        user_settings: [query({ data: savedSettings })],
+        fsrs_optimization_runs: [
+          query({
+            data: {
+              id: 6,
+              user_id: userId,
+              status: "running",
+              review_count: null,
+              loss_before: null,
+              loss_after: null,
+              error_message: null,
+              started_at: new Date(Date.now() - 61 * 60 * 1000).toISOString(),
+              finished_at: null,
+            },
+          }),
+        ],
+      });
+
+      // Act
+      const result = await service.getOptimization();
+
+      // Assert
+      expect(result.settings).toEqual(savedSettings);
+      expect(result.optimization).toMatchObject({
+        id: 6,
+        status: "failed",
+        error_message: "The optimization was interrupted",
+      });
+    });
+
+    it("should return no run before the first", async () => {
+      // Arrange
+      mockTables({ user_settings: [query({ data: savedSettings })], fsrs_optimization_runs: [query({ data: null })] });
+
+      // Act & Assert
+      expect((await service.getOptimization()).optimization).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Unit Tests for Stats Service
+ * Tests cover: deck statistics (including NOT_FOUND), overview aggregation counted in the database, accuracy,
+ * streaks and AI usage
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { StatsService, StatsServiceError } from "@/lib/services/stats.service";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Chainable query mock: every builder method returns the same object, awaiting it yields `result`
+ */
+const query = (result: { data?: unknown; error?: unknown; count?: number | null }) => {
+  const resolved = { data: null, error: null, count: null, ...result };
+  const builder: any = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(resolved).then(resolve),
+  };
+  for (const method of ["select", "eq", "in", "neq", "gte", "lt", "lte", "order", "limit"]) {
+    builder[method] = vi.fn().mockReturnValue(builder);
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue(resolved);
+  return builder;
+};
+
+describe("StatsService", () => {
+  let mockSupabase: any;
+  let service: StatsService;
+
+  const userId = "test-user-id";
+
+  /**
+   * Route each `from()` call to the next queued builder for that table
+   */
+  const mockTables = (tables: Record<string, any[]>) => {
+    vi.mocked(mockSupabase.from).mockImplementation((table: string) => {
+      const next = tables[table]?.shift();
+      if (!next) throw new Error(`Unexpected query on ${table}`);
+      return next;
+    });
+  };
+
+  /**
+   * Card count queries, in the order they are made: all cards, new, learning, due today
+   */
+  const cardCounts = (total: number, fresh: number, learning: number, due: number) =>
+    [total, fresh, learning, due].map((count) => query({ count }));
+
+  /**
+   * Route the generated cards total and today's usage totals RPCs; the quota plan is not found
+   */
+  const mockGeneratedTotal = (result: { data?: number; error?: unknown }, usedToday = 0) => {
+    const totals = { cards_count: usedToday, refinements_count: 0, prompt_tokens: 0, completion_tokens: 0, cost: null };
+    vi.mocked(mockSupabase.rpc).mockImplementation(((fn: string) =>
+      fn === "get_ai_cards_generated_total"
+        ? Promise.resolve({ data: null, error: null, ...result })
+        : {
+            maybeSingle: vi.fn().mockResolvedValue({ data: fn === "get_ai_usage_totals" ? totals : null, error: null }),
+          }) as never);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-11-26T15:00:00Z"));
+
+    mockSupabase = createMockSupabaseClient();
+    service = new StatsService(mockSupabase as never, userId);
+
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("getDeckStats", () => {
+    it("should throw NOT_FOUND when the deck does not belong to the user", async () => {
+      // Arrange
+      mockTables({ decks: [query({ data: null })] });
+
+      // Act
+      const error = await service.getDeckStats(99).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(StatsServiceError);
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+      expect(error.statusCode).toBe(404);
+    });
+
+    it("should aggregate cards, sessions and reviews of the deck", async () => {
+      // Arrange
+      const totalReviews = query({ count: 8 });
+      const correctReviews = query({ count: 6 });
+      const flashcards = cardCounts(3, 1, 2, 2);
+      mockTables({
+        decks: [query({ data: { id: 1, name: "Spanish" } })],
+        flashcards: [...flashcards],
+        study_sessions: [query({ data: [{ started_at: "2025-11-25T10:00:00Z" }], count: 3 })],
+        flashcard_performance: [totalReviews, correctReviews],
+      });
+
+      // Act
+      const result = await service.getDeckStats(1);
+
+      // Assert
+      expect(result).toEqual({
+        deck: { id: 1, name: "Spanish" },
+        cards: { total: 3, new: 1, learning: 2, due_today: 2 },
+        study: {
+          total_sessions: 3,
+          total_cards_reviewed: 8,
+          average_accuracy: 0.75,
+          last_studied_at: "2025-11-25T10:00:00Z",
+        },
+      });
+      expect(totalReviews.eq).toHaveBeenCalledWith("study_sessions.deck_id", 1);
+      expect(correctReviews.in).toHaveBeenCalledWith("grade", ["good", "easy"]);
+      expect(flashcards[0].select).toHaveBeenCalledWith("id, decks!inner(user_id)", { count: "exact", head: true });
+      expect(flashcards[0].eq).toHaveBeenCalledWith("deck_id", 1);
+      expect(flashcards[1].eq).toHaveBeenCalledWith("status", "new");
+      expect(flashcards[3].lte).toHaveBeenCalledWith("next_review_date", "2025-11-26");
+    });
+
+    it("should report zero accuracy and no last study date for an unstudied deck", async () => {
+      // Arrange
+      mockTables({
+        decks: [query({ data: { id: 1, name: "Spanish" } })],
+        flashcards: cardCounts(0, 0, 0, 0),
+        study_sessions: [query({ data: [], count: 0 })],
+        flashcard_performance: [query({ count: 0 }), query({ count: 0 })],
+      });
+
+      // Act
+      const result = await service.getDeckStats(1);
+
+      // Assert
+      expect(result.study).toEqual({
+        total_sessions: 0,
+        total_cards_reviewed: 0,
+        average_accuracy: 0,
+        last_studied_at: null,
+      });
+    });
+  });
+
+  describe("getOverviewStats", () => {
+    it("should aggregate statistics across all decks", async () => {
+      // Arrange - more sessions than are returned; only the recent ones are needed for the streak
+      mockGeneratedTotal({ data: 14 }, 4);
+      mockTables({
+        decks: [query({ count: 2 })],
+        flashcards: cardCounts(3, 1, 2, 2),
+        study_sessions: [
+          query({
+            count: 1500,
+            data: [
+              { started_at: "2025-11-26T08:00:00Z", cards_reviewed: 5 },
+              { started_at: "2025-11-25T20:00:00Z", cards_reviewed: 3 },
+              { started_at: "2025-11-25T08:00:00Z", cards_reviewed: 0 },
+              { started_at: "2025-11-24T08:00:00Z", cards_reviewed: 2 },
+              { started_at: "2025-11-21T08:00:00Z", cards_reviewed: 4 },
+            ],
+          }),
+        ],
+        flashcard_performance: [query({ count: 14 }), query({ count: 7 })],
+      });
+
+      // Act
+      const result = await service.getOverviewStats();
+
+      // Assert
+      expect(result).toEqual({
+        decks: { total: 2 },
+        cards: { total: 3, due_today: 2 },
+        study: { total_sessions: 1500, total_cards_reviewed: 14, average_accuracy: 0.5, current_streak_days: 3 },
+        ai: { cards_generated_total: 14, daily_limit: 50, used_today: 4 },
+      });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_cards_generated_total");
+    });
+
+    it("should keep a streak that ended yesterday", async () => {
+      // Arrange
+      mockGeneratedTotal({ data: 0 });
+      mockTables({
+        decks: [query({ count: 0 })],
+        flashcards: cardCounts(0, 0, 0, 0),
+        study_sessions: [query({ data: [{ started_at: "2025-11-25T08:00:00Z", cards_reviewed: 1 }], count: 1 })],
+        flashcard_performance: [query({ count: 1 }), query({ count: 1 })],
+      });
+
+      // Act
+      const result = await service.getOverviewStats();
+
+      // Assert
+      expect(result.study.current_streak_days).toBe(1);
+      expect(result.cards).toEqual({ total: 0, due_today: 0 });
+    });
+
+    it.each([
+      ["study sessions", { sessions: query({ error: { message: "boom" } }), total: {} }],
+      ["the generated cards total", { sessions: query({ data: [], count: 0 }), total: { error: { message: "boom" } } }],
+    ])("should throw INTERNAL_ERROR when counting %s fails", async (_, { sessions, total }) => {
+      // Arrange
+      mockGeneratedTotal(total);
+      mockTables({
+        decks: [query({ count: 0 })],
+        flashcards: cardCounts(0, 0, 0, 0),
+        study_sessions: [sessions],
+        flashcard_performance: [query({ count: 0 }), query({ count: 0 })],
+      });
+
+      // Act
+      const error = await service.getOverviewStats().catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(StatsServiceError);
+      expect(error.code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * Unit Tests for Study Service
+ * Tests cover: session start (including NO_CARDS_DUE), next card, FSRS reviewing with counters and
+ * performance records (including repeated reviews), ending with accuracy, and session history with per-card grades
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { StudyService, StudyServiceError } from "@/lib/services/study.service";
+import { createMockSupabaseClient } from "../mocks/supabase.mock";
+import { ErrorCodes } from "@/types";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Chainable query mock: every builder method returns the same object, awaiting it yields `result`
+ */
+const query = (result: { data?: unknown; error?: unknown; count?: number | null }) => {
+  const resolved = { data: null, error: null, count: null, ...result };
+  const builder: any = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(resolved).then(resolve),
+  };
+  for (const method of ["select", "insert", "update", "eq", "is", "in", "lte", "order", "limit", "range"]) {
+    builder[method] = vi.fn().mockReturnValue(builder);
+  }
+  builder.single = vi.fn().mockResolvedValue(resolved);
+  builder.maybeSingle = vi.fn().mockResolvedValue(resolved);
+  return builder;
+};
+
+describe("StudyService", () => {
+  let mockSupabase: any;
+  let service: StudyService;
+
+  const userId = "test-user-id";
+
+  const activeSession = {
+    id: 3,
+    user_id: userId,
+    deck_id: 1,
+    started_at: "2025-11-26T10:00:00Z",
+    ended_at: null,
+    cards_reviewed: 2,
+    cards_correct: 1,
+  };
+
+  /**
+   * Route each `from()` call to the next queued builder for that table
+   */
+  const mockTables = (tables: Record<string, any[]>) => {
+    vi.mocked(mockSupabase.from).mockImplementation((table: string) => {
+      const next = tables[table]?.shift();
+      if (!next) throw new Error(`Unexpected query on ${table}`);
+      return next;
+    });
+  };
+
+  /**
+   * Resolve the session counter RPC with whether the review was counted
+   */
+  const mockReviewCounted = (counted: boolean) => {
+    vi.mocked(mockSupabase.rpc).mockResolvedValue({ data: counted, error: null });
+  };
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabaseClient();
+    service = new StudyService(mockSupabase as never, userId);
+
+    vi.clearAllMocks();
+  });
+
+  describe("startSession", () => {
+    it("should throw NO_CARDS_DUE with the next review date when nothing is due", async () => {
+      // Arrange
+      const insert = query({ data: activeSession });
+      mockTables({
+        decks: [query({ data: { id: 1 } })],
+        flashcards: [query({ data: [], count: 0 }), query({ data: { next_review_date: "2025-12-01" } })],
+        study_sessions: [insert],
+      });
+
+      // Act
+      const error = await service.startSession(1).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(StudyServiceError);
+      expect(error.code).toBe(ErrorCodes.NO_CARDS_DUE);
+      expect(error.statusCode).toBe(409);
+      expect(error.details).toEqual({ next_review_at: "2025-12-01" });
+      expect(insert.insert).not.toHaveBeenCalled();
+    });
+
+    it("should create a session and return the first due card", async () => {
+      // Arrange
+      const insert = query({ data: activeSession });
+      const dueCards = query({ data: [{ id: 7, front: "What is RLS?" }], count: 4 });
+      mockTables({
+        decks: [query({ data: { id: 1 } })],
+        flashcards: [dueCards],
+        study_sessions: [insert],
+      });
+
+      // Act
+      const result = await service.startSession(1);
+
+      // Assert
+      expect(dueCards.in).toHaveBeenCalledWith("status", ["new", "finalized"]);
+      expect(insert.insert).toHaveBeenCalledWith({ user_id: userId, deck_id: 1 });
+      expect(result.session).toEqual({ id: 3, deck_id: 1, started_at: activeSession.started_at, cards_to_review: 4 });
+      expect(result.first_card).toEqual({ id: 7, front: "What is RLS?" });
+    });
+  });
+
+  describe("getNextCard", () => {
+    it("should throw SESSION_COMPLETE when no cards are left", async () => {
+      // Arrange
+      mockTables({
+        study_sessions: [query({ data: activeSession })],
+        flashcards: [query({ data: [], count: 0 })],
+      });
+
+      // Act
+      const error = await service.getNextCard(3).catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.SESSION_COMPLETE);
+      expect(error.statusCode).toBe(410);
+    });
+
+    it("should throw NOT_FOUND for another user's session", async () => {
+      // Arrange
+      mockTables({ study_sessions: [query({ data: null })] });
+
+      // Act
+      const error = await service.getNextCard(99).catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+    });
+  });
+
+  describe("reviewCard", () => {
+    it("should reschedule the card and count a correct answer", async () => {
+      // Arrange
+      const cardUpdate = query({
+        data: { id: 7, ease_factor: 2.5, interval: 1, next_review_date: "2025-11-27" },
+      });
+      const performance = query({});
+      mockReviewCounted(true);
+      mockTables({
+        study_sessions: [query({ data: activeSession })],
+        flashcards: [
+          query({
+            data: {
+              id: 7,
+              ease_factor: 2.5,
+              interval: 0,
+              stability: null,
+              difficulty: null,
+              next_review_date: "2025-11-26",
+              last_reviewed_at: null,
+            },
+          }),
+          cardUpdate,
+          query({ data: [{ id: 8, front: "Next" }], count: 1 }),
+        ],
+        flashcard_performance: [performance],
+        user_settings: [query({ data: { desired_retention: 0.9, fsrs_weights: null } })],
+      });
+
+      // Act
+      const result = await service.reviewCard(3, 7, "good");
+
+      // Assert
+      // A first "good" review takes the FSRS initial stability (~3.7 days)
+      expect(cardUpdate.update).toHaveBeenCalledWith(
+        expect.objectContaining({ ease_factor: 2.5, interval: 4, stability: 3.7145, status: "finalized" })
+      );
+      expect(performance.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          flashcard_id: 7,
+          study_session_id: 3,
+          grade: "good",
+          previous_ease_factor: 2.5,
+          previous_interval: 0,
+          new_ease_factor: 2.5,
+          new_interval: 4,
+          elapsed_days: 0,
+          previous_stability: null,
+          new_stability: 3.7145,
+        })
+      );
+      expect(cardUpdate.eq).toHaveBeenCalledWith("next_review_date", "2025-11-26");
+      expect(cardUpdate.is).toHaveBeenCalledWith("last_reviewed_at", null);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("record_session_review", { p_session_id: 3, p_correct: true });
+      expect(result.next_card).toEqual({ id: 8, front: "Next" });
+      expect(result.session.cards_remaining).toBe(1);
+    });
+
+    it("should not count 'again' as correct and should bring the card back tomorrow", async () => {
+      // Arrange
+      const cardUpdate = query({ data: { id: 7, ease_factor: 2.3, interval: 1, next_review_date: "2025-11-27" } });
+      mockReviewCounted(true);
+      mockTables({
+        study_sessions: [query({ data: activeSession })],
+        flashcards: [
+          query({
+            data: {
+              id: 7,
+              ease_factor: 2.5,
+              interval: 10,
+              stability: 10,
+              difficulty: 5,
+              next_review_date: "2025-11-26",
+              last_reviewed_at: "2025-11-16T10:00:00Z",
+            },
+          }),
+          cardUpdate,
+          query({ data: [] }),
+        ],
+        flashcard_performance: [query({})],
+        user_settings: [query({ data: null })],
+      });
+
+      // Act
+      const result = await service.reviewCard(3, 7, "again");
+
+      // Assert
+      const update = cardUpdate.update.mock.calls[0][0];
+      expect(update).toMatchObject({ ease_factor: 2.3, interval: 1 });
+      expect(update.stability).toBeLessThan(10);
+      expect(cardUpdate.eq).toHaveBeenCalledWith("last_reviewed_at", "2025-11-16T10:00:00Z");
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("record_session_review", { p_session_id: 3, p_correct: false });
+      expect(result.next_card).toBeNull();
+    });
+
+    it("should reject a repeated review once the card was rescheduled", async () => {
+      // Arrange - the card was due when read, but another review replaced its schedule first
+      const performance = query({});
+      mockTables({
+        study_sessions: [query({ data: activeSession })],
+        flashcards: [
+          query({
+            data: {
+              id: 7,
+              ease_factor: 2.5,
+              interval: 0,
+              stability: null,
+              difficulty: null,
+              next_review_date: "2025-11-26",
+              last_reviewed_at: null,
+            },
+          }),
+          query({ data: null }),
+        ],
+        flashcard_performance: [performance],
+        user_settings: [query({ data: null })],
+      });
+
+      // Act
+      const error = await service.reviewCard(3, 7, "good").catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.CARD_ALREADY_REVIEWED);
+      expect(error.statusCode).toBe(409);
+      expect(performance.insert).not.toHaveBeenCalled();
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to count a review in a session that ended meanwhile", async () => {
+      // Arrange
+      mockReviewCounted(false);
+      mockTables({
+        study_sessions: [query({ data: activeSession })],
+        flashcards: [
+          query({
+            data: {
+              id: 7,
+              ease_factor: 2.5,
+              interval: 0,
+              stability: null,
+              difficulty: null,
+              next_review_date: "2025-11-26",
+              last_reviewed_at: null,
+            },
+          }),
+          query({ data: { id: 7 } }),
+        ],
+        flashcard_performance: [query({})],
+        user_settings: [query({ data: null })],
+      });
+
+      // Act
+      const error = await service.reviewCard(3, 7, "good").catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.SESSION_ENDED);
+      expect(error.statusCode).toBe(409);
+    });
+
+    it("should reject a card that is not due in the session's deck", async () => {
+      // Arrange
+      mockTables({
+        study_sessions: [query({ data: activeSession })],
+        flashcards: [query({ data: null })],
+      });
+
+      // Act
+      const error = await service.reviewCard(3, 42, "good").catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.INVALID_INPUT);
+      expect(error.statusCode).toBe(400);
+    });
+
+    it("should refuse reviews once the session has ended", async () => {
+      // Arrange
+      mockTables({
+        study_sessions: [query({ data: { ...activeSession, ended_at: "2025-11-26T10:30:00Z" } })],
+      });
+
+      // Act
+      const error = await service.reviewCard(3, 7, "good").catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.SESSION_ENDED);
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
+  describe("endSession", () => {
+    it("should close the session and report accuracy without the owner", async () => {
+      // Arrange
+      const ended = { ...activeSession, ended_at: "2025-11-26T10:30:00Z", cards_reviewed: 3, cards_correct: 2 };
+      mockTables({
+        study_sessions: [query({ data: activeSession }), query({ data: ended })],
+      });
+
+      // Act
+      const result = await service.endSession(3);
+
+      // Assert
+      expect(result.session.accuracy_rate).toBe(0.67);
+      expect(result.session.ended_at).toBe(ended.ended_at);
+      expect(result.session).not.toHaveProperty("user_id");
+    });
+  });
+
+  describe("listSessions", () => {
+    it("should list sessions with deck names, accuracy and pagination", async () => {
+      // Arrange
+      const list = query({
+        data: [
+          {
+            ...activeSession,
+            ended_at: "2025-11-26T10:30:00Z",
+            cards_reviewed: 4,
+            cards_correct: 3,
+            decks: { name: "Spanish" },
+          },
+        ],
+        count: 21,
+      });
+      mockTables({ study_sessions: [list] });
+
+      // Act
+      const result = await service.listSessions({ limit: 20, offset: 0 });
+
+      // Assert
+      expect(result.sessions).toEqual([
+        {
+          id: 3,
+          deck_id: 1,
+          deck_name: "Spanish",
+          started_at: "2025-11-26T10:00:00Z",
+          ended_at: "2025-11-26T10:30:00Z",
+          cards_reviewed: 4,
+          cards_correct: 3,
+          accuracy_rate: 0.75,
+        },
+      ]);
+      expect(result.pagination).toEqual({ total: 21, limit: 20, offset: 0, has_more: true });
+      expect(list.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(list.eq).not.toHaveBeenCalledWith("deck_id", expect.anything());
+    });
+
+    it("should filter by a deck the user owns", async () => {
+      // Arrange
+      const list = query({ data: [], count: 0 });
+      mockTables({ decks: [query({ data: { id: 1 } })], study_sessions: [list] });
+
+      // Act
+      await service.listSessions({ limit: 20, offset: 0, deck_id: 1 });
+
+      // Assert
+      expect(list.eq).toHaveBeenCalledWith("deck_id", 1);
+    });
+
+    it("should throw NOT_FOUND when filtering by another user's deck", async () => {
+      // Arrange
+      mockTables({ decks: [query({ data: null })] });
+
+      // Act
+      const error = await service.listSessions({ limit: 20, offset: 0, deck_id: 9 }).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(StudyServiceError);
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+    });
+  });
+
+  describe("getSessionDetail", () => {
+    it("should return the session with each card's grade in review order", async () => {
+      // Arrange
+      const performance = query({
+        data: [
+          {
+            id: 11,
+            flashcard_id: 7,
+            grade: "good",
+            reviewed_at: "2025-11-26T10:01:00Z",
+            previous_interval: 0,
+            new_interval: 4,
+            flashcards: { front: "Hola" },
+          },
+        ],
+      });
+      mockTables({
+        study_sessions: [query({ data: activeSession })],
+        decks: [query({ data: { name: "Spanish" } })],
+        flashcard_performance: [performance],
+      });
+
+      // Act
+      const result = await service.getSessionDetail(3);
+
+      // Assert
+      expect(result.session).toMatchObject({ id: 3, deck_name: "Spanish", accuracy_rate: 0.5 });
+      expect(result.reviews).toEqual([
+        {
+          id: 11,
+          flashcard_id: 7,
+          front: "Hola",
+          grade: "good",
+          reviewed_at: "2025-11-26T10:01:00Z",
+          previous_interval: 0,
+          new_interval: 4,
+        },
+      ]);
+      expect(performance.eq).toHaveBeenCalledWith("study_session_id", 3);
+    });
+
+    it("should throw NOT_FOUND for another user's session", async () => {
+      // Arrange
+      mockTables({ study_sessions: [query({ data: null })] });
+
+      // Act
+      const error = await service.getSessionDetail(99).catch((e) => e);
+
+      // Assert
+      expect(error.code).toBe(ErrorCodes.NOT_FOUND);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+});
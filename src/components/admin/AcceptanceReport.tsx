@@ -0,0 +1,209 @@
+/**
+ * AcceptanceReport Component
+ * Admin report of how many AI cards of all users were accepted as generated, accepted after edits
+ * or rejected, per period, model and prompt version
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type {
+  AcceptanceCounts,
+  AcceptanceReportInterval,
+  AcceptanceReportResponse,
+  AcceptanceReportRow,
+  ApiResponse,
+} from "@/types";
+
+const INTERVALS: { value: AcceptanceReportInterval; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+];
+
+/**
+ * A share as a whole percentage, or a dash when there is nothing to divide
+ */
+function formatRate(rate: number | null): string {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Start of a period in the report's UTC calendar
+ */
+function formatPeriod(row: AcceptanceReportRow, interval: AcceptanceReportInterval): string {
+  const date = new Date(row.period_start);
+  return interval === "month"
+    ? date.toLocaleDateString(undefined, { year: "numeric", month: "short", timeZone: "UTC" })
+    : date.toLocaleDateString(undefined, { timeZone: "UTC" });
+}
+
+function CountsSummary({ counts }: { counts: AcceptanceCounts }) {
+  return (
+    <dl className="grid grid-cols-2 gap-4 text-sm sm:grid-cols-4" data-test-id="acceptance-totals">
+      <div>
+        <dt className="text-muted-foreground">Acceptance rate</dt>
+        <dd className="text-2xl font-semibold">{formatRate(counts.acceptance_rate)}</dd>
+      </div>
+      <div>
+        <dt className="text-muted-foreground">Accepted as generated</dt>
+        <dd className="text-2xl font-semibold">{formatRate(counts.unedited_rate)}</dd>
+      </div>
+      <div>
+        <dt className="text-muted-foreground">Accepted / edited / rejected</dt>
+        <dd className="font-medium">
+          {counts.accepted} / {counts.edited} / {counts.rejected}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-muted-foreground">Average edit distance</dt>
+        <dd className="font-medium">{counts.avg_edit_distance ?? "–"}</dd>
+      </div>
+    </dl>
+  );
+}
+
+export default function AcceptanceReport() {
+  const [interval, setReportInterval] = useState<AcceptanceReportInterval>("day");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [report, setReport] = useState<AcceptanceReportResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ interval });
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+
+      const response = await fetch(`/api/admin/ai-acceptance?${params}`);
+      const data: ApiResponse<AcceptanceReportResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to load the acceptance report");
+      }
+
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the acceptance report");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [interval, from, to]);
+
+  // Reload whenever a filter changes
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="acceptance-interval">Group by</Label>
+          <select
+            id="acceptance-interval"
+            className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+            value={interval}
+            onChange={(e) => setReportInterval(e.target.value as AcceptanceReportInterval)}
+            data-test-id="acceptance-interval"
+          >
+            {INTERVALS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="acceptance-from">From</Label>
+          <Input
+            id="acceptance-from"
+            type="date"
+            value={from || report?.from || ""}
+            onChange={(e) => setFrom(e.target.value)}
+            data-test-id="acceptance-from"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="acceptance-to">To</Label>
+          <Input
+            id="acceptance-to"
+            type="date"
+            value={to || report?.to || ""}
+            onChange={(e) => setTo(e.target.value)}
+            data-test-id="acceptance-to"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>All users</CardTitle>
+            <CardDescription>
+              Cards generated from {report.from} to {report.to} (UTC) that were accepted or rejected
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CountsSummary counts={report.totals} />
+          </CardContent>
+        </Card>
+      )}
+
+      {report && report.rows.length === 0 && !isLoading && (
+        <p className="text-sm text-muted-foreground">No AI cards were reviewed in this period.</p>
+      )}
+
+      {report && report.rows.length > 0 && (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm" data-test-id="acceptance-rows">
+            <thead className="bg-muted/50 text-left text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 font-medium">Period</th>
+                <th className="px-3 py-2 font-medium">Model</th>
+                <th className="px-3 py-2 font-medium">Prompt</th>
+                <th className="px-3 py-2 text-right font-medium">Generations</th>
+                <th className="px-3 py-2 text-right font-medium">Accepted</th>
+                <th className="px-3 py-2 text-right font-medium">Edited</th>
+                <th className="px-3 py-2 text-right font-medium">Rejected</th>
+                <th className="px-3 py-2 text-right font-medium">Acceptance</th>
+                <th className="px-3 py-2 text-right font-medium">Avg. edits</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {report.rows.map((row) => (
+                <tr key={`${row.period_start}-${row.model}-${row.prompt_version}`}>
+                  <td className="px-3 py-2">{formatPeriod(row, report.interval)}</td>
+                  <td className="px-3 py-2">{row.model ?? "–"}</td>
+                  <td className="px-3 py-2">{row.prompt_version ?? "–"}</td>
+                  <td className="px-3 py-2 text-right">{row.generations}</td>
+                  <td className="px-3 py-2 text-right">{row.accepted}</td>
+                  <td className="px-3 py-2 text-right">{row.edited}</td>
+                  <td className="px-3 py-2 text-right">{row.rejected}</td>
+                  <td className="px-3 py-2 text-right font-medium">{formatRate(row.acceptance_rate)}</td>
+                  <td className="px-3 py-2 text-right">{row.avg_edit_distance ?? "–"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+    </div>
+  );
+}
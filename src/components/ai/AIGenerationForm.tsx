@@ -1,6 +1,6 @@
 /**
  * AIGenerationForm Component
- * Form for generating flashcards using AI from raw text
+ * Form for generating flashcards using AI from raw text or the text of an uploaded file
  */
 
 import { useState, useEffect } from "react";
@@ -10,21 +10,82 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import DocumentUpload from "./DocumentUpload";
 import FlashcardGrid from "./FlashcardGrid";
 import type { AIGenerationFormProps } from "./types";
-import type { AIUsageResponse, ApiSuccessResponse, AIGenerateResponse } from "@/types";
+import type {
+  AIGeneratedFlashcard,
+  AIGenerationJobResponse,
+  AIUsageResponse,
+  ApiResponse,
+  ApiSuccessResponse,
+  CardDifficulty,
+  CardLanguage,
+  CardStyle,
+  ListAIGenerationJobsResponse,
+  ListDraftsResponse,
+} from "@/types";
 import { ValidationConstraints } from "@/types";
 
+const LANGUAGE_LABELS: Record<CardLanguage, string> = {
+  source: "Same as the text",
+  en: "English",
+  pl: "Polish",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+  pt: "Portuguese",
+  uk: "Ukrainian",
+};
+
+const DIFFICULTY_LABELS: Record<CardDifficulty, string> = {
+  intro: "Intro",
+  intermediate: "Intermediate",
+  expert: "Expert",
+};
+
+const STYLE_LABELS: Record<CardStyle, string> = {
+  mixed: "Mixed",
+  definition: "Definitions",
+  why_question: "Why-questions",
+  application: "Application",
+};
+
+const SELECT_CLASS_NAME = "h-9 w-full rounded-md border border-input bg-background px-3 text-sm";
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const CACHED_NOTICE =
+  "These cards were reused from an earlier generation of the same text and options. Check “Generate new cards” to ask the AI again.";
+
+function scrollToResults() {
+  setTimeout(() => {
+    document.getElementById("generated-cards")?.scrollIntoView({ behavior: "smooth" });
+  }, 100);
+}
+
 export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
   const [text, setText] = useState("");
   const [maxCardsInput, setMaxCardsInput] = useState<string>(
     ValidationConstraints.aiGeneration.maxCardsDefault.toString()
   );
+  const [language, setLanguage] = useState<CardLanguage>("source");
+  const [difficulty, setDifficulty] = useState<CardDifficulty>("intermediate");
+  const [style, setStyle] = useState<CardStyle>("mixed");
+  const [focus, setFocus] = useState("");
+  // Skip the generation cache and call the AI even for a text it has already seen
+  const [forceRegenerate, setForceRegenerate] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [usage, setUsage] = useState<AIUsageResponse | null>(null);
   const [usageLoading, setUsageLoading] = useState(true);
-  const [generatedCards, setGeneratedCards] = useState<AIGenerateResponse | null>(null);
+  // Drafts still waiting for review; the grid removes the ones the user accepts or rejects
+  const [pendingDrafts, setPendingDrafts] = useState<AIGeneratedFlashcard[]>([]);
+  // Background job generating the drafts, polled until it finishes
+  const [activeJobId, setActiveJobId] = useState<number | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   // Fetch AI usage on component mount
   useEffect(() => {
@@ -46,11 +107,129 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
     fetchUsage();
   }, []);
 
+  // Reload drafts still waiting for review (they are persisted, so they survive a page refresh)
+  useEffect(() => {
+    const fetchDrafts = async () => {
+      try {
+        const drafts: ListDraftsResponse["drafts"] = [];
+        let hasMore = true;
+
+        // The list is paginated; fetch pages until every pending draft is loaded
+        while (hasMore) {
+          const response = await fetch(
+            `/api/decks/${deckId}/flashcards/drafts?limit=${ValidationConstraints.pagination.limitMax}&offset=${drafts.length}`
+          );
+          const data: ApiResponse<ListDraftsResponse> = await response.json();
+
+          if (!response.ok || !data.success) return;
+
+          drafts.push(...data.data.drafts);
+          hasMore = data.data.pagination.has_more && data.data.drafts.length > 0;
+        }
+
+        const pending = drafts.map(
+          (draft): AIGeneratedFlashcard => ({
+            id: draft.id,
+            front: draft.front,
+            back: draft.back,
+            status: "draft",
+            source: "ai",
+            ...(draft.source_start !== null &&
+              draft.source_end !== null && { source_span: { start: draft.source_start, end: draft.source_end } }),
+          })
+        );
+        setPendingDrafts(pending);
+      } catch {
+        // Silently fail - the user can still generate new drafts
+      }
+    };
+
+    fetchDrafts();
+  }, [deckId]);
+
+  // Resume watching a generation still running for this deck, e.g. after a reload
+  useEffect(() => {
+    const fetchActiveJobs = async () => {
+      try {
+        const response = await fetch(`/api/ai/jobs?deck_id=${deckId}`);
+        const data: ApiResponse<ListAIGenerationJobsResponse> = await response.json();
+
+        if (response.ok && data.success && data.data.jobs.length > 0) {
+          setActiveJobId(data.data.jobs[data.data.jobs.length - 1].id);
+        }
+      } catch {
+        // Silently fail - the drafts of the job are reloaded once it finishes and the page is refreshed
+      }
+    };
+
+    fetchActiveJobs();
+  }, [deckId]);
+
+  // Poll the active job until it succeeds, fails or is cancelled
+  useEffect(() => {
+    if (activeJobId === null) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/ai/jobs/${activeJobId}`);
+        const data: ApiResponse<AIGenerationJobResponse> = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(!data.success ? data.error.message : "Failed to check the generation");
+        }
+        if (stopped) return;
+
+        const job = data.data;
+        if (job.status === "queued" || job.status === "running") {
+          timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          return;
+        }
+
+        setActiveJobId(null);
+
+        if (job.status === "succeeded" && job.result) {
+          const { flashcards, chunks, cached } = job.result;
+          if (cached) {
+            setNotice(CACHED_NOTICE);
+          } else if (chunks && chunks.failed > 0) {
+            setNotice(
+              `${chunks.failed} of ${chunks.total} sections could not be processed. The cards below cover the rest of the text.`
+            );
+          }
+
+          // New drafts are appended after the ones still pending review; a reload may have listed them already
+          setPendingDrafts((prev) => [...prev, ...flashcards.filter((card) => !prev.some((p) => p.id === card.id))]);
+          scrollToResults();
+        } else if (job.status === "cancelled") {
+          setNotice("The generation was cancelled.");
+        } else {
+          setError(job.error?.message ?? "Failed to generate flashcards");
+        }
+      } catch (err) {
+        if (stopped) return;
+        setActiveJobId(null);
+        setError(err instanceof Error ? err.message : "An unexpected error occurred");
+      }
+    };
+
+    timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [activeJobId]);
+
   // Validation
   const textLength = text.length;
   const isTextValid =
     textLength >= ValidationConstraints.aiGeneration.textMinLength &&
-    textLength <= ValidationConstraints.aiGeneration.textMaxLength;
+    textLength <= ValidationConstraints.aiGeneration.longTextMaxLength;
+  // Longer texts are split into sections on the server
+  const isLongDocument = textLength > ValidationConstraints.aiGeneration.textMaxLength;
 
   // Parse maxCards from input string
   const maxCards = parseInt(maxCardsInput) || 0;
@@ -62,7 +241,7 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
     !isTextValid && textLength > 0
       ? textLength < ValidationConstraints.aiGeneration.textMinLength
         ? `Text must be at least ${ValidationConstraints.aiGeneration.textMinLength} characters (currently ${textLength})`
-        : `Text must not exceed ${ValidationConstraints.aiGeneration.textMaxLength} characters (currently ${textLength})`
+        : `Text must not exceed ${ValidationConstraints.aiGeneration.longTextMaxLength} characters (currently ${textLength})`
       : null;
 
   const maxCardsError = !isMaxCardsValid
@@ -70,7 +249,10 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
     : null;
 
   const hasUsageRemaining = !usage || usage.remaining > 0;
-  const canSubmit = isTextValid && isMaxCardsValid && !isLoading && hasUsageRemaining;
+  const isMonthlyLimitReached =
+    !!usage && usage.monthly_limit !== null && (usage.used_this_month ?? 0) >= usage.monthly_limit;
+  const isGenerating = isLoading || activeJobId !== null;
+  const canSubmit = isTextValid && isMaxCardsValid && !isGenerating && hasUsageRemaining;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -79,11 +261,11 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
 
     setIsLoading(true);
     setError(null);
-    // Reset previous generated cards before new generation
-    setGeneratedCards(null);
+    setNotice(null);
 
     try {
-      const response = await fetch("/api/ai/generate", {
+      // Every generation runs as a background job, so it can be cancelled and survives a page reload
+      const response = await fetch("/api/ai/jobs", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -92,22 +274,22 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
           text,
           deck_id: deckId,
           max_cards: maxCards,
+          long_document: isLongDocument,
+          language,
+          difficulty,
+          style,
+          ...(focus.trim() && { focus: focus.trim() }),
+          force_regenerate: forceRegenerate,
         }),
       });
 
-      const data = await response.json();
+      const data: ApiResponse<AIGenerationJobResponse> = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(data.error?.message || "Failed to generate flashcards");
+        throw new Error(!data.success ? data.error.message : "Failed to generate flashcards");
       }
 
-      // Store generated cards to display below the form
-      setGeneratedCards(data.data);
-
-      // Scroll to results
-      setTimeout(() => {
-        document.getElementById("generated-cards")?.scrollIntoView({ behavior: "smooth" });
-      }, 100);
+      setActiveJobId(data.data.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An unexpected error occurred");
     } finally {
@@ -115,24 +297,60 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
     }
   };
 
+  const handleCancel = async () => {
+    if (activeJobId === null) return;
+
+    setIsCancelling(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/ai/jobs/${activeJobId}/cancel`, { method: "POST" });
+      const data: ApiResponse<AIGenerationJobResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to cancel the generation");
+      }
+
+      setActiveJobId(null);
+      setNotice("The generation was cancelled.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* AI Usage Alert */}
       {!usageLoading && usage && (
         <Alert variant={usage.remaining === 0 ? "destructive" : "default"}>
           <AlertTitle className="flex items-center gap-2">
-            {usage.remaining === 0 ? "⚠️ Daily Limit Reached" : "✨ AI Generation Available"}
+            {usage.remaining === 0
+              ? isMonthlyLimitReached
+                ? "⚠️ Monthly Limit Reached"
+                : "⚠️ Daily Limit Reached"
+              : "✨ AI Generation Available"}
           </AlertTitle>
           <AlertDescription>
             {usage.remaining === 0 ? (
-              <>
-                You&apos;ve used all {usage.daily_limit} of your daily AI generations. Your limit will reset at{" "}
-                {new Date(usage.reset_at).toLocaleTimeString()}.
-              </>
+              isMonthlyLimitReached && usage.monthly_reset_at ? (
+                <>
+                  You&apos;ve used all {usage.monthly_limit} of your monthly AI generations. Your limit will reset on{" "}
+                  {new Date(usage.monthly_reset_at).toLocaleDateString()}.
+                </>
+              ) : (
+                <>
+                  You&apos;ve used all {usage.daily_limit} of your daily AI generations. Your limit will reset at{" "}
+                  {new Date(usage.reset_at).toLocaleTimeString()}.
+                </>
+              )
             ) : (
               <>
                 You have <strong>{usage.remaining}</strong> of {usage.daily_limit} AI generations remaining today.
                 {usage.used_today > 0 && ` You've used ${usage.used_today} so far.`}
+                {usage.monthly_limit !== null &&
+                  ` This month: ${usage.used_this_month ?? 0} of ${usage.monthly_limit} (${usage.plan.name} plan).`}
               </>
             )}
           </AlertDescription>
@@ -143,8 +361,8 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
         <CardHeader>
           <CardTitle>Input Text</CardTitle>
           <CardDescription>
-            Paste the text you want to convert into flashcards. The AI will analyze it and create relevant questions and
-            answers.
+            Paste the text you want to convert into flashcards, or upload a file and pick the sections to use. The AI
+            will analyze it and create relevant questions and answers.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -164,10 +382,15 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
               />
               <div className="flex items-center justify-between text-xs">
                 <span className={textLength > 0 && !isTextValid ? "text-destructive" : "text-muted-foreground"}>
-                  {textLength} / {ValidationConstraints.aiGeneration.textMaxLength} characters
+                  {textLength} / {ValidationConstraints.aiGeneration.longTextMaxLength} characters
                   {textLength < ValidationConstraints.aiGeneration.textMinLength &&
                     ` (${ValidationConstraints.aiGeneration.textMinLength - textLength} more needed)`}
                 </span>
+                {isLongDocument && isTextValid && (
+                  <span className="text-muted-foreground" data-test-id="ai-long-document-hint">
+                    Long text: it will be split into sections
+                  </span>
+                )}
               </div>
               {textError && (
                 <p id="text-error" className="text-sm text-destructive" role="alert">
@@ -176,6 +399,9 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
               )}
             </div>
 
+            {/* File Upload */}
+            <DocumentUpload onUse={setText} disabled={isGenerating} />
+
             {/* Max Cards Input */}
             <div className="space-y-2">
               <Label htmlFor="maxCards">Maximum Number of Cards</Label>
@@ -215,6 +441,95 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
               )}
             </div>
 
+            {/* Generation Options */}
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="language">Card Language</Label>
+                <select
+                  id="language"
+                  data-test-id="ai-language-select"
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value as CardLanguage)}
+                  className={SELECT_CLASS_NAME}
+                >
+                  {Object.entries(LANGUAGE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="difficulty">Difficulty</Label>
+                <select
+                  id="difficulty"
+                  data-test-id="ai-difficulty-select"
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value as CardDifficulty)}
+                  className={SELECT_CLASS_NAME}
+                >
+                  {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="style">Card Style</Label>
+                <select
+                  id="style"
+                  data-test-id="ai-style-select"
+                  value={style}
+                  onChange={(e) => setStyle(e.target.value as CardStyle)}
+                  className={SELECT_CLASS_NAME}
+                >
+                  {Object.entries(STYLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Focus Input */}
+            <div className="space-y-2">
+              <Label htmlFor="focus">Focus (optional)</Label>
+              <Input
+                id="focus"
+                data-test-id="ai-focus-input"
+                value={focus}
+                onChange={(e) => setFocus(e.target.value)}
+                placeholder="e.g. dates and key people"
+                maxLength={ValidationConstraints.aiGeneration.focusMaxLength}
+                aria-describedby="focus-help"
+              />
+              <p id="focus-help" className="text-xs text-muted-foreground">
+                Topics to emphasize ({focus.length} / {ValidationConstraints.aiGeneration.focusMaxLength} characters).
+              </p>
+            </div>
+
+            {/* Force Regeneration */}
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  id="forceRegenerate"
+                  checked={forceRegenerate}
+                  onChange={(e) => setForceRegenerate(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                  aria-describedby="forceRegenerate-help"
+                  data-test-id="ai-force-regenerate-checkbox"
+                />
+                Generate new cards
+              </label>
+              <p id="forceRegenerate-help" className="text-xs text-muted-foreground">
+                Text generated from in the last {ValidationConstraints.aiCache.ttlDays} days with the same options gets
+                its earlier cards again, without using your limit. Check this to ask the AI for new ones.
+              </p>
+            </div>
+
             {/* Error Display */}
             {error && (
               <div className="rounded-lg border border-destructive bg-destructive/10 p-4" role="alert">
@@ -223,9 +538,15 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
               </div>
             )}
 
+            {notice && (
+              <Alert data-test-id="ai-generation-notice">
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
             {/* Submit Button */}
             <Button type="submit" disabled={!canSubmit} className="w-full" size="lg" data-test-id="ai-generate-button">
-              {isLoading ? (
+              {isGenerating ? (
                 <>
                   <span className="mr-2">⏳</span>
                   Generating Flashcards...
@@ -234,15 +555,28 @@ export default function AIGenerationForm({ deckId }: AIGenerationFormProps) {
                 "Generate Flashcards"
               )}
             </Button>
+
+            {activeJobId !== null && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCancel}
+                disabled={isCancelling}
+                className="w-full"
+                data-test-id="ai-cancel-button"
+              >
+                {isCancelling ? "Cancelling..." : "Cancel Generation"}
+              </Button>
+            )}
           </form>
         </CardContent>
       </Card>
 
-      {/* Generated Flashcards Display */}
-      {generatedCards && (
+      {/* Pending Drafts Display */}
+      {pendingDrafts.length > 0 && (
         <div id="generated-cards" className="mt-8" data-test-id="generated-cards-container">
-          <h2 className="text-2xl font-bold mb-4">Generated Flashcards ({generatedCards.cards_generated})</h2>
-          <FlashcardGrid flashcards={generatedCards.flashcards} deckId={deckId} />
+          <h2 className="text-2xl font-bold mb-4">Drafts to Review ({pendingDrafts.length})</h2>
+          <FlashcardGrid flashcards={pendingDrafts} deckId={deckId} onCardsChange={setPendingDrafts} />
         </div>
       )}
     </div>
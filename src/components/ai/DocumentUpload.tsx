@@ -0,0 +1,172 @@
+/**
+ * DocumentUpload Component
+ * Uploads a file for text extraction and lets the user pick sections from its table of contents.
+ * The picked sections are handed to the form as the text to generate from.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import type { ApiResponse, ExtractDocumentResponse } from "@/types";
+import { ValidationConstraints } from "@/types";
+
+/** Extensions the extraction endpoint reads */
+const ACCEPTED_FILES = ".md,.markdown,.txt,.html,.htm,.xhtml,.pdf,.srt,.vtt,.epub";
+
+interface DocumentUploadProps {
+  /** Called with the text of the picked sections */
+  onUse: (text: string) => void;
+  disabled?: boolean;
+}
+
+export default function DocumentUpload({ onUse, disabled = false }: DocumentUploadProps) {
+  const [extracted, setExtracted] = useState<ExtractDocumentResponse | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > ValidationConstraints.documentUpload.maxBytes) {
+      setError(`File must not exceed ${ValidationConstraints.documentUpload.maxBytes / (1024 * 1024)} MB`);
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    setExtracted(null);
+
+    try {
+      const body = new FormData();
+      body.append("file", file);
+
+      const response = await fetch("/api/ai/extract", { method: "POST", body });
+      const data: ApiResponse<ExtractDocumentResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to read the file");
+      }
+
+      setExtracted(data.data);
+      // Everything is picked by default when it fits in one generation
+      const fits = data.data.characters <= ValidationConstraints.aiGeneration.longTextMaxLength;
+      setSelected(new Set(fits ? data.data.sections.map((_, index) => index) : []));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the file");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const toggleSection = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const sections = extracted?.sections ?? [];
+  const selectedText = sections
+    .filter((_, index) => selected.has(index))
+    .map((section) => section.text)
+    .join("\n\n");
+  const isSelectionTooLong = selectedText.length > ValidationConstraints.aiGeneration.longTextMaxLength;
+
+  return (
+    <div className="space-y-3" data-test-id="document-upload">
+      <div className="space-y-2">
+        <Label htmlFor="document-file">Or upload a file</Label>
+        <input
+          id="document-file"
+          type="file"
+          accept={ACCEPTED_FILES}
+          onChange={handleFileChange}
+          disabled={disabled || isUploading}
+          className="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-md file:border file:border-input file:bg-background file:px-3 file:py-1.5 file:text-sm file:text-foreground"
+          aria-describedby="document-file-help"
+          data-test-id="document-file-input"
+        />
+        <p id="document-file-help" className="text-xs text-muted-foreground">
+          Markdown, HTML, PDF (with a text layer), SRT/VTT subtitles or EPUB, up to{" "}
+          {ValidationConstraints.documentUpload.maxBytes / (1024 * 1024)} MB. The text is extracted on the server and
+          not stored.
+        </p>
+      </div>
+
+      {isUploading && <p className="text-sm text-muted-foreground">Reading the file...</p>}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {extracted && (
+        <div className="space-y-3 rounded-lg border p-4" data-test-id="document-sections">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">{extracted.title ?? extracted.file_name}</p>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(new Set(sections.map((_, index) => index)))}
+              >
+                Select all
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          {extracted.truncated && (
+            <p className="text-xs text-muted-foreground">
+              The file is very long; only its first {ValidationConstraints.documentUpload.extractedTextMaxLength}{" "}
+              characters are listed.
+            </p>
+          )}
+
+          <ul className="max-h-64 space-y-1 overflow-y-auto">
+            {sections.map((section, index) => (
+              <li key={index} style={{ paddingLeft: `${(section.level - 1) * 1.25}rem` }}>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggleSection(index)}
+                    className="h-4 w-4 rounded border-gray-300"
+                    data-test-id={`document-section-checkbox-${index}`}
+                  />
+                  <span className="flex-1 truncate">{section.title}</span>
+                  <span className="text-xs text-muted-foreground">{section.text.length} chars</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className={`text-xs ${isSelectionTooLong ? "text-destructive" : "text-muted-foreground"}`}>
+              {selected.size} of {sections.length} sections, {selectedText.length} /{" "}
+              {ValidationConstraints.aiGeneration.longTextMaxLength} characters
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => onUse(selectedText)}
+              disabled={disabled || selected.size === 0 || isSelectionTooLong}
+              data-test-id="document-use-sections-button"
+            >
+              Use Selected Sections
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
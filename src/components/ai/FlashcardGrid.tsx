@@ -1,15 +1,33 @@
 /**
  * FlashcardGrid Component
- * Displays generated AI flashcards in a 3-column grid with selection and actions
+ * Displays pending AI drafts in a 3-column grid with selection and actions.
+ * Drafts are persisted rows: edits, accepts and rejects are applied to them in place.
+ * Drafts flagged as likely duplicates link to the existing card and can be skipped or merged into it.
+ * A draft can also be improved by AI with a short instruction, which may split it into several drafts.
+ * Drafts linked to a passage of the source text can show it, to check the card against it.
  */
 
 import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import type { AIGeneratedFlashcard } from "@/types";
+import SourcePassage from "./SourcePassage";
+import type {
+  AcceptDraftResponse,
+  AcceptDraftsResponse,
+  AIGeneratedFlashcard,
+  ApiResponse,
+  DeleteFlashcardResponse,
+  RefineFlashcardResponse,
+  RejectDraftsResponse,
+  UpdateFlashcardResponse,
+} from "@/types";
+import { ValidationConstraints } from "@/types";
+
+const REFINE_SUGGESTIONS = ["Make it shorter", "Ask about the cause, not the date", "Split into two cards"];
 
 interface FlashcardGridProps {
   flashcards: AIGeneratedFlashcard[];
@@ -23,14 +41,19 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
   const [editedFront, setEditedFront] = useState("");
   const [editedBack, setEditedBack] = useState("");
   const [cards, setCards] = useState<AIGeneratedFlashcard[]>(flashcards);
+  const [refiningId, setRefiningId] = useState<number | null>(null);
+  const [instruction, setInstruction] = useState("");
   const [savingIds, setSavingIds] = useState<Set<number>>(new Set());
   const [error, setError] = useState<string | null>(null);
 
-  // Reset cards when flashcards prop changes (new generation)
+  // Sync with the parent's list when drafts are added (one by one while streaming) or reviewed,
+  // keeping the selection, edit and improve state of cards that are still present
   useEffect(() => {
+    const ids = new Set(flashcards.map((card) => card.id));
     setCards(flashcards);
-    setSelectedIds(new Set());
-    setEditingId(null);
+    setSelectedIds((prev) => new Set([...prev].filter((id) => ids.has(id))));
+    setEditingId((prev) => (prev !== null && ids.has(prev) ? prev : null));
+    setRefiningId((prev) => (prev !== null && ids.has(prev) ? prev : null));
   }, [flashcards]);
 
   const toggleSelection = (id: number) => {
@@ -60,15 +83,58 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
     }
   };
 
-  const handleSaveEdit = () => {
-    if (editingId === null) return;
-
-    const updatedCards = cards.map((card) =>
-      card.id === editingId ? { ...card, front: editedFront, back: editedBack } : card
-    );
+  const removeCards = (ids: Set<number>) => {
+    const updatedCards = cards.filter((card) => !ids.has(card.id));
     setCards(updatedCards);
     onCardsChange?.(updatedCards);
-    setEditingId(null);
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !ids.has(id))));
+  };
+
+  const markSaving = (id: number, saving: boolean) => {
+    setSavingIds((prev) => {
+      const newSet = new Set(prev);
+      if (saving) {
+        newSet.add(id);
+      } else {
+        newSet.delete(id);
+      }
+      return newSet;
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (editingId === null) return;
+
+    const id = editingId;
+    markSaving(id, true);
+    setError(null);
+
+    try {
+      // Persist the edit on the draft row; it stays a draft until accepted
+      const response = await fetch(`/api/flashcards/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ front: editedFront, back: editedBack }),
+      });
+
+      const data: ApiResponse<UpdateFlashcardResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to save changes");
+      }
+
+      const { front, back } = data.data.flashcard;
+      const updatedCards = cards.map((card) => (card.id === id ? { ...card, front, back } : card));
+      setCards(updatedCards);
+      onCardsChange?.(updatedCards);
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save changes");
+    } finally {
+      markSaving(id, false);
+    }
   };
 
   const handleCancelEdit = () => {
@@ -77,117 +143,157 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
     setEditedBack("");
   };
 
-  const handleAccept = async (id: number) => {
-    const card = cards.find((c) => c.id === id);
-    if (!card) return;
+  const handleStartRefine = (id: number) => {
+    setRefiningId(id);
+    setInstruction("");
+    setError(null);
+  };
 
-    // Add to saving state
-    setSavingIds((prev) => new Set(prev).add(id));
+  const handleRefine = async () => {
+    if (refiningId === null || instruction.trim() === "") return;
+
+    const id = refiningId;
+    markSaving(id, true);
     setError(null);
 
     try {
-      // Save to database
-      const response = await fetch("/api/flashcards/create", {
+      const response = await fetch(`/api/flashcards/${id}/refine`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          deck_id: deckId,
-          front: card.front,
-          back: card.back,
-          source: "ai",
-        }),
+        body: JSON.stringify({ instruction }),
       });
 
-      const data = await response.json();
+      const data: ApiResponse<RefineFlashcardResponse> = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(data.error?.message || "Failed to save flashcard");
+        throw new Error(!data.success ? data.error.message : "Failed to improve flashcard");
       }
 
-      // Remove from drafts on success
-      const updatedCards = cards.filter((c) => c.id !== id);
+      // The rewritten draft takes the original's place, followed by any drafts split off from it
+      const updatedCards = cards.flatMap((card) => (card.id === id ? data.data.flashcards : [card]));
       setCards(updatedCards);
       onCardsChange?.(updatedCards);
-      setSelectedIds((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(id);
-        return newSet;
-      });
+      setRefiningId(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to save flashcard");
+      setError(err instanceof Error ? err.message : "Failed to improve flashcard");
     } finally {
-      // Remove from saving state
-      setSavingIds((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(id);
-        return newSet;
-      });
+      markSaving(id, false);
     }
   };
 
-  const handleReject = (id: number) => {
-    const updatedCards = cards.filter((card) => card.id !== id);
-    setCards(updatedCards);
-    onCardsChange?.(updatedCards);
-    setSelectedIds((prev) => {
-      const newSet = new Set(prev);
-      newSet.delete(id);
-      return newSet;
-    });
+  const handleAccept = async (id: number) => {
+    markSaving(id, true);
+    setError(null);
+
+    try {
+      // Promote the persisted draft in place
+      const response = await fetch(`/api/flashcards/${id}/accept`, { method: "POST" });
+
+      const data: ApiResponse<AcceptDraftResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to accept flashcard");
+      }
+
+      removeCards(new Set([id]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept flashcard");
+    } finally {
+      markSaving(id, false);
+    }
+  };
+
+  const handleReject = async (id: number) => {
+    markSaving(id, true);
+    setError(null);
+
+    try {
+      // Delete the persisted draft
+      const response = await fetch(`/api/flashcards/${id}/reject`, { method: "POST" });
+
+      const data: ApiResponse<DeleteFlashcardResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to reject flashcard");
+      }
+
+      removeCards(new Set([id]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reject flashcard");
+    } finally {
+      markSaving(id, false);
+    }
   };
 
-  const handleBulkAccept = async () => {
-    const selectedCards = cards.filter((card) => selectedIds.has(card.id));
-    if (selectedCards.length === 0) return;
+  const handleMerge = async (card: AIGeneratedFlashcard) => {
+    if (!card.duplicate_of) return;
 
-    // Add all selected to saving state
-    setSavingIds(new Set(selectedIds));
+    const id = card.id;
+    markSaving(id, true);
     setError(null);
 
     try {
-      // Save all selected cards to database
-      const savePromises = selectedCards.map((card) =>
-        fetch("/api/flashcards/create", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            deck_id: deckId,
-            front: card.front,
-            back: card.back,
-            source: "ai",
-          }),
-        }).then((res) => res.json())
-      );
-
-      const results = await Promise.all(savePromises);
-
-      // Check if any failed
-      const failedCount = results.filter((result) => !result.success).length;
-      if (failedCount > 0) {
-        throw new Error(`Failed to save ${failedCount} flashcard(s)`);
+      // Move the draft's text onto the existing card (keeping its review progress), then drop the draft
+      const updateResponse = await fetch(`/api/flashcards/${card.duplicate_of.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ front: card.front, back: card.back }),
+      });
+
+      const updateData: ApiResponse<UpdateFlashcardResponse> = await updateResponse.json();
+
+      if (!updateResponse.ok || !updateData.success) {
+        throw new Error(!updateData.success ? updateData.error.message : "Failed to merge flashcard");
       }
 
-      // Remove all selected cards from drafts on success
-      const updatedCards = cards.filter((card) => !selectedIds.has(card.id));
-      setCards(updatedCards);
-      onCardsChange?.(updatedCards);
-      setSelectedIds(new Set());
+      const rejectResponse = await fetch(`/api/flashcards/${id}/reject`, { method: "POST" });
+      const rejectData: ApiResponse<DeleteFlashcardResponse> = await rejectResponse.json();
+
+      if (!rejectResponse.ok || !rejectData.success) {
+        throw new Error(!rejectData.success ? rejectData.error.message : "Failed to merge flashcard");
+      }
+
+      removeCards(new Set([id]));
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to save flashcards");
+      setError(err instanceof Error ? err.message : "Failed to merge flashcard");
     } finally {
-      setSavingIds(new Set());
+      markSaving(id, false);
     }
   };
 
-  const handleBulkReject = () => {
-    const updatedCards = cards.filter((card) => !selectedIds.has(card.id));
-    setCards(updatedCards);
-    onCardsChange?.(updatedCards);
-    setSelectedIds(new Set());
+  const handleBulkAction = async (action: "accept" | "reject") => {
+    if (selectedIds.size === 0) return;
+
+    const ids = [...selectedIds];
+    setSavingIds(new Set(ids));
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/decks/${deckId}/flashcards/drafts/${action}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ids }),
+      });
+
+      const data: ApiResponse<AcceptDraftsResponse | RejectDraftsResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : `Failed to ${action} flashcards`);
+      }
+
+      // Drafts that were already accepted or deleted elsewhere are skipped by the API; drop them too
+      removeCards(new Set(ids));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} flashcards`);
+    } finally {
+      setSavingIds(new Set());
+    }
   };
 
   // Don't render anything if there are no cards left
@@ -226,7 +332,7 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
             <Button
               variant="outline"
               size="sm"
-              onClick={handleBulkAccept}
+              onClick={() => handleBulkAction("accept")}
               disabled={savingIds.size > 0}
               data-test-id="bulk-accept-button"
             >
@@ -235,7 +341,7 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
             <Button
               variant="destructive"
               size="sm"
-              onClick={handleBulkReject}
+              onClick={() => handleBulkAction("reject")}
               disabled={savingIds.size > 0}
               data-test-id="bulk-reject-button"
             >
@@ -313,6 +419,103 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
                   </div>
                 )}
 
+                {/* Source Passage */}
+                {card.source_span && !isEditing && (
+                  <div className="mt-4">
+                    <SourcePassage flashcardId={card.id} />
+                  </div>
+                )}
+
+                {/* Improve with AI */}
+                {refiningId === card.id && !isEditing && (
+                  <div className="mt-4 space-y-2" data-test-id={`flashcard-refine-form-${card.id}`}>
+                    <Label htmlFor={`instruction-${card.id}`}>How should AI improve this card?</Label>
+                    <Input
+                      id={`instruction-${card.id}`}
+                      value={instruction}
+                      onChange={(e) => setInstruction(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleRefine()}
+                      placeholder="e.g. make it shorter"
+                      maxLength={ValidationConstraints.aiGeneration.refineInstructionMaxLength}
+                      data-test-id={`flashcard-refine-input-${card.id}`}
+                    />
+                    <div className="flex flex-wrap gap-1">
+                      {REFINE_SUGGESTIONS.map((suggestion) => (
+                        <button
+                          key={suggestion}
+                          type="button"
+                          onClick={() => setInstruction(suggestion)}
+                          className="rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:bg-muted"
+                        >
+                          {suggestion}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => setRefiningId(null)}
+                        disabled={savingIds.has(card.id)}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        onClick={handleRefine}
+                        disabled={savingIds.has(card.id) || instruction.trim() === ""}
+                        data-test-id={`flashcard-refine-submit-${card.id}`}
+                      >
+                        {savingIds.has(card.id) ? "Improving..." : "Improve"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Duplicate Warning */}
+                {card.duplicate_of && !isEditing && (
+                  <div
+                    className="mt-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-200"
+                    data-test-id={`flashcard-duplicate-${card.id}`}
+                  >
+                    <p>
+                      Likely duplicate ({Math.round(card.duplicate_of.similarity * 100)}% similar) of{" "}
+                      <a
+                        href={`/decks/${deckId}#flashcard-${card.duplicate_of.id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="font-medium underline"
+                        data-test-id={`flashcard-duplicate-link-${card.id}`}
+                      >
+                        {card.duplicate_of.front}
+                      </a>
+                    </p>
+                    <div className="flex gap-2 mt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleReject(card.id)}
+                        disabled={savingIds.has(card.id)}
+                        data-test-id={`flashcard-skip-duplicate-${card.id}`}
+                      >
+                        Skip
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleMerge(card)}
+                        disabled={savingIds.has(card.id)}
+                        title="Replace the existing card's text with this draft, keeping its review progress"
+                        data-test-id={`flashcard-merge-duplicate-${card.id}`}
+                      >
+                        Merge
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex gap-2 mt-4 pt-4 border-t">
                   {isEditing ? (
@@ -331,9 +534,10 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
                         size="sm"
                         className="flex-1"
                         onClick={handleSaveEdit}
+                        disabled={savingIds.has(card.id)}
                         data-test-id={`flashcard-save-edit-${card.id}`}
                       >
-                        Save
+                        {savingIds.has(card.id) ? "Saving..." : "Save"}
                       </Button>
                     </>
                   ) : (
@@ -348,6 +552,16 @@ export default function FlashcardGrid({ flashcards, deckId, onCardsChange }: Fla
                       >
                         Edit
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => handleStartRefine(card.id)}
+                        disabled={savingIds.has(card.id) || refiningId === card.id}
+                        data-test-id={`flashcard-refine-${card.id}`}
+                      >
+                        Improve
+                      </Button>
                       <Button
                         variant="default"
                         size="sm"
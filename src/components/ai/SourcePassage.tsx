@@ -0,0 +1,83 @@
+/**
+ * SourcePassage Component
+ * Toggles the passage of the source text an AI card was derived from, highlighted within the text around it.
+ * The passage is fetched the first time it is shown.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { ApiResponse, FlashcardSourceResponse } from "@/types";
+
+interface SourcePassageProps {
+  flashcardId: number;
+}
+
+export default function SourcePassage({ flashcardId }: SourcePassageProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<FlashcardSourceResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+
+    setIsOpen(true);
+    if (source) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/flashcards/${flashcardId}/source`);
+      const data: ApiResponse<FlashcardSourceResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to load the source");
+      }
+
+      setSource(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the source");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-test-id={`flashcard-source-${flashcardId}`}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-auto px-0 text-xs text-muted-foreground"
+        onClick={handleToggle}
+        aria-expanded={isOpen}
+        data-test-id={`flashcard-source-toggle-${flashcardId}`}
+      >
+        {isOpen ? "Hide source" : "Show source"}
+      </Button>
+
+      {isOpen && (
+        <div className="rounded-md border bg-muted/50 p-3 text-xs leading-relaxed whitespace-pre-wrap">
+          {isLoading && <p className="text-muted-foreground">Loading source...</p>}
+          {error && (
+            <p className="text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+          {source && (
+            <p data-test-id={`flashcard-source-passage-${flashcardId}`}>
+              <span className="text-muted-foreground">{source.before}</span>
+              <mark className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-800">
+                {source.passage}
+              </mark>
+              <span className="text-muted-foreground">{source.after}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,9 +12,10 @@ import { Label } from "@/components/ui/label";
 
 interface LoginFormProps {
   redirectTo?: string;
+  notice?: string;
 }
 
-export default function LoginForm({ redirectTo = "/decks" }: LoginFormProps) {
+export default function LoginForm({ redirectTo = "/decks", notice }: LoginFormProps) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -62,6 +63,13 @@ export default function LoginForm({ redirectTo = "/decks" }: LoginFormProps) {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          {/* Notice Alert */}
+          {notice && !error && (
+            <Alert data-test-id="login-notice">
+              <AlertDescription>{notice}</AlertDescription>
+            </Alert>
+          )}
+
           {/* Error Alert */}
           {error && (
             <Alert variant="destructive">
@@ -10,7 +10,11 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
-export default function ResetPasswordForm() {
+interface ResetPasswordFormProps {
+  linkExpired?: boolean;
+}
+
+export default function ResetPasswordForm({ linkExpired = false }: ResetPasswordFormProps) {
   const [email, setEmail] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -29,22 +33,17 @@ export default function ResetPasswordForm() {
     setIsLoading(true);
 
     try {
-      // TODO: Replace with actual API call when backend is implemented
-      // For now, just simulate a delay
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
 
-      // Placeholder for API call:
-      // const response = await fetch("/api/auth/reset-password", {
-      //   method: "POST",
-      //   headers: { "Content-Type": "application/json" },
-      //   body: JSON.stringify({ email }),
-      // });
-      //
-      // const data = await response.json();
-      //
-      // if (!response.ok || !data.success) {
-      //   throw new Error(data.error?.message || "Failed to send reset email");
-      // }
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || "Failed to send reset email");
+      }
 
       // Show success message (even if email doesn't exist - security best practice)
       setSuccess(true);
@@ -92,6 +91,16 @@ export default function ResetPasswordForm() {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          {/* Expired Link Alert */}
+          {linkExpired && !error && (
+            <Alert variant="destructive" data-test-id="reset-link-expired">
+              <AlertTitle>Link expired</AlertTitle>
+              <AlertDescription>
+                That password reset link is invalid or has already been used. Request a new one below.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Error Alert */}
           {error && (
             <Alert variant="destructive">
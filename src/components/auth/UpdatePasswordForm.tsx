@@ -1,6 +1,6 @@
 /**
  * UpdatePasswordForm Component
- * Set new password after reset
+ * Set new password after reset (requires the recovery session created from the email link)
  */
 
 import { useState } from "react";
@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 interface UpdatePasswordFormProps {
-  token: string;
+  email?: string;
 }
 
 interface FieldErrors {
@@ -19,9 +19,7 @@ interface FieldErrors {
   confirmPassword?: string;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export default function UpdatePasswordForm({ token }: UpdatePasswordFormProps) {
-  // Note: token will be used when backend API is implemented
+export default function UpdatePasswordForm({ email }: UpdatePasswordFormProps) {
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -86,22 +84,18 @@ export default function UpdatePasswordForm({ token }: UpdatePasswordFormProps) {
     setIsLoading(true);
 
     try {
-      // TODO: Replace with actual API call when backend is implemented
-      // For now, just simulate a delay
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Placeholder for API call:
-      // const response = await fetch("/api/auth/update-password", {
-      //   method: "POST",
-      //   headers: { "Content-Type": "application/json" },
-      //   body: JSON.stringify({ token, password }),
-      // });
-      //
-      // const data = await response.json();
-      //
-      // if (!response.ok || !data.success) {
-      //   throw new Error(data.error?.message || "Failed to update password");
-      // }
+      // The recovery session from the email link is sent along in cookies
+      const response = await fetch("/api/auth/update-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || "Failed to update password");
+      }
 
       // Redirect to login on success
       window.location.href = "/auth/login?message=password-updated";
@@ -116,7 +110,15 @@ export default function UpdatePasswordForm({ token }: UpdatePasswordFormProps) {
     <Card>
       <CardHeader>
         <CardTitle>Set New Password</CardTitle>
-        <CardDescription>Enter your new password below</CardDescription>
+        <CardDescription>
+          {email ? (
+            <>
+              Enter a new password for <strong>{email}</strong>
+            </>
+          ) : (
+            "Enter your new password below"
+          )}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4" noValidate>
@@ -0,0 +1,121 @@
+/**
+ * CreateDeckForm Component
+ * Form for creating a new flashcard deck
+ */
+
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ApiResponse, CreateDeckResponse } from "@/types";
+import { ValidationConstraints } from "@/types";
+
+export default function CreateDeckForm() {
+  const [name, setName] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedName = name.trim();
+  const isNameValid =
+    trimmedName.length >= ValidationConstraints.deck.nameMinLength &&
+    trimmedName.length <= ValidationConstraints.deck.nameMaxLength;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!isNameValid) {
+      setError(`Deck name must be between 1 and ${ValidationConstraints.deck.nameMaxLength} characters`);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/decks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: trimmedName }),
+      });
+
+      const data: ApiResponse<CreateDeckResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to create deck");
+      }
+
+      // Go straight to the new deck
+      window.location.href = `/decks/${data.data.deck.id}`;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Create New Deck</CardTitle>
+        <CardDescription>Give your deck a name. You can add flashcards to it afterwards.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          {/* Error Alert */}
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* Name Field */}
+          <div className="space-y-2">
+            <Label htmlFor="deck-name">Deck Name</Label>
+            <Input
+              id="deck-name"
+              data-test-id="deck-name-input"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                // Clear error on change
+                if (error) setError(null);
+              }}
+              placeholder="e.g. Organic Chemistry"
+              maxLength={ValidationConstraints.deck.nameMaxLength}
+              required
+              disabled={isLoading}
+            />
+            <p className="text-xs text-muted-foreground">
+              {trimmedName.length} / {ValidationConstraints.deck.nameMaxLength} characters
+            </p>
+          </div>
+
+          {/* Submit Button */}
+          <Button
+            type="submit"
+            disabled={isLoading || !isNameValid}
+            className="w-full"
+            size="lg"
+            data-test-id="create-deck-button"
+          >
+            {isLoading ? (
+              <>
+                <span className="mr-2">⏳</span>
+                Creating Deck...
+              </>
+            ) : (
+              "Create Deck"
+            )}
+          </Button>
+        </form>
+      </CardContent>
+      <CardFooter>
+        <a href="/decks" className="text-primary hover:underline text-sm font-medium">
+          ← Back to decks
+        </a>
+      </CardFooter>
+    </Card>
+  );
+}
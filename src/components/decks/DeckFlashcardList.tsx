@@ -0,0 +1,241 @@
+/**
+ * DeckFlashcardList Component
+ * Lists the flashcards of a deck with inline edit and delete actions.
+ * AI cards linked to a passage of their source text can show it.
+ */
+
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import SourcePassage from "@/components/ai/SourcePassage";
+import type { ApiResponse, FlashcardSummary, UpdateFlashcardResponse } from "@/types";
+import { ValidationConstraints } from "@/types";
+
+interface DeckFlashcardListProps {
+  deckId: number;
+  initialFlashcards: FlashcardSummary[];
+}
+
+const STATUS_BADGE_CLASSES: Record<string, string> = {
+  new: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  draft: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  finalized: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+};
+
+const SOURCE_BADGE_CLASSES: Record<string, string> = {
+  ai: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  manual: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+};
+
+export default function DeckFlashcardList({ deckId, initialFlashcards }: DeckFlashcardListProps) {
+  const [cards, setCards] = useState<FlashcardSummary[]>(initialFlashcards);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editedFront, setEditedFront] = useState("");
+  const [editedBack, setEditedBack] = useState("");
+  const [busyIds, setBusyIds] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const setBusy = (id: number, busy: boolean) => {
+    setBusyIds((prev) => {
+      const next = new Set(prev);
+      if (busy) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleEdit = (card: FlashcardSummary) => {
+    setEditingId(card.id);
+    setEditedFront(card.front);
+    setEditedBack(card.back);
+    setError(null);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setEditedFront("");
+    setEditedBack("");
+  };
+
+  const handleSaveEdit = async () => {
+    if (editingId === null) return;
+
+    const id = editingId;
+    setBusy(id, true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/flashcards/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ front: editedFront, back: editedBack }),
+      });
+
+      const data: ApiResponse<UpdateFlashcardResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to update flashcard");
+      }
+
+      const updated = data.data.flashcard;
+      setCards((prev) => prev.map((card) => (card.id === id ? { ...card, ...updated } : card)));
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update flashcard");
+    } finally {
+      setBusy(id, false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm("Delete this flashcard? This cannot be undone.")) return;
+
+    setBusy(id, true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/flashcards/${id}`, { method: "DELETE" });
+      const data: ApiResponse<unknown> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to delete flashcard");
+      }
+
+      setCards((prev) => prev.filter((card) => card.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete flashcard");
+    } finally {
+      setBusy(id, false);
+    }
+  };
+
+  if (cards.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>No Cards Yet</CardTitle>
+          <CardDescription>This deck is empty. Generate some flashcards to get started!</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button>
+            <a href={`/decks/${deckId}/generate`}>Generate Flashcards with AI</a>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-test-id="deck-flashcard-list">
+      {/* Error Alert */}
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4">
+        {cards.map((card) => {
+          const isEditing = editingId === card.id;
+          const isBusy = busyIds.has(card.id);
+
+          return (
+            <Card key={card.id} id={`flashcard-${card.id}`} data-test-id={`deck-flashcard-${card.id}`}>
+              <CardHeader>
+                {isEditing ? (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor={`front-${card.id}`}>Front</Label>
+                      <Textarea
+                        id={`front-${card.id}`}
+                        value={editedFront}
+                        onChange={(e) => setEditedFront(e.target.value)}
+                        maxLength={ValidationConstraints.flashcard.frontMaxLength}
+                        className="min-h-[60px]"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`back-${card.id}`}>Back</Label>
+                      <Textarea
+                        id={`back-${card.id}`}
+                        value={editedBack}
+                        onChange={(e) => setEditedBack(e.target.value)}
+                        maxLength={ValidationConstraints.flashcard.backMaxLength}
+                        className="min-h-[80px]"
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <CardTitle className="text-lg">{card.front}</CardTitle>
+                      <CardDescription className="mt-2">{card.back}</CardDescription>
+                      {card.source_start !== null && card.source_end !== null && (
+                        <div className="mt-2">
+                          <SourcePassage flashcardId={card.id} />
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-2 ml-4">
+                      <span className={`px-2 py-1 text-xs rounded-full ${STATUS_BADGE_CLASSES[card.status] ?? ""}`}>
+                        {card.status}
+                      </span>
+                      <span className={`px-2 py-1 text-xs rounded-full ${SOURCE_BADGE_CLASSES[card.source] ?? ""}`}>
+                        {card.source}
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Next review: {new Date(card.next_review_date).toLocaleDateString()}
+                </p>
+                <div className="flex gap-2">
+                  {isEditing ? (
+                    <>
+                      <Button variant="outline" size="sm" onClick={handleCancelEdit} disabled={isBusy}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleSaveEdit} disabled={isBusy}>
+                        {isBusy ? "Saving..." : "Save"}
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(card)}
+                        disabled={isBusy || editingId !== null}
+                        data-test-id={`deck-flashcard-edit-${card.id}`}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(card.id)}
+                        disabled={isBusy}
+                        data-test-id={`deck-flashcard-delete-${card.id}`}
+                      >
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * SchedulingSettingsForm Component
+ * Lets the user set their desired retention and time zone, and fit FSRS weights to their review history
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type {
+  ApiResponse,
+  OptimizeSchedulingResponse,
+  SchedulingSettings,
+  UpdateSchedulingSettingsRequest,
+} from "@/types";
+import { ValidationConstraints } from "@/types";
+
+interface SchedulingSettingsFormProps {
+  initialSettings: SchedulingSettings;
+}
+
+const { desiredRetentionMin, desiredRetentionMax } = ValidationConstraints.fsrs;
+const { timezoneChangeCooldownDays } = ValidationConstraints.settings;
+
+const SELECT_CLASS_NAME = "h-9 w-full rounded-md border border-input bg-background px-3 text-sm";
+
+const DEVICE_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const OPTIMIZATION_POLL_INTERVAL_MS = 2000;
+
+export default function SchedulingSettingsForm({ initialSettings }: SchedulingSettingsFormProps) {
+  const [settings, setSettings] = useState<SchedulingSettings>(initialSettings);
+  const [retentionInput, setRetentionInput] = useState(String(Math.round(initialSettings.desired_retention * 100)));
+  const [timezone, setTimezone] = useState(initialSettings.timezone);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  // Optimization running in the background, polled until it finishes
+  const [optimizationId, setOptimizationId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const retention = Number(retentionInput) / 100;
+  const isRetentionValid =
+    retentionInput.trim() !== "" && retention >= desiredRetentionMin && retention <= desiredRetentionMax;
+
+  // The time zone may change again once the cooldown after the last change has passed
+  const timezoneChangeableAt = settings.timezone_changed_at
+    ? new Date(Date.parse(settings.timezone_changed_at) + timezoneChangeCooldownDays * 24 * 60 * 60 * 1000)
+    : null;
+  const canChangeTimezone = !timezoneChangeableAt || timezoneChangeableAt <= new Date();
+
+  // The saved zone may be missing from the runtime's list (e.g. an alias); keep it selectable
+  const timeZones = useMemo(() => {
+    const zones = Intl.supportedValuesOf("timeZone");
+    return [...new Set([settings.timezone, DEVICE_TIME_ZONE, ...zones])].sort();
+  }, [settings.timezone]);
+
+  const saveSettings = async (changes: UpdateSchedulingSettingsRequest, successMessage: string) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/settings/scheduling", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      const data: ApiResponse<{ settings: SchedulingSettings }> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to save settings");
+      }
+
+      setSettings(data.data.settings);
+      setMessage(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isRetentionValid) return;
+
+    await saveSettings({ desired_retention: retention }, "Settings saved. New intervals apply from your next review.");
+  };
+
+  const handleSaveTimezone = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await saveSettings({ timezone }, `Time zone saved. Your AI generation limit now resets at midnight ${timezone}.`);
+  };
+
+  const handleOptimize = async () => {
+    setIsOptimizing(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/settings/scheduling/optimize", { method: "POST" });
+
+      const data: ApiResponse<OptimizeSchedulingResponse> = await response.json();
+
+      if (!response.ok || !data.success || !data.data.optimization) {
+        throw new Error(!data.success ? data.error.message : "Failed to optimize scheduling");
+      }
+
+      setOptimizationId(data.data.optimization.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to optimize scheduling");
+      setIsOptimizing(false);
+    }
+  };
+
+  // Poll the optimization until it succeeds or fails
+  useEffect(() => {
+    if (optimizationId === null) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch("/api/settings/scheduling/optimize");
+        const data: ApiResponse<OptimizeSchedulingResponse> = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(!data.success ? data.error.message : "Failed to check the optimization");
+        }
+        if (stopped) return;
+
+        const { settings: saved, optimization } = data.data;
+        if (optimization?.id === optimizationId && optimization.status === "running") {
+          timer = setTimeout(poll, OPTIMIZATION_POLL_INTERVAL_MS);
+          return;
+        }
+
+        setSettings(saved);
+        if (optimization?.status === "succeeded") {
+          setMessage(
+            `Fitted to ${optimization.review_count} reviews (log loss ${optimization.loss_before?.toFixed(3)} → ${optimization.loss_after?.toFixed(3)}).`
+          );
+        } else {
+          setError(optimization?.error_message ?? "Failed to optimize scheduling");
+        }
+      } catch (err) {
+        if (stopped) return;
+        setError(err instanceof Error ? err.message : "Failed to optimize scheduling");
+      }
+
+      setOptimizationId(null);
+      setIsOptimizing(false);
+    };
+
+    timer = setTimeout(poll, OPTIMIZATION_POLL_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [optimizationId]);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {message && (
+        <Alert data-test-id="settings-message">
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <form onSubmit={handleSave}>
+          <CardHeader>
+            <CardTitle>Desired retention</CardTitle>
+            <CardDescription>
+              The chance of remembering a card when it comes up for review. Higher retention means more frequent
+              reviews.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="desired-retention">Retention (%)</Label>
+            <Input
+              id="desired-retention"
+              type="number"
+              min={desiredRetentionMin * 100}
+              max={desiredRetentionMax * 100}
+              step={1}
+              value={retentionInput}
+              onChange={(e) => setRetentionInput(e.target.value)}
+              data-test-id="desired-retention-input"
+            />
+            {!isRetentionValid && (
+              <p className="text-sm text-destructive">
+                Must be between {desiredRetentionMin * 100}% and {desiredRetentionMax * 100}%
+              </p>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" disabled={!isRetentionValid || isSaving} data-test-id="save-settings-button">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      <Card>
+        <form onSubmit={handleSaveTimezone}>
+          <CardHeader>
+            <CardTitle>Time zone</CardTitle>
+            <CardDescription>
+              Your daily and monthly AI generation limits reset at midnight in this time zone. It can be changed once
+              every {timezoneChangeCooldownDays} days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="timezone">Time zone</Label>
+            <select
+              id="timezone"
+              className={SELECT_CLASS_NAME}
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              disabled={!canChangeTimezone}
+              data-test-id="timezone-select"
+            >
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+            {timezoneChangeableAt && !canChangeTimezone && (
+              <p className="text-sm text-muted-foreground" data-test-id="timezone-locked-hint">
+                You can change the time zone again on {timezoneChangeableAt.toLocaleDateString()}.
+              </p>
+            )}
+            {canChangeTimezone && timezone !== DEVICE_TIME_ZONE && (
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0"
+                onClick={() => setTimezone(DEVICE_TIME_ZONE)}
+                data-test-id="use-device-timezone-button"
+              >
+                Use this device&apos;s time zone ({DEVICE_TIME_ZONE})
+              </Button>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button
+              type="submit"
+              disabled={timezone === settings.timezone || !canChangeTimezone || isSaving}
+              data-test-id="save-timezone-button"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Personalized scheduling</CardTitle>
+          <CardDescription>
+            Fit the scheduling model to your own review history. It needs at least{" "}
+            {ValidationConstraints.fsrs.optimizerMinReviews} repeat reviews.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground" data-test-id="optimization-status">
+            {settings.weights_optimized_at
+              ? `Last optimized on ${new Date(settings.weights_optimized_at).toLocaleDateString()} from ${settings.optimized_review_count} reviews.`
+              : "Using the default parameters."}
+          </p>
+        </CardContent>
+        <CardFooter>
+          <Button
+            variant="outline"
+            onClick={handleOptimize}
+            disabled={isOptimizing}
+            data-test-id="optimize-scheduling-button"
+          >
+            {isOptimizing ? "Optimizing..." : "Optimize now"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * StudyHistory Component
+ * Lists past study sessions (optionally for one deck) and expands a session
+ * into the grade given to each card
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import type {
+  ApiResponse,
+  ListStudySessionsResponse,
+  ReviewGrade,
+  StudySessionDetailResponse,
+  StudySessionHistoryItem,
+  StudySessionReview,
+} from "@/types";
+
+interface StudyHistoryProps {
+  decks: { id: number; name: string }[];
+  initialDeckId?: number;
+}
+
+const PAGE_SIZE = 20;
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: "bg-destructive/10 text-destructive",
+  hard: "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  good: "bg-green-500/10 text-green-700 dark:text-green-400",
+  easy: "bg-sky-500/10 text-sky-700 dark:text-sky-400",
+};
+
+/**
+ * Human-readable session length ("12 min", "45 s"), or "In progress" for sessions not ended yet
+ */
+function formatDuration(session: StudySessionHistoryItem): string {
+  if (!session.ended_at) return "In progress";
+
+  const seconds = Math.max(0, Math.round((Date.parse(session.ended_at) - Date.parse(session.started_at)) / 1000));
+  if (seconds < 60) return `${seconds} s`;
+
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+export default function StudyHistory({ decks, initialDeckId }: StudyHistoryProps) {
+  const [deckId, setDeckId] = useState<number | undefined>(initialDeckId);
+  const [sessions, setSessions] = useState<StudySessionHistoryItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [reviews, setReviews] = useState<Record<number, StudySessionReview[]>>({});
+  const [loadingReviewsId, setLoadingReviewsId] = useState<number | null>(null);
+
+  const fetchSessions = useCallback(
+    async (offset: number) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+        if (deckId !== undefined) params.set("deck_id", String(deckId));
+
+        const response = await fetch(`/api/study/sessions?${params}`);
+        const data: ApiResponse<ListStudySessionsResponse> = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(!data.success ? data.error.message : "Failed to load study history");
+        }
+
+        setSessions((prev) => (offset === 0 ? data.data.sessions : [...prev, ...data.data.sessions]));
+        setHasMore(data.data.pagination.has_more);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load study history");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [deckId]
+  );
+
+  // Reload from the first page whenever the deck filter changes
+  useEffect(() => {
+    setExpandedId(null);
+    fetchSessions(0);
+  }, [fetchSessions]);
+
+  const handleToggle = async (sessionId: number) => {
+    if (expandedId === sessionId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(sessionId);
+    if (reviews[sessionId]) return;
+
+    setLoadingReviewsId(sessionId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/study/sessions/${sessionId}`);
+      const data: ApiResponse<StudySessionDetailResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to load session details");
+      }
+
+      setReviews((prev) => ({ ...prev, [sessionId]: data.data.reviews }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load session details");
+      setExpandedId(null);
+    } finally {
+      setLoadingReviewsId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="history-deck-filter">Deck</Label>
+        <select
+          id="history-deck-filter"
+          className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+          value={deckId ?? ""}
+          onChange={(e) => setDeckId(e.target.value ? Number(e.target.value) : undefined)}
+          data-test-id="history-deck-filter"
+        >
+          <option value="">All decks</option>
+          {decks.map((deck) => (
+            <option key={deck.id} value={deck.id}>
+              {deck.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!isLoading && sessions.length === 0 && !error && (
+        <Card>
+          <CardHeader>
+            <CardTitle>No sessions yet</CardTitle>
+            <CardDescription>Study a deck and your sessions will show up here.</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <div className="space-y-3" data-test-id="history-session-list">
+        {sessions.map((session) => (
+          <Card key={session.id} data-test-id={`history-session-${session.id}`}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-lg">{session.deck_name}</CardTitle>
+                  <CardDescription>{new Date(session.started_at).toLocaleString()}</CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleToggle(session.id)}
+                  disabled={session.cards_reviewed === 0}
+                  data-test-id="history-toggle-details"
+                >
+                  {expandedId === session.id ? "Hide cards" : "Show cards"}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <dl className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">Duration</dt>
+                  <dd className="font-medium">{formatDuration(session)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Cards reviewed</dt>
+                  <dd className="font-medium">{session.cards_reviewed}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Accuracy</dt>
+                  <dd className="font-medium">
+                    {session.cards_reviewed > 0 ? `${Math.round(session.accuracy_rate * 100)}%` : "–"}
+                  </dd>
+                </div>
+              </dl>
+
+              {expandedId === session.id &&
+                (loadingReviewsId === session.id ? (
+                  <p className="text-sm text-muted-foreground">Loading cards...</p>
+                ) : (
+                  <ul className="divide-y border-t" data-test-id="history-session-reviews">
+                    {(reviews[session.id] ?? []).map((review) => (
+                      <li key={review.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                        <span className="truncate">{review.front}</span>
+                        <span className="flex shrink-0 items-center gap-3">
+                          <span className="text-muted-foreground">
+                            {review.previous_interval} → {review.new_interval} d
+                          </span>
+                          <span
+                            className={`rounded px-2 py-0.5 text-xs font-medium capitalize ${GRADE_STYLES[review.grade]}`}
+                          >
+                            {review.grade}
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+      {hasMore && !isLoading && (
+        <Button variant="outline" onClick={() => fetchSessions(sessions.length)} data-test-id="history-load-more">
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+/**
+ * StudySession Component
+ * Runs a study session for a deck: shows the front of each due card, reveals the answer
+ * and collects a grade until no cards are left or the user ends the session
+ */
+
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type {
+  ApiResponse,
+  CardPreview,
+  CompletedStudySession,
+  EndStudySessionResponse,
+  FlashcardDetail,
+  ReviewCardResponse,
+  ReviewGrade,
+  StartStudySessionResponse,
+} from "@/types";
+import { ErrorCodes } from "@/types";
+
+interface StudySessionProps {
+  deckId: number;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; variant: "destructive" | "outline" | "default" }[] = [
+  { grade: "again", label: "Again", variant: "destructive" },
+  { grade: "hard", label: "Hard", variant: "outline" },
+  { grade: "good", label: "Good", variant: "default" },
+  { grade: "easy", label: "Easy", variant: "outline" },
+];
+
+export default function StudySession({ deckId }: StudySessionProps) {
+  const [sessionId, setSessionId] = useState<number | null>(null);
+  const [card, setCard] = useState<CardPreview | null>(null);
+  const [answer, setAnswer] = useState<string | null>(null);
+  const [remaining, setRemaining] = useState(0);
+  const [summary, setSummary] = useState<CompletedStudySession | null>(null);
+  const [nothingDue, setNothingDue] = useState<{ nextReviewAt: string | null } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start the session on mount
+  useEffect(() => {
+    const startSession = async () => {
+      try {
+        const response = await fetch(`/api/decks/${deckId}/study/start`, { method: "POST" });
+        const data: ApiResponse<StartStudySessionResponse> = await response.json();
+
+        if (!data.success && data.error.code === ErrorCodes.NO_CARDS_DUE) {
+          const details = data.error.details as { next_review_at?: string | null } | undefined;
+          setNothingDue({ nextReviewAt: details?.next_review_at ?? null });
+          return;
+        }
+
+        if (!response.ok || !data.success) {
+          throw new Error(!data.success ? data.error.message : "Failed to start study session");
+        }
+
+        setSessionId(data.data.session.id);
+        setCard(data.data.first_card);
+        setRemaining(data.data.session.cards_to_review);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to start study session");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    startSession();
+  }, [deckId]);
+
+  const handleShowAnswer = async () => {
+    if (!card) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      // Card previews only carry the question; the answer is fetched when the card is flipped
+      const response = await fetch(`/api/flashcards/${card.id}`);
+      const data: ApiResponse<{ flashcard: FlashcardDetail }> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to load answer");
+      }
+
+      setAnswer(data.data.flashcard.back);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load answer");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnd = async () => {
+    if (sessionId === null) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/study/sessions/${sessionId}/end`, { method: "POST" });
+      const data: ApiResponse<EndStudySessionResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to end study session");
+      }
+
+      setSummary(data.data.session);
+      setCard(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to end study session");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (sessionId === null || !card) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/study/sessions/${sessionId}/review`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ flashcard_id: card.id, grade }),
+      });
+      const data: ApiResponse<ReviewCardResponse> = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(!data.success ? data.error.message : "Failed to submit review");
+      }
+
+      setAnswer(null);
+      setRemaining(data.data.session.cards_remaining);
+
+      if (data.data.next_card) {
+        setCard(data.data.next_card);
+        setIsSubmitting(false);
+      } else {
+        // Queue is empty: close the session to get the summary
+        await handleEnd();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit review");
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Starting study session...</p>;
+  }
+
+  if (nothingDue) {
+    return (
+      <Card data-test-id="study-nothing-due">
+        <CardHeader>
+          <CardTitle>No cards due</CardTitle>
+          <CardDescription>
+            {nothingDue.nextReviewAt
+              ? `The next review in this deck is on ${nothingDue.nextReviewAt}.`
+              : "This deck has no cards to study yet."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <a href={`/decks/${deckId}`}>Back to deck</a>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (summary) {
+    return (
+      <Card data-test-id="study-summary">
+        <CardHeader>
+          <CardTitle>Session complete</CardTitle>
+          <CardDescription>
+            You reviewed {summary.cards_reviewed} card(s) with {Math.round(summary.accuracy_rate * 100)}% accuracy.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <a href={`/decks/${deckId}`}>Back to deck</a>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-test-id="study-session">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {card && (
+        <>
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span data-test-id="study-remaining">{remaining} card(s) remaining</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleEnd}
+              disabled={isSubmitting}
+              data-test-id="study-end-button"
+            >
+              End session
+            </Button>
+          </div>
+
+          <Card data-test-id="study-card">
+            <CardContent className="p-6 space-y-6">
+              <div className="space-y-1">
+                <div className="text-xs font-semibold text-muted-foreground uppercase">Front</div>
+                <p className="text-lg" data-test-id="study-card-front">
+                  {card.front}
+                </p>
+              </div>
+
+              {answer !== null && (
+                <div className="space-y-1 pt-6 border-t">
+                  <div className="text-xs font-semibold text-muted-foreground uppercase">Back</div>
+                  <p className="text-lg" data-test-id="study-card-back">
+                    {answer}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {answer === null ? (
+            <Button
+              className="w-full"
+              onClick={handleShowAnswer}
+              disabled={isSubmitting}
+              data-test-id="study-show-answer"
+            >
+              Show answer
+            </Button>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2" data-test-id="study-grade-buttons">
+              {GRADE_BUTTONS.map(({ grade, label, variant }) => (
+                <Button
+                  key={grade}
+                  variant={variant}
+                  onClick={() => handleGrade(grade)}
+                  disabled={isSubmitting}
+                  data-test-id={`study-grade-${grade}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -20,27 +20,336 @@ export interface Database {
   };
   public: {
     Tables: {
+      admin_users: {
+        Row: {
+          created_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      ai_card_reviews: {
+        Row: {
+          decided_at: string;
+          decision: string;
+          edit_distance: number;
+          flashcard_id: number;
+          generation_id: number;
+          id: number;
+          user_id: string;
+        };
+        Insert: {
+          decided_at?: string;
+          decision: string;
+          edit_distance?: number;
+          flashcard_id: number;
+          generation_id: number;
+          id?: number;
+          user_id: string;
+        };
+        Update: {
+          decided_at?: string;
+          decision?: string;
+          edit_distance?: number;
+          flashcard_id?: number;
+          generation_id?: number;
+          id?: number;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_card_reviews_generation_id_fkey";
+            columns: ["generation_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_generation_logs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      ai_generation_cache: {
+        Row: {
+          cache_key: string;
+          cards: Json;
+          created_at: string;
+          expires_at: string;
+          hit_count: number;
+          last_used_at: string;
+          max_cards: number;
+          model: string | null;
+          prompt_version: string | null;
+          user_id: string;
+        };
+        Insert: {
+          cache_key: string;
+          cards: Json;
+          created_at?: string;
+          expires_at: string;
+          hit_count?: number;
+          last_used_at?: string;
+          max_cards: number;
+          model?: string | null;
+          prompt_version?: string | null;
+          user_id: string;
+        };
+        Update: {
+          cache_key?: string;
+          cards?: Json;
+          created_at?: string;
+          expires_at?: string;
+          hit_count?: number;
+          last_used_at?: string;
+          max_cards?: number;
+          model?: string | null;
+          prompt_version?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      ai_generation_jobs: {
+        Row: {
+          created_at: string;
+          deck_id: number;
+          error: Json | null;
+          finished_at: string | null;
+          heartbeat_at: string;
+          id: number;
+          request: Json;
+          result: Json | null;
+          started_at: string | null;
+          status: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          deck_id: number;
+          error?: Json | null;
+          finished_at?: string | null;
+          heartbeat_at?: string;
+          id?: number;
+          request: Json;
+          result?: Json | null;
+          started_at?: string | null;
+          status?: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          deck_id?: number;
+          error?: Json | null;
+          finished_at?: string | null;
+          heartbeat_at?: string;
+          id?: number;
+          request?: Json;
+          result?: Json | null;
+          started_at?: string | null;
+          status?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_generation_jobs_deck_id_fkey";
+            columns: ["deck_id"];
+            isOneToOne: false;
+            referencedRelation: "decks";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       ai_generation_logs: {
         Row: {
+          cache_hit: boolean;
           cards_count: number;
+          completion_tokens: number;
+          cost: number | null;
+          deck_id: number | null;
+          error_message: string | null;
           generated_at: string;
           id: number;
+          latency_ms: number | null;
+          model: string | null;
+          outcome: string;
+          prompt_tokens: number;
+          prompt_version: string | null;
+          refinements_count: number;
           user_id: string;
         };
         Insert: {
+          cache_hit?: boolean;
           cards_count?: number;
+          completion_tokens?: number;
+          cost?: number | null;
+          deck_id?: number | null;
+          error_message?: string | null;
           generated_at?: string;
           id?: number;
+          latency_ms?: number | null;
+          model?: string | null;
+          outcome?: string;
+          prompt_tokens?: number;
+          prompt_version?: string | null;
+          refinements_count?: number;
           user_id: string;
         };
         Update: {
+          cache_hit?: boolean;
           cards_count?: number;
+          completion_tokens?: number;
+          cost?: number | null;
+          deck_id?: number | null;
+          error_message?: string | null;
           generated_at?: string;
           id?: number;
+          latency_ms?: number | null;
+          model?: string | null;
+          outcome?: string;
+          prompt_tokens?: number;
+          prompt_version?: string | null;
+          refinements_count?: number;
           user_id?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "ai_generation_logs_deck_id_fkey";
+            columns: ["deck_id"];
+            isOneToOne: false;
+            referencedRelation: "decks";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      ai_generation_sources: {
+        Row: {
+          created_at: string;
+          generation_id: number;
+          text: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          generation_id: number;
+          text: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          generation_id?: number;
+          text?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_generation_sources_generation_id_fkey";
+            columns: ["generation_id"];
+            isOneToOne: true;
+            referencedRelation: "ai_generation_logs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      ai_guardrail_events: {
+        Row: {
+          created_at: string;
+          excerpt: string;
+          generation_id: number;
+          id: number;
+          reason: string;
+          stage: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          excerpt?: string;
+          generation_id: number;
+          id?: number;
+          reason: string;
+          stage: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          excerpt?: string;
+          generation_id?: number;
+          id?: number;
+          reason?: string;
+          stage?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_guardrail_events_generation_id_fkey";
+            columns: ["generation_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_generation_logs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      ai_quota_plans: {
+        Row: {
+          created_at: string;
+          daily_card_limit: number;
+          id: number;
+          is_default: boolean;
+          monthly_card_limit: number | null;
+          name: string;
+        };
+        Insert: {
+          created_at?: string;
+          daily_card_limit: number;
+          id?: number;
+          is_default?: boolean;
+          monthly_card_limit?: number | null;
+          name: string;
+        };
+        Update: {
+          created_at?: string;
+          daily_card_limit?: number;
+          id?: number;
+          is_default?: boolean;
+          monthly_card_limit?: number | null;
+          name?: string;
+        };
         Relationships: [];
       };
+      ai_rejected_drafts: {
+        Row: {
+          flashcard_id: number;
+          generation_id: number;
+          rejected_at: string;
+          user_id: string;
+        };
+        Insert: {
+          flashcard_id: number;
+          generation_id: number;
+          rejected_at?: string;
+          user_id: string;
+        };
+        Update: {
+          flashcard_id?: number;
+          generation_id?: number;
+          rejected_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_rejected_drafts_generation_id_fkey";
+            columns: ["generation_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_generation_logs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       decks: {
         Row: {
           created_at: string;
@@ -67,35 +376,53 @@ export interface Database {
       };
       flashcard_performance: {
         Row: {
+          elapsed_days: number | null;
           flashcard_id: number;
           grade: string;
           id: number;
+          new_difficulty: number | null;
           new_ease_factor: number;
           new_interval: number;
+          new_stability: number | null;
+          previous_difficulty: number | null;
           previous_ease_factor: number;
           previous_interval: number;
+          previous_stability: number | null;
+          retrievability: number | null;
           reviewed_at: string;
           study_session_id: number;
         };
         Insert: {
+          elapsed_days?: number | null;
           flashcard_id: number;
           grade: string;
           id?: number;
+          new_difficulty?: number | null;
           new_ease_factor: number;
           new_interval: number;
+          new_stability?: number | null;
+          previous_difficulty?: number | null;
           previous_ease_factor: number;
           previous_interval: number;
+          previous_stability?: number | null;
+          retrievability?: number | null;
           reviewed_at?: string;
           study_session_id: number;
         };
         Update: {
+          elapsed_days?: number | null;
           flashcard_id?: number;
           grade?: string;
           id?: number;
+          new_difficulty?: number | null;
           new_ease_factor?: number;
           new_interval?: number;
+          new_stability?: number | null;
+          previous_difficulty?: number | null;
           previous_ease_factor?: number;
           previous_interval?: number;
+          previous_stability?: number | null;
+          retrievability?: number | null;
           reviewed_at?: string;
           study_session_id?: number;
         };
@@ -121,12 +448,21 @@ export interface Database {
           back: string;
           created_at: string;
           deck_id: number;
+          difficulty: number | null;
           ease_factor: number;
           front: string;
+          generated_back: string | null;
+          generated_front: string | null;
+          generation_id: number | null;
           id: number;
           interval: number;
+          last_reviewed_at: string | null;
           next_review_date: string;
+          retrievability: number | null;
           source: string;
+          source_end: number | null;
+          source_start: number | null;
+          stability: number | null;
           status: string;
           updated_at: string;
         };
@@ -134,12 +470,21 @@ export interface Database {
           back: string;
           created_at?: string;
           deck_id: number;
+          difficulty?: number | null;
           ease_factor?: number;
           front: string;
+          generated_back?: string | null;
+          generated_front?: string | null;
+          generation_id?: number | null;
           id?: number;
           interval?: number;
+          last_reviewed_at?: string | null;
           next_review_date?: string;
+          retrievability?: number | null;
           source: string;
+          source_end?: number | null;
+          source_start?: number | null;
+          stability?: number | null;
           status?: string;
           updated_at?: string;
         };
@@ -147,12 +492,21 @@ export interface Database {
           back?: string;
           created_at?: string;
           deck_id?: number;
+          difficulty?: number | null;
           ease_factor?: number;
           front?: string;
+          generated_back?: string | null;
+          generated_front?: string | null;
+          generation_id?: number | null;
           id?: number;
           interval?: number;
+          last_reviewed_at?: string | null;
           next_review_date?: string;
+          retrievability?: number | null;
           source?: string;
+          source_end?: number | null;
+          source_start?: number | null;
+          stability?: number | null;
           status?: string;
           updated_at?: string;
         };
@@ -164,8 +518,51 @@ export interface Database {
             referencedRelation: "decks";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "flashcards_generation_id_fkey";
+            columns: ["generation_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_generation_logs";
+            referencedColumns: ["id"];
+          },
         ];
       };
+      fsrs_optimization_runs: {
+        Row: {
+          error_message: string | null;
+          finished_at: string | null;
+          id: number;
+          loss_after: number | null;
+          loss_before: number | null;
+          review_count: number | null;
+          started_at: string;
+          status: string;
+          user_id: string;
+        };
+        Insert: {
+          error_message?: string | null;
+          finished_at?: string | null;
+          id?: number;
+          loss_after?: number | null;
+          loss_before?: number | null;
+          review_count?: number | null;
+          started_at?: string;
+          status?: string;
+          user_id: string;
+        };
+        Update: {
+          error_message?: string | null;
+          finished_at?: string | null;
+          id?: number;
+          loss_after?: number | null;
+          loss_before?: number | null;
+          review_count?: number | null;
+          started_at?: string;
+          status?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       study_sessions: {
         Row: {
           cards_correct: number;
@@ -204,9 +601,195 @@ export interface Database {
           },
         ];
       };
+      user_ai_quotas: {
+        Row: {
+          created_at: string;
+          daily_card_limit: number | null;
+          monthly_card_limit: number | null;
+          plan_id: number | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          daily_card_limit?: number | null;
+          monthly_card_limit?: number | null;
+          plan_id?: number | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          daily_card_limit?: number | null;
+          monthly_card_limit?: number | null;
+          plan_id?: number | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_ai_quotas_plan_id_fkey";
+            columns: ["plan_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_quota_plans";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      user_settings: {
+        Row: {
+          created_at: string;
+          desired_retention: number;
+          fsrs_weights: number[] | null;
+          optimized_review_count: number;
+          timezone: string;
+          timezone_changed_at: string | null;
+          updated_at: string;
+          user_id: string;
+          weights_optimized_at: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          desired_retention?: number;
+          fsrs_weights?: number[] | null;
+          optimized_review_count?: number;
+          timezone?: string;
+          timezone_changed_at?: string | null;
+          updated_at?: string;
+          user_id: string;
+          weights_optimized_at?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          desired_retention?: number;
+          fsrs_weights?: number[] | null;
+          optimized_review_count?: number;
+          timezone?: string;
+          timezone_changed_at?: string | null;
+          updated_at?: string;
+          user_id?: string;
+          weights_optimized_at?: string | null;
+        };
+        Relationships: [];
+      };
     };
     Views: Record<never, never>;
-    Functions: Record<never, never>;
+    Functions: {
+      finish_fsrs_optimization: {
+        Args: {
+          p_error_message?: string;
+          p_loss_after?: number;
+          p_loss_before?: number;
+          p_review_count?: number;
+          p_run_id: number;
+          p_status: string;
+        };
+        Returns: boolean;
+      };
+      get_ai_acceptance_report: {
+        Args: { p_all_users?: boolean; p_from: string; p_interval?: string; p_to: string };
+        Returns: {
+          accepted: number;
+          avg_edit_distance: number | null;
+          edited: number;
+          generations: number;
+          model: string | null;
+          period_start: string;
+          prompt_version: string | null;
+          rejected: number;
+        }[];
+      };
+      get_ai_cards_generated_total: {
+        Args: never;
+        Returns: number;
+      };
+      get_ai_quota_plan: {
+        Args: { p_user_id: string };
+        Returns: {
+          daily_card_limit: number;
+          monthly_card_limit: number | null;
+          plan_name: string;
+          timezone: string;
+        }[];
+      };
+      get_ai_usage_totals: {
+        Args: { p_from: string; p_to: string; p_user_id: string };
+        Returns: {
+          cards_count: number;
+          completion_tokens: number;
+          cost: number | null;
+          prompt_tokens: number;
+          refinements_count: number;
+        }[];
+      };
+      get_deck_card_counts: {
+        Args: { p_deck_ids: number[]; p_today: string };
+        Returns: {
+          cards_count: number;
+          cards_due_today: number;
+          cards_learning: number;
+          cards_new: number;
+          deck_id: number;
+        }[];
+      };
+      put_ai_cache_entry: {
+        Args: {
+          p_cache_key: string;
+          p_cards: Json;
+          p_max_cards: number;
+          p_model: string;
+          p_prompt_version: string;
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      record_session_review: {
+        Args: { p_correct: boolean; p_session_id: number };
+        Returns: boolean;
+      };
+      reserve_ai_quota: {
+        Args: {
+          p_cache_hit?: boolean;
+          p_cards: number;
+          p_deck_id: number;
+          p_refinements?: number;
+          p_user_id: string;
+        };
+        Returns: {
+          cards_granted: number;
+          log_id: number | null;
+        }[];
+      };
+      settle_ai_quota: {
+        Args: {
+          p_cards_count: number;
+          p_completion_tokens?: number;
+          p_cost?: number;
+          p_error_message?: string;
+          p_latency_ms?: number;
+          p_log_id: number;
+          p_model?: string;
+          p_outcome: string;
+          p_prompt_tokens?: number;
+          p_prompt_version?: string;
+          p_refinements_count: number;
+          p_user_id: string;
+        };
+        Returns: boolean;
+      };
+      start_fsrs_optimization: {
+        Args: never;
+        Returns: number | null;
+      };
+      take_ai_cache_entry: {
+        Args: { p_cache_key: string; p_min_cards: number; p_user_id: string };
+        Returns: {
+          cards: Json;
+          model: string | null;
+          prompt_version: string | null;
+        }[];
+      };
+    };
     Enums: Record<never, never>;
     CompositeTypes: Record<never, never>;
   };
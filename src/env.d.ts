@@ -19,7 +19,13 @@ interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
   readonly SUPABASE_SERVICE_KEY: string;
-  readonly OPENROUTER_API_KEY: string;
+  readonly OPENROUTER_API_KEY?: string;
+  /** "openrouter" (default), "openai-compatible" or "fake" */
+  readonly AI_PROVIDER?: string;
+  readonly OPENROUTER_MODEL?: string;
+  readonly LLM_BASE_URL?: string;
+  readonly LLM_MODEL?: string;
+  readonly LLM_API_KEY?: string;
   // more env variables...
 }
 
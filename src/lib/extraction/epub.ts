@@ -0,0 +1,173 @@
+/**
+ * EPUB Extraction
+ * Reads the chapters of an EPUB in reading order and titles them from its table of contents.
+ *
+ * The package document (OPF) gives the reading order (spine); chapter titles come from the EPUB 3
+ * navigation document or the EPUB 2 NCX, then from the chapter's first heading. Files without a
+ * title of their own continue the previous chapter, and files without text (covers, image pages)
+ * are skipped. Only the text files are decompressed, with a cap on their total size.
+ */
+
+import { unzipSync } from "fflate";
+import type { DocumentSection } from "../../types";
+import { decodeEntities, getAttribute, htmlToText } from "./markup";
+
+/** Total uncompressed size of the files read from one EPUB */
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+const TEXT_FILE = /\.(?:x?html?|opf|ncx|xml)$/i;
+
+/**
+ * Thrown when the file is not a readable EPUB
+ */
+export class EpubFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EpubFormatError";
+  }
+}
+
+/**
+ * Chapters of an EPUB, with the title from its metadata
+ * @throws EpubFormatError if the archive or its package document is missing or too large
+ */
+export function extractEpub(data: Uint8Array): { title: string | null; sections: DocumentSection[] } {
+  const files = readTextFiles(data);
+
+  const container = files.get("META-INF/container.xml");
+  const packagePath = container ? getAttribute(/<rootfile\b([^>]*)>/i.exec(container)?.[1] ?? "", "full-path") : null;
+  const opf = packagePath ? files.get(packagePath) : undefined;
+  if (!packagePath || !opf) {
+    throw new EpubFormatError("The EPUB has no package document");
+  }
+
+  const manifest = new Map<string, { path: string; properties: string }>();
+  for (const [, attributes] of opf.matchAll(/<(?:\w+:)?item\b([^>]*)>/gi)) {
+    const id = getAttribute(attributes, "id");
+    const href = getAttribute(attributes, "href");
+    if (id && href) {
+      manifest.set(id, {
+        path: resolvePath(packagePath, href),
+        properties: getAttribute(attributes, "properties") ?? "",
+      });
+    }
+  }
+
+  const titles = readTableOfContents(opf, manifest, files);
+  const metadataTitle = /<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/i.exec(opf)?.[1];
+  const sections: DocumentSection[] = [];
+
+  for (const [, attributes] of opf.matchAll(/<(?:\w+:)?itemref\b([^>]*)>/gi)) {
+    if (getAttribute(attributes, "linear") === "no") continue;
+
+    const item = manifest.get(getAttribute(attributes, "idref") ?? "");
+    const content = item ? files.get(item.path) : undefined;
+    if (!item || content === undefined) continue;
+
+    const { text } = htmlToText(content);
+    if (!text) continue;
+
+    const title = titles.get(item.path) ?? /^#{1,6} (.+)$/m.exec(text)?.[1];
+    const previous = sections[sections.length - 1];
+    if (!title && previous) {
+      previous.text += `\n\n${text}`;
+    } else {
+      sections.push({ title: title ?? `Section ${sections.length + 1}`, level: 1, text });
+    }
+  }
+
+  return { title: metadataTitle ? decodeEntities(metadataTitle).trim() || null : null, sections };
+}
+
+/**
+ * Decompress the text files of the archive, keyed by path
+ */
+function readTextFiles(data: Uint8Array): Map<string, string> {
+  // Sizes are checked from the archive directory before anything is decompressed
+  let total = 0;
+  let entries: Record<string, Uint8Array>;
+
+  try {
+    entries = unzipSync(data, {
+      filter: (file) => {
+        if (!TEXT_FILE.test(file.name)) return false;
+        total += file.originalSize;
+        return total <= MAX_UNCOMPRESSED_BYTES;
+      },
+    });
+  } catch {
+    throw new EpubFormatError("The file is not a valid EPUB archive");
+  }
+
+  if (total > MAX_UNCOMPRESSED_BYTES) {
+    throw new EpubFormatError("The EPUB is too large to read");
+  }
+
+  const decoder = new TextDecoder();
+  return new Map(Object.entries(entries).map(([name, content]) => [name, decoder.decode(content)]));
+}
+
+/**
+ * Title of the first table of contents entry pointing to each file, keyed by file path
+ */
+function readTableOfContents(
+  opf: string,
+  manifest: Map<string, { path: string; properties: string }>,
+  files: Map<string, string>
+): Map<string, string> {
+  const titles = new Map<string, string>();
+  const add = (basePath: string, href: string | null, label: string) => {
+    const title = decodeEntities(label.replace(/<[^>]*>/g, ""))
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!href || !title) return;
+    const path = resolvePath(basePath, href.split("#")[0]);
+    if (!titles.has(path)) titles.set(path, title);
+  };
+
+  // EPUB 3 navigation document
+  const nav = [...manifest.values()].find((item) => item.properties.split(/\s+/).includes("nav"));
+  const navContent = nav ? files.get(nav.path) : undefined;
+  if (nav && navContent) {
+    const tocNav = /<nav\b[^>]*(?:epub:)?type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i.exec(
+      navContent
+    );
+    for (const [, attributes, label] of (tocNav?.[1] ?? "").matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+      add(nav.path, getAttribute(attributes, "href"), label);
+    }
+    if (titles.size > 0) return titles;
+  }
+
+  // EPUB 2 NCX
+  const ncxId = getAttribute(/<(?:\w+:)?spine\b([^>]*)>/i.exec(opf)?.[1] ?? "", "toc");
+  const ncx = ncxId ? manifest.get(ncxId) : undefined;
+  const ncxContent = ncx ? files.get(ncx.path) : undefined;
+  if (ncx && ncxContent) {
+    for (const [, label, attributes] of ncxContent.matchAll(
+      /<navLabel\b[^>]*>\s*<text\b[^>]*>([\s\S]*?)<\/text>\s*<\/navLabel>\s*<content\b([^>]*)>/gi
+    )) {
+      add(ncx.path, getAttribute(attributes, "src"), label);
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Archive path of `href` relative to the file at `basePath`
+ */
+function resolvePath(basePath: string, href: string): string {
+  let decoded = href;
+  try {
+    decoded = decodeURIComponent(href);
+  } catch {
+    // Keep the href as written
+  }
+
+  const parts = basePath.split("/").slice(0, -1);
+  for (const part of decoded.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  }
+  return parts.join("/");
+}
@@ -0,0 +1,194 @@
+/**
+ * Document Extraction
+ * Extracts the text of an uploaded file as a list of sections (its table of contents), so the user
+ * can pick the parts to generate flashcards from.
+ *
+ * The format is detected from the file extension, checked against the content for binary formats.
+ * Everything runs locally. The text is not stored: the picked sections are sent back as the text
+ * of an ordinary generation request.
+ */
+
+import type { DocumentFormat, DocumentSection, ExtractDocumentResponse } from "../../types";
+import { ErrorCodes, ValidationConstraints } from "../../types";
+import { EpubFormatError, extractEpub } from "./epub";
+import { cleanMarkdown, htmlToText, splitByHeadings } from "./markup";
+import { extractPdf } from "./pdf";
+import { extractSubtitles } from "./subtitles";
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  md: "markdown",
+  markdown: "markdown",
+  txt: "markdown",
+  html: "html",
+  htm: "html",
+  xhtml: "html",
+  pdf: "pdf",
+  srt: "subtitles",
+  vtt: "subtitles",
+  epub: "epub",
+};
+
+const SUPPORTED_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION).map((extension) => `.${extension}`);
+
+const FORMAT_NAMES: Record<DocumentFormat, string> = {
+  markdown: "Markdown",
+  html: "HTML",
+  pdf: "PDF",
+  subtitles: "subtitle",
+  epub: "EPUB",
+};
+
+/**
+ * Custom error class for files that cannot be extracted
+ */
+export class DocumentExtractionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "DocumentExtractionError";
+  }
+}
+
+/**
+ * An uploaded file
+ */
+export interface UploadedDocument {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * The error for a file over `documentUpload.maxBytes`
+ */
+export function fileTooLarge(): DocumentExtractionError {
+  const { maxBytes } = ValidationConstraints.documentUpload;
+
+  return new DocumentExtractionError(
+    `File must not exceed ${Math.round(maxBytes / (1024 * 1024))} MB`,
+    ErrorCodes.FILE_TOO_LARGE,
+    413,
+    { max_bytes: maxBytes }
+  );
+}
+
+/**
+ * Extract the sections of an uploaded file. Text past `extractedTextMaxLength` is left out and the
+ * response is marked as truncated.
+ * @throws DocumentExtractionError if the file is too large, of an unsupported type, unreadable or has no text
+ */
+export async function extractDocument(file: UploadedDocument): Promise<ExtractDocumentResponse> {
+  const { maxBytes, extractedTextMaxLength } = ValidationConstraints.documentUpload;
+
+  if (file.data.byteLength > maxBytes) {
+    throw fileTooLarge();
+  }
+
+  const format = detectFormat(file);
+
+  let extracted: { title: string | null; sections: DocumentSection[] };
+  try {
+    extracted = await extractSections(format, file.data);
+  } catch (error) {
+    throw new DocumentExtractionError(
+      error instanceof EpubFormatError ? error.message : `The file could not be read as ${FORMAT_NAMES[format]}`,
+      ErrorCodes.INVALID_INPUT,
+      422,
+      { format }
+    );
+  }
+
+  const { sections, truncated } = limitText(extracted.sections, extractedTextMaxLength);
+  const characters = sections.reduce((sum, section) => sum + section.text.length, 0);
+
+  if (characters === 0) {
+    throw new DocumentExtractionError(
+      format === "pdf"
+        ? "No text found in the PDF. Scanned documents without a text layer are not supported."
+        : "No text found in the file",
+      ErrorCodes.NO_TEXT_FOUND,
+      422,
+      { format }
+    );
+  }
+
+  return { file_name: file.name, format, title: extracted.title, sections, characters, truncated };
+}
+
+/**
+ * Format of a file from its extension; PDF and EPUB files must also start like one
+ * @throws DocumentExtractionError if the type is not supported
+ */
+export function detectFormat(file: UploadedDocument): DocumentFormat {
+  const extension = /\.([a-z0-9]+)$/i.exec(file.name)?.[1].toLowerCase() ?? "";
+  const format = FORMATS_BY_EXTENSION[extension] as DocumentFormat | undefined;
+  const header = String.fromCharCode(...file.data.subarray(0, 5));
+
+  if (!format || (format === "pdf" && header !== "%PDF-") || (format === "epub" && !header.startsWith("PK\x03\x04"))) {
+    throw new DocumentExtractionError(
+      `Unsupported file type. Supported files: ${SUPPORTED_EXTENSIONS.join(", ")}`,
+      ErrorCodes.UNSUPPORTED_FILE_TYPE,
+      415,
+      { supported: SUPPORTED_EXTENSIONS }
+    );
+  }
+
+  return format;
+}
+
+async function extractSections(
+  format: DocumentFormat,
+  data: Uint8Array
+): Promise<{ title: string | null; sections: DocumentSection[] }> {
+  switch (format) {
+    case "pdf":
+      return extractPdf(data);
+    case "epub":
+      return extractEpub(data);
+    case "html": {
+      const { title, text } = htmlToText(decodeText(data));
+      return { title, sections: splitByHeadings(text) };
+    }
+    case "subtitles":
+      return { title: null, sections: extractSubtitles(decodeText(data)) };
+    case "markdown":
+      return { title: null, sections: splitByHeadings(cleanMarkdown(decodeText(data))) };
+  }
+}
+
+/**
+ * UTF-8 text of a file; invalid bytes become replacement characters
+ */
+function decodeText(data: Uint8Array): string {
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * Sections up to `maxLength` characters in total; the section crossing the limit is cut at a paragraph break
+ */
+function limitText(
+  sections: DocumentSection[],
+  maxLength: number
+): { sections: DocumentSection[]; truncated: boolean } {
+  const kept: DocumentSection[] = [];
+  let remaining = maxLength;
+
+  for (const section of sections) {
+    if (section.text.length <= remaining) {
+      kept.push(section);
+      remaining -= section.text.length;
+      continue;
+    }
+
+    const cut = section.text.slice(0, remaining);
+    const paragraphEnd = cut.lastIndexOf("\n\n");
+    const text = (paragraphEnd > 0 ? cut.slice(0, paragraphEnd) : cut).trim();
+    if (text) kept.push({ ...section, text });
+    return { sections: kept, truncated: true };
+  }
+
+  return { sections: kept, truncated: false };
+}
@@ -0,0 +1,332 @@
+/**
+ * Markup Extraction
+ * Turns Markdown and HTML into plain Markdown-like text and splits it into sections at headings.
+ *
+ * HTML is reduced to its readable content: scripts, styles and page furniture (navigation, headers,
+ * footers, sidebars, forms) are dropped, and when the page marks its main content only that is kept.
+ * Headings become Markdown headings, so both formats share the section splitting, and the chunker
+ * still breaks long sections at them. It has no I/O.
+ */
+
+import type { DocumentSection } from "../../types";
+
+/** Headings up to this level start a section; deeper ones stay inside their section */
+const SECTION_HEADING_MAX_LEVEL = 3;
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const CODE_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Elements dropped with their content */
+const SKIPPED_ELEMENTS = new Set([
+  "head",
+  "title",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "select",
+  "dialog",
+]);
+
+/** ARIA roles of page furniture, dropped like the elements above */
+const SKIPPED_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search", "doc-toc"]);
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** Elements that end a paragraph */
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "tr",
+  "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  shy: "",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  deg: "°",
+  times: "×",
+  euro: "€",
+};
+
+const TOKEN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+
+/**
+ * Decode character references, e.g. `&amp;` and `&#8217;`
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Value of an attribute in the attribute part of a tag
+ */
+export function getAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i").exec(attributes);
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * Readable text of an HTML or XHTML document, with headings as Markdown headings
+ * @returns The text and the document's `<title>`, if any
+ */
+export function htmlToText(html: string): { title: string | null; text: string } {
+  const tokens = [...html.matchAll(TOKEN)];
+  const titleMatch = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(html);
+  const title = titleMatch ? decodeEntities(titleMatch[1]).replace(/\s+/g, " ").trim() || null : null;
+  // Pages that mark their main content are reduced to it
+  const hasMain = /<main\b|\brole\s*=\s*["']?main\b/i.test(html);
+
+  let output = "";
+  let skipped: { tag: string; depth: number } | null = null;
+  let main: { tag: string; depth: number } | null = null;
+  let preDepth = 0;
+  let headingLevel = 0;
+
+  const newline = (count: number) => {
+    const trailing = /\n*$/.exec(output)?.[0].length ?? 0;
+    if (output.length > 0 && trailing < count) output += "\n".repeat(count - trailing);
+  };
+
+  for (const [token, closing, rawTag, attributes = ""] of tokens) {
+    if (!rawTag) {
+      // Comments, doctypes and the like; a lone "<" is text
+      if (skipped || (hasMain && !main) || (token.length > 1 && token.startsWith("<"))) continue;
+      const text = decodeEntities(token);
+      if (preDepth > 0) {
+        output += text;
+      } else {
+        const collapsed = text.replace(/\s+/g, " ");
+        output += /(?:^|[\n ])$/.test(output) ? collapsed.replace(/^ /, "") : collapsed;
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const selfClosing = VOID_ELEMENTS.has(tag) || attributes.trim().endsWith("/");
+
+    // Inside a dropped element only its own nesting is tracked
+    if (skipped) {
+      if (tag === skipped.tag && !selfClosing) {
+        skipped.depth += closing ? -1 : 1;
+        if (skipped.depth === 0) skipped = null;
+      }
+      continue;
+    }
+
+    if (!closing && !selfClosing) {
+      const role = getAttribute(attributes, "role");
+      const attributeNames = attributes.replace(/"[^"]*"|'[^']*'/g, "");
+      if (
+        SKIPPED_ELEMENTS.has(tag) ||
+        (role !== null && SKIPPED_ROLES.has(role)) ||
+        getAttribute(attributes, "aria-hidden") === "true" ||
+        /(?:^|\s)hidden(?:\s|=|$)/i.test(attributeNames)
+      ) {
+        skipped = { tag, depth: 1 };
+        continue;
+      }
+      if (!main && hasMain && (tag === "main" || role === "main")) {
+        main = { tag, depth: 0 };
+      }
+    }
+
+    if (main && tag === main.tag && !selfClosing) {
+      main.depth += closing ? -1 : 1;
+      if (main.depth === 0) main = null;
+    }
+
+    if (hasMain && !main) continue;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      if (!closing) {
+        headingLevel = Number(heading[1]);
+        newline(2);
+        output += `${"#".repeat(headingLevel)} `;
+      } else {
+        headingLevel = 0;
+        output = output.replace(/[ \t]+$/, "");
+        newline(2);
+      }
+    } else if (tag === "br") {
+      output += headingLevel > 0 ? " " : "\n";
+    } else if (tag === "li" && !closing) {
+      newline(1);
+      output += "- ";
+    } else if (tag === "pre") {
+      preDepth = Math.max(0, preDepth + (closing ? -1 : 1));
+      newline(2);
+    } else if (tag === "td" || tag === "th") {
+      if (closing) output += " ";
+    } else if (BLOCK_ELEMENTS.has(tag)) {
+      newline(tag === "li" || tag === "tr" || tag === "dt" || tag === "dd" ? 1 : 2);
+    }
+  }
+
+  return { title, text: tidy(output) };
+}
+
+/**
+ * Markdown without front matter, comments, images and link targets, with Setext headings as ATX headings
+ */
+export function cleanMarkdown(markdown: string): string {
+  const text = markdown
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    // YAML or TOML front matter
+    .replace(/^(---|\+\+\+)\n[\s\S]*?\n\1[ \t]*(?:\n|$)/, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    // Reference-style link definitions
+    .replace(/^ {0,3}\[[^\]]+\]:[ \t]+\S+.*$/gm, "");
+
+  const lines = text.split("\n");
+  const result: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of lines) {
+    const fenceMatch = CODE_FENCE.exec(line);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = null;
+    }
+
+    // A line of = or - under a paragraph line underlines a heading
+    const underline = fence === null ? /^ {0,3}(=+|-+)[ \t]*$/.exec(line) : null;
+    const previous = result[result.length - 1];
+    if (underline && previous?.trim() && !ATX_HEADING.test(previous) && !/^\s*([-*+]|\d+\.)\s/.test(previous)) {
+      result[result.length - 1] = `${underline[1][0] === "=" ? "#" : "##"} ${previous.trim()}`;
+      continue;
+    }
+
+    result.push(line);
+  }
+
+  return tidy(result.join("\n"));
+}
+
+/**
+ * Split Markdown text into sections at headings of level 1 to 3. Each section starts with its
+ * heading line; text before the first heading forms an "Introduction" section. Headings inside
+ * code blocks are ignored, and sections with nothing but a heading are left out.
+ */
+export function splitByHeadings(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: { title: string; level: number; lines: string[]; hasBody: boolean } = {
+    title: "Introduction",
+    level: 1,
+    lines: [],
+    hasBody: false,
+  };
+  let fence: string | null = null;
+
+  const flush = () => {
+    const sectionText = current.lines.join("\n").trim();
+    if (current.hasBody && sectionText) {
+      sections.push({ title: current.title, level: current.level, text: sectionText });
+    }
+  };
+
+  for (const line of text.split("\n")) {
+    const fenceMatch = CODE_FENCE.exec(line);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = null;
+    }
+
+    const heading = fence === null && !fenceMatch ? ATX_HEADING.exec(line) : null;
+    if (heading && heading[1].length <= SECTION_HEADING_MAX_LEVEL) {
+      flush();
+      current = {
+        title: heading[2].replace(/[*_`]/g, "").trim(),
+        level: heading[1].length,
+        lines: [line],
+        hasBody: false,
+      };
+      continue;
+    }
+
+    current.lines.push(line);
+    if (line.trim()) current.hasBody = true;
+  }
+
+  flush();
+  return sections;
+}
+
+/**
+ * Trim line ends and collapse runs of blank lines
+ */
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
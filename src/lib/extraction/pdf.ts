@@ -0,0 +1,167 @@
+/**
+ * PDF Extraction
+ * Reads the text layer of a PDF and splits it into sections by its outline (bookmarks), or into
+ * runs of pages when it has none.
+ *
+ * Running headers and footers (lines repeated at the top or bottom of most pages, page numbers
+ * included) are removed, and words hyphenated across lines are rejoined. Scanned PDFs have no text
+ * layer and give no text; there is no OCR. Parsing runs locally with pdf.js.
+ */
+
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import type { DocumentSection } from "../../types";
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+/** Without an outline, the text is split into sections of this many pages */
+const PAGES_PER_SECTION = 10;
+
+/** Lines at each end of a page checked for running headers and footers */
+const RUNNING_LINE_WINDOW = 2;
+
+const PAGE_NUMBER = /^(?:page\s+)?[-–—]?\s*\d+\s*[-–—]?(?:\s*(?:of|\/)\s*\d+)?$/i;
+
+interface OutlineEntry {
+  title: string;
+  /** Zero-based index of the page the entry points to */
+  page: number;
+}
+
+/**
+ * Text of a PDF, with the title from its metadata
+ */
+export async function extractPdf(data: Uint8Array): Promise<{ title: string | null; sections: DocumentSection[] }> {
+  const pdf = await getDocumentProxy(data);
+
+  try {
+    const { text } = await extractText(pdf);
+    const pages = removeRunningLines(text).map((page) => page.replace(/(\p{L})-\n(\p{Ll})/gu, "$1$2"));
+    const outline = await readOutline(pdf);
+    const { info } = await getMeta(pdf);
+    const title = typeof info.Title === "string" && info.Title.trim() ? info.Title.trim() : null;
+
+    const sections = outline.length > 0 ? sectionsFromOutline(pages, outline) : sectionsFromPages(pages);
+    return { title, sections: sections.filter((section) => section.text.length > 0) };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Page texts without running headers, footers and page numbers
+ */
+export function removeRunningLines(pages: string[]): string[] {
+  const pageLines = pages.map((page) =>
+    page
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+  );
+
+  // Lines differing only in their numbers (e.g. "Chapter 2 · 14" and "Chapter 2 · 15") count as the same
+  const keyOf = (line: string) => line.toLowerCase().replace(/\d+/g, "#");
+  const edges = (lines: string[]) => [
+    ...lines.slice(0, RUNNING_LINE_WINDOW),
+    ...lines.slice(Math.max(RUNNING_LINE_WINDOW, lines.length - RUNNING_LINE_WINDOW)),
+  ];
+
+  const pageCounts = new Map<string, number>();
+  for (const lines of pageLines) {
+    for (const key of new Set(edges(lines).map(keyOf))) {
+      pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1);
+    }
+  }
+
+  // A running line is on at least half of the pages, and on three or more
+  const minPages = Math.max(3, Math.ceil(pages.length / 2));
+  const isRunning = (line: string) => PAGE_NUMBER.test(line) || (pageCounts.get(keyOf(line)) ?? 0) >= minPages;
+
+  return pageLines.map((lines) =>
+    lines
+      .filter((line, index) => {
+        const atEdge = index < RUNNING_LINE_WINDOW || index >= lines.length - RUNNING_LINE_WINDOW;
+        return !atEdge || !isRunning(line);
+      })
+      .join("\n")
+  );
+}
+
+/**
+ * Top-level outline entries in page order, or the entries under the only top-level entry when the
+ * outline is wrapped in one (typically the book title). Entries that cannot be resolved to a page are left out.
+ */
+async function readOutline(pdf: PdfDocument): Promise<OutlineEntry[]> {
+  let items = (await pdf.getOutline()) ?? [];
+  if (items.length === 1 && items[0].items.length > 0) {
+    items = items[0].items;
+  }
+
+  const entries: OutlineEntry[] = [];
+  for (const item of items) {
+    const page = await resolvePage(pdf, item.dest);
+    const title = item.title.replace(/\s+/g, " ").trim();
+    if (page !== null && title) {
+      entries.push({ title, page });
+    }
+  }
+
+  return entries.sort((a, b) => a.page - b.page);
+}
+
+/**
+ * Zero-based page index of an outline destination
+ */
+async function resolvePage(pdf: PdfDocument, dest: string | unknown[] | null): Promise<number | null> {
+  try {
+    const explicit = typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (typeof target === "number") return target;
+    if (target && typeof target === "object") {
+      return await pdf.getPageIndex(target as Parameters<PdfDocument["getPageIndex"]>[0]);
+    }
+  } catch {
+    // Broken destinations are common; the entry is left out
+  }
+  return null;
+}
+
+/**
+ * One section per outline entry, from its page up to the next entry's page. Pages before the
+ * first entry form a "Front matter" section; an entry sharing its page with the next one gets no pages.
+ */
+function sectionsFromOutline(pages: string[], outline: OutlineEntry[]): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+
+  if (outline[0].page > 0) {
+    sections.push({ title: "Front matter", level: 1, text: joinPages(pages.slice(0, outline[0].page)) });
+  }
+
+  outline.forEach((entry, index) => {
+    const end = outline[index + 1]?.page ?? pages.length;
+    sections.push({ title: entry.title, level: 1, text: joinPages(pages.slice(entry.page, end)) });
+  });
+
+  return sections;
+}
+
+/**
+ * One section per `PAGES_PER_SECTION` pages
+ */
+function sectionsFromPages(pages: string[]): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+
+  for (let start = 0; start < pages.length; start += PAGES_PER_SECTION) {
+    const end = Math.min(start + PAGES_PER_SECTION, pages.length);
+    const title = end - start === 1 ? `Page ${start + 1}` : `Pages ${start + 1}–${end}`;
+    sections.push({ title, level: 1, text: joinPages(pages.slice(start, end)) });
+  }
+
+  return sections;
+}
+
+function joinPages(pages: string[]): string {
+  return pages
+    .filter((page) => page.length > 0)
+    .join("\n\n")
+    .trim();
+}
@@ -0,0 +1,124 @@
+/**
+ * Subtitle Extraction
+ * Turns SRT and WebVTT subtitles into running text, split into sections by time.
+ *
+ * Cue numbers, timestamps, VTT headers, notes and styles, and formatting tags are removed. Lines
+ * repeated by rolling captions are kept once, and the text is broken into paragraphs at sentence
+ * ends. It has no I/O.
+ */
+
+import type { DocumentSection } from "../../types";
+import { decodeEntities } from "./markup";
+
+/** Length of the time ranges the text is split into */
+const SECTION_SECONDS = 10 * 60;
+
+/** A paragraph ends at the first sentence end past this length */
+const PARAGRAPH_MIN_LENGTH = 400;
+
+const TIMING = /^((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+
+interface Cue {
+  start: number;
+  lines: string[];
+}
+
+/**
+ * Text of SRT or WebVTT subtitles, one section per `SECTION_SECONDS` of playback
+ */
+export function extractSubtitles(subtitles: string): DocumentSection[] {
+  const cues = parseCues(subtitles);
+  const sections: DocumentSection[] = [];
+  let previousLine = "";
+
+  for (const cue of cues) {
+    const sectionIndex = Math.floor(cue.start / SECTION_SECONDS);
+    const title = `${formatTime(sectionIndex * SECTION_SECONDS)}–${formatTime((sectionIndex + 1) * SECTION_SECONDS)}`;
+    let section = sections[sections.length - 1];
+    if (section?.title !== title) {
+      section = { title, level: 1, text: "" };
+      sections.push(section);
+      previousLine = "";
+    }
+
+    for (const line of cue.lines) {
+      // Rolling captions show each line twice, first at the bottom and then scrolled up
+      if (line === previousLine) continue;
+      previousLine = line;
+
+      const paragraphStart = section.text.lastIndexOf("\n\n");
+      const paragraphLength = section.text.length - (paragraphStart === -1 ? 0 : paragraphStart + 2);
+      const separator = !section.text
+        ? ""
+        : paragraphLength >= PARAGRAPH_MIN_LENGTH && /[.!?…]["')\]]?$/.test(section.text)
+          ? "\n\n"
+          : " ";
+      section.text += separator + line;
+    }
+  }
+
+  return sections.filter((section) => section.text.length > 0);
+}
+
+/**
+ * Cues in file order, with their text lines cleaned up
+ */
+function parseCues(subtitles: string): Cue[] {
+  const blocks = subtitles
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n/);
+  const cues: Cue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING.test(line.trim()));
+    // Headers, notes, styles and regions have no timing line
+    if (timingIndex === -1) continue;
+
+    const timing = TIMING.exec(lines[timingIndex].trim());
+    const text = lines
+      .slice(timingIndex + 1)
+      .map(cleanCueLine)
+      .filter((line) => line.length > 0);
+
+    if (timing && text.length > 0) {
+      cues.push({ start: parseTime(timing[1]), lines: text });
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * A cue line without markup: VTT tags and inline timestamps, HTML tags in SRT, and ASS overrides
+ */
+function cleanCueLine(line: string): string {
+  return decodeEntities(
+    line
+      .replace(/<[^>]*>/g, "")
+      .replace(/\{\\[^}]*\}/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+/**
+ * Seconds from a timestamp like "01:02:03,456", "02:03.456" or "1:02:03"
+ */
+function parseTime(timestamp: string): number {
+  return timestamp
+    .replace(",", ".")
+    .split(":")
+    .reduce((seconds, part) => seconds * 60 + Number(part), 0);
+}
+
+/**
+ * "m:ss", or "h:mm:ss" from an hour on
+ */
+function formatTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(Math.floor(seconds % 60)).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
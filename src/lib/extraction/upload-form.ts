@@ -0,0 +1,71 @@
+/**
+ * Upload Form
+ * Reads the multipart form of a document upload without holding more than the upload limit in memory.
+ *
+ * `Request.formData()` buffers the whole body before the file size can be checked, so the body is first
+ * refused by its declared Content-Length, then read as a stream and cut off once it passes the limit.
+ * Only a body within the limit is parsed.
+ */
+
+import { ValidationConstraints } from "../../types";
+import { fileTooLarge } from "./extract-document";
+
+/**
+ * Room for the multipart boundaries and part headers around the file
+ */
+export const MULTIPART_OVERHEAD_BYTES = 16 * 1024;
+
+/**
+ * Parse the multipart form of an upload whose body is at most the file limit plus the multipart overhead
+ * @throws DocumentExtractionError if the body is larger
+ * @throws TypeError if the body is not multipart form data
+ */
+export async function readUploadForm(request: Request): Promise<FormData> {
+  const limit = ValidationConstraints.documentUpload.maxBytes + MULTIPART_OVERHEAD_BYTES;
+
+  const declared = Number(request.headers.get("Content-Length"));
+  if (declared > limit) {
+    throw fileTooLarge();
+  }
+
+  const body = await readLimited(request.body, limit);
+
+  return new Response(body, {
+    headers: { "Content-Type": request.headers.get("Content-Type") ?? "" },
+  }).formData();
+}
+
+/**
+ * Read a body stream, cancelling it as soon as it passes `limit` bytes
+ */
+async function readLimited(stream: ReadableStream<Uint8Array> | null, limit: number): Promise<Uint8Array> {
+  if (!stream) {
+    return new Uint8Array();
+  }
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw fileTooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
@@ -0,0 +1,52 @@
+/**
+ * Generation Cache Key
+ * Identifies a generation request for the generation cache: the same text with the same model, prompt
+ * version and options gives the same key, so its earlier cards can be reused instead of calling the model.
+ *
+ * The text is normalized first, so differences the model would not see (line endings, Unicode composition,
+ * runs of spaces, blank lines) do not change the key. Everything that shapes the prompt does. The number of
+ * cards is left out: an entry serves any request for up to as many cards as it was generated for.
+ */
+
+import { createHash } from "node:crypto";
+
+import type { GenerationOptions } from "../../types";
+import { PROMPT_VERSION } from "../llm/prompt";
+
+export interface CacheKeyOptions extends GenerationOptions {
+  longDocument?: boolean;
+}
+
+/**
+ * Text with the differences that do not reach the model removed
+ */
+export function normalizeCacheText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * SHA-256 (hex) of the normalized text, the model, PROMPT_VERSION and the generation options
+ */
+export function generationCacheKey(text: string, model: string, options: CacheKeyOptions = {}): string {
+  const request = {
+    model,
+    promptVersion: PROMPT_VERSION,
+    language: options.language ?? "source",
+    difficulty: options.difficulty ?? null,
+    style: options.style ?? null,
+    focus: options.focus?.trim() || null,
+    longDocument: options.longDocument ?? false,
+  };
+
+  return createHash("sha256")
+    .update(JSON.stringify(request))
+    .update("\n")
+    .update(normalizeCacheText(text))
+    .digest("hex");
+}
@@ -0,0 +1,160 @@
+/**
+ * Document Chunking
+ * Splits long documents into pieces that fit a single generation request, spreads a card budget
+ * across them and merges the per-chunk results.
+ *
+ * Chunks are contiguous slices of the original text. Breaks are placed at section headings where
+ * possible, then at paragraph, line and sentence ends; a hard split is the last resort. It has no I/O.
+ */
+
+import type { ParsedFlashcard } from "../llm/provider";
+import { ValidationConstraints } from "../../types";
+import { normalizeCardText } from "./similarity";
+
+/**
+ * A slice of the source document
+ */
+export interface TextChunk {
+  index: number;
+  /** Offset of the first character in the source text */
+  start: number;
+  /** Offset just past the last character in the source text */
+  end: number;
+  /** Slice content with surrounding whitespace trimmed */
+  text: string;
+}
+
+export interface ChunkOptions {
+  maxLength?: number;
+  minLength?: number;
+}
+
+/**
+ * Break strength; higher values are preferred when choosing where to split
+ */
+const BREAK_PATTERNS: { pattern: RegExp; strength: number }[] = [
+  // Markdown heading: break right before the heading line
+  { pattern: /\n(?=[ \t]*#{1,6}[ \t]+\S)/g, strength: 4 },
+  // Blank line between paragraphs
+  { pattern: /\n[ \t]*\n\s*/g, strength: 3 },
+  { pattern: /\n\s*/g, strength: 2 },
+  // Sentence end followed by whitespace
+  { pattern: /[.!?]["')\]]?\s+/g, strength: 1 },
+];
+
+interface Break {
+  offset: number;
+  strength: number;
+}
+
+/**
+ * Collect candidate break offsets in document order, keeping the strongest break at each offset
+ */
+function findBreaks(text: string): Break[] {
+  const breaks = new Map<number, number>();
+
+  for (const { pattern, strength } of BREAK_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const offset = (match.index ?? 0) + match[0].length;
+      if (offset > 0 && offset < text.length) {
+        breaks.set(offset, Math.max(breaks.get(offset) ?? 0, strength));
+      }
+    }
+  }
+
+  return [...breaks.entries()].map(([offset, strength]) => ({ offset, strength })).sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Length of `text.slice(start, end)` without surrounding whitespace
+ */
+function contentLength(text: string, start: number, end: number): number {
+  return text.slice(start, end).trim().length;
+}
+
+/**
+ * Split text into chunks of at most `maxLength` characters, each at least `minLength` long
+ * (unless the whole text is shorter). A short tail is merged into the previous chunk, so the
+ * last chunk may exceed `maxLength` by up to `minLength`.
+ */
+export function splitIntoChunks(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxLength = options.maxLength ?? ValidationConstraints.aiGeneration.chunkMaxLength;
+  const minLength = options.minLength ?? ValidationConstraints.aiGeneration.textMinLength;
+
+  const breaks = findBreaks(text);
+  const ranges: { start: number; end: number }[] = [];
+  let start = 0;
+
+  while (contentLength(text, start, text.length) > maxLength) {
+    const limit = start + maxLength;
+    // Prefer the strongest break in the second half of the window, so chunks stay reasonably large
+    const candidates = breaks.filter(
+      (b) => b.offset <= limit && b.offset - start >= minLength && contentLength(text, start, b.offset) >= minLength
+    );
+    const preferred = candidates.filter((b) => b.offset >= start + maxLength / 2);
+    const pool = preferred.length > 0 ? preferred : candidates;
+    const strongest = Math.max(0, ...pool.map((b) => b.strength));
+    const best = pool.filter((b) => b.strength === strongest).pop();
+
+    let end = best?.offset ?? limit;
+    if (!best) {
+      // No natural break: split at the last whitespace, or mid-word if there is none
+      const lastSpace = text.lastIndexOf(" ", limit);
+      end = lastSpace > start + minLength ? lastSpace + 1 : limit;
+    }
+
+    ranges.push({ start, end });
+    start = end;
+  }
+
+  if (ranges.length > 0 && contentLength(text, start, text.length) < minLength) {
+    ranges[ranges.length - 1].end = text.length;
+  } else if (contentLength(text, start, text.length) > 0) {
+    ranges.push({ start, end: text.length });
+  }
+
+  return ranges.map((range, index) => ({ index, ...range, text: text.slice(range.start, range.end).trim() }));
+}
+
+/**
+ * Spread `maxCards` across chunks in proportion to their length (largest remainder method).
+ * When there are more chunks than cards, the shortest chunks get 0 and should be skipped.
+ */
+export function allocateCardBudget(chunks: Pick<TextChunk, "text">[], maxCards: number): number[] {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  if (totalLength === 0 || maxCards <= 0) {
+    return chunks.map(() => 0);
+  }
+
+  const shares = chunks.map((chunk) => (chunk.text.length / totalLength) * maxCards);
+  const budget = shares.map(Math.floor);
+  let remaining = maxCards - budget.reduce((sum, cards) => sum + cards, 0);
+
+  const byRemainder = shares.map((share, index) => ({ index, remainder: share - budget[index] }));
+  byRemainder.sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (remaining === 0) break;
+    budget[index]++;
+    remaining--;
+  }
+
+  return budget;
+}
+
+/**
+ * Concatenate per-chunk results in document order, dropping cards whose question repeats an earlier one
+ */
+export function mergeFlashcards(batches: ParsedFlashcard[][], maxCards: number): ParsedFlashcard[] {
+  const seen = new Set<string>();
+  const merged: ParsedFlashcard[] = [];
+
+  for (const card of batches.flat()) {
+    const key = normalizeCardText(card.front);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    merged.push(card);
+  }
+
+  return merged.slice(0, maxCards);
+}
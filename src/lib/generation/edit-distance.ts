@@ -0,0 +1,44 @@
+/**
+ * Edit Distance
+ * Measures how much a user changed an AI card before accepting it, as the Levenshtein distance
+ * between the generated and the accepted text: the characters inserted, deleted or replaced.
+ *
+ * Unlike the duplicate check, the texts are compared as they are, so fixing a typo or the
+ * punctuation counts as an edit. Characters are compared by code point.
+ */
+
+import type { ComparableCard } from "./similarity";
+
+/**
+ * Levenshtein distance between two texts
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+
+  const source = Array.from(a);
+  const target = Array.from(b);
+  if (source.length === 0) return target.length;
+  if (target.length === 0) return source.length;
+
+  // Distances from the first i characters of the source to each prefix of the target
+  let previous = Array.from({ length: target.length + 1 }, (_, j) => j);
+  let current = new Array<number>(target.length + 1);
+
+  for (let i = 1; i <= source.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= target.length; j++) {
+      const substitution = previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1);
+      current[j] = Math.min(substitution, previous[j] + 1, current[j - 1] + 1);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * Edits made to the front and back of a card, summed
+ */
+export function cardEditDistance(generated: ComparableCard, accepted: ComparableCard): number {
+  return editDistance(generated.front, accepted.front) + editDistance(generated.back, accepted.back);
+}
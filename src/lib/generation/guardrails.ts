@@ -0,0 +1,198 @@
+/**
+ * Generation Guardrails
+ * Checks around a generation that defend it against hostile source text - text written to talk the model
+ * into doing something else (prompt injection). They back up the prompt, which sends the text as a
+ * delimited data block and tells the model never to follow it:
+ * - `findInstructions` flags passages of the text that address the model rather than the learner
+ * - `createOutputGuard` checks each generated card and blocks cards that repeat the prompt, contain URLs
+ *   or HTML, are not about the text, or whose answer the text does not support
+ *
+ * Topic and support are judged by the words a card shares with the text, so they are only checked when
+ * the cards are in the language of the text, and only for cards with enough words to judge. Cards in
+ * another language are checked through the passage they quote instead. It has no I/O.
+ */
+
+import type { GenerationOptions, GuardrailReason } from "../../types";
+import type { ParsedFlashcard } from "../llm/provider";
+import { buildSystemPrompt, SOURCE_TAG } from "../llm/prompt";
+import { createSourceLocator } from "./provenance";
+import { normalizeCardText } from "./similarity";
+
+/**
+ * Something a guardrail caught: a passage of the source text (input) or a generated card (output)
+ */
+export interface GuardrailFinding {
+  stage: "input" | "output";
+  reason: GuardrailReason;
+  /** The flagged passage or the blocked card, shortened */
+  excerpt: string;
+}
+
+/**
+ * Checks a generated card; returns why it is blocked, or null to keep it
+ */
+export type OutputGuard = (card: ParsedFlashcard) => GuardrailFinding | null;
+
+/** Longest excerpt kept with a finding */
+const EXCERPT_LENGTH = 200;
+
+/** Passages flagged in one text; the rest add nothing to the log */
+const MAX_INPUT_FINDINGS = 5;
+
+/** Words of the prompt a card must repeat in a row to count as leaking it */
+const LEAK_WINDOW = 6;
+
+/** Content words a card (or its answer) needs before its topic (or support) is judged */
+const MIN_JUDGED_WORDS = 3;
+
+/** Share of a card's words found in the text below which the card is off topic */
+const OFF_TOPIC_OVERLAP = 0.2;
+
+/** Share of an answer's words found in the text below which the answer is unsupported */
+const SUPPORT_OVERLAP = 0.34;
+
+/** Words are compared by their first letters, which tolerates most inflections */
+const STEM_LENGTH = 5;
+
+/**
+ * Phrases that address the model: attempts to override its rules, change its role, extract its prompt,
+ * fake prompt sections or chat-template tokens, and dictate its output
+ */
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:(?:the|your|these|those)\s+)?(?:(?:previous|prior|above|earlier|preceding|system|original)\s+)?(?:instructions?|prompts?|directions|guidelines|rules)\b/i,
+  /\b(?:you are now|from now on,? you are|pretend (?:to be|you are))\b[^.\n]{0,40}\b(?:assistant|AI|model|chatbot|DAN|unrestricted|jailbroken)\b/i,
+  /\b(?:reveal|print|repeat|show|output|leak)\b[^.\n]{0,30}\b(?:system prompt|your (?:instructions|prompt|rules)|the prompt above)\b/i,
+  /^\s*(?:(?:new|updated|additional)\s+)?(?:instructions?|system(?: prompt)?)\s*:/im,
+  /<\|[a-z_]+\|>|\[\/?INST\]|<<\/?SYS>>|<\/?source_text\b/i,
+  /\b(?:respond|reply|answer) only with\b|\b(?:add|include|insert) (?:this|the following) (?:link|url)\b/i,
+  /(?:^|\s)(?:zignoruj|pomiń|zapomnij)\s[^.\n]{0,40}(?:instrukcj|polece|zasad)/iu,
+];
+
+/**
+ * Markup that runs code or loads content wherever a card is rendered as HTML
+ */
+const ACTIVE_MARKUP =
+  /<\s*\/?\s*(?:script|iframe|object|embed|style|link|meta|form|img|svg|base)\b|<[a-z][^>]*\son[a-z]+\s*=|javascript\s*:|data\s*:\s*text\/html/i;
+
+const HTML_TAG = /<\/?([a-z][a-z0-9-]*)(?:\s[^<>]*)?\/?>/gi;
+
+const LINK = /\b(?:https?|ftp):\/\/\S+|\bwww\.[a-z0-9-]+\.[a-z]{2,}\S*/i;
+
+/** Markers of the prompt's structure that a card has no reason to contain */
+const PROMPT_MARKERS = new RegExp(`<\\/?${SOURCE_TAG}\\b|\\bsource_quote\\b`, "i");
+
+/**
+ * Frequent words that say nothing about the topic
+ */
+const STOP_WORDS = new Set(
+  (
+    "the and for are was were not but how why who its can has had have you your any all one from into " +
+    "that this these those what which when where does with than then them they their there about also " +
+    "more most other some such only very many much each both after before between because called used " +
+    "using being been will would could should may might must like just over under while"
+  ).split(" ")
+);
+
+/**
+ * Flag passages of the source text that give instructions to the model
+ */
+export function findInstructions(text: string): GuardrailFinding[] {
+  const findings: GuardrailFinding[] = [];
+
+  for (const line of text.split(/\n+/)) {
+    if (findings.length === MAX_INPUT_FINDINGS) break;
+
+    const match = INSTRUCTION_PATTERNS.map((pattern) => pattern.exec(line)).find(Boolean);
+    if (match) {
+      // Start a little before the match, so a long line is not cut before it
+      const excerpt = line.slice(Math.max(0, match.index - EXCERPT_LENGTH / 4));
+      findings.push({ stage: "input", reason: "instructions_in_source", excerpt: shorten(excerpt) });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Index the source text once for checking any number of cards generated from it
+ */
+export function createOutputGuard(text: string, options: GenerationOptions = {}): OutputGuard {
+  const locateSource = createSourceLocator(text);
+  const sourceStems = new Set(contentStems(text));
+  const sourceTags = new Set(Array.from(text.matchAll(HTML_TAG), (match) => match[1].toLowerCase()));
+  const sourceWindows = new Set(wordWindows(text));
+  const promptWindows = new Set(wordWindows(buildSystemPrompt()).filter((window) => !sourceWindows.has(window)));
+  const sameLanguage = (options.language ?? "source") === "source";
+
+  const overlap = (content: string): number | null => {
+    const stems = contentStems(content);
+    if (stems.length < MIN_JUDGED_WORDS) return null;
+    return stems.filter((stem) => sourceStems.has(stem)).length / stems.length;
+  };
+
+  return (card) => {
+    const content = `${card.front}\n${card.back}`;
+    const block = (reason: GuardrailReason): GuardrailFinding => ({
+      stage: "output",
+      reason,
+      excerpt: shorten(`${card.front} | ${card.back}`),
+    });
+
+    if (PROMPT_MARKERS.test(content) || wordWindows(content).some((window) => promptWindows.has(window))) {
+      return block("leaked_prompt");
+    }
+
+    const tags = Array.from(content.matchAll(HTML_TAG), (match) => match[1].toLowerCase());
+    if (ACTIVE_MARKUP.test(content) || tags.some((tag) => !sourceTags.has(tag))) {
+      return block("markup");
+    }
+
+    if (LINK.test(content)) {
+      return block("url");
+    }
+
+    if (sameLanguage) {
+      const cardOverlap = overlap(content);
+      if (cardOverlap !== null && cardOverlap < OFF_TOPIC_OVERLAP) {
+        return block("off_topic");
+      }
+
+      const answerOverlap = overlap(card.back);
+      if (answerOverlap !== null && answerOverlap < SUPPORT_OVERLAP) {
+        return block("unsupported");
+      }
+    } else if (card.source_quote && !locateSource(card.source_quote)) {
+      return block("unsupported");
+    }
+
+    return null;
+  };
+}
+
+/**
+ * Stems of the words of a text that can carry its topic
+ */
+function contentStems(text: string): string[] {
+  return normalizeCardText(text)
+    .split(" ")
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+    .map((word) => word.slice(0, STEM_LENGTH));
+}
+
+/**
+ * Every run of LEAK_WINDOW consecutive words of a text
+ */
+function wordWindows(text: string): string[] {
+  const words = normalizeCardText(text).split(" ").filter(Boolean);
+  return Array.from({ length: Math.max(0, words.length - LEAK_WINDOW + 1) }, (_, i) =>
+    words.slice(i, i + LEAK_WINDOW).join(" ")
+  );
+}
+
+/**
+ * One line of at most EXCERPT_LENGTH characters
+ */
+function shorten(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > EXCERPT_LENGTH ? `${line.slice(0, EXCERPT_LENGTH - 1)}…` : line;
+}
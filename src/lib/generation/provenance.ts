@@ -0,0 +1,97 @@
+/**
+ * Source Provenance
+ * Links generated cards back to the passage of the source text they were derived from.
+ *
+ * The model quotes the passage each card is based on; models cannot count characters reliably, so
+ * the span is found by locating the quote in the text rather than taken from the model. Matching
+ * ignores case, punctuation and whitespace, which tolerates the prompt sanitization and small slips
+ * in the quote. Quotes that are too short to be specific, or not found, give no span. It has no I/O.
+ */
+
+import type { SourceSpan } from "../../types";
+import { ValidationConstraints } from "../../types";
+
+/** Letters and digits a quote needs to be located; shorter quotes match too many places */
+const MIN_QUOTE_CHARACTERS = 12;
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Finds the span of a quote in the source text
+ */
+export type SourceLocator = (quote: string | undefined) => SourceSpan | null;
+
+/**
+ * Index the text once for locating any number of quotes in it
+ */
+export function createSourceLocator(text: string): SourceLocator {
+  const { normalized, offsets } = normalize(text);
+
+  return (quote) => {
+    if (!quote) return null;
+
+    const needle = normalize(quote).normalized;
+    if (needle.length < MIN_QUOTE_CHARACTERS) return null;
+
+    const index = normalized.indexOf(needle);
+    if (index === -1) return null;
+
+    const start = offsets[index];
+    const last = offsets[index + needle.length - 1];
+    // The last matched character may be a surrogate pair
+    return { start, end: last + ((text.codePointAt(last) ?? 0) > 0xffff ? 2 : 1) };
+  };
+}
+
+/**
+ * The passage of a span with up to `context` characters of text on each side, cut at word boundaries
+ */
+export function excerptSource(
+  text: string,
+  span: SourceSpan,
+  context: number = ValidationConstraints.aiGeneration.sourceContextLength
+): { before: string; passage: string; after: string } {
+  const start = Math.min(Math.max(span.start, 0), text.length);
+  const end = Math.min(Math.max(span.end, start), text.length);
+
+  let before = text.slice(Math.max(0, start - context), start);
+  if (start - context > 0) {
+    before = before.replace(/^\S*\s/, "");
+  }
+
+  let after = text.slice(end, end + context);
+  if (end + context < text.length) {
+    after = after.replace(/\s\S*$/, "");
+  }
+
+  return { before, passage: text.slice(start, end), after };
+}
+
+/**
+ * The span stored on a flashcard row, if it has one
+ */
+export function toSourceSpan(start: number | null | undefined, end: number | null | undefined): SourceSpan | null {
+  return typeof start === "number" && typeof end === "number" ? { start, end } : null;
+}
+
+/**
+ * Lowercase letters and digits of the text, with the offset of each in the original
+ */
+function normalize(text: string): { normalized: string; offsets: number[] } {
+  let normalized = "";
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const char of text) {
+    if (WORD_CHARACTER.test(char)) {
+      // Lowercasing may lengthen a character; every part maps back to it
+      for (const part of char.toLowerCase()) {
+        normalized += part;
+        offsets.push(...new Array<number>(part.length).fill(offset));
+      }
+    }
+    offset += char.length;
+  }
+
+  return { normalized, offsets };
+}
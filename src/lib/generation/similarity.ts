@@ -0,0 +1,97 @@
+/**
+ * Card Similarity
+ * Fuzzy matching of generated cards against the cards a deck already contains.
+ *
+ * Texts are normalized (case, punctuation and whitespace ignored) and compared with the Sørensen–Dice
+ * coefficient over character bigrams, which tolerates small rewordings, typos and inflections.
+ * The question weighs more than the answer: the same question with a reworded answer is still a duplicate.
+ */
+
+import type { DuplicateCardMatch } from "../../types";
+
+/** Combined similarity from which a card is flagged as a likely duplicate */
+export const DUPLICATE_THRESHOLD = 0.8;
+
+const FRONT_WEIGHT = 0.7;
+const BACK_WEIGHT = 0.3;
+
+export interface ComparableCard {
+  front: string;
+  back: string;
+}
+
+export interface ExistingCard extends ComparableCard {
+  id: number;
+}
+
+/**
+ * Lowercase letters and digits separated by single spaces
+ */
+export function normalizeCardText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Similarity of two texts from 0 (nothing in common) to 1 (equal after normalization)
+ */
+export function textSimilarity(a: string, b: string): number {
+  return diceCoefficient(bigrams(normalizeCardText(a)), bigrams(normalizeCardText(b)));
+}
+
+/**
+ * Find the existing card most similar to `card`
+ * @returns The best match at or above the threshold, or null
+ */
+export function findDuplicate(
+  card: ComparableCard,
+  existing: ExistingCard[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateCardMatch | null {
+  const front = bigrams(normalizeCardText(card.front));
+  const back = bigrams(normalizeCardText(card.back));
+  let best: DuplicateCardMatch | null = null;
+
+  for (const candidate of existing) {
+    const similarity =
+      FRONT_WEIGHT * diceCoefficient(front, bigrams(normalizeCardText(candidate.front))) +
+      BACK_WEIGHT * diceCoefficient(back, bigrams(normalizeCardText(candidate.back)));
+
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { id: candidate.id, front: candidate.front, similarity: Math.round(similarity * 100) / 100 };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Count the character bigrams of a normalized text; a one-character text is its own bigram
+ */
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const pairs = text.length === 1 ? [text] : Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2));
+
+  for (const pair of pairs) {
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+
+  return counts;
+}
+
+function diceCoefficient(a: Map<string, number>, b: Map<string, number>): number {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+
+  for (const count of a.values()) sizeA += count;
+  for (const [pair, count] of b) {
+    sizeB += count;
+    shared += Math.min(count, a.get(pair) ?? 0);
+  }
+
+  if (sizeA === 0 && sizeB === 0) return 1;
+  return (2 * shared) / (sizeA + sizeB);
+}
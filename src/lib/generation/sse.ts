@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events
+ * Encodes events for streaming responses and decodes event streams read in chunks,
+ * both from the AI provider on the server and from our own endpoints in the browser.
+ */
+
+export interface SseEvent {
+  /** Event name; "message" when the stream does not name it */
+  event: string;
+  data: string;
+}
+
+/**
+ * Format one event with a JSON payload
+ */
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Incremental event stream decoder: feed it text as it arrives and it returns the events completed so far.
+ * Comment lines (starting with ":") and events without data are dropped.
+ */
+export class SseDecoder {
+  private buffer = "";
+
+  push(chunk: string): SseEvent[] {
+    this.buffer = (this.buffer + chunk).replace(/\r\n/g, "\n");
+
+    const blocks = this.buffer.split("\n\n");
+    this.buffer = blocks.pop() ?? "";
+
+    return blocks.map((block) => this.parseBlock(block)).filter((event): event is SseEvent => event !== null);
+  }
+
+  private parseBlock(block: string): SseEvent | null {
+    let event = "message";
+    const data: string[] = [];
+
+    for (const line of block.split("\n")) {
+      if (line === "" || line.startsWith(":")) continue;
+
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+      if (field === "event") {
+        event = value;
+      } else if (field === "data") {
+        data.push(value);
+      }
+    }
+
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  }
+}
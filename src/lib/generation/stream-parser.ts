@@ -0,0 +1,75 @@
+/**
+ * Flashcard Stream Parser
+ * Extracts flashcards from a `{"flashcards": [...]}` JSON document while it is still being streamed,
+ * so each card can be used as soon as its object is complete.
+ *
+ * It only tracks string and bracket nesting; every complete array element is handed to `JSON.parse`.
+ * Elements that fail to parse are skipped. Validating the card fields is left to the caller.
+ */
+
+const ARRAY_START = /"flashcards"\s*:\s*\[/;
+
+export class FlashcardStreamParser {
+  private buffer = "";
+  /** Next character to scan; -1 until the flashcards array has started */
+  private position = -1;
+  /** Nesting depth inside the array: 0 between elements, 1 inside a card object */
+  private depth = 0;
+  private elementStart = -1;
+  private inString = false;
+  private escaped = false;
+  private finished = false;
+
+  /**
+   * Append streamed text and return the array elements completed by it
+   */
+  push(text: string): unknown[] {
+    this.buffer += text;
+    const elements: unknown[] = [];
+
+    if (this.position === -1) {
+      const match = ARRAY_START.exec(this.buffer);
+      if (!match) return elements;
+      this.position = match.index + match[0].length;
+    }
+
+    for (; this.position < this.buffer.length && !this.finished; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        if (this.depth === 0) this.elementStart = this.position;
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        if (this.depth === 0) {
+          // End of the flashcards array
+          this.finished = true;
+          break;
+        }
+
+        this.depth--;
+        if (this.depth === 0) {
+          try {
+            elements.push(JSON.parse(this.buffer.slice(this.elementStart, this.position + 1)));
+          } catch {
+            // Malformed element: skip it and keep streaming
+          }
+        }
+      }
+    }
+
+    return elements;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Generation Worker
+ * Runs background generation jobs inside the server process, a few at a time, in the order they were queued.
+ *
+ * Each job gets an AbortSignal; cancelling the job aborts it, which stops its model calls and any retry
+ * still waiting. The worker only keeps the jobs of this process in memory: the job state the client polls
+ * is persisted by the task itself (see `AIJobService.runJob`). While it holds a job, queued or running, the
+ * worker calls the job's heartbeat at a fixed interval, so a job is only given up once its server stops.
+ */
+
+/**
+ * The work of one job; it records its own outcome
+ */
+export type JobTask = (signal: AbortSignal) => Promise<void>;
+
+/**
+ * Records that the job is still held by a live worker
+ */
+export type JobHeartbeat = () => Promise<void>;
+
+interface QueuedJob {
+  jobId: number;
+  task: JobTask;
+  heartbeat?: JobHeartbeat;
+  controller: AbortController;
+}
+
+export class GenerationWorker {
+  private readonly queue: QueuedJob[] = [];
+  private readonly running = new Map<number, QueuedJob>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param concurrency Jobs run at the same time; each may send several model requests of its own
+   * @param heartbeatIntervalMs Time between the heartbeats of the jobs the worker holds
+   */
+  constructor(
+    private readonly concurrency = 2,
+    private readonly heartbeatIntervalMs = 30 * 1000
+  ) {}
+
+  /**
+   * Queue a job; it starts as soon as fewer than `concurrency` jobs are running. Its heartbeat is called
+   * until the job is dropped or its task has finished.
+   */
+  enqueue(jobId: number, task: JobTask, heartbeat?: JobHeartbeat): void {
+    this.queue.push({ jobId, task, heartbeat, controller: new AbortController() });
+    this.drain();
+    this.scheduleHeartbeats();
+  }
+
+  /**
+   * Drop a queued job or abort a running one
+   * @returns Whether this worker had the job
+   */
+  cancel(jobId: number): boolean {
+    const index = this.queue.findIndex((job) => job.jobId === jobId);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      this.scheduleHeartbeats();
+      return true;
+    }
+
+    const job = this.running.get(jobId);
+    job?.controller.abort();
+    return job !== undefined;
+  }
+
+  /**
+   * Jobs queued or running
+   */
+  get size(): number {
+    return this.queue.length + this.running.size;
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency) {
+      const job = this.queue.shift();
+      if (!job) return;
+
+      this.running.set(job.jobId, job);
+      job
+        .task(job.controller.signal)
+        .catch(() => {
+          // In production, this should use proper logging service; the job keeps its last recorded state
+        })
+        .finally(() => {
+          this.running.delete(job.jobId);
+          this.drain();
+          this.scheduleHeartbeats();
+        });
+    }
+  }
+
+  /**
+   * Keep the heartbeat timer running exactly while the worker holds jobs
+   */
+  private scheduleHeartbeats(): void {
+    if (this.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    } else if (this.size > 0 && !this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => this.beat(), this.heartbeatIntervalMs);
+    }
+  }
+
+  private beat(): void {
+    for (const job of [...this.running.values(), ...this.queue]) {
+      job.heartbeat?.().catch(() => {
+        // In production, this should use proper logging service; the next heartbeat tries again
+      });
+    }
+  }
+}
+
+/**
+ * The worker of this server process
+ */
+export const generationWorker = new GenerationWorker();
@@ -0,0 +1,65 @@
+/**
+ * LLM Provider Factory
+ * Selects the AI backend from environment configuration (AI_PROVIDER, default "openrouter")
+ */
+
+import { FakeLLMProvider } from "./fake.provider";
+import { OpenAICompatibleClient } from "./openai-compatible.client";
+import { OpenRouterClient } from "./openrouter.client";
+import type { LLMProvider } from "./provider";
+
+export const LLM_PROVIDERS = ["openrouter", "openai-compatible", "fake"] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+/**
+ * Environment variables read by the factory
+ */
+export interface LLMProviderEnv {
+  AI_PROVIDER?: string;
+  OPENROUTER_API_KEY?: string;
+  OPENROUTER_MODEL?: string;
+  /** OpenAI-compatible API root, e.g. "http://localhost:8080/v1" for llama.cpp or "http://localhost:11434/v1" for Ollama */
+  LLM_BASE_URL?: string;
+  LLM_MODEL?: string;
+  LLM_API_KEY?: string;
+}
+
+/**
+ * Thrown when the environment does not describe a usable provider
+ */
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigError";
+  }
+}
+
+/**
+ * Create the provider selected by `AI_PROVIDER`
+ * @param env - Configuration, the server environment by default
+ * @throws LLMConfigError if the provider is unknown or its settings are missing
+ */
+export function createLLMProvider(env: LLMProviderEnv = import.meta.env as LLMProviderEnv): LLMProvider {
+  const provider = env.AI_PROVIDER || "openrouter";
+
+  switch (provider as LLMProviderName) {
+    case "openrouter":
+      if (!env.OPENROUTER_API_KEY) {
+        throw new LLMConfigError("OPENROUTER_API_KEY must be set for the openrouter provider");
+      }
+      return new OpenRouterClient(env.OPENROUTER_API_KEY, { model: env.OPENROUTER_MODEL || undefined });
+
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        throw new LLMConfigError("LLM_BASE_URL and LLM_MODEL must be set for the openai-compatible provider");
+      }
+      return new OpenAICompatibleClient({ baseUrl: env.LLM_BASE_URL, model: env.LLM_MODEL, apiKey: env.LLM_API_KEY });
+
+    case "fake":
+      return new FakeLLMProvider();
+
+    default:
+      throw new LLMConfigError(`Unknown AI_PROVIDER "${provider}", expected one of: ${LLM_PROVIDERS.join(", ")}`);
+  }
+}
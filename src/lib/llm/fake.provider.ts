@@ -0,0 +1,75 @@
+/**
+ * Fake LLM Provider
+ * Deterministic offline stand-in for development and e2e tests. It turns the sentences of the text
+ * into cards without calling a model, so the same input always gives the same cards; each card quotes
+ * its sentence as the source.
+ * Generation options are ignored, and refining a card only trims it. Every call reports zero usage.
+ */
+
+import { ValidationConstraints } from "../../types";
+import type { LLMProvider, LLMUsage, ParsedFlashcard, UsageListener } from "./provider";
+
+/**
+ * Words of a sentence quoted in the question
+ */
+const TOPIC_WORDS = 6;
+
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly model = "fake";
+
+  async generateFlashcards(
+    text: string,
+    maxCards: number,
+    _options?: unknown,
+    onUsage?: UsageListener
+  ): Promise<ParsedFlashcard[]> {
+    onUsage?.(this.usage());
+    return this.buildCards(text, maxCards);
+  }
+
+  async *streamFlashcards(
+    text: string,
+    maxCards: number,
+    _options?: unknown,
+    onUsage?: UsageListener
+  ): AsyncGenerator<ParsedFlashcard> {
+    yield* this.buildCards(text, maxCards);
+    onUsage?.(this.usage());
+  }
+
+  async refineFlashcard(
+    card: ParsedFlashcard,
+    _instruction?: string,
+    _maxCards?: number,
+    _context?: string,
+    onUsage?: UsageListener
+  ): Promise<ParsedFlashcard[]> {
+    onUsage?.(this.usage());
+    return [{ front: card.front.trim().slice(0, 200), back: card.back.trim().slice(0, 500) }];
+  }
+
+  private usage(): LLMUsage {
+    return { model: this.name, promptTokens: 0, completionTokens: 0, cost: 0, promptVersion: null };
+  }
+
+  /**
+   * One card per sentence of at least TOPIC_WORDS words, in text order
+   */
+  private buildCards(text: string, maxCards: number): ParsedFlashcard[] {
+    const sentences = text
+      .split(/(?<=[.!?])\s+/)
+      .map((sentence) => sentence.replace(/\s+/g, " ").trim())
+      .filter((sentence) => sentence.split(" ").length >= TOPIC_WORDS);
+
+    if (sentences.length === 0) {
+      return [{ front: "What is this text about?", back: text.trim().slice(0, 500) }];
+    }
+
+    return sentences.slice(0, Math.max(0, maxCards)).map((sentence) => ({
+      front: `What does the text say about "${sentence.split(" ").slice(0, TOPIC_WORDS).join(" ")}"?`.slice(0, 200),
+      back: sentence.slice(0, 500),
+      source_quote: sentence.slice(0, ValidationConstraints.aiGeneration.sourceQuoteMaxLength),
+    }));
+  }
+}
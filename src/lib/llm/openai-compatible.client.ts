@@ -0,0 +1,638 @@
+/**
+ * OpenAI-Compatible API Client
+ * Generates flashcards through any chat completions API that follows the OpenAI format:
+ * OpenRouter, or self-hosted servers such as llama.cpp and Ollama
+ */
+
+import { FlashcardStreamParser } from "../generation/stream-parser";
+import { SseDecoder } from "../generation/sse";
+import type { GenerationOptions } from "../../types";
+import { ValidationConstraints } from "../../types";
+import {
+  buildRefineSystemPrompt,
+  buildRefineUserPrompt,
+  buildSystemPrompt,
+  buildUserPrompt,
+  PROMPT_VERSION,
+  sanitizeText,
+} from "./prompt";
+import type { LLMProvider, LLMUsage, ParsedFlashcard, UsageListener } from "./provider";
+
+/**
+ * Custom error classes for the AI provider
+ */
+export class LLMApiError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly responseBody?: string
+  ) {
+    super(message);
+    this.name = "LLMApiError";
+  }
+}
+
+export class ParseError extends Error {
+  constructor(
+    message: string,
+    public readonly content?: string
+  ) {
+    super(message);
+    this.name = "ParseError";
+  }
+}
+
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Private interfaces for chat completions API communication
+ */
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  stream_options?: {
+    include_usage: boolean;
+  };
+  response_format?: {
+    type: "json_schema";
+    json_schema: {
+      name: string;
+      strict: boolean;
+      schema: object;
+    };
+  };
+}
+
+interface ChatCompletionResponse {
+  id: string;
+  model: string;
+  choices: {
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }[];
+  usage?: ChatCompletionUsage;
+}
+
+/**
+ * One event of a streamed completion
+ */
+interface ChatCompletionChunk {
+  model?: string;
+  /** Sent with the last chunk when `stream_options.include_usage` is set */
+  usage?: ChatCompletionUsage | null;
+  choices?: {
+    delta?: {
+      content?: string;
+    };
+    finish_reason: string | null;
+  }[];
+  error?: {
+    code?: number;
+    message: string;
+  };
+}
+
+/**
+ * Public interfaces
+ */
+export interface OpenAICompatibleOptions {
+  /** API root, e.g. "http://localhost:11434/v1"; requests go to `${baseUrl}/chat/completions` */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token; self-hosted servers usually need none */
+  apiKey?: string;
+  /** Provider name used in error messages */
+  name?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Extra fields sent in every request body, e.g. OpenRouter's `usage: { include: true }` */
+  extraBody?: Record<string, unknown>;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  /** Cost in USD, reported by OpenRouter when usage accounting is requested */
+  cost?: number;
+}
+
+export class OpenAICompatibleClient implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly apiKey: string | undefined;
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly extraBody: Record<string, unknown>;
+  private readonly temperature: number;
+  private readonly maxTokens: number;
+
+  constructor(options: OpenAICompatibleOptions) {
+    if (!options.baseUrl || options.baseUrl.trim() === "") {
+      throw new ValidationError("AI provider base URL is required");
+    }
+
+    if (!options.model || options.model.trim() === "") {
+      throw new ValidationError("AI provider model is required");
+    }
+
+    // Set configuration with defaults
+    this.name = options.name || "openai-compatible";
+    this.apiKey = options.apiKey?.trim() || undefined;
+    this.baseUrl = options.baseUrl.trim().replace(/\/+$/, "");
+    this.model = options.model.trim();
+    this.headers = options.headers ?? {};
+    this.extraBody = options.extraBody ?? {};
+    this.temperature = options.temperature ?? 0.7;
+    this.maxTokens = options.maxTokens || 2000;
+
+    // Validate temperature range
+    if (this.temperature < 0.0 || this.temperature > 1.0) {
+      throw new ValidationError("Temperature must be between 0.0 and 1.0", {
+        provided: this.temperature,
+      });
+    }
+
+    // Validate max tokens
+    if (this.maxTokens <= 0) {
+      throw new ValidationError("Max tokens must be positive", {
+        provided: this.maxTokens,
+      });
+    }
+  }
+
+  /**
+   * Generate flashcards from text using AI
+   */
+  async generateFlashcards(
+    text: string,
+    maxCards: number,
+    options: GenerationOptions = {},
+    onUsage?: UsageListener,
+    signal?: AbortSignal
+  ): Promise<ParsedFlashcard[]> {
+    this.validateInput(text, maxCards);
+
+    try {
+      const response = await this.withRetry(
+        () => this.callAPI(this.buildRequest(text, maxCards, options), signal),
+        3,
+        signal
+      );
+      this.reportUsage(response.model, response.usage, onUsage);
+      return this.parseResponse(response);
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  /**
+   * Generate flashcards from text using AI, yielding each card as soon as the model has completed it.
+   * Stops yielding after `maxCards` cards, but reads on until the usage sent at the end of the stream.
+   */
+  async *streamFlashcards(
+    text: string,
+    maxCards: number,
+    options: GenerationOptions = {},
+    onUsage?: UsageListener
+  ): AsyncGenerator<ParsedFlashcard> {
+    this.validateInput(text, maxCards);
+
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+    try {
+      const response = await this.withRetry(() =>
+        this.post({
+          ...this.buildRequest(text, maxCards, options),
+          stream: true,
+          stream_options: { include_usage: true },
+        })
+      );
+      if (!response.body) {
+        throw new LLMApiError("Streaming response has no body", 502);
+      }
+
+      reader = response.body.getReader();
+      const textDecoder = new TextDecoder();
+      const events = new SseDecoder();
+      const parser = new FlashcardStreamParser();
+      let count = 0;
+      let finished = false;
+      let usageReported = false;
+
+      while (!finished) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        for (const event of events.push(textDecoder.decode(value, { stream: true }))) {
+          if (event.data === "[DONE]") {
+            finished = true;
+            break;
+          }
+
+          const chunk: ChatCompletionChunk = JSON.parse(event.data);
+          if (chunk.error) {
+            throw new LLMApiError(chunk.error.message, chunk.error.code ?? 502, event.data);
+          }
+
+          if (chunk.usage) {
+            this.reportUsage(chunk.model, chunk.usage, onUsage);
+            usageReported = true;
+          }
+
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content && count < maxCards) {
+            for (const card of parser.push(content)) {
+              if (count < maxCards && this.isValidFlashcard(card)) {
+                count++;
+                yield this.toParsedFlashcard(card);
+              }
+            }
+          }
+
+          // Past the limit, the rest of the output is only read for its usage
+          if (count >= maxCards && usageReported) {
+            finished = true;
+            break;
+          }
+        }
+      }
+
+      if (count === 0) {
+        throw new ParseError("No valid flashcards found in response");
+      }
+    } catch (error) {
+      throw this.wrapError(error);
+    } finally {
+      // Stop the upstream request when the caller stops early
+      await reader?.cancel().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Rewrite one card as the instruction asks
+   */
+  async refineFlashcard(
+    card: ParsedFlashcard,
+    instruction: string,
+    maxCards: number,
+    context?: string,
+    onUsage?: UsageListener
+  ): Promise<ParsedFlashcard[]> {
+    if (!instruction || instruction.trim() === "") {
+      throw new ValidationError("Instruction is required");
+    }
+
+    const request: ChatCompletionRequest = {
+      model: this.model,
+      messages: [
+        { role: "system", content: buildRefineSystemPrompt(maxCards) },
+        { role: "user", content: buildRefineUserPrompt(card, instruction, context) },
+      ],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "flashcard_refinement",
+          strict: true,
+          schema: this.buildResponseSchema(maxCards, false),
+        },
+      },
+    };
+
+    try {
+      const response = await this.withRetry(() => this.callAPI(request));
+      this.reportUsage(response.model, response.usage, onUsage);
+      return this.parseResponse(response).slice(0, maxCards);
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  /**
+   * Check the generation input against the limits of a single request
+   */
+  private validateInput(text: string, maxCards: number): void {
+    const MIN_TEXT_LENGTH = 1000;
+    const MAX_TEXT_LENGTH = 10000;
+    const MIN_CARDS = 1;
+    const MAX_CARDS = 50;
+
+    if (!text || text.trim().length < MIN_TEXT_LENGTH) {
+      throw new ValidationError(`Text must be at least ${MIN_TEXT_LENGTH} characters`, {
+        provided: text?.length || 0,
+        minimum: MIN_TEXT_LENGTH,
+      });
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      throw new ValidationError(`Text must not exceed ${MAX_TEXT_LENGTH} characters`, {
+        provided: text.length,
+        maximum: MAX_TEXT_LENGTH,
+      });
+    }
+
+    if (maxCards < MIN_CARDS || maxCards > MAX_CARDS) {
+      throw new ValidationError(`maxCards must be between ${MIN_CARDS} and ${MAX_CARDS}`, {
+        provided: maxCards,
+        minimum: MIN_CARDS,
+        maximum: MAX_CARDS,
+      });
+    }
+  }
+
+  /**
+   * Build the chat completion request for a generation
+   */
+  private buildRequest(text: string, maxCards: number, options: GenerationOptions): ChatCompletionRequest {
+    const sanitizedText = sanitizeText(text);
+    const systemPrompt = buildSystemPrompt();
+    const userPrompt = buildUserPrompt(sanitizedText, maxCards, options);
+    const responseSchema = this.buildResponseSchema();
+
+    return {
+      model: this.model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "flashcard_generation",
+          strict: true,
+          schema: responseSchema,
+        },
+      },
+    };
+  }
+
+  /**
+   * Pass the usage reported by the API to the listener; calls without usage are not reported
+   */
+  private reportUsage(
+    model: string | undefined,
+    usage: ChatCompletionUsage | null | undefined,
+    onUsage?: UsageListener
+  ): void {
+    if (!usage || !onUsage) return;
+
+    onUsage({
+      model: model || this.model,
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      cost: usage.cost ?? null,
+      promptVersion: PROMPT_VERSION,
+    } satisfies LLMUsage);
+  }
+
+  /**
+   * Pass custom errors through and wrap unexpected ones
+   */
+  private wrapError(error: unknown): Error {
+    if (error instanceof LLMApiError || error instanceof ParseError || error instanceof ValidationError) {
+      return error;
+    }
+
+    return new LLMApiError(
+      `Unexpected error during flashcard generation: ${error instanceof Error ? error.message : "Unknown error"}`,
+      500
+    );
+  }
+
+  /**
+   * Build JSON Schema for structured output validation
+   * @param withSource Ask for the passage of the text each card is based on (generation, not refining)
+   */
+  private buildResponseSchema(maxCards = 50, withSource = true): object {
+    const sourceQuote = {
+      type: "string",
+      description: "The sentence or short passage of the text the card is based on, copied exactly",
+      maxLength: ValidationConstraints.aiGeneration.sourceQuoteMaxLength,
+    };
+
+    return {
+      type: "object",
+      properties: {
+        flashcards: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              front: {
+                type: "string",
+                description: "The question or prompt for the flashcard",
+                minLength: 1,
+                maxLength: 200,
+              },
+              back: {
+                type: "string",
+                description: "The answer or explanation for the flashcard",
+                minLength: 1,
+                maxLength: 500,
+              },
+              ...(withSource && { source_quote: sourceQuote }),
+            },
+            required: withSource ? ["front", "back", "source_quote"] : ["front", "back"],
+            additionalProperties: false,
+          },
+          minItems: 1,
+          maxItems: maxCards,
+        },
+      },
+      required: ["flashcards"],
+      additionalProperties: false,
+    };
+  }
+
+  /**
+   * Call the chat completions API and parse the JSON response
+   */
+  private async callAPI(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    const response = await this.post(request, signal);
+    return response.json();
+  }
+
+  /**
+   * Send a request to the chat completions API with error handling
+   */
+  private async post(request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        "Content-Type": "application/json",
+        ...this.headers,
+      },
+      body: JSON.stringify({ ...this.extraBody, ...request }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      let errorMessage = `${this.name} API error: ${response.status}`;
+
+      try {
+        const errorJson = JSON.parse(errorBody);
+        errorMessage = errorJson.error?.message || errorMessage;
+      } catch {
+        // Keep default error message if parsing fails
+      }
+
+      throw new LLMApiError(errorMessage, response.status, errorBody);
+    }
+
+    return response;
+  }
+
+  /**
+   * Run an API call with retry logic for transient failures; an aborted signal stops retrying
+   */
+  private async withRetry<T>(call: () => Promise<T>, maxRetries = 3, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        // Don't retry on last attempt or after the caller gave up
+        if (attempt === maxRetries || signal?.aborted) {
+          throw error;
+        }
+
+        // Only retry on server errors (5xx) or network timeouts
+        if (error instanceof LLMApiError && error.statusCode >= 500) {
+          // Exponential backoff: 2^attempt * 1000ms (2s, 4s, 8s)
+          const delay = Math.pow(2, attempt) * 1000;
+          await this.sleep(delay, signal);
+          continue;
+        }
+
+        // Don't retry client errors (4xx)
+        throw error;
+      }
+    }
+
+    // This should never be reached, but TypeScript needs it
+    throw new LLMApiError("Max retries exceeded", 500);
+  }
+
+  /**
+   * Sleep utility for retry delays; rejects as soon as the signal is aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        },
+        { once: true }
+      );
+    });
+  }
+
+  /**
+   * Parse and validate the AI response
+   */
+  private parseResponse(response: ChatCompletionResponse): ParsedFlashcard[] {
+    const content = response.choices[0]?.message?.content;
+
+    if (!content) {
+      throw new ParseError("No content in API response");
+    }
+
+    let flashcardsData: { flashcards: ParsedFlashcard[] };
+
+    try {
+      // Try to parse as JSON (should work with structured output)
+      flashcardsData = JSON.parse(content);
+    } catch {
+      // Fallback: Try to extract JSON object from text
+      const jsonMatch = content.match(/\{[\s\S]*"flashcards"[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new ParseError("No valid JSON found in response", content);
+      }
+      try {
+        flashcardsData = JSON.parse(jsonMatch[0]);
+      } catch {
+        throw new ParseError("Failed to parse JSON from response", content);
+      }
+    }
+
+    if (!Array.isArray(flashcardsData.flashcards)) {
+      throw new ParseError("Response does not contain flashcards array", content);
+    }
+
+    // Validate and filter flashcards
+    const validFlashcards = flashcardsData.flashcards
+      .filter((card) => this.isValidFlashcard(card))
+      .map((card) => this.toParsedFlashcard(card));
+
+    if (validFlashcards.length === 0) {
+      throw new ParseError("No valid flashcards found in response", content);
+    }
+
+    return validFlashcards;
+  }
+
+  /**
+   * Keep only the card fields; a source quote that is not a non-empty string is dropped, not the card
+   */
+  private toParsedFlashcard(card: ParsedFlashcard): ParsedFlashcard {
+    const { front, back, source_quote } = card;
+
+    return {
+      front,
+      back,
+      ...(typeof source_quote === "string" && source_quote.trim() !== "" && { source_quote }),
+    };
+  }
+
+  /**
+   * Check that a parsed card has a non-empty front and back within the length limits
+   */
+  private isValidFlashcard(card: unknown): card is ParsedFlashcard {
+    if (!card || typeof card !== "object") return false;
+
+    const { front, back } = card as Partial<Record<keyof ParsedFlashcard, unknown>>;
+    return (
+      typeof front === "string" &&
+      typeof back === "string" &&
+      front.trim().length > 0 &&
+      back.trim().length > 0 &&
+      front.length <= 200 &&
+      back.length <= 500
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * OpenRouter API Client
+ * OpenAI-compatible client preset for OpenRouter: requires an API key and identifies the app
+ */
+
+import { OpenAICompatibleClient, ValidationError } from "./openai-compatible.client";
+
+export interface OpenRouterOptions {
+  model?: string;
+  baseUrl?: string;
+  httpReferer?: string;
+  appTitle?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export class OpenRouterClient extends OpenAICompatibleClient {
+  constructor(apiKey: string, options?: OpenRouterOptions) {
+    // Validate API key
+    if (!apiKey || apiKey.trim() === "") {
+      throw new ValidationError("OpenRouter API key is required");
+    }
+
+    super({
+      name: "openrouter",
+      apiKey,
+      baseUrl: options?.baseUrl || "https://openrouter.ai/api/v1",
+      model: options?.model || "openai/gpt-4o-mini",
+      headers: {
+        "HTTP-Referer": options?.httpReferer || "https://10x-cards.app",
+        "X-Title": options?.appTitle || "10x Cards",
+      },
+      // Ask OpenRouter to report the cost of each call with the token counts
+      extraBody: { usage: { include: true } },
+      temperature: options?.temperature,
+      maxTokens: options?.maxTokens,
+    });
+  }
+}
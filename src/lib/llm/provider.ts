@@ -0,0 +1,74 @@
+/**
+ * LLM Provider
+ * The interface flashcard generation depends on, so the AI backend can be chosen by configuration
+ */
+
+import type { GenerationOptions } from "../../types";
+
+export interface ParsedFlashcard {
+  front: string;
+  back: string;
+  /** Passage of the text the card is based on, as quoted by the model */
+  source_quote?: string;
+}
+
+/**
+ * Token usage and cost of one model call
+ */
+export interface LLMUsage {
+  /** Model that served the call, as reported by the API */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost in USD, or null when the API does not report it */
+  cost: number | null;
+  /** PROMPT_VERSION of the prompts the call was built from, or null when it used no prompt */
+  promptVersion: string | null;
+}
+
+/**
+ * Receives the usage of a model call once the API has reported it
+ */
+export type UsageListener = (usage: LLMUsage) => void;
+
+export interface LLMProvider {
+  /** Short identifier, e.g. "openrouter" */
+  readonly name: string;
+
+  /** Model the provider is configured to call; part of the generation cache key */
+  readonly model: string;
+
+  /**
+   * Generate up to `maxCards` flashcards from the text.
+   * Aborting `signal` stops the call, including any retry still waiting.
+   */
+  generateFlashcards(
+    text: string,
+    maxCards: number,
+    options?: GenerationOptions,
+    onUsage?: UsageListener,
+    signal?: AbortSignal
+  ): Promise<ParsedFlashcard[]>;
+
+  /**
+   * Generate up to `maxCards` flashcards from the text, yielding each card as soon as it is complete
+   */
+  streamFlashcards(
+    text: string,
+    maxCards: number,
+    options?: GenerationOptions,
+    onUsage?: UsageListener
+  ): AsyncGenerator<ParsedFlashcard>;
+
+  /**
+   * Rewrite one card as the instruction asks, optionally using a passage of the source text.
+   * Returns the rewritten card, or up to `maxCards` cards when the instruction splits it.
+   */
+  refineFlashcard(
+    card: ParsedFlashcard,
+    instruction: string,
+    maxCards: number,
+    context?: string,
+    onUsage?: UsageListener
+  ): Promise<ParsedFlashcard[]>;
+}
@@ -0,0 +1,50 @@
+/**
+ * Usage Tracker
+ * Sums the token usage and cost of the model calls made for one generation or refinement
+ * (several calls for a chunked document) and times it, for the AI usage log.
+ */
+
+import type { AIGenerationLogInsert } from "../../types";
+import type { LLMUsage, UsageListener } from "./provider";
+
+export type UsageLogFields = Pick<
+  AIGenerationLogInsert,
+  "model" | "prompt_version" | "prompt_tokens" | "completion_tokens" | "cost" | "latency_ms"
+>;
+
+export class UsageTracker {
+  private readonly startedAt = Date.now();
+  private model: string | null = null;
+  private promptVersion: string | null = null;
+  private promptTokens = 0;
+  private completionTokens = 0;
+  /** Null until a call reports its cost; calls that report none leave the sum unchanged */
+  private cost: number | null = null;
+
+  /**
+   * Pass this to the provider; it may be called once per model call
+   */
+  readonly record: UsageListener = (usage: LLMUsage) => {
+    this.model ??= usage.model;
+    this.promptVersion ??= usage.promptVersion;
+    this.promptTokens += usage.promptTokens;
+    this.completionTokens += usage.completionTokens;
+    if (usage.cost !== null) {
+      this.cost = (this.cost ?? 0) + usage.cost;
+    }
+  };
+
+  /**
+   * Usage so far and the time since the tracker was created
+   */
+  toLogFields(): UsageLogFields {
+    return {
+      model: this.model,
+      prompt_version: this.promptVersion,
+      prompt_tokens: this.promptTokens,
+      completion_tokens: this.completionTokens,
+      cost: this.cost,
+      latency_ms: Date.now() - this.startedAt,
+    };
+  }
+}
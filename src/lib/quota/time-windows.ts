@@ -0,0 +1,106 @@
+/**
+ * Quota Time Windows
+ * Day and calendar-month windows in the user's time zone, for AI quota limits that reset at local midnight.
+ *
+ * Windows are returned as UTC instants, ready for `generated_at` range queries. Daylight saving changes
+ * make some local days 23 or 25 hours long; the window still runs from one local midnight to the next.
+ * It has no I/O.
+ */
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+/**
+ * Half-open range [start, end)
+ */
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Whether `timeZone` is an IANA time zone name the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The local day containing `now`
+ */
+export function getDayWindow(now: Date, timeZone: string): TimeWindow {
+  const { year, month, day } = toLocal(now, timeZone);
+  return {
+    start: localMidnight(year, month, day, timeZone),
+    end: localMidnight(year, month, day + 1, timeZone),
+  };
+}
+
+/**
+ * The local calendar month containing `now`
+ */
+export function getMonthWindow(now: Date, timeZone: string): TimeWindow {
+  const { year, month } = toLocal(now, timeZone);
+  return {
+    start: localMidnight(year, month, 1, timeZone),
+    end: localMidnight(year, month + 1, 1, timeZone),
+  };
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+function toLocal(date: Date, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at `date`
+ */
+function offsetAt(date: Date, timeZone: string): number {
+  const local = toLocal(date, timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * UTC instant of local midnight; out-of-range days and months roll over (day 32 is the next month)
+ */
+function localMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day);
+  // The offset at the guess can differ from the offset at midnight when DST changes in between
+  const guess = wallClock - offsetAt(new Date(wallClock), timeZone);
+  return new Date(wallClock - offsetAt(new Date(guess), timeZone));
+}
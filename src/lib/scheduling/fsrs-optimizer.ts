@@ -0,0 +1,221 @@
+/**
+ * FSRS Optimizer
+ * Fits a user's FSRS weights to their review history.
+ *
+ * Each card's reviews are replayed in order through the FSRS memory model. Every review after the first
+ * (and at least a day after the previous one) is a data point: the model predicts the probability of recall
+ * and the grade tells whether the card was recalled ("again" = forgotten). The weights are tuned to minimize
+ * the log loss of those predictions with a bounded pattern search. The search needs no gradients and only
+ * ever accepts improvements, so the result is never worse than the starting weights.
+ *
+ * It is CPU-bound and pure; callers run it on the server and persist the result. A fit on a large history takes
+ * seconds, so the search yields to the event loop after each evaluation and the server keeps answering requests
+ * meanwhile.
+ */
+
+import type { ReviewGrade } from "../../types";
+import { FSRS_DEFAULT_WEIGHTS, nextMemoryState, retrievability, type FsrsMemoryState } from "./fsrs";
+
+/**
+ * A single recorded review
+ */
+export interface FsrsReviewLog {
+  flashcard_id: number;
+  grade: ReviewGrade;
+  reviewed_at: string;
+}
+
+/**
+ * Outcome of an optimization run
+ */
+export interface FsrsOptimizationResult {
+  weights: number[];
+  /** Mean log loss with the starting weights */
+  loss_before: number;
+  /** Mean log loss with the fitted weights */
+  loss_after: number;
+  /** Number of reviews that contributed to the loss */
+  review_count: number;
+}
+
+/**
+ * Allowed range for each weight, keeping the model well-behaved (same bounds as the reference optimizer)
+ */
+const WEIGHT_BOUNDS: readonly [number, number][] = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 5],
+  [0.1, 5],
+  [0, 0.75],
+  [0, 4.5],
+  [0, 0.8],
+  [0.01, 3.5],
+  [0.1, 5],
+  [0.01, 0.25],
+  [0.01, 0.9],
+  [0, 4],
+  [0, 1],
+  [1, 6],
+];
+
+/**
+ * Initial step as a share of each weight's range, and the share at which the search stops
+ */
+const INITIAL_STEP = 0.05;
+const MIN_STEP = 0.001;
+const DEFAULT_MAX_SWEEPS = 40;
+
+/**
+ * Predictions are clipped away from 0 and 1 so a single confident miss cannot dominate the loss
+ */
+const EPSILON = 1e-4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReplayStep {
+  grade: ReviewGrade;
+  /** Whole days since the previous review of the same card */
+  elapsed: number;
+}
+
+/**
+ * Group logs per card, in review order, with elapsed days between consecutive reviews
+ */
+function buildHistories(logs: FsrsReviewLog[]): ReplayStep[][] {
+  const byCard = new Map<number, FsrsReviewLog[]>();
+
+  for (const log of logs) {
+    const cardLogs = byCard.get(log.flashcard_id) ?? [];
+    cardLogs.push(log);
+    byCard.set(log.flashcard_id, cardLogs);
+  }
+
+  return [...byCard.values()].map((cardLogs) => {
+    const sorted = [...cardLogs].sort((a, b) => Date.parse(a.reviewed_at) - Date.parse(b.reviewed_at));
+    return sorted.map((log, index) => ({
+      grade: log.grade,
+      elapsed:
+        index === 0
+          ? 0
+          : Math.max(0, Math.floor((Date.parse(log.reviewed_at) - Date.parse(sorted[index - 1].reviewed_at)) / DAY_MS)),
+    }));
+  });
+}
+
+/**
+ * Mean log loss of the recall predictions over all histories
+ */
+function evaluate(histories: ReplayStep[][], weights: readonly number[]): { loss: number; count: number } {
+  let total = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let state: FsrsMemoryState | null = null;
+
+    for (const step of history) {
+      if (state && step.elapsed >= 1) {
+        const predicted = Math.min(1 - EPSILON, Math.max(EPSILON, retrievability(step.elapsed, state.stability)));
+        const recalled = step.grade !== "again";
+        total -= recalled ? Math.log(predicted) : Math.log(1 - predicted);
+        count++;
+      }
+
+      state = nextMemoryState(state, step.grade, step.elapsed, weights);
+    }
+  }
+
+  return { loss: count > 0 ? total / count : 0, count };
+}
+
+/**
+ * Let pending I/O and timers run between the steps of the search
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Number of reviews a fit on this history is measured on: repeat reviews at least a day after the previous one
+ */
+export function countFittedReviews(logs: FsrsReviewLog[]): number {
+  return evaluate(buildHistories(logs), FSRS_DEFAULT_WEIGHTS).count;
+}
+
+/**
+ * Mean log loss of the given weights on a review history
+ */
+export function computeLoss(logs: FsrsReviewLog[], weights: readonly number[] = FSRS_DEFAULT_WEIGHTS): number {
+  return evaluate(buildHistories(logs), weights).loss;
+}
+
+/**
+ * Fit FSRS weights to a review history
+ * @param logs - The user's reviews, in any order
+ * @param options.initialWeights - Starting point (defaults to the FSRS defaults)
+ * @param options.maxSweeps - Upper bound on full passes over all weights
+ */
+export async function optimizeWeights(
+  logs: FsrsReviewLog[],
+  options: { initialWeights?: readonly number[]; maxSweeps?: number } = {}
+): Promise<FsrsOptimizationResult> {
+  const histories = buildHistories(logs);
+  const weights = (options.initialWeights ?? FSRS_DEFAULT_WEIGHTS).map((weight, index) =>
+    Math.min(WEIGHT_BOUNDS[index][1], Math.max(WEIGHT_BOUNDS[index][0], weight))
+  );
+  const steps = WEIGHT_BOUNDS.map(([min, max]) => (max - min) * INITIAL_STEP);
+
+  const initial = evaluate(histories, weights);
+  let best = initial.loss;
+
+  if (initial.count === 0) {
+    return { weights, loss_before: 0, loss_after: 0, review_count: 0 };
+  }
+
+  const maxSweeps = options.maxSweeps ?? DEFAULT_MAX_SWEEPS;
+
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    let improved = false;
+
+    for (let index = 0; index < weights.length; index++) {
+      const [min, max] = WEIGHT_BOUNDS[index];
+      const current = weights[index];
+
+      for (const direction of [1, -1]) {
+        const candidate = Math.min(max, Math.max(min, current + direction * steps[index]));
+        if (candidate === current) continue;
+
+        weights[index] = candidate;
+        const { loss } = evaluate(histories, weights);
+        await yieldToEventLoop();
+
+        if (loss < best) {
+          best = loss;
+          improved = true;
+          break;
+        }
+
+        weights[index] = current;
+      }
+    }
+
+    if (!improved) {
+      // Refine around the current point; stop once every step is negligible
+      let active = false;
+      steps.forEach((step, index) => {
+        steps[index] = step / 2;
+        const [min, max] = WEIGHT_BOUNDS[index];
+        if (steps[index] >= (max - min) * MIN_STEP) active = true;
+      });
+      if (!active) break;
+    }
+  }
+
+  return {
+    weights,
+    loss_before: initial.loss,
+    loss_after: best,
+    review_count: initial.count,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * FSRS Scheduler
+ * Pure implementation of the Free Spaced Repetition Scheduler (FSRS-4.5 memory model).
+ *
+ * Each card carries a memory state: stability (days until recall probability drops to 90%) and
+ * difficulty (1-10). Retrievability is the predicted probability of recall after `t` days.
+ * The next interval is chosen so that retrievability decays to the user's desired retention.
+ */
+
+import type { ReviewGrade } from "../../types";
+
+/**
+ * Default FSRS-4.5 weights, used until the optimizer has fitted the user's own
+ */
+export const FSRS_DEFAULT_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587,
+  0.2272, 2.8755,
+];
+
+export const FSRS_WEIGHT_COUNT = FSRS_DEFAULT_WEIGHTS.length;
+
+/**
+ * Power forgetting curve constants: R(t, S) = (1 + FACTOR * t / S) ^ DECAY, so R(S, S) = 0.9
+ */
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const MIN_STABILITY = 0.01;
+const MAX_INTERVAL = 36500;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GRADE_VALUES: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+/**
+ * Memory state of a card that has been reviewed at least once
+ */
+export interface FsrsMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+/**
+ * Scheduling state stored on a flashcard
+ */
+export interface FsrsCardState {
+  stability: number | null;
+  difficulty: number | null;
+  last_reviewed_at: string | null;
+}
+
+/**
+ * Per-user scheduling parameters
+ */
+export interface FsrsParameters {
+  weights: readonly number[];
+  desiredRetention: number;
+}
+
+/**
+ * Scheduling state after a review
+ */
+export interface FsrsReviewResult extends FsrsMemoryState {
+  /** Predicted recall probability at the moment of the review; null for a card's first review */
+  retrievability: number | null;
+  /** Whole days since the previous review (0 for a card's first review) */
+  elapsed_days: number;
+  /** Days until the next review */
+  interval: number;
+  /** Due date as YYYY-MM-DD (UTC) */
+  next_review_date: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Check that a weight vector can be used for scheduling
+ */
+export function isValidWeights(weights: unknown): weights is number[] {
+  return (
+    Array.isArray(weights) &&
+    weights.length === FSRS_WEIGHT_COUNT &&
+    weights.every((weight) => typeof weight === "number" && Number.isFinite(weight))
+  );
+}
+
+/**
+ * Probability of recalling a card `elapsedDays` after its last review
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / Math.max(MIN_STABILITY, stability), DECAY);
+}
+
+/**
+ * Interval (whole days, at least 1) after which retrievability falls to the desired retention
+ */
+export function nextInterval(stability: number, desiredRetention: number): number {
+  const interval = (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, MAX_INTERVAL);
+}
+
+/**
+ * Whole days between the previous review and now (0 when never reviewed)
+ */
+export function elapsedDays(lastReviewedAt: string | null, now: Date): number {
+  if (!lastReviewedAt) {
+    return 0;
+  }
+
+  const elapsed = Math.floor((now.getTime() - new Date(lastReviewedAt).getTime()) / DAY_MS);
+  return Number.isFinite(elapsed) ? Math.max(0, elapsed) : 0;
+}
+
+function initialDifficulty(weights: readonly number[], grade: number): number {
+  return weights[4] - (grade - 3) * weights[5];
+}
+
+/**
+ * Compute the memory state after a review.
+ * @param state - State before the review, or null for a card's first review
+ * @param elapsed - Whole days since the previous review
+ */
+export function nextMemoryState(
+  state: FsrsMemoryState | null,
+  grade: ReviewGrade,
+  elapsed: number,
+  weights: readonly number[]
+): FsrsMemoryState & { retrievability: number | null } {
+  const w = weights;
+  const g = GRADE_VALUES[grade];
+
+  if (!state) {
+    return {
+      stability: Math.max(MIN_STABILITY, w[g - 1]),
+      difficulty: clamp(initialDifficulty(w, g), MIN_DIFFICULTY, MAX_DIFFICULTY),
+      retrievability: null,
+    };
+  }
+
+  const { stability, difficulty } = state;
+  const r = retrievability(elapsed, stability);
+
+  // Difficulty moves with the grade and reverts towards the "good" baseline
+  const shifted = difficulty - w[6] * (g - 3);
+  const nextDifficulty = clamp(w[7] * initialDifficulty(w, 3) + (1 - w[7]) * shifted, MIN_DIFFICULTY, MAX_DIFFICULTY);
+
+  let nextStability: number;
+  if (g === 1) {
+    // Forgotten: post-lapse stability never exceeds the previous stability
+    const lapse =
+      w[11] * Math.pow(difficulty, -w[12]) * (Math.pow(stability + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r));
+    nextStability = Math.min(lapse, stability);
+  } else {
+    const hardPenalty = g === 2 ? w[15] : 1;
+    const easyBonus = g === 4 ? w[16] : 1;
+    const growth = Math.exp(w[8]) * (11 - difficulty) * Math.pow(stability, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1);
+    nextStability = stability * (growth * hardPenalty * easyBonus + 1);
+  }
+
+  return {
+    stability: clamp(nextStability, MIN_STABILITY, MAX_INTERVAL),
+    difficulty: nextDifficulty,
+    retrievability: r,
+  };
+}
+
+/**
+ * Schedule a card after a review
+ * @param card - Current FSRS state (null stability/difficulty for cards never reviewed with FSRS)
+ * @param grade - Self-assessed grade
+ * @param parameters - The user's weights and desired retention
+ * @param now - Review time, used for elapsed days and as the base for the due date
+ */
+export function scheduleFsrs(
+  card: FsrsCardState,
+  grade: ReviewGrade,
+  parameters: FsrsParameters,
+  now: Date = new Date()
+): FsrsReviewResult {
+  const weights = isValidWeights(parameters.weights) ? parameters.weights : FSRS_DEFAULT_WEIGHTS;
+  const previous =
+    card.stability !== null && card.difficulty !== null
+      ? { stability: card.stability, difficulty: card.difficulty }
+      : null;
+  const elapsed = previous ? elapsedDays(card.last_reviewed_at, now) : 0;
+
+  const state = nextMemoryState(previous, grade, elapsed, weights);
+  // A forgotten card comes back the next day whatever its stability
+  const interval = grade === "again" ? 1 : nextInterval(state.stability, parameters.desiredRetention);
+
+  const due = new Date(now);
+  due.setUTCDate(due.getUTCDate() + interval);
+
+  return {
+    stability: state.stability,
+    difficulty: state.difficulty,
+    retrievability: state.retrievability,
+    elapsed_days: elapsed,
+    interval,
+    next_review_date: due.toISOString().split("T")[0],
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * SM-2 Scheduler
+ * Pure spaced-repetition scheduling for review grades, based on SuperMemo 2 with Anki-style grade buttons.
+ *
+ * Given a card's current ease factor and interval plus a grade, it returns the new ease factor, interval
+ * and due date. It has no I/O; callers persist the result.
+ */
+
+import type { ReviewGrade } from "../../types";
+import { ValidationConstraints } from "../../types";
+
+/**
+ * Scheduling state stored on a flashcard
+ */
+export interface Sm2CardState {
+  ease_factor: number;
+  /** Days until the next review; 0 means the card has never been reviewed */
+  interval: number;
+}
+
+/**
+ * Scheduling state after a review
+ */
+export interface Sm2ReviewResult extends Sm2CardState {
+  /** Due date as YYYY-MM-DD (UTC) */
+  next_review_date: string;
+}
+
+/**
+ * Ease factor change per grade
+ */
+const EASE_DELTA: Record<ReviewGrade, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15,
+};
+
+/**
+ * Interval multiplier for "hard" reviews of cards past the learning steps
+ */
+const HARD_MULTIPLIER = 1.2;
+
+/**
+ * Extra interval multiplier for "easy" reviews
+ */
+const EASY_BONUS = 1.3;
+
+/**
+ * Interval (days) after the first successful review, and after an "easy" first review
+ */
+const FIRST_INTERVAL = 1;
+const FIRST_EASY_INTERVAL = 4;
+
+/**
+ * Interval (days) after the second successful review (classic SM-2 I(2))
+ */
+const SECOND_INTERVAL = 6;
+
+/**
+ * Upper bound for intervals (about 100 years) so dates stay representable
+ */
+const MAX_INTERVAL = 36500;
+
+/**
+ * Clamp an ease factor to the allowed bounds, rounded to the column's two decimals
+ */
+export function clampEaseFactor(easeFactor: number): number {
+  const { minEaseFactor, maxEaseFactor } = ValidationConstraints.fsrs;
+  const clamped = Math.min(maxEaseFactor, Math.max(minEaseFactor, easeFactor));
+  return Math.round(clamped * 100) / 100;
+}
+
+/**
+ * Compute the next interval in days for a grade. Every grade schedules the card at least one day ahead,
+ * and for the same card the intervals are ordered again <= hard <= good < easy (below the cap).
+ */
+function nextInterval(interval: number, easeFactor: number, grade: ReviewGrade): number {
+  if (grade === "again") {
+    return FIRST_INTERVAL;
+  }
+
+  // First review of a new card
+  if (interval === 0) {
+    return grade === "easy" ? FIRST_EASY_INTERVAL : FIRST_INTERVAL;
+  }
+
+  const hard = Math.max(interval, Math.round(interval * HARD_MULTIPLIER));
+  const good = Math.max(hard + 1, interval === FIRST_INTERVAL ? SECOND_INTERVAL : Math.round(interval * easeFactor));
+  const easy = Math.max(good + 1, Math.round(good * EASY_BONUS));
+
+  switch (grade) {
+    case "hard":
+      return hard;
+    case "good":
+      return good;
+    case "easy":
+      return easy;
+  }
+}
+
+/**
+ * Schedule a card after a review
+ * @param card - Current state; out-of-range values (e.g. legacy rows) are normalized first
+ * @param grade - Self-assessed grade
+ * @param now - Review time, used as the base for the due date
+ */
+export function scheduleReview(card: Sm2CardState, grade: ReviewGrade, now: Date = new Date()): Sm2ReviewResult {
+  const currentEase = clampEaseFactor(card.ease_factor);
+  const currentInterval = Number.isFinite(card.interval) ? Math.max(0, Math.round(card.interval)) : 0;
+
+  const interval = Math.min(MAX_INTERVAL, nextInterval(currentInterval, currentEase, grade));
+  const easeFactor = clampEaseFactor(currentEase + EASE_DELTA[grade]);
+
+  const due = new Date(now);
+  due.setUTCDate(due.getUTCDate() + interval);
+
+  return {
+    ease_factor: easeFactor,
+    interval,
+    next_review_date: due.toISOString().split("T")[0],
+  };
+}
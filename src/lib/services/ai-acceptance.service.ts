@@ -0,0 +1,201 @@
+/**
+ * AI Acceptance Service
+ * Records what users do with AI-generated cards - accept them as generated, accept them after editing,
+ * or reject them - and reports acceptance rates over time per model and prompt version.
+ *
+ * Each decision is tied to the card's generation (its usage log row), which names the model and the
+ * prompt version. Edits are measured against the text the AI generated, kept on the card, so edits and
+ * refinements made while it was a draft both count. The database checks each decision against the real card:
+ * an accepted card of the generation, or the tombstone its draft left when it was rejected.
+ *
+ * The report comes from the database (`get_ai_acceptance_report`); cards are counted in the period they
+ * were generated in. The report across all users is only available to admins.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AcceptanceCounts,
+  AcceptanceReportResponse,
+  AcceptanceReportRow,
+  AICardReviewInsert,
+  CardReviewDecision,
+  Flashcard,
+} from "../../types";
+import { ErrorCodes } from "../../types";
+import { cardEditDistance } from "../generation/edit-distance";
+import type { AcceptanceReportQueryInput } from "../validation/ai-generation.schemas";
+
+/**
+ * A card as it was accepted or rejected
+ */
+export type ReviewedCard = Pick<
+  Flashcard,
+  "id" | "front" | "back" | "generation_id" | "generated_front" | "generated_back"
+>;
+
+type GeneratedCard = ReviewedCard & { generation_id: number };
+
+/**
+ * Custom error class for acceptance tracking failures
+ */
+export class AIAcceptanceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "AIAcceptanceError";
+  }
+}
+
+/**
+ * Accepted, edited and rejected counts with the shares of reviewed cards kept
+ */
+export function toAcceptanceCounts(
+  accepted: number,
+  edited: number,
+  rejected: number,
+  avgEditDistance: number | null
+): AcceptanceCounts {
+  const reviewed = accepted + edited + rejected;
+  const share = (count: number) => (reviewed > 0 ? Math.round((count / reviewed) * 1000) / 1000 : null);
+
+  return {
+    accepted,
+    edited,
+    rejected,
+    acceptance_rate: share(accepted + edited),
+    unedited_rate: share(accepted),
+    avg_edit_distance: avgEditDistance,
+  };
+}
+
+export class AIAcceptanceService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Record the decisions about cards the user just accepted or rejected. Accepted cards whose text differs
+   * from what the AI generated are recorded as edited, with the edit distance.
+   * Cards without a generation (manual cards and AI cards from before provenance) are skipped, and a card
+   * that already has a decision keeps it.
+   * @throws AIAcceptanceError if the decisions cannot be saved
+   */
+  async recordDecisions(cards: ReviewedCard[], action: "accept" | "reject"): Promise<void> {
+    const reviews = cards
+      .filter((card): card is GeneratedCard => card.generation_id !== null)
+      .map((card) => this.toReviewInsert(card, action));
+
+    if (reviews.length === 0) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from("ai_card_reviews")
+      .upsert(reviews, { onConflict: "user_id,flashcard_id", ignoreDuplicates: true });
+
+    if (error) {
+      throw new AIAcceptanceError("Failed to record card decisions", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+  }
+
+  /**
+   * Accepted, edited and rejected cards per period, model and prompt version, with totals
+   * @param scope "user" for the user's own cards, "all" for the cards of every user
+   * @throws AIAcceptanceError if the scope is "all" and the user is not an admin
+   */
+  async getReport(
+    params: AcceptanceReportQueryInput,
+    scope: AcceptanceReportResponse["scope"] = "user"
+  ): Promise<AcceptanceReportResponse> {
+    if (scope === "all" && !(await this.isAdmin())) {
+      throw new AIAcceptanceError("Admin access required", ErrorCodes.FORBIDDEN, 403);
+    }
+
+    const { from, to, interval } = params;
+    const end = new Date(Date.parse(to) + 24 * 60 * 60 * 1000);
+
+    const { data, error } = await this.supabase.rpc("get_ai_acceptance_report", {
+      p_from: new Date(from).toISOString(),
+      p_to: end.toISOString(),
+      p_interval: interval,
+      p_all_users: scope === "all",
+    });
+
+    if (error) {
+      throw new AIAcceptanceError("Failed to fetch the acceptance report", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const rows = (data ?? []).map(
+      (row) =>
+        ({
+          period_start: new Date(row.period_start).toISOString(),
+          model: row.model,
+          prompt_version: row.prompt_version,
+          generations: Number(row.generations),
+          ...toAcceptanceCounts(
+            Number(row.accepted),
+            Number(row.edited),
+            Number(row.rejected),
+            row.avg_edit_distance === null ? null : Number(row.avg_edit_distance)
+          ),
+        }) satisfies AcceptanceReportRow
+    );
+
+    return { from, to, interval, scope, totals: this.sumRows(rows), rows };
+  }
+
+  /**
+   * Whether the user may see reports across all users
+   * @throws AIAcceptanceError if the check fails
+   */
+  async isAdmin(): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("admin_users")
+      .select("user_id")
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new AIAcceptanceError("Failed to check admin access", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data !== null;
+  }
+
+  private toReviewInsert(card: GeneratedCard, action: "accept" | "reject"): AICardReviewInsert {
+    const distance =
+      action === "accept"
+        ? cardEditDistance({ front: card.generated_front ?? card.front, back: card.generated_back ?? card.back }, card)
+        : 0;
+    const decision: CardReviewDecision = action === "reject" ? "rejected" : distance > 0 ? "edited" : "accepted";
+
+    return {
+      user_id: this.userId,
+      generation_id: card.generation_id,
+      flashcard_id: card.id,
+      decision,
+      edit_distance: distance,
+    };
+  }
+
+  /**
+   * Counts over all rows; the mean edit distance is weighted by the edited cards of each row
+   */
+  private sumRows(rows: AcceptanceReportRow[]): AcceptanceCounts {
+    const sum = (pick: (row: AcceptanceReportRow) => number) => rows.reduce((total, row) => total + pick(row), 0);
+    const edited = sum((row) => row.edited);
+    const distance = sum((row) => (row.avg_edit_distance ?? 0) * row.edited);
+
+    return toAcceptanceCounts(
+      sum((row) => row.accepted),
+      edited,
+      sum((row) => row.rejected),
+      edited > 0 ? Math.round((distance / edited) * 10) / 10 : null
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * AI Cache Service
+ * Keeps the cards of each generation under its cache key (see lib/generation/cache-key.ts), so an identical
+ * request can reuse them instead of calling the model again.
+ *
+ * Entries belong to the user who generated them. Lookups (`take_ai_cache_entry`) only return an entry that
+ * has not expired and was generated for at least the requested number of cards, and mark it as used.
+ * Storing (`put_ai_cache_entry`) replaces the entry for the key and evicts the user's expired entries and
+ * the least recently used ones beyond the size limit; the database fixes the TTL and size limit
+ * (`ValidationConstraints.aiCache`). Only the service role may do either, so this service needs a
+ * service-role client.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json } from "../../db/database.types";
+import { ErrorCodes } from "../../types";
+import type { ParsedFlashcard } from "../llm/provider";
+
+/**
+ * The cards of an earlier generation, with the model and prompt version that produced them
+ */
+export interface CachedGeneration {
+  cards: ParsedFlashcard[];
+  model: string | null;
+  promptVersion: string | null;
+}
+
+/**
+ * A generation to store: its cards, what produced them and the number of cards it was asked for
+ */
+export interface CacheEntry {
+  cards: ParsedFlashcard[];
+  model: string;
+  promptVersion: string;
+  maxCards: number;
+}
+
+/**
+ * Custom error class for generation cache failures
+ */
+export class AICacheError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "AICacheError";
+  }
+}
+
+export class AICacheService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * The cached generation for the key if it has at least `minCards` cards' worth, and mark it as used
+   * @returns The generation, or null on a miss
+   */
+  async get(cacheKey: string, minCards: number): Promise<CachedGeneration | null> {
+    const { data, error } = await this.supabase
+      .rpc("take_ai_cache_entry", { p_user_id: this.userId, p_cache_key: cacheKey, p_min_cards: minCards })
+      .maybeSingle();
+
+    if (error) {
+      throw new AICacheError("Failed to read the generation cache", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const cards = data ? this.toCards(data.cards) : [];
+    if (!data || cards.length === 0) {
+      return null;
+    }
+
+    return { cards, model: data.model, promptVersion: data.prompt_version };
+  }
+
+  /**
+   * Store a generation under the key, replacing an earlier entry for it
+   */
+  async put(cacheKey: string, entry: CacheEntry): Promise<void> {
+    const { error } = await this.supabase.rpc("put_ai_cache_entry", {
+      p_user_id: this.userId,
+      p_cache_key: cacheKey,
+      p_model: entry.model,
+      p_prompt_version: entry.promptVersion,
+      p_max_cards: entry.maxCards,
+      p_cards: entry.cards.map(({ front, back, source_quote }) => ({ front, back, source_quote })) as Json,
+    });
+
+    if (error) {
+      throw new AICacheError("Failed to store the generation in the cache", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+  }
+
+  /**
+   * Cards stored in an entry; anything that is not a card is skipped
+   */
+  private toCards(cards: Json): ParsedFlashcard[] {
+    if (!Array.isArray(cards)) {
+      return [];
+    }
+
+    return cards.flatMap((card): ParsedFlashcard[] => {
+      if (!card || typeof card !== "object" || Array.isArray(card)) return [];
+      const { front, back, source_quote } = card;
+      if (typeof front !== "string" || typeof back !== "string") return [];
+      return [{ front, back, ...(typeof source_quote === "string" && { source_quote }) }];
+    });
+  }
+}
@@ -1,12 +1,35 @@
 /**
  * AI Generation Service
- * Handles AI-powered flashcard generation with rate limiting and validation
+ * Handles AI-powered flashcard generation with rate limiting and validation.
+ * Generations are cached by their text, model, prompt version and options; an identical request reuses
+ * the cached cards as new drafts instead of calling the model, unless it forces regeneration.
  */
 
 import type { SupabaseClient } from "../../db/supabase.client";
-import type { AIGenerateResponse, AIGenerationLogInsert, FlashcardInsert, Flashcard } from "../../types";
+import type {
+  AIGeneratedFlashcard,
+  AIGenerateResponse,
+  AIGuardrailEventInsert,
+  AIUsageResponse,
+  FlashcardInsert,
+  Flashcard,
+  GenerationOptions,
+  QuotaReservation,
+  RefineFlashcardRequest,
+  RefineFlashcardResponse,
+  SourceSpan,
+} from "../../types";
 import { ErrorCodes } from "../../types";
-import { OpenRouterClient, type ParsedFlashcard } from "./openrouter.client";
+import { generationCacheKey } from "../generation/cache-key";
+import { allocateCardBudget, mergeFlashcards, splitIntoChunks } from "../generation/chunking";
+import { createOutputGuard, findInstructions, type GuardrailFinding, type OutputGuard } from "../generation/guardrails";
+import { createSourceLocator, toSourceSpan, type SourceLocator } from "../generation/provenance";
+import { findDuplicate, type ExistingCard } from "../generation/similarity";
+import { PROMPT_VERSION } from "../llm/prompt";
+import type { LLMProvider, ParsedFlashcard, UsageListener } from "../llm/provider";
+import { UsageTracker } from "../llm/usage-tracker";
+import { AICacheService, type CachedGeneration } from "./ai-cache.service";
+import { AIUsageError, AIUsageService, type QuotaSettlement } from "./ai-usage.service";
 
 /**
  * Custom error class for AI generation failures
@@ -23,64 +46,140 @@ export class AIGenerationError extends Error {
   }
 }
 
+export interface GenerateOptions extends GenerationOptions {
+  /** Split the text into chunks, generate cards for each and merge the results */
+  longDocument?: boolean;
+  /** Cancels the generation; nothing is saved once it is aborted */
+  signal?: AbortSignal;
+  /** Call the model even when the same request is in the generation cache */
+  forceRegenerate?: boolean;
+}
+
+/**
+ * Result of a request, settled on its quota reservation
+ */
+interface GenerationLogEntry {
+  cardsCount: number;
+  refinementsCount?: number;
+  usage?: UsageTracker;
+  outcome?: QuotaSettlement["outcome"];
+  error?: unknown;
+}
+
+/**
+ * Flashcards produced from a chunked document
+ */
+export interface ChunkedGenerationResult {
+  flashcards: ParsedFlashcard[];
+  chunks: { total: number; failed: number };
+}
+
 /**
  * Service for managing AI flashcard generation
  */
 export class AIGenerationService {
-  private readonly DAILY_LIMIT = 50;
-  private openRouterClient: OpenRouterClient;
+  /** Chunk requests sent to the AI service at the same time */
+  private readonly CHUNK_CONCURRENCY = 3;
+  /** Cards a single refinement may split a draft into */
+  private readonly REFINE_MAX_CARDS = 3;
+  /** Rows per request when reading a deck's cards; PostgREST returns at most `max_rows` (1000) at a time */
+  private readonly DECK_CARDS_PAGE_SIZE = 1000;
 
+  /**
+   * @param admin Service-role client, for the quota reservations and the generation cache, which users may not
+   *   write themselves
+   */
   constructor(
     private readonly supabase: SupabaseClient,
     private readonly userId: string,
-    openRouterApiKey: string
-  ) {
-    this.openRouterClient = new OpenRouterClient(openRouterApiKey);
-  }
+    private readonly provider: LLMProvider,
+    private readonly admin: SupabaseClient
+  ) {}
 
   /**
-   * Check if user has exceeded their daily generation limit
+   * Check if user has exceeded their daily or monthly generation limit
    * @throws AIGenerationError if limit exceeded
    */
   async checkDailyLimit(): Promise<void> {
-    // Get today's date range (start of day to end of day)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const usage = await this.getUsage();
 
-    // Query sum of cards generated today
-    const { data, error } = await this.supabase
-      .from("ai_generation_logs")
-      .select("cards_count")
-      .eq("user_id", this.userId)
-      .gte("generated_at", today.toISOString())
-      .lt("generated_at", tomorrow.toISOString());
+    if (usage.remaining <= 0) {
+      throw this.limitExceeded(usage);
+    }
+  }
 
-    if (error) {
-      throw new AIGenerationError("Failed to check daily limit", ErrorCodes.INTERNAL_ERROR, 500, error);
+  /**
+   * Reserve cards against the user's daily and monthly limits before calling the model.
+   * The reservation is capped at what is left of the limits; settle it once the result is known.
+   * @throws AIGenerationError if limit exceeded
+   */
+  private async reserveCards(deckId: number, cards: number, refinements = 0): Promise<QuotaReservation> {
+    let reservation: QuotaReservation | null;
+    try {
+      reservation = await new AIUsageService(this.admin, this.userId).reserve(deckId, cards, refinements);
+    } catch (error) {
+      throw new AIGenerationError(
+        "Failed to check daily limit",
+        ErrorCodes.INTERNAL_ERROR,
+        500,
+        error instanceof AIUsageError ? error.details : error
+      );
     }
 
-    // Calculate total cards generated today
-    const totalToday = data?.reduce((sum: number, log: { cards_count: number }) => sum + log.cards_count, 0) || 0;
+    if (!reservation) {
+      throw this.limitExceeded(await this.getUsage());
+    }
 
-    // Check if limit exceeded
-    if (totalToday >= this.DAILY_LIMIT) {
-      // Calculate reset time (midnight tonight)
-      const resetAt = tomorrow.toISOString();
+    return reservation;
+  }
 
+  /**
+   * Usage of the user's quota, for the limit check and the details of a limit error
+   */
+  private async getUsage(): Promise<AIUsageResponse> {
+    try {
+      return await new AIUsageService(this.supabase, this.userId).getUsage();
+    } catch (error) {
       throw new AIGenerationError(
-        `Daily generation limit of ${this.DAILY_LIMIT} cards exceeded. Limit resets at midnight.`,
+        "Failed to check daily limit",
+        ErrorCodes.INTERNAL_ERROR,
+        500,
+        error instanceof AIUsageError ? error.details : error
+      );
+    }
+  }
+
+  /**
+   * Error for a user with nothing left of their daily or monthly limit
+   */
+  private limitExceeded(usage: AIUsageResponse): AIGenerationError {
+    const { plan, daily_limit, used_today, reset_at, monthly_limit, used_this_month, monthly_reset_at } = usage;
+    const details = {
+      plan,
+      daily_limit,
+      used_today,
+      remaining: 0,
+      reset_at,
+      monthly_limit,
+      used_this_month,
+      monthly_reset_at,
+    };
+
+    if (used_today >= daily_limit || monthly_limit === null) {
+      return new AIGenerationError(
+        `Daily generation limit of ${daily_limit} cards exceeded. Limit resets at midnight.`,
         ErrorCodes.DAILY_LIMIT_EXCEEDED,
         403,
-        {
-          daily_limit: this.DAILY_LIMIT,
-          used_today: totalToday,
-          remaining: 0,
-          reset_at: resetAt,
-        }
+        details
       );
     }
+
+    return new AIGenerationError(
+      `Monthly generation limit of ${monthly_limit} cards exceeded. Limit resets at the start of next month.`,
+      ErrorCodes.MONTHLY_LIMIT_EXCEEDED,
+      403,
+      details
+    );
   }
 
   /**
@@ -100,13 +199,31 @@ export class AIGenerationService {
     }
   }
 
+  /**
+   * Verify deck ownership and reserve the cards before generating
+   * @returns The reservation: `maxCards` capped at what is left of the user's limits
+   * @throws AIGenerationError if limit exceeded or deck not found
+   */
+  async prepareGeneration(deckId: number, maxCards: number): Promise<QuotaReservation> {
+    await this.verifyDeckOwnership(deckId);
+
+    return this.reserveCards(deckId, maxCards);
+  }
+
   /**
    * Generate flashcards using AI
    */
-  async generateFlashcards(text: string, maxCards: number): Promise<ParsedFlashcard[]> {
+  async generateFlashcards(
+    text: string,
+    maxCards: number,
+    options: GenerationOptions = {},
+    onUsage?: UsageListener,
+    signal?: AbortSignal
+  ): Promise<ParsedFlashcard[]> {
     try {
-      return await this.openRouterClient.generateFlashcards(text, maxCards);
+      return await this.provider.generateFlashcards(text, maxCards, options, onUsage, signal);
     } catch (error) {
+      this.throwIfCancelled(signal);
       throw new AIGenerationError(
         "AI service failed to generate flashcards",
         ErrorCodes.AI_SERVICE_ERROR,
@@ -117,22 +234,68 @@ export class AIGenerationService {
   }
 
   /**
-   * Save generated flashcards to the database
+   * Generate flashcards for a long document: split it into chunks, spread the card budget across
+   * them and merge the results, dropping duplicate questions. Failed chunks are skipped.
+   * @throws AIGenerationError if every chunk fails
+   */
+  async generateFromChunks(
+    text: string,
+    maxCards: number,
+    options: GenerationOptions = {},
+    onUsage?: UsageListener,
+    signal?: AbortSignal
+  ): Promise<ChunkedGenerationResult> {
+    const chunks = splitIntoChunks(text);
+    const budget = allocateCardBudget(chunks, maxCards);
+    const jobs = chunks
+      .map((chunk, index) => ({ text: chunk.text, maxCards: budget[index] }))
+      .filter((job) => job.maxCards > 0);
+
+    const batches: ParsedFlashcard[][] = [];
+    const errors: string[] = [];
+
+    for (let i = 0; i < jobs.length; i += this.CHUNK_CONCURRENCY) {
+      const results = await Promise.allSettled(
+        jobs
+          .slice(i, i + this.CHUNK_CONCURRENCY)
+          .map((job) => this.generateFlashcards(job.text, job.maxCards, options, onUsage, signal))
+      );
+      this.throwIfCancelled(signal);
+
+      for (const result of results) {
+        if (result.status === "fulfilled") {
+          batches.push(result.value);
+        } else {
+          errors.push(result.reason instanceof AIGenerationError ? String(result.reason.details) : "Unknown error");
+        }
+      }
+    }
+
+    if (batches.length === 0) {
+      throw new AIGenerationError("AI service failed to generate flashcards", ErrorCodes.AI_SERVICE_ERROR, 503, errors);
+    }
+
+    return {
+      flashcards: mergeFlashcards(batches, maxCards),
+      chunks: { total: jobs.length, failed: errors.length },
+    };
+  }
+
+  /**
+   * Save generated flashcards to the database and settle the reservation with the saved count and usage.
+   * Each card is linked to the generation and, when `locateSource` finds its quote, to its source passage.
    */
   async saveFlashcards(
     deckId: number,
-    flashcards: ParsedFlashcard[]
-  ): Promise<{ flashcards: Flashcard[]; generationLogId: number }> {
+    flashcards: ParsedFlashcard[],
+    reservation: QuotaReservation,
+    usage?: UsageTracker,
+    locateSource?: SourceLocator
+  ): Promise<Flashcard[]> {
     // Prepare flashcard inserts
-    const flashcardInserts: FlashcardInsert[] = flashcards.map((card) => ({
-      deck_id: deckId,
-      front: card.front,
-      back: card.back,
-      status: "draft",
-      source: "ai",
-      ease_factor: 2.5,
-      interval: 0,
-    }));
+    const flashcardInserts = flashcards.map((card) =>
+      this.toDraftInsert(deckId, card, reservation.logId, locateSource?.(card.source_quote) ?? null)
+    );
 
     // Insert flashcards
     const { data: createdFlashcards, error: flashcardsError } = await this.supabase
@@ -144,66 +307,592 @@ export class AIGenerationService {
       throw new AIGenerationError("Failed to save flashcards", ErrorCodes.INTERNAL_ERROR, 500, flashcardsError);
     }
 
-    // Log the generation
-    const generationLog: AIGenerationLogInsert = {
-      user_id: this.userId,
-      cards_count: createdFlashcards.length,
-    };
+    await this.settleReservation(reservation, { cardsCount: createdFlashcards.length, usage });
 
-    const { data: logData, error: logError } = await this.supabase
-      .from("ai_generation_logs")
-      .insert(generationLog)
-      .select("id")
-      .single();
+    return createdFlashcards;
+  }
 
-    if (logError || !logData) {
-      // Log error but don't fail the request since flashcards were created
-      // In production, this should use proper logging service
-      // console.error("Failed to log generation:", logError);
+  /**
+   * Stream flashcards from the AI service, saving each one as a draft as soon as it is complete.
+   * Cards the output guardrails block are skipped.
+   * Call `prepareGeneration` first and pass the reservation it returned.
+   * The reservation is settled when the stream ends, also if it fails, so the daily limit counts every
+   * saved card, the unused cards are refunded and the usage of failed calls is recorded.
+   * @throws AIGenerationError if the AI service fails or a card cannot be saved
+   */
+  async streamAndSaveFlashcards(
+    deckId: number,
+    text: string,
+    reservation: QuotaReservation,
+    onCard: (card: AIGeneratedFlashcard) => void,
+    options: GenerationOptions = {}
+  ): Promise<AIGenerateResponse> {
+    const saved: AIGeneratedFlashcard[] = [];
+    const generated: ParsedFlashcard[] = [];
+    const usage = new UsageTracker();
+    const locateSource = createSourceLocator(text);
+    const guard = createOutputGuard(text, options);
+    const findings = findInstructions(text);
+    let existingCards: ExistingCard[] | null = null;
+    let failure: unknown = null;
+
+    try {
+      for await (const card of this.provider.streamFlashcards(text, reservation.cards, options, usage.record)) {
+        const blocked = guard(card);
+        if (blocked) {
+          findings.push(blocked);
+          continue;
+        }
+
+        // Loaded with the first card, before any draft of this generation is saved
+        existingCards ??= await this.loadDeckCards(deckId);
+
+        const { data, error } = await this.supabase
+          .from("flashcards")
+          .insert(this.toDraftInsert(deckId, card, reservation.logId, locateSource(card.source_quote)))
+          .select()
+          .single();
+
+        if (error || !data) {
+          throw new AIGenerationError("Failed to save flashcards", ErrorCodes.INTERNAL_ERROR, 500, error);
+        }
+
+        const draft = this.toGeneratedFlashcard(data, existingCards);
+        saved.push(draft);
+        generated.push(card);
+        onCard(draft);
+      }
+    } catch (error) {
+      failure = error;
+    }
+
+    await this.recordGuardrailFindings(reservation, findings);
+    if (saved.length > 0) {
+      await this.saveSource(reservation, text);
+    }
+
+    const failed = failure !== null || saved.length === 0;
+    await this.settleReservation(reservation, {
+      cardsCount: saved.length,
+      usage,
+      outcome: !failed ? "success" : saved.length > 0 ? "partial" : "failed",
+      error: failure ?? (failed ? "No valid flashcards in the response" : undefined),
+    });
+
+    if (failure instanceof AIGenerationError) {
+      throw failure;
     }
 
+    if (failure || saved.length === 0) {
+      throw new AIGenerationError(
+        "AI service failed to generate flashcards",
+        ErrorCodes.AI_SERVICE_ERROR,
+        503,
+        failure instanceof Error ? failure.message : "Unknown error"
+      );
+    }
+
+    await this.storeInCache(text, options, generated, reservation.cards, usage);
+
     return {
-      flashcards: createdFlashcards,
-      generationLogId: logData?.id || 0,
+      generation_id: reservation.logId,
+      deck_id: deckId,
+      flashcards: saved,
+      cards_generated: saved.length,
     };
   }
 
   /**
-   * Main method: Generate and save flashcards
+   * Answer a request from the generation cache: when the same text was generated from before with the same
+   * model, prompt version and options, its cards are saved again as new drafts without calling the model.
+   * The request is logged as a cache hit, which does not count against the user's limits.
+   * @returns The response, or null when the request is not cached
+   * @throws AIGenerationError if the deck is not found or the cards cannot be saved
    */
-  async generateAndSaveFlashcards(deckId: number, text: string, maxCards: number): Promise<AIGenerateResponse> {
-    // 1. Check daily limit
-    await this.checkDailyLimit();
+  async saveFromCache(
+    deckId: number,
+    text: string,
+    maxCards: number,
+    options: GenerateOptions = {}
+  ): Promise<AIGenerateResponse | null> {
+    const cached = await this.lookupCache(text, maxCards, options);
+    if (!cached) {
+      return null;
+    }
 
-    // 2. Verify deck ownership
     await this.verifyDeckOwnership(deckId);
 
-    // 3. Generate flashcards using AI
-    const parsedFlashcards = await this.generateFlashcards(text, maxCards);
-
-    if (parsedFlashcards.length === 0) {
+    const cards = cached.cards.slice(0, maxCards);
+    let reservation: QuotaReservation;
+    try {
+      reservation = await new AIUsageService(this.admin, this.userId).reserveCacheHit(deckId, cards.length);
+    } catch (error) {
       throw new AIGenerationError(
-        "AI failed to generate any valid flashcards from the provided text",
-        ErrorCodes.AI_SERVICE_ERROR,
-        503
+        "Failed to log the cached generation",
+        ErrorCodes.INTERNAL_ERROR,
+        500,
+        error instanceof AIUsageError ? error.details : error
       );
     }
 
-    // 4. Save flashcards to database
-    const { flashcards, generationLogId } = await this.saveFlashcards(deckId, parsedFlashcards);
+    // Logged under the model and prompt version that generated the cards, at no cost
+    const usage = new UsageTracker();
+    usage.record({
+      model: cached.model ?? this.provider.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      promptVersion: cached.promptVersion,
+    });
+
+    const existingCards = await this.loadDeckCards(deckId);
+    let flashcards: Flashcard[];
+    try {
+      flashcards = await this.saveFlashcards(deckId, cards, reservation, usage, createSourceLocator(text));
+    } catch (error) {
+      await this.settleReservation(reservation, { cardsCount: 0, usage, outcome: "failed", error });
+      throw error;
+    }
+    await this.saveSource(reservation, text);
+
+    return {
+      generation_id: reservation.logId,
+      deck_id: deckId,
+      flashcards: flashcards.map((card) => this.toGeneratedFlashcard(card, existingCards)),
+      cards_generated: flashcards.length,
+      cached: true,
+    };
+  }
+
+  /**
+   * Main method: Generate and save flashcards.
+   * The request is capped at the cards reserved from the user's limits, so a chunked job cannot overshoot them.
+   * Cards the output guardrails block are dropped before saving, so they are refunded.
+   * A cached request is answered from the cache unless `forceRegenerate` is set; a complete result is cached.
+   */
+  async generateAndSaveFlashcards(
+    deckId: number,
+    text: string,
+    maxCards: number,
+    options: GenerateOptions = {}
+  ): Promise<AIGenerateResponse> {
+    const { longDocument, signal, forceRegenerate, ...generationOptions } = options;
+
+    // 1. Reuse the cards of an identical earlier request
+    if (!forceRegenerate) {
+      const cached = await this.saveFromCache(deckId, text, maxCards, options);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    // 2. Verify deck ownership and reserve the cards
+    const reservation = await this.prepareGeneration(deckId, maxCards);
+    const cardBudget = reservation.cards;
+
+    // 3. Generate flashcards using AI; failures refund the reservation and record the usage of the calls made
+    const usage = new UsageTracker();
+    const findings = findInstructions(text);
+    let chunked: ChunkedGenerationResult | null;
+    let parsedFlashcards: ParsedFlashcard[];
+
+    try {
+      chunked = longDocument
+        ? await this.generateFromChunks(text, cardBudget, generationOptions, usage.record, signal)
+        : null;
+      parsedFlashcards = chunked
+        ? chunked.flashcards
+        : await this.generateFlashcards(text, cardBudget, generationOptions, usage.record, signal);
+      this.throwIfCancelled(signal);
+
+      // Drop the cards the output guardrails block, then keep to the reserved cards
+      parsedFlashcards = this.screenFlashcards(
+        parsedFlashcards,
+        createOutputGuard(text, generationOptions),
+        findings
+      ).slice(0, cardBudget);
+
+      if (parsedFlashcards.length === 0) {
+        throw new AIGenerationError(
+          "AI failed to generate any valid flashcards from the provided text",
+          ErrorCodes.AI_SERVICE_ERROR,
+          503
+        );
+      }
+    } catch (error) {
+      await this.recordGuardrailFindings(reservation, findings);
+      await this.settleReservation(reservation, { cardsCount: 0, usage, outcome: "failed", error });
+      throw error;
+    }
+
+    // 4. Save flashcards to database, flagging the ones the deck already has
+    const existingCards = await this.loadDeckCards(deckId);
+    let flashcards: Flashcard[];
+    try {
+      flashcards = await this.saveFlashcards(deckId, parsedFlashcards, reservation, usage, createSourceLocator(text));
+    } catch (error) {
+      await this.recordGuardrailFindings(reservation, findings);
+      await this.settleReservation(reservation, { cardsCount: 0, usage, outcome: "failed", error });
+      throw error;
+    }
+    await this.saveSource(reservation, text);
+    await this.recordGuardrailFindings(reservation, findings);
+
+    // A document with failed chunks is cached only once it is generated in full
+    if (!chunked || chunked.chunks.failed === 0) {
+      await this.storeInCache(text, options, parsedFlashcards, cardBudget, usage);
+    }
 
     // 5. Format response
     return {
-      generation_id: generationLogId,
+      generation_id: reservation.logId,
       deck_id: deckId,
-      flashcards: flashcards.map((card) => ({
-        id: card.id,
-        front: card.front,
-        back: card.back,
-        status: "draft" as const,
-        source: "ai" as const,
-      })),
+      flashcards: flashcards.map((card) => this.toGeneratedFlashcard(card, existingCards)),
       cards_generated: flashcards.length,
+      ...(chunked && { chunks: chunked.chunks }),
+    };
+  }
+
+  /**
+   * Rewrite one draft with AI as the instruction asks. The draft is updated in place; when the
+   * instruction splits it, the extra cards are saved as new drafts in the same deck.
+   * A refinement costs a fraction of a card against the daily limit; split-off drafts count as cards,
+   * so the cards a split may add are reserved up front and refunded when it does not split. When no cards
+   * are left, the draft can still be rewritten, but nothing is split off.
+   * The instruction and the passage go through the same guardrails as a generation's source text, and the
+   * refined cards are screened against the draft's source text.
+   * @throws AIGenerationError if limit exceeded, the draft is not found or the AI service fails
+   */
+  async refineFlashcard(flashcardId: number, request: RefineFlashcardRequest): Promise<RefineFlashcardResponse> {
+    const { data: draft, error: fetchError } = await this.supabase
+      .from("flashcards")
+      .select("*")
+      .eq("id", flashcardId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new AIGenerationError("Failed to fetch flashcard", ErrorCodes.INTERNAL_ERROR, 500, fetchError);
+    }
+
+    if (!draft) {
+      throw new AIGenerationError("Flashcard not found", ErrorCodes.NOT_FOUND, 404, { flashcard_id: flashcardId });
+    }
+
+    if (draft.status !== "draft") {
+      throw new AIGenerationError("Only draft flashcards can be refined", ErrorCodes.INVALID_STATUS, 400, {
+        flashcard_id: flashcardId,
+        status: draft.status,
+      });
+    }
+
+    const findings = [request.instruction, request.context].flatMap((text) => (text ? findInstructions(text) : []));
+    const guard = createOutputGuard(await this.loadRefineSource(draft, request.context));
+
+    // Granted while the refinement's share of a card fits; the split-off cards may be capped at none
+    const reservation = await this.reserveCards(draft.deck_id, this.REFINE_MAX_CARDS - 1, 1);
+    const usage = new UsageTracker();
+    let refined: ParsedFlashcard[];
+    try {
+      refined = await this.provider.refineFlashcard(
+        { front: draft.front, back: draft.back },
+        request.instruction,
+        reservation.cards + 1,
+        request.context,
+        usage.record
+      );
+    } catch (error) {
+      await this.recordGuardrailFindings(reservation, findings);
+      await this.settleReservation(reservation, { cardsCount: 0, usage, outcome: "failed", error });
+      throw new AIGenerationError(
+        "AI service failed to refine the flashcard",
+        ErrorCodes.AI_SERVICE_ERROR,
+        503,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+
+    refined = this.screenFlashcards(refined, guard, findings);
+
+    if (refined.length === 0) {
+      await this.recordGuardrailFindings(reservation, findings);
+      await this.settleReservation(reservation, {
+        cardsCount: 0,
+        usage,
+        outcome: "failed",
+        error: "No valid flashcards in the response",
+      });
+      throw new AIGenerationError("AI failed to refine the flashcard", ErrorCodes.AI_SERVICE_ERROR, 503);
+    }
+
+    // The reservation only allows as many split-off drafts as it granted
+    const [first, ...extra] = refined.slice(0, reservation.cards + 1);
+    let updated: Flashcard;
+    let created: Flashcard[] = [];
+
+    try {
+      const { data, error: updateError } = await this.supabase
+        .from("flashcards")
+        .update({ front: first.front, back: first.back })
+        .eq("id", flashcardId)
+        .eq("status", "draft")
+        .select()
+        .single();
+
+      if (updateError || !data) {
+        throw new AIGenerationError("Failed to save flashcards", ErrorCodes.INTERNAL_ERROR, 500, updateError);
+      }
+      updated = data;
+
+      if (extra.length > 0) {
+        const { data, error } = await this.supabase
+          .from("flashcards")
+          .insert(
+            extra.map((card) =>
+              this.toDraftInsert(
+                draft.deck_id,
+                card,
+                draft.generation_id,
+                toSourceSpan(draft.source_start, draft.source_end)
+              )
+            )
+          )
+          .select();
+
+        if (error || !data) {
+          throw new AIGenerationError("Failed to save flashcards", ErrorCodes.INTERNAL_ERROR, 500, error);
+        }
+        created = data;
+      }
+    } catch (error) {
+      await this.recordGuardrailFindings(reservation, findings);
+      await this.settleReservation(reservation, { cardsCount: 0, usage, outcome: "failed", error });
+      throw error;
+    }
+
+    await this.recordGuardrailFindings(reservation, findings);
+    await this.settleReservation(reservation, { cardsCount: created.length, refinementsCount: 1, usage });
+
+    return { flashcards: [updated, ...created].map((card) => this.toGeneratedFlashcard(card)) };
+  }
+
+  /**
+   * The text refined cards are screened against: the source text of the draft's generation, or the draft and
+   * the passage sent with the instruction when the source was not kept
+   */
+  private async loadRefineSource(draft: Flashcard, context?: string): Promise<string> {
+    if (draft.generation_id !== null) {
+      const { data } = await this.supabase
+        .from("ai_generation_sources")
+        .select("text")
+        .eq("generation_id", draft.generation_id)
+        .maybeSingle();
+
+      if (data) {
+        return data.text;
+      }
+    }
+
+    return [draft.front, draft.back, context].filter(Boolean).join("\n");
+  }
+
+  /**
+   * Settle a request's reservation with its result, model usage and outcome; the unused cards are refunded.
+   * Settling never fails the request: flashcards may already be saved, or the original error
+   * must reach the caller. An unsettled reservation keeps counting against the limits.
+   */
+  private async settleReservation(reservation: QuotaReservation, entry: GenerationLogEntry): Promise<void> {
+    const { cardsCount, refinementsCount = 0, usage, outcome = "success", error } = entry;
+
+    try {
+      await new AIUsageService(this.admin, this.userId).settle(reservation, {
+        cards_count: cardsCount,
+        refinements_count: refinementsCount,
+        ...usage?.toLogFields(),
+        outcome,
+        ...(error !== undefined && { error_message: this.describeError(error) }),
+      });
+    } catch {
+      // In production, this should use proper logging service
+      // console.error("Failed to settle AI quota reservation:", error);
+    }
+  }
+
+  /**
+   * Keep the source text of a generation, so its cards can show the passage they came from.
+   * This never fails the request: without the source, the cards only lose their passage.
+   */
+  private async saveSource(reservation: QuotaReservation, text: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("ai_generation_sources")
+      .insert({ generation_id: reservation.logId, user_id: this.userId, text });
+
+    if (error) {
+      // In production, this should use proper logging service
+      // console.error("Failed to save the generation source:", error);
+    }
+  }
+
+  /**
+   * The cached generation for a request, or null when there is none.
+   * A failed lookup counts as a miss: the request is then generated as if nothing were cached.
+   */
+  private async lookupCache(
+    text: string,
+    maxCards: number,
+    options: GenerateOptions
+  ): Promise<CachedGeneration | null> {
+    try {
+      return await new AICacheService(this.admin, this.userId).get(
+        generationCacheKey(text, this.provider.model, options),
+        maxCards
+      );
+    } catch {
+      // In production, this should use proper logging service
+      return null;
+    }
+  }
+
+  /**
+   * Cache the cards of a successful generation for identical requests of up to `maxCards` cards, with the
+   * model the API reported for it. If it cannot be stored, the next identical request is generated again.
+   */
+  private async storeInCache(
+    text: string,
+    options: GenerateOptions,
+    cards: ParsedFlashcard[],
+    maxCards: number,
+    usage: UsageTracker
+  ): Promise<void> {
+    try {
+      await new AICacheService(this.admin, this.userId).put(generationCacheKey(text, this.provider.model, options), {
+        cards,
+        model: usage.toLogFields().model ?? this.provider.model,
+        promptVersion: PROMPT_VERSION,
+        maxCards,
+      });
+    } catch {
+      // In production, this should use proper logging service
+    }
+  }
+
+  /**
+   * Keep the cards the guard lets through; a finding for each blocked card is added to `findings`
+   */
+  private screenFlashcards(
+    cards: ParsedFlashcard[],
+    guard: OutputGuard,
+    findings: GuardrailFinding[]
+  ): ParsedFlashcard[] {
+    return cards.filter((card) => {
+      const finding = guard(card);
+      if (finding) findings.push(finding);
+      return finding === null;
+    });
+  }
+
+  /**
+   * Record the source passages the guardrails flagged and the cards they blocked in a generation.
+   * The cards are screened either way; a failed insert only loses the record.
+   */
+  private async recordGuardrailFindings(reservation: QuotaReservation, findings: GuardrailFinding[]): Promise<void> {
+    if (findings.length === 0) return;
+
+    const { error } = await this.supabase.from("ai_guardrail_events").insert(
+      findings.map(
+        (finding): AIGuardrailEventInsert => ({
+          user_id: this.userId,
+          generation_id: reservation.logId,
+          ...finding,
+        })
+      )
+    );
+
+    if (error) {
+      // In production, this should use proper logging service
+      // console.error("Failed to record guardrail findings:", error);
+    }
+  }
+
+  /**
+   * @throws AIGenerationError if the generation was cancelled
+   */
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AIGenerationError("The generation was cancelled", ErrorCodes.GENERATION_CANCELLED, 409);
+    }
+  }
+
+  /**
+   * Short reason for a failure, for the usage log
+   */
+  private describeError(error: unknown): string {
+    if (error instanceof AIGenerationError && typeof error.details === "string") {
+      return `${error.message}: ${error.details}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Cards already in the deck, to flag generated duplicates.
+   * The flags are advisory, so a failed lookup only disables them.
+   */
+  private async loadDeckCards(deckId: number): Promise<ExistingCard[]> {
+    const cards: ExistingCard[] = [];
+
+    for (let offset = 0; ; offset += this.DECK_CARDS_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from("flashcards")
+        .select("id, front, back")
+        .eq("deck_id", deckId)
+        .order("id", { ascending: true })
+        .range(offset, offset + this.DECK_CARDS_PAGE_SIZE - 1);
+
+      if (error || !data) {
+        return [];
+      }
+
+      cards.push(...data);
+
+      if (data.length < this.DECK_CARDS_PAGE_SIZE) {
+        return cards;
+      }
+    }
+  }
+
+  private toDraftInsert(
+    deckId: number,
+    card: ParsedFlashcard,
+    generationId: number | null,
+    span: SourceSpan | null
+  ): FlashcardInsert {
+    return {
+      deck_id: deckId,
+      front: card.front,
+      back: card.back,
+      status: "draft",
+      source: "ai",
+      ease_factor: 2.5,
+      interval: 0,
+      generated_front: card.front,
+      generated_back: card.back,
+      generation_id: generationId,
+      source_start: span?.start ?? null,
+      source_end: span?.end ?? null,
+    };
+  }
+
+  private toGeneratedFlashcard(card: Flashcard, existingCards: ExistingCard[] = []): AIGeneratedFlashcard {
+    const duplicate = findDuplicate(card, existingCards);
+    const span = toSourceSpan(card.source_start, card.source_end);
+
+    return {
+      id: card.id,
+      front: card.front,
+      back: card.back,
+      status: "draft",
+      source: "ai",
+      ...(duplicate && { duplicate_of: duplicate }),
+      ...(span && { source_span: span }),
     };
   }
 }
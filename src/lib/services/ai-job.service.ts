@@ -0,0 +1,289 @@
+/**
+ * AI Job Service
+ * Persists AI generations as background jobs and moves them through their states:
+ * queued -> running -> succeeded | failed, or cancelled while queued or running.
+ *
+ * Every transition is an update conditional on the current status, so a worker finishing late
+ * never overwrites a cancelled job and a finished job cannot be cancelled. Jobs are run by the
+ * in-process worker (`generationWorker`), which refreshes their heartbeat while it holds them; see `runJob`
+ * and `heartbeat`.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json } from "../../db/database.types";
+import type {
+  AIGenerateResponse,
+  AIGenerationJob,
+  AIGenerationJobResponse,
+  AIGenerationJobUpdate,
+  ApiErrorResponse,
+  GenerationJobStatus,
+  ListAIGenerationJobsResponse,
+} from "../../types";
+import { ErrorCodes, ValidationConstraints } from "../../types";
+import type { AIGenerateRequestInput } from "../validation/ai-generation.schemas";
+import { AIGenerationError, type AIGenerationService } from "./ai-generation.service";
+
+const ACTIVE_STATUSES: GenerationJobStatus[] = ["queued", "running"];
+
+/**
+ * Custom error class for generation job failures
+ */
+export class AIJobError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "AIJobError";
+  }
+}
+
+export class AIJobService {
+  /** A job still queued or running this long after its last heartbeat was lost with its server */
+  private readonly HEARTBEAT_TIMEOUT_MS = 2 * 60 * 1000;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Queue a generation; the caller hands the job to the worker
+   */
+  async createJob(request: AIGenerateRequestInput): Promise<AIGenerationJobResponse> {
+    const { data, error } = await this.supabase
+      .from("ai_generation_jobs")
+      .insert({
+        user_id: this.userId,
+        deck_id: request.deck_id,
+        status: "queued",
+        request: request as unknown as Json,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new AIJobError("Failed to create generation job", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return this.toResponse(data);
+  }
+
+  /**
+   * Get one of the user's jobs
+   * @throws AIJobError if the job doesn't exist or belongs to another user
+   */
+  async getJob(jobId: number): Promise<AIGenerationJobResponse> {
+    const job = await this.expireIfLost(await this.findJob(jobId));
+
+    return this.toResponse(job);
+  }
+
+  /**
+   * The user's queued and running jobs of a deck, oldest first, to resume watching them after a reload
+   */
+  async listActiveJobs(deckId: number): Promise<ListAIGenerationJobsResponse> {
+    const { data, error } = await this.supabase
+      .from("ai_generation_jobs")
+      .select("*")
+      .eq("user_id", this.userId)
+      .eq("deck_id", deckId)
+      .in("status", ACTIVE_STATUSES)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new AIJobError("Failed to fetch generation jobs", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const jobs = await Promise.all((data || []).map((job) => this.expireIfLost(job)));
+
+    return {
+      jobs: jobs.filter((job) => this.isActive(job.status)).map((job) => this.toResponse(job)),
+    };
+  }
+
+  /**
+   * Cancel a queued or running job. Stopping its work is up to the worker; whatever it
+   * produces afterwards is discarded.
+   * @throws AIJobError if the job doesn't exist or has already finished
+   */
+  async cancelJob(jobId: number): Promise<AIGenerationJobResponse> {
+    const cancelled = await this.transition(jobId, ACTIVE_STATUSES, {
+      status: "cancelled",
+      finished_at: new Date().toISOString(),
+    });
+
+    if (cancelled) {
+      return this.toResponse(cancelled);
+    }
+
+    const job = await this.findJob(jobId);
+    throw new AIJobError("Only queued or running jobs can be cancelled", ErrorCodes.INVALID_STATUS, 409, {
+      job_id: jobId,
+      status: job.status,
+    });
+  }
+
+  /**
+   * Record that the worker holding a queued or running job is alive; finished jobs are left as they are
+   */
+  async heartbeat(jobId: number): Promise<void> {
+    const { error } = await this.supabase
+      .from("ai_generation_jobs")
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq("id", jobId)
+      .eq("user_id", this.userId)
+      .in("status", ACTIVE_STATUSES);
+
+    if (error) {
+      throw new AIJobError("Failed to update generation job", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+  }
+
+  /**
+   * Run a queued job with the generation service and record its outcome.
+   * Does nothing if the job was cancelled before it started; a job cancelled while running keeps
+   * its cancelled status. Generation errors are recorded on the job, not thrown.
+   */
+  async runJob(jobId: number, generation: AIGenerationService, signal: AbortSignal): Promise<void> {
+    const job = await this.transition(jobId, ["queued"], {
+      status: "running",
+      started_at: new Date().toISOString(),
+    });
+
+    if (!job) {
+      return;
+    }
+
+    const { text, deck_id, max_cards, long_document, force_regenerate, ...options } =
+      job.request as unknown as AIGenerateRequestInput;
+
+    let update: AIGenerationJobUpdate;
+    try {
+      const result = await generation.generateAndSaveFlashcards(
+        deck_id,
+        text,
+        max_cards ?? ValidationConstraints.aiGeneration.maxCardsDefault,
+        {
+          ...options,
+          longDocument: long_document,
+          forceRegenerate: force_regenerate,
+          signal,
+        }
+      );
+      update = { status: "succeeded", result: result as unknown as Json };
+    } catch (error) {
+      update = { status: "failed", error: this.toApiError(error) as unknown as Json };
+    }
+
+    await this.transition(jobId, ["running"], { ...update, finished_at: new Date().toISOString() });
+  }
+
+  /**
+   * Apply `update` if the job is in one of the `from` statuses and, when given, still has the heartbeat `heartbeatAt`
+   * @returns The updated job, or null if it was in another status or got a newer heartbeat
+   */
+  private async transition(
+    jobId: number,
+    from: GenerationJobStatus[],
+    update: AIGenerationJobUpdate,
+    heartbeatAt?: string
+  ): Promise<AIGenerationJob | null> {
+    let query = this.supabase
+      .from("ai_generation_jobs")
+      .update(update)
+      .eq("id", jobId)
+      .eq("user_id", this.userId)
+      .in("status", from);
+    if (heartbeatAt) {
+      query = query.eq("heartbeat_at", heartbeatAt);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new AIJobError("Failed to update generation job", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data;
+  }
+
+  /**
+   * @throws AIJobError if the job doesn't exist or belongs to another user
+   */
+  private async findJob(jobId: number): Promise<AIGenerationJob> {
+    const { data, error } = await this.supabase
+      .from("ai_generation_jobs")
+      .select("*")
+      .eq("id", jobId)
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new AIJobError("Failed to fetch generation job", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      throw new AIJobError("Generation job not found", ErrorCodes.NOT_FOUND, 404, { job_id: jobId });
+    }
+
+    return data;
+  }
+
+  /**
+   * Fail an active job whose heartbeat stopped for longer than the heartbeat timeout: the server holding it
+   * stopped, and no worker will pick it up again. A heartbeat arriving meanwhile keeps the job.
+   */
+  private async expireIfLost(job: AIGenerationJob): Promise<AIGenerationJob> {
+    if (!this.isActive(job.status) || Date.now() - new Date(job.heartbeat_at).getTime() < this.HEARTBEAT_TIMEOUT_MS) {
+      return job;
+    }
+
+    const expired = await this.transition(
+      job.id,
+      ACTIVE_STATUSES,
+      {
+        status: "failed",
+        error: {
+          code: ErrorCodes.AI_SERVICE_ERROR,
+          message: "The generation stopped responding. Please try again.",
+        },
+        finished_at: new Date().toISOString(),
+      },
+      job.heartbeat_at
+    );
+
+    return expired ?? job;
+  }
+
+  private isActive(status: string): boolean {
+    return (ACTIVE_STATUSES as string[]).includes(status);
+  }
+
+  /**
+   * The error of a failed job, as the API would have returned it
+   */
+  private toApiError(error: unknown): ApiErrorResponse["error"] {
+    if (error instanceof AIGenerationError) {
+      return { code: error.code, message: error.message, details: error.details };
+    }
+
+    return { code: ErrorCodes.INTERNAL_ERROR, message: "An unexpected error occurred" };
+  }
+
+  private toResponse(job: AIGenerationJob): AIGenerationJobResponse {
+    return {
+      id: job.id,
+      deck_id: job.deck_id,
+      status: job.status as GenerationJobStatus,
+      result: job.result as unknown as AIGenerateResponse | null,
+      error: job.error as unknown as ApiErrorResponse["error"] | null,
+      created_at: job.created_at,
+      started_at: job.started_at,
+      finished_at: job.finished_at,
+    };
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * AI Usage Service
+ * Measures the user's AI usage against their quota plan and serves the log of AI generations and
+ * refinements with the model, tokens, cost, latency and outcome of each.
+ *
+ * The plan comes from the database (`get_ai_quota_plan`): the user's assigned plan or the default one,
+ * with per-user overrides applied. Daily and monthly windows start at midnight in the user's time zone, and
+ * the usage within them is summed in the database (`get_ai_usage_totals`).
+ *
+ * Requests reserve their cards in the database (`reserve_ai_quota`) before calling the model, so parallel
+ * requests cannot together exceed the limits, and settle the reservation (`settle_ai_quota`) once the
+ * actual result is known. Requests answered from the generation cache are logged as cache hits, which
+ * make no model call and do not count against the limits.
+ *
+ * Only the service role may reserve and settle quota, so `reserve`, `reserveCacheHit` and `settle` need a
+ * service-role client.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AIQuotaPlan,
+  AIUsageHistoryItem,
+  AIUsageHistoryResponse,
+  AIUsageResponse,
+  GenerationOutcome,
+  QuotaReservation,
+} from "../../types";
+import { ErrorCodes, ValidationConstraints } from "../../types";
+import {
+  DEFAULT_TIME_ZONE,
+  getDayWindow,
+  getMonthWindow,
+  isValidTimeZone,
+  type TimeWindow,
+} from "../quota/time-windows";
+import type { UsageLogFields } from "../llm/usage-tracker";
+import type { PaginationQueryInput } from "../validation/common.schemas";
+
+/**
+ * Plan of users when the database has no quota plan configured
+ */
+const FALLBACK_PLAN: AIQuotaPlan = {
+  name: "default",
+  daily_limit: ValidationConstraints.aiGeneration.dailyCardLimit,
+  monthly_limit: null,
+  timezone: DEFAULT_TIME_ZONE,
+};
+
+/**
+ * Cards charged against the daily and monthly limits by a set of usage log rows (or their totals).
+ * Each refinement costs 1 / `refinementsPerCard` of a card; the total is rounded down. Cache hits are free.
+ */
+export function countUsedCards(
+  logs: { cards_count: number; refinements_count?: number; cache_hit?: boolean }[]
+): number {
+  const charged = logs.filter((log) => !log.cache_hit);
+  const cards = charged.reduce((sum, log) => sum + log.cards_count, 0);
+  const refinements = charged.reduce((sum, log) => sum + (log.refinements_count ?? 0), 0);
+
+  return cards + Math.floor(refinements / ValidationConstraints.aiGeneration.refinementsPerCard);
+}
+
+/**
+ * Result of a reserved request, recorded on its usage log row
+ */
+export interface QuotaSettlement extends Partial<UsageLogFields> {
+  /** Cards actually produced; anything above the reservation is ignored */
+  cards_count: number;
+  refinements_count: number;
+  outcome: Exclude<GenerationOutcome, "pending">;
+  error_message?: string;
+}
+
+/**
+ * Custom error class for AI usage failures
+ */
+export class AIUsageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "AIUsageError";
+  }
+}
+
+export class AIUsageService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Usage of the user's quota in the current local day and month.
+   * The single implementation behind GET /api/ai/usage and the limit check before each generation.
+   */
+  async getUsage(): Promise<AIUsageResponse> {
+    const now = new Date();
+    const plan = await this.getPlan();
+    const day = getDayWindow(now, plan.timezone);
+    const month = plan.monthly_limit !== null ? getMonthWindow(now, plan.timezone) : null;
+
+    const today = await this.getTotals(day);
+    const usedToday = countUsedCards([today]);
+    const usedThisMonth = month ? countUsedCards([await this.getTotals(month)]) : null;
+
+    const remainingToday = plan.daily_limit - usedToday;
+    const remainingThisMonth =
+      plan.monthly_limit !== null && usedThisMonth !== null ? plan.monthly_limit - usedThisMonth : Infinity;
+
+    return {
+      plan,
+      daily_limit: plan.daily_limit,
+      used_today: usedToday,
+      remaining: Math.max(0, Math.min(remainingToday, remainingThisMonth)),
+      reset_at: day.end.toISOString(),
+      monthly_limit: plan.monthly_limit,
+      used_this_month: usedThisMonth,
+      monthly_reset_at: month ? month.end.toISOString() : null,
+      prompt_tokens_today: today.prompt_tokens,
+      completion_tokens_today: today.completion_tokens,
+      cost_today: today.cost,
+    };
+  }
+
+  /**
+   * Reserve up to `cards` cards and `refinements` refinements for a request before calling the model.
+   * The check and the reservation are one atomic step in the database, serialized per user.
+   * @returns The reservation, capped at what is left of the limits, or null when nothing is left
+   */
+  async reserve(deckId: number, cards: number, refinements = 0): Promise<QuotaReservation | null> {
+    const { data, error } = await this.supabase
+      .rpc("reserve_ai_quota", {
+        p_user_id: this.userId,
+        p_deck_id: deckId,
+        p_cards: cards,
+        p_refinements: refinements,
+      })
+      .maybeSingle();
+
+    if (error) {
+      throw new AIUsageError("Failed to reserve AI quota", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data || data.log_id === null) {
+      return null;
+    }
+
+    return { logId: data.log_id, cards: data.cards_granted };
+  }
+
+  /**
+   * Log a request answered from the generation cache, as a reservation of the cards it serves.
+   * Cache hits skip the limits, so the reservation is never refused; settle it like any other.
+   */
+  async reserveCacheHit(deckId: number, cards: number): Promise<QuotaReservation> {
+    const { data, error } = await this.supabase
+      .rpc("reserve_ai_quota", {
+        p_user_id: this.userId,
+        p_deck_id: deckId,
+        p_cards: cards,
+        p_cache_hit: true,
+      })
+      .maybeSingle();
+
+    if (error || !data || data.log_id === null) {
+      throw new AIUsageError("Failed to log the cached generation", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return { logId: data.log_id, cards: data.cards_granted };
+  }
+
+  /**
+   * Record the result of a reserved request; the unused part of the reservation is refunded.
+   * Settling can only lower the reserved counts, and a reservation is settled once.
+   */
+  async settle(reservation: QuotaReservation, result: QuotaSettlement): Promise<void> {
+    const { error } = await this.supabase.rpc("settle_ai_quota", {
+      p_user_id: this.userId,
+      p_log_id: reservation.logId,
+      p_cards_count: result.cards_count,
+      p_refinements_count: result.refinements_count,
+      p_outcome: result.outcome,
+      p_model: result.model ?? undefined,
+      p_prompt_tokens: result.prompt_tokens,
+      p_completion_tokens: result.completion_tokens,
+      p_cost: result.cost ?? undefined,
+      p_latency_ms: result.latency_ms ?? undefined,
+      p_error_message: result.error_message,
+      p_prompt_version: result.prompt_version ?? undefined,
+    });
+
+    if (error) {
+      throw new AIUsageError("Failed to settle AI quota reservation", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+  }
+
+  /**
+   * List the user's logged AI calls, most recent first
+   */
+  async listHistory(params: PaginationQueryInput): Promise<AIUsageHistoryResponse> {
+    const { limit, offset } = params;
+
+    const { data, error, count } = await this.supabase
+      .from("ai_generation_logs")
+      .select("*, decks(name)", { count: "exact" })
+      .eq("user_id", this.userId)
+      .order("generated_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new AIUsageError("Failed to fetch AI usage history", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const logs = (data || []).map(({ decks, ...log }) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { user_id, ...rest } = log;
+      return {
+        ...rest,
+        outcome: log.outcome as GenerationOutcome,
+        deck_name: decks?.name ?? null,
+      } satisfies AIUsageHistoryItem;
+    });
+    const total = count ?? 0;
+
+    return {
+      logs,
+      pagination: {
+        total,
+        limit,
+        offset,
+        has_more: offset + logs.length < total,
+      },
+    };
+  }
+
+  /**
+   * The user's effective quota plan; an unknown stored time zone falls back to UTC
+   */
+  private async getPlan(): Promise<AIQuotaPlan> {
+    const { data, error } = await this.supabase.rpc("get_ai_quota_plan", { p_user_id: this.userId }).maybeSingle();
+
+    if (error) {
+      throw new AIUsageError("Failed to fetch the AI quota plan", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      return FALLBACK_PLAN;
+    }
+
+    return {
+      name: data.plan_name,
+      daily_limit: data.daily_card_limit,
+      monthly_limit: data.monthly_card_limit,
+      timezone: isValidTimeZone(data.timezone) ? data.timezone : DEFAULT_TIME_ZONE,
+    };
+  }
+
+  /**
+   * The user's usage within a window, summed in the database; cards and refinements leave out cache hits
+   */
+  private async getTotals(window: TimeWindow) {
+    const { data, error } = await this.supabase
+      .rpc("get_ai_usage_totals", {
+        p_user_id: this.userId,
+        p_from: window.start.toISOString(),
+        p_to: window.end.toISOString(),
+      })
+      .maybeSingle();
+
+    if (error) {
+      throw new AIUsageError("Failed to fetch usage data", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data ?? { cards_count: 0, refinements_count: 0, prompt_tokens: 0, completion_tokens: 0, cost: null };
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Deck Service
+ * Handles deck CRUD operations and per-deck card statistics
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Deck, DeckDetail, DeckSummary, ListDecksResponse, UpdateDeckResponse } from "../../types";
+import { ErrorCodes } from "../../types";
+import type { ListDecksQueryInput } from "../validation/deck.schemas";
+
+/**
+ * Postgres error code for unique constraint violations
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Custom error class for deck operation failures
+ */
+export class DeckServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "DeckServiceError";
+  }
+}
+
+interface DeckCardCounts {
+  cards_count: number;
+  cards_due_today: number;
+  cards_new: number;
+  cards_learning: number;
+}
+
+/**
+ * Service for managing decks owned by a user
+ */
+export class DeckService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * List the user's decks with card counts
+   */
+  async listDecks(params: ListDecksQueryInput): Promise<ListDecksResponse> {
+    const { limit, offset, sort, order } = params;
+
+    const { data, error, count } = await this.supabase
+      .from("decks")
+      .select("*", { count: "exact" })
+      .eq("user_id", this.userId)
+      .order(sort, { ascending: order === "asc" })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DeckServiceError("Failed to fetch decks", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const decks = data || [];
+    const counts = await this.getCardCounts(decks.map((deck) => deck.id));
+    const total = count ?? 0;
+
+    return {
+      decks: decks.map((deck) => this.toSummary(deck, counts.get(deck.id))),
+      pagination: {
+        total,
+        limit,
+        offset,
+        has_more: offset + decks.length < total,
+      },
+    };
+  }
+
+  /**
+   * Get a single deck with detailed card counts
+   * @throws DeckServiceError if deck not found or doesn't belong to user
+   */
+  async getDeck(deckId: number): Promise<DeckDetail> {
+    const deck = await this.findOwnedDeck(deckId);
+    const counts = (await this.getCardCounts([deck.id])).get(deck.id) ?? this.emptyCounts();
+
+    return {
+      ...this.toSummary(deck, counts),
+      cards_new: counts.cards_new,
+      cards_learning: counts.cards_learning,
+    };
+  }
+
+  /**
+   * Create a new deck
+   * @throws DeckServiceError if a deck with the same name already exists
+   */
+  async createDeck(name: string): Promise<DeckSummary> {
+    const { data, error } = await this.supabase.from("decks").insert({ user_id: this.userId, name }).select().single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new DeckServiceError("A deck with this name already exists", ErrorCodes.DECK_EXISTS, 409, { name });
+    }
+
+    if (error || !data) {
+      throw new DeckServiceError("Failed to create deck", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return this.toSummary(data);
+  }
+
+  /**
+   * Rename a deck
+   * @throws DeckServiceError if deck not found or the new name is already taken
+   */
+  async updateDeck(deckId: number, name: string): Promise<UpdateDeckResponse["deck"]> {
+    await this.findOwnedDeck(deckId);
+
+    const { data, error } = await this.supabase
+      .from("decks")
+      .update({ name })
+      .eq("id", deckId)
+      .eq("user_id", this.userId)
+      .select("id, name, updated_at")
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new DeckServiceError("A deck with this name already exists", ErrorCodes.DECK_EXISTS, 409, { name });
+    }
+
+    if (error || !data) {
+      throw new DeckServiceError("Failed to update deck", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a deck (flashcards and sessions are removed by cascade)
+   * @throws DeckServiceError if deck not found
+   */
+  async deleteDeck(deckId: number): Promise<void> {
+    await this.findOwnedDeck(deckId);
+
+    const { error } = await this.supabase.from("decks").delete().eq("id", deckId).eq("user_id", this.userId);
+
+    if (error) {
+      throw new DeckServiceError("Failed to delete deck", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+  }
+
+  /**
+   * Fetch a deck and verify that it belongs to the user
+   * @throws DeckServiceError if deck not found or doesn't belong to user
+   */
+  async findOwnedDeck(deckId: number): Promise<Deck> {
+    const { data, error } = await this.supabase
+      .from("decks")
+      .select("*")
+      .eq("id", deckId)
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DeckServiceError("Failed to fetch deck", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      throw new DeckServiceError("Deck not found", ErrorCodes.NOT_FOUND, 404, { deck_id: deckId });
+    }
+
+    return data;
+  }
+
+  /**
+   * Count cards per deck. Drafts are excluded until they are accepted.
+   */
+  private async getCardCounts(deckIds: number[]): Promise<Map<number, DeckCardCounts>> {
+    const counts = new Map<number, DeckCardCounts>();
+
+    if (deckIds.length === 0) {
+      return counts;
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+
+    // Counted in the database, one row per deck with cards
+    const { data, error } = await this.supabase.rpc("get_deck_card_counts", { p_deck_ids: deckIds, p_today: today });
+
+    if (error) {
+      throw new DeckServiceError("Failed to count flashcards", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    for (const { deck_id, ...deckCounts } of data || []) {
+      counts.set(deck_id, deckCounts);
+    }
+
+    return counts;
+  }
+
+  private emptyCounts(): DeckCardCounts {
+    return { cards_count: 0, cards_due_today: 0, cards_new: 0, cards_learning: 0 };
+  }
+
+  private toSummary(deck: Deck, counts: DeckCardCounts = this.emptyCounts()): DeckSummary {
+    return {
+      id: deck.id,
+      name: deck.name,
+      created_at: deck.created_at,
+      updated_at: deck.updated_at,
+      cards_count: counts.cards_count,
+      cards_due_today: counts.cards_due_today,
+    };
+  }
+}
@@ -0,0 +1,463 @@
+/**
+ * Flashcard Service
+ * Handles reading, bulk creating, editing and deleting flashcards, and the draft review workflow
+ * (AI drafts are accepted or rejected in place, and each decision is recorded for acceptance tracking).
+ * Ownership is enforced by RLS on the user's Supabase client; deck lookups add an explicit owner check.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AcceptDraftResponse,
+  BulkCreateFlashcardsResponse,
+  BulkFlashcardError,
+  BulkFlashcardItem,
+  FlashcardDetail,
+  FlashcardInsert,
+  FlashcardSource,
+  FlashcardSourceResponse,
+  ListDraftsResponse,
+  ListFlashcardsResponse,
+  UpdateFlashcardResponse,
+} from "../../types";
+import { ErrorCodes, ValidationConstraints } from "../../types";
+import {
+  BulkFlashcardItemSchema,
+  type ListFlashcardsQueryInput,
+  type UpdateFlashcardRequestInput,
+} from "../validation/flashcard.schemas";
+import type { PaginationQueryInput } from "../validation/common.schemas";
+import { excerptSource, toSourceSpan } from "../generation/provenance";
+import { AIAcceptanceService, type ReviewedCard } from "./ai-acceptance.service";
+
+/**
+ * Columns of a draft needed to record what the user decided about it
+ */
+const REVIEW_COLUMNS = "front, back, generation_id, generated_front, generated_back";
+
+/**
+ * Custom error class for flashcard operation failures
+ */
+export class FlashcardServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "FlashcardServiceError";
+  }
+}
+
+/**
+ * Service for managing flashcards in the user's decks
+ */
+export class FlashcardService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * List flashcards in a deck with optional status filter
+   * @throws FlashcardServiceError if deck not found or doesn't belong to user
+   */
+  async listDeckFlashcards(deckId: number, params: ListFlashcardsQueryInput): Promise<ListFlashcardsResponse> {
+    await this.verifyDeckOwnership(deckId);
+
+    const { limit, offset, status, sort, order } = params;
+
+    let query = this.supabase.from("flashcards").select("*", { count: "exact" }).eq("deck_id", deckId);
+
+    if (status && status.length > 0) {
+      query = query.in("status", status);
+    }
+
+    const { data, error, count } = await query
+      .order(sort, { ascending: order === "asc" })
+      .order("id", { ascending: order === "asc" })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to fetch flashcards", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const flashcards = data || [];
+    const total = count ?? 0;
+
+    return {
+      flashcards,
+      pagination: {
+        total,
+        limit,
+        offset,
+        has_more: offset + flashcards.length < total,
+      },
+    };
+  }
+
+  /**
+   * Get a single flashcard
+   * @throws FlashcardServiceError if flashcard not found or not visible to the user
+   */
+  async getFlashcard(flashcardId: number): Promise<FlashcardDetail> {
+    const { data, error } = await this.supabase.from("flashcards").select("*").eq("id", flashcardId).maybeSingle();
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to fetch flashcard", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      throw new FlashcardServiceError("Flashcard not found", ErrorCodes.NOT_FOUND, 404, {
+        flashcard_id: flashcardId,
+      });
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the passage of the generation's source text an AI card was derived from, with the text around it
+   * @throws FlashcardServiceError if the flashcard is not found or has no source passage
+   */
+  async getFlashcardSource(flashcardId: number): Promise<FlashcardSourceResponse> {
+    const flashcard = await this.getFlashcard(flashcardId);
+    const span = toSourceSpan(flashcard.source_start, flashcard.source_end);
+
+    const noSource = () =>
+      new FlashcardServiceError("This flashcard has no source passage", ErrorCodes.NOT_FOUND, 404, {
+        flashcard_id: flashcardId,
+      });
+
+    if (flashcard.generation_id === null || !span) {
+      throw noSource();
+    }
+
+    const { data, error } = await this.supabase
+      .from("ai_generation_sources")
+      .select("text")
+      .eq("generation_id", flashcard.generation_id)
+      .maybeSingle();
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to fetch the source text", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      throw noSource();
+    }
+
+    return {
+      flashcard_id: flashcard.id,
+      generation_id: flashcard.generation_id,
+      span,
+      ...excerptSource(data.text, span),
+    };
+  }
+
+  /**
+   * Update a flashcard's front and/or back text
+   * @throws FlashcardServiceError if flashcard not found or not visible to the user
+   */
+  async updateFlashcard(
+    flashcardId: number,
+    changes: UpdateFlashcardRequestInput
+  ): Promise<UpdateFlashcardResponse["flashcard"]> {
+    await this.getFlashcard(flashcardId);
+
+    const { data, error } = await this.supabase
+      .from("flashcards")
+      .update(changes)
+      .eq("id", flashcardId)
+      .select("id, front, back, updated_at")
+      .single();
+
+    if (error || !data) {
+      throw new FlashcardServiceError("Failed to update flashcard", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a flashcard. Deleting a draft rejects it.
+   * @throws FlashcardServiceError if flashcard not found or not visible to the user
+   */
+  async deleteFlashcard(flashcardId: number): Promise<void> {
+    const flashcard = await this.getFlashcard(flashcardId);
+
+    const { error } = await this.supabase.from("flashcards").delete().eq("id", flashcardId);
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to delete flashcard", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (flashcard.status === "draft") {
+      await this.recordDecisions([flashcard], "reject");
+    }
+  }
+
+  /**
+   * Create several flashcards in a single insert statement, so either all valid cards are saved or none are.
+   * Items are validated individually; invalid ones are reported by index. With `atomic` set, any invalid
+   * item rejects the whole request.
+   * @throws FlashcardServiceError if deck not found, validation fails as a whole, or the insert fails
+   */
+  async bulkCreateFlashcards(
+    deckId: number,
+    items: unknown[],
+    options: { source: FlashcardSource; atomic: boolean }
+  ): Promise<BulkCreateFlashcardsResponse> {
+    await this.verifyDeckOwnership(deckId);
+
+    const valid: BulkFlashcardItem[] = [];
+    const failed: BulkFlashcardError[] = [];
+
+    items.forEach((item, index) => {
+      const result = BulkFlashcardItemSchema.safeParse(item);
+
+      if (result.success) {
+        valid.push(result.data);
+        return;
+      }
+
+      const firstError = result.error.errors[0];
+      failed.push({
+        index,
+        flashcard: this.toBulkItem(item),
+        error: {
+          code: ErrorCodes.INVALID_INPUT,
+          message: firstError?.message || "Invalid flashcard",
+          field: firstError?.path.join(".") || undefined,
+        },
+      });
+    });
+
+    if (failed.length === items.length) {
+      throw new FlashcardServiceError("All flashcards failed validation", ErrorCodes.ALL_CARDS_INVALID, 400, failed);
+    }
+
+    if (options.atomic && failed.length > 0) {
+      throw new FlashcardServiceError(
+        `${failed.length} flashcard(s) failed validation; nothing was saved`,
+        ErrorCodes.INVALID_INPUT,
+        400,
+        failed
+      );
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+    const inserts: FlashcardInsert[] = valid.map((card) => ({
+      deck_id: deckId,
+      front: card.front,
+      back: card.back,
+      source: options.source,
+      status: "new",
+      ease_factor: ValidationConstraints.fsrs.defaultEaseFactor,
+      interval: ValidationConstraints.fsrs.defaultInterval,
+      next_review_date: today,
+    }));
+
+    const { data, error } = await this.supabase.from("flashcards").insert(inserts).select();
+
+    if (error || !data) {
+      throw new FlashcardServiceError("Failed to save flashcards", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return {
+      flashcards: data,
+      ...(failed.length > 0 && { failed }),
+      summary: {
+        total_created: data.length,
+        total_failed: failed.length,
+      },
+    };
+  }
+
+  /**
+   * List pending AI drafts of a deck, oldest first (generation order)
+   * @throws FlashcardServiceError if deck not found or doesn't belong to user
+   */
+  async listDrafts(deckId: number, params: PaginationQueryInput): Promise<ListDraftsResponse> {
+    await this.verifyDeckOwnership(deckId);
+
+    const { limit, offset } = params;
+
+    const { data, error, count } = await this.supabase
+      .from("flashcards")
+      .select("*", { count: "exact" })
+      .eq("deck_id", deckId)
+      .eq("status", "draft")
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to fetch drafts", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const drafts = data || [];
+    const total = count ?? 0;
+
+    return {
+      drafts,
+      pagination: {
+        total,
+        limit,
+        offset,
+        has_more: offset + drafts.length < total,
+      },
+    };
+  }
+
+  /**
+   * Accept a draft: it becomes a `new` card due today
+   * @throws FlashcardServiceError if flashcard not found or is not a draft
+   */
+  async acceptDraft(flashcardId: number): Promise<AcceptDraftResponse["flashcard"]> {
+    const draft = await this.getDraft(flashcardId, "accepted");
+
+    const { data, error } = await this.supabase
+      .from("flashcards")
+      .update({ status: "new", next_review_date: new Date().toISOString().split("T")[0] })
+      .eq("id", flashcardId)
+      .eq("status", "draft")
+      .select("id, status, updated_at")
+      .single();
+
+    if (error || !data) {
+      throw new FlashcardServiceError("Failed to accept flashcard", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    await this.recordDecisions([draft], "accept");
+
+    return data;
+  }
+
+  /**
+   * Reject a draft by deleting it
+   * @throws FlashcardServiceError if flashcard not found or is not a draft
+   */
+  async rejectDraft(flashcardId: number): Promise<void> {
+    const draft = await this.getDraft(flashcardId, "rejected");
+
+    const { error } = await this.supabase.from("flashcards").delete().eq("id", flashcardId).eq("status", "draft");
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to reject flashcard", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    await this.recordDecisions([draft], "reject");
+  }
+
+  /**
+   * Accept several drafts of a deck in one statement. IDs that are not drafts of this deck are skipped.
+   * @throws FlashcardServiceError if deck not found or doesn't belong to user
+   */
+  async acceptDrafts(deckId: number, ids: number[]): Promise<AcceptDraftResponse["flashcard"][]> {
+    await this.verifyDeckOwnership(deckId);
+
+    const { data, error } = await this.supabase
+      .from("flashcards")
+      .update({ status: "new", next_review_date: new Date().toISOString().split("T")[0] })
+      .eq("deck_id", deckId)
+      .eq("status", "draft")
+      .in("id", ids)
+      .select(`id, status, updated_at, ${REVIEW_COLUMNS}`);
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to accept flashcards", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const accepted = data || [];
+    await this.recordDecisions(accepted, "accept");
+
+    return accepted.map(({ id, status, updated_at }) => ({ id, status, updated_at }));
+  }
+
+  /**
+   * Reject (delete) several drafts of a deck in one statement. IDs that are not drafts of this deck are skipped.
+   * @throws FlashcardServiceError if deck not found or doesn't belong to user
+   */
+  async rejectDrafts(deckId: number, ids: number[]): Promise<number[]> {
+    await this.verifyDeckOwnership(deckId);
+
+    const { data, error } = await this.supabase
+      .from("flashcards")
+      .delete()
+      .eq("deck_id", deckId)
+      .eq("status", "draft")
+      .in("id", ids)
+      .select(`id, ${REVIEW_COLUMNS}`);
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to reject flashcards", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const rejected = data || [];
+    await this.recordDecisions(rejected, "reject");
+
+    return rejected.map((row) => row.id);
+  }
+
+  /**
+   * Verify that the deck exists and belongs to the user
+   * @throws FlashcardServiceError if deck not found or doesn't belong to user
+   */
+  async verifyDeckOwnership(deckId: number): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("decks")
+      .select("id")
+      .eq("id", deckId)
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new FlashcardServiceError("Failed to fetch deck", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      throw new FlashcardServiceError("Deck not found", ErrorCodes.NOT_FOUND, 404, { deck_id: deckId });
+    }
+  }
+
+  /**
+   * Fetch a flashcard and ensure it is still a draft
+   * @throws FlashcardServiceError if flashcard not found or is not a draft
+   */
+  private async getDraft(flashcardId: number, action: "accepted" | "rejected"): Promise<FlashcardDetail> {
+    const flashcard = await this.getFlashcard(flashcardId);
+
+    if (flashcard.status !== "draft") {
+      throw new FlashcardServiceError(`Only draft flashcards can be ${action}`, ErrorCodes.INVALID_STATUS, 400, {
+        flashcard_id: flashcardId,
+        status: flashcard.status,
+      });
+    }
+
+    return flashcard;
+  }
+
+  /**
+   * Record what the user decided about AI drafts, for the acceptance report.
+   * The drafts are already accepted or rejected, so a failure only leaves them out of the metric.
+   */
+  private async recordDecisions(cards: ReviewedCard[], action: "accept" | "reject"): Promise<void> {
+    try {
+      await new AIAcceptanceService(this.supabase, this.userId).recordDecisions(cards, action);
+    } catch {
+      // In production, this should use proper logging service
+    }
+  }
+
+  /**
+   * Echo back a rejected bulk item in the response shape, whatever the client sent
+   */
+  private toBulkItem(item: unknown): BulkFlashcardItem {
+    const record = typeof item === "object" && item !== null ? (item as Record<string, unknown>) : {};
+    return {
+      front: typeof record.front === "string" ? record.front : "",
+      back: typeof record.back === "string" ? record.back : "",
+    };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Password Service
+ * Sets a new password from a password reset link.
+ *
+ * Supabase lets any session change its password without the old one (`secure_password_change` is off),
+ * so the change is only accepted from a session the reset link created: its access token names the
+ * `recovery` authentication method, and the recovery must be recent. A stolen cookie or an unattended
+ * browser of an ordinary login cannot change the password.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import { ErrorCodes } from "../../types";
+
+/**
+ * How long after following the reset link the password can be set, in seconds; matches `otp_expiry`
+ */
+const RECOVERY_MAX_AGE_SECONDS = 60 * 60;
+
+/**
+ * Custom error class for password change failures
+ */
+export class PasswordServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "PasswordServiceError";
+  }
+}
+
+export class PasswordService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Set a new password for the user of a recovery session, then end the session so they log in with it
+   * @throws PasswordServiceError if there is no session (401), it was not created by a recent reset link
+   * (403), the password is rejected (400) or cannot be saved (500)
+   */
+  async updatePassword(password: string): Promise<void> {
+    await this.assertRecoverySession();
+
+    const { error } = await this.supabase.auth.updateUser({ password });
+
+    // Supabase rejects reusing the current password and passwords that fail its own policy
+    if (error?.code === "same_password" || error?.code === "weak_password") {
+      throw new PasswordServiceError(
+        error.code === "same_password"
+          ? "New password must be different from the old one"
+          : "Password does not meet requirements",
+        ErrorCodes.INVALID_INPUT,
+        400
+      );
+    }
+
+    if (error) {
+      throw new PasswordServiceError(
+        "Failed to update password. Please try again.",
+        ErrorCodes.INTERNAL_ERROR,
+        500,
+        error
+      );
+    }
+
+    await this.supabase.auth.signOut();
+  }
+
+  /**
+   * @throws PasswordServiceError unless the session was created by a reset link in the last hour
+   */
+  private async assertRecoverySession(): Promise<void> {
+    const { data, error } = await this.supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (error || !data || data.currentLevel === null) {
+      throw new PasswordServiceError(
+        "Password reset link is invalid or has expired. Please request a new one.",
+        ErrorCodes.INVALID_TOKEN,
+        401
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const recovered = data.currentAuthenticationMethods.some(
+      (entry) => entry.method === "recovery" && now - entry.timestamp <= RECOVERY_MAX_AGE_SECONDS
+    );
+
+    if (!recovered) {
+      throw new PasswordServiceError(
+        "The password can only be changed from a password reset link. Please request a new one.",
+        ErrorCodes.FORBIDDEN,
+        403
+      );
+    }
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Settings Service
+ * Handles the user's scheduling settings: desired retention, FSRS weights fitted to their review history
+ * and the time zone that days (and the AI quota) are counted in.
+ * A user without a settings row gets the defaults; the row is created on the first change.
+ * The time zone may change once per `timezoneChangeCooldownDays`: moving it moves the start of the quota day.
+ *
+ * Weights are fitted in the background: starting an optimization records a run the client polls, and the run
+ * saves the weights and its outcome once the fit is done. A user may start one run per
+ * `optimizerCooldownMinutes`.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  FsrsOptimizationRun,
+  FsrsOptimizationRunResponse,
+  FsrsOptimizationStatus,
+  OptimizeSchedulingResponse,
+  ReviewGrade,
+  SchedulingSettings,
+} from "../../types";
+import { ErrorCodes, ValidationConstraints } from "../../types";
+import { FSRS_DEFAULT_WEIGHTS, isValidWeights, type FsrsParameters } from "../scheduling/fsrs";
+import { DEFAULT_TIME_ZONE } from "../quota/time-windows";
+import { countFittedReviews, optimizeWeights, type FsrsReviewLog } from "../scheduling/fsrs-optimizer";
+
+/**
+ * Custom error class for settings operation failures
+ */
+export class SettingsServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "SettingsServiceError";
+  }
+}
+
+/**
+ * Rows per request when reading the review history; PostgREST returns at most `max_rows` (1000) at a time
+ */
+const REVIEW_PAGE_SIZE = 1000;
+
+/**
+ * An optimization started, and the work that fits the weights and records the run's outcome
+ */
+export interface FsrsOptimizationStart extends OptimizeSchedulingResponse {
+  optimization: FsrsOptimizationRunResponse;
+  /** Never rejects: a failure is recorded on the run */
+  run: () => Promise<void>;
+}
+
+/**
+ * SQLSTATE raised by limit_time_zone_changes() for a time zone change within the cooldown
+ */
+const TIME_ZONE_CHANGE_LIMITED = "55000";
+
+const SETTINGS_COLUMNS =
+  "desired_retention, fsrs_weights, weights_optimized_at, optimized_review_count, timezone, timezone_changed_at";
+
+const DEFAULT_SETTINGS: SchedulingSettings = {
+  desired_retention: ValidationConstraints.fsrs.desiredRetentionDefault,
+  fsrs_weights: null,
+  weights_optimized_at: null,
+  optimized_review_count: 0,
+  timezone: DEFAULT_TIME_ZONE,
+  timezone_changed_at: null,
+};
+
+/**
+ * Service for managing the user's scheduling settings
+ */
+export class SettingsService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Get the user's scheduling settings, or the defaults if none were saved
+   */
+  async getSettings(): Promise<SchedulingSettings> {
+    const { data, error } = await this.supabase
+      .from("user_settings")
+      .select(SETTINGS_COLUMNS)
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new SettingsServiceError("Failed to fetch settings", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data ?? DEFAULT_SETTINGS;
+  }
+
+  /**
+   * Get the FSRS parameters used to schedule the user's reviews
+   */
+  async getFsrsParameters(): Promise<FsrsParameters> {
+    const settings = await this.getSettings();
+
+    return {
+      weights: isValidWeights(settings.fsrs_weights) ? settings.fsrs_weights : FSRS_DEFAULT_WEIGHTS,
+      desiredRetention: settings.desired_retention,
+    };
+  }
+
+  /**
+   * Update the desired retention and/or the time zone
+   * @throws SettingsServiceError if the time zone changes again within `timezoneChangeCooldownDays`
+   */
+  async updateSettings(changes: { desired_retention?: number; timezone?: string }): Promise<SchedulingSettings> {
+    // Checked here for the retry time; the database enforces the limit
+    if (changes.timezone !== undefined) {
+      const current = await this.getSettings();
+      const retryAt = this.timeZoneRetryAt(current);
+
+      if (changes.timezone !== current.timezone && retryAt && retryAt > new Date()) {
+        throw this.timeZoneChangeLimited(retryAt);
+      }
+    }
+
+    return this.saveSettings(changes);
+  }
+
+  /**
+   * The user's settings and their latest optimization run, for polling a run
+   */
+  async getOptimization(): Promise<OptimizeSchedulingResponse> {
+    const [settings, latest] = await Promise.all([this.getSettings(), this.getLatestRun()]);
+
+    return { settings, optimization: latest ? this.toRunResponse(latest) : null };
+  }
+
+  /**
+   * Start fitting FSRS weights to the user's review history. The fit starts from the current weights, so
+   * repeated runs refine rather than restart; the caller runs it in the background.
+   * @throws SettingsServiceError if the last run started too recently or the history is too short to fit
+   */
+  async startFsrsOptimization(): Promise<FsrsOptimizationStart> {
+    const { optimizerMinReviews } = ValidationConstraints.fsrs;
+
+    // Checked here so a refused request does not read the history; the database checks it again atomically
+    const latest = await this.getLatestRun();
+    if (latest && this.retryAt(latest) > new Date()) {
+      throw this.rateLimited(latest);
+    }
+
+    const parameters = await this.getFsrsParameters();
+    const logs = await this.getReviewHistory();
+    const reviewCount = countFittedReviews(logs);
+
+    if (reviewCount < optimizerMinReviews) {
+      throw new SettingsServiceError(
+        `At least ${optimizerMinReviews} repeat reviews are needed to optimize scheduling`,
+        ErrorCodes.INSUFFICIENT_HISTORY,
+        422,
+        { review_count: reviewCount, required: optimizerMinReviews }
+      );
+    }
+
+    const { data: runId, error } = await this.supabase.rpc("start_fsrs_optimization");
+
+    if (error) {
+      throw new SettingsServiceError("Failed to start the optimization", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    // A parallel request started a run since the check above
+    if (runId === null) {
+      const started = await this.getLatestRun();
+      throw this.rateLimited(started ?? undefined);
+    }
+
+    const { settings, optimization } = await this.getOptimization();
+    if (!optimization || optimization.id !== runId) {
+      throw new SettingsServiceError("Failed to start the optimization", ErrorCodes.INTERNAL_ERROR, 500);
+    }
+
+    return { settings, optimization, run: () => this.runOptimization(runId, logs, parameters.weights) };
+  }
+
+  /**
+   * Fit the weights, save them and record the outcome on the run
+   */
+  private async runOptimization(runId: number, logs: FsrsReviewLog[], weights: readonly number[]): Promise<void> {
+    try {
+      const result = await optimizeWeights(logs, { initialWeights: weights });
+
+      await this.saveSettings({
+        fsrs_weights: result.weights,
+        weights_optimized_at: new Date().toISOString(),
+        optimized_review_count: result.review_count,
+      });
+
+      await this.finishRun(runId, "succeeded", {
+        p_review_count: result.review_count,
+        p_loss_before: result.loss_before,
+        p_loss_after: result.loss_after,
+      });
+    } catch (error) {
+      await this.finishRun(runId, "failed", {
+        p_error_message: error instanceof Error ? error.message : "Unknown error",
+      }).catch(() => {
+        // In production, this should use proper logging service; the run is reported as lost once the
+        // next one may start
+      });
+    }
+  }
+
+  /**
+   * Record the outcome of a running run
+   */
+  private async finishRun(
+    runId: number,
+    status: Exclude<FsrsOptimizationStatus, "running">,
+    outcome: { p_review_count?: number; p_loss_before?: number; p_loss_after?: number; p_error_message?: string }
+  ): Promise<void> {
+    const { error } = await this.supabase.rpc("finish_fsrs_optimization", {
+      p_run_id: runId,
+      p_status: status,
+      ...outcome,
+    });
+
+    if (error) {
+      throw new SettingsServiceError("Failed to record the optimization", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+  }
+
+  /**
+   * The user's most recently started optimization run, or null if there is none
+   */
+  private async getLatestRun(): Promise<FsrsOptimizationRun | null> {
+    const { data, error } = await this.supabase
+      .from("fsrs_optimization_runs")
+      .select("*")
+      .eq("user_id", this.userId)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new SettingsServiceError("Failed to fetch the optimization", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data;
+  }
+
+  /**
+   * When the user may start the next run
+   */
+  private retryAt(run: FsrsOptimizationRun): Date {
+    const { optimizerCooldownMinutes } = ValidationConstraints.fsrs;
+
+    return new Date(Date.parse(run.started_at) + optimizerCooldownMinutes * 60 * 1000);
+  }
+
+  /**
+   * The error for a start refused because the last run started too recently
+   */
+  private rateLimited(run?: FsrsOptimizationRun): SettingsServiceError {
+    const { optimizerCooldownMinutes } = ValidationConstraints.fsrs;
+
+    return new SettingsServiceError(
+      `Scheduling can be optimized once every ${optimizerCooldownMinutes} minutes`,
+      ErrorCodes.RATE_LIMIT_EXCEEDED,
+      429,
+      run ? { retry_at: this.retryAt(run).toISOString() } : undefined
+    );
+  }
+
+  /**
+   * When the user may change the time zone again, or null if they never changed it
+   */
+  private timeZoneRetryAt(settings: SchedulingSettings): Date | null {
+    const { timezoneChangeCooldownDays } = ValidationConstraints.settings;
+
+    if (!settings.timezone_changed_at) {
+      return null;
+    }
+
+    return new Date(Date.parse(settings.timezone_changed_at) + timezoneChangeCooldownDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * The error for a time zone change refused because the last one was too recent
+   */
+  private timeZoneChangeLimited(retryAt?: Date): SettingsServiceError {
+    const { timezoneChangeCooldownDays } = ValidationConstraints.settings;
+
+    return new SettingsServiceError(
+      `The time zone can be changed once every ${timezoneChangeCooldownDays} days`,
+      ErrorCodes.RATE_LIMIT_EXCEEDED,
+      429,
+      retryAt ? { retry_at: retryAt.toISOString() } : undefined
+    );
+  }
+
+  /**
+   * A run still running once the next one may start was lost with its server; the fit takes seconds
+   */
+  private toRunResponse(run: FsrsOptimizationRun): FsrsOptimizationRunResponse {
+    const lost = run.status === "running" && this.retryAt(run) <= new Date();
+
+    return {
+      id: run.id,
+      status: lost ? "failed" : (run.status as FsrsOptimizationStatus),
+      review_count: run.review_count,
+      loss_before: run.loss_before,
+      loss_after: run.loss_after,
+      error_message: lost ? "The optimization was interrupted" : run.error_message,
+      started_at: run.started_at,
+      finished_at: run.finished_at,
+    };
+  }
+
+  /**
+   * The whole review histories of the user's newest cards, up to `optimizerMaxReviews` reviews in total.
+   * Reviews are read card by card, so the card cut off by the limit can be left out rather than fitted on
+   * part of its history.
+   */
+  private async getReviewHistory(): Promise<FsrsReviewLog[]> {
+    const { optimizerMaxReviews } = ValidationConstraints.fsrs;
+    const logs: FsrsReviewLog[] = [];
+
+    // one row past the limit shows whether the last card's history goes on
+    for (let offset = 0; offset <= optimizerMaxReviews; offset += REVIEW_PAGE_SIZE) {
+      const to = Math.min(offset + REVIEW_PAGE_SIZE, optimizerMaxReviews + 1) - 1;
+
+      // RLS limits performance records to the user's own sessions
+      const { data, error } = await this.supabase
+        .from("flashcard_performance")
+        .select("flashcard_id, grade, reviewed_at")
+        .order("flashcard_id", { ascending: false })
+        .order("reviewed_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, to);
+
+      if (error) {
+        throw new SettingsServiceError("Failed to fetch review history", ErrorCodes.INTERNAL_ERROR, 500, error);
+      }
+
+      logs.push(...(data || []).map((row) => ({ ...row, grade: row.grade as ReviewGrade })));
+
+      if (!data || data.length <= to - offset) {
+        return logs;
+      }
+    }
+
+    const cutOff = logs[optimizerMaxReviews].flashcard_id;
+    return logs.slice(0, optimizerMaxReviews).filter((log) => log.flashcard_id !== cutOff);
+  }
+
+  /**
+   * Create or update the user's settings row
+   */
+  private async saveSettings(changes: Partial<SchedulingSettings>): Promise<SchedulingSettings> {
+    const { data, error } = await this.supabase
+      .from("user_settings")
+      .upsert({ user_id: this.userId, ...changes }, { onConflict: "user_id" })
+      .select(SETTINGS_COLUMNS)
+      .single();
+
+    // A parallel request changed the time zone since it was checked
+    if (error?.code === TIME_ZONE_CHANGE_LIMITED) {
+      throw this.timeZoneChangeLimited();
+    }
+
+    if (error || !data) {
+      throw new SettingsServiceError("Failed to save settings", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data;
+  }
+}
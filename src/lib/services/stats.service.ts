@@ -0,0 +1,242 @@
+/**
+ * Stats Service
+ * Aggregates card, study and AI usage statistics for a deck or for the whole account
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { CardStats, DeckStatsResponse, OverviewStatsResponse, StudyStats } from "../../types";
+import { ErrorCodes } from "../../types";
+import { AIUsageService } from "./ai-usage.service";
+import { CORRECT_GRADES, STUDY_STATUSES } from "./study.service";
+
+/**
+ * Custom error class for statistics failures
+ */
+export class StatsServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "StatsServiceError";
+  }
+}
+
+interface ReviewCounts {
+  total: number;
+  correct: number;
+}
+
+/**
+ * Service for computing the user's learning statistics
+ */
+export class StatsService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Get card and study statistics for a single deck
+   * @throws StatsServiceError if deck not found or doesn't belong to user
+   */
+  async getDeckStats(deckId: number): Promise<DeckStatsResponse> {
+    const { data: deck, error } = await this.supabase
+      .from("decks")
+      .select("id, name")
+      .eq("id", deckId)
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new StatsServiceError("Failed to fetch deck", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!deck) {
+      throw new StatsServiceError("Deck not found", ErrorCodes.NOT_FOUND, 404, { deck_id: deckId });
+    }
+
+    const [cards, sessions, reviews] = await Promise.all([
+      this.getCardStats(deck.id),
+      this.supabase
+        .from("study_sessions")
+        .select("started_at", { count: "exact" })
+        .eq("deck_id", deck.id)
+        .eq("user_id", this.userId)
+        .order("started_at", { ascending: false })
+        .limit(1),
+      this.getReviewCounts(deck.id),
+    ]);
+
+    if (sessions.error) {
+      throw new StatsServiceError("Failed to fetch study sessions", ErrorCodes.INTERNAL_ERROR, 500, sessions.error);
+    }
+
+    const study: StudyStats = {
+      total_sessions: sessions.count ?? 0,
+      total_cards_reviewed: reviews.total,
+      average_accuracy: this.accuracy(reviews),
+      last_studied_at: sessions.data?.[0]?.started_at ?? null,
+    };
+
+    return { deck, cards, study };
+  }
+
+  /**
+   * Get statistics across all of the user's decks, including AI usage
+   */
+  async getOverviewStats(): Promise<OverviewStatsResponse> {
+    const [decks, cards, sessions, reviews, generated, usage] = await Promise.all([
+      this.supabase.from("decks").select("id", { count: "exact", head: true }).eq("user_id", this.userId),
+      this.getCardStats(),
+      // Counted in full; the streak only needs the most recent sessions that are returned
+      this.supabase
+        .from("study_sessions")
+        .select("started_at, cards_reviewed", { count: "exact" })
+        .eq("user_id", this.userId)
+        .order("started_at", { ascending: false }),
+      this.getReviewCounts(),
+      this.supabase.rpc("get_ai_cards_generated_total"),
+      // The daily limit of the user's plan, counted in their time zone
+      new AIUsageService(this.supabase, this.userId).getUsage().catch((error: unknown) => {
+        throw new StatsServiceError("Failed to fetch AI usage", ErrorCodes.INTERNAL_ERROR, 500, error);
+      }),
+    ]);
+
+    if (decks.error) {
+      throw new StatsServiceError("Failed to count decks", ErrorCodes.INTERNAL_ERROR, 500, decks.error);
+    }
+
+    if (sessions.error) {
+      throw new StatsServiceError("Failed to fetch study sessions", ErrorCodes.INTERNAL_ERROR, 500, sessions.error);
+    }
+
+    if (generated.error) {
+      throw new StatsServiceError("Failed to fetch AI usage", ErrorCodes.INTERNAL_ERROR, 500, generated.error);
+    }
+
+    const studiedDays = (sessions.data || [])
+      .filter((session) => session.cards_reviewed > 0)
+      .map((session) => session.started_at.split("T")[0]);
+
+    return {
+      decks: { total: decks.count ?? 0 },
+      cards: { total: cards.total, due_today: cards.due_today },
+      study: {
+        total_sessions: sessions.count ?? 0,
+        total_cards_reviewed: reviews.total,
+        average_accuracy: this.accuracy(reviews),
+        current_streak_days: this.countStreakDays(studiedDays),
+      },
+      ai: {
+        cards_generated_total: generated.data ?? 0,
+        daily_limit: usage.daily_limit,
+        used_today: usage.used_today,
+      },
+    };
+  }
+
+  /**
+   * Count the user's cards by status and those due today, optionally within one deck.
+   * Drafts are excluded until they are accepted.
+   */
+  private async getCardStats(deckId?: number): Promise<CardStats> {
+    const today = new Date().toISOString().split("T")[0];
+
+    const countCards = (status?: string, dueBy?: string) => {
+      let query = this.supabase
+        .from("flashcards")
+        .select("id, decks!inner(user_id)", { count: "exact", head: true })
+        .eq("decks.user_id", this.userId)
+        .neq("status", "draft");
+
+      if (deckId !== undefined) {
+        query = query.eq("deck_id", deckId);
+      }
+
+      if (status) {
+        query = query.eq("status", status);
+      }
+
+      return dueBy ? query.in("status", STUDY_STATUSES).lte("next_review_date", dueBy) : query;
+    };
+
+    const counts = await Promise.all([
+      countCards(),
+      countCards("new"),
+      countCards("finalized"),
+      countCards(undefined, today),
+    ]);
+    const failed = counts.find((count) => count.error);
+
+    if (failed) {
+      throw new StatsServiceError("Failed to count flashcards", ErrorCodes.INTERNAL_ERROR, 500, failed.error);
+    }
+
+    const [total, fresh, learning, due] = counts.map((count) => count.count ?? 0);
+
+    return { total, new: fresh, learning, due_today: due };
+  }
+
+  /**
+   * Count the user's reviews and the good/easy ones among them, optionally within one deck
+   */
+  private async getReviewCounts(deckId?: number): Promise<ReviewCounts> {
+    const countReviews = (correctOnly: boolean) => {
+      let query = this.supabase
+        .from("flashcard_performance")
+        .select("id, study_sessions!inner(user_id, deck_id)", { count: "exact", head: true })
+        .eq("study_sessions.user_id", this.userId);
+
+      if (deckId !== undefined) {
+        query = query.eq("study_sessions.deck_id", deckId);
+      }
+
+      return correctOnly ? query.in("grade", CORRECT_GRADES) : query;
+    };
+
+    const [total, correct] = await Promise.all([countReviews(false), countReviews(true)]);
+
+    if (total.error || correct.error) {
+      throw new StatsServiceError(
+        "Failed to count reviews",
+        ErrorCodes.INTERNAL_ERROR,
+        500,
+        total.error ?? correct.error
+      );
+    }
+
+    return { total: total.count ?? 0, correct: correct.count ?? 0 };
+  }
+
+  /**
+   * Share of good/easy grades (0-1, two decimals)
+   */
+  private accuracy({ total, correct }: ReviewCounts): number {
+    return total > 0 ? Math.round((correct / total) * 100) / 100 : 0;
+  }
+
+  /**
+   * Count consecutive days with reviews, ending today.
+   * A streak that ended yesterday still counts until the end of today.
+   * @param studiedDays - Days (YYYY-MM-DD, UTC) on which the user reviewed cards
+   */
+  private countStreakDays(studiedDays: string[]): number {
+    const days = new Set(studiedDays);
+    const cursor = new Date();
+
+    if (!days.has(cursor.toISOString().split("T")[0])) {
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+
+    let streak = 0;
+    while (days.has(cursor.toISOString().split("T")[0])) {
+      streak++;
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+
+    return streak;
+  }
+}
@@ -0,0 +1,470 @@
+/**
+ * Study Service
+ * Runs the study session lifecycle (start, next card, review and end) and serves session history.
+ *
+ * A session does not store its own card list. Its queue is the deck's accepted cards that are due today;
+ * a reviewed card is rescheduled to a later day (FSRS, with the user's weights and desired retention),
+ * which takes it out of the queue.
+ * Every review is recorded in `flashcard_performance`.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  CardPreview,
+  CompletedStudySession,
+  EndStudySessionResponse,
+  ListStudySessionsResponse,
+  NextCardResponse,
+  ReviewCardResponse,
+  ReviewGrade,
+  StartStudySessionResponse,
+  StudySession,
+  StudySessionDetailResponse,
+  StudySessionHistoryItem,
+} from "../../types";
+import { ErrorCodes } from "../../types";
+import { scheduleFsrs } from "../scheduling/fsrs";
+import { scheduleReview } from "../scheduling/sm2";
+import type { ListStudySessionsQueryInput } from "../validation/study.schemas";
+import { SettingsService } from "./settings.service";
+
+/**
+ * Custom error class for study session failures
+ */
+export class StudyServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "StudyServiceError";
+  }
+}
+
+/**
+ * Statuses of cards that take part in study sessions (drafts are still waiting for review)
+ */
+export const STUDY_STATUSES = ["new", "finalized"];
+
+/**
+ * Grades counted towards `cards_correct`
+ */
+export const CORRECT_GRADES: ReviewGrade[] = ["good", "easy"];
+
+interface DueQueue {
+  card: CardPreview | null;
+  remaining: number;
+}
+
+/**
+ * Service for running study sessions on the user's decks
+ */
+export class StudyService {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Start a study session for a deck
+   * @throws StudyServiceError if deck not found or no cards are due
+   */
+  async startSession(deckId: number): Promise<StartStudySessionResponse> {
+    await this.verifyDeckOwnership(deckId);
+
+    const queue = await this.getDueQueue(deckId);
+
+    if (!queue.card) {
+      throw new StudyServiceError("No cards are due for review in this deck", ErrorCodes.NO_CARDS_DUE, 409, {
+        next_review_at: await this.getNextReviewDate(deckId),
+      });
+    }
+
+    const { data, error } = await this.supabase
+      .from("study_sessions")
+      .insert({ user_id: this.userId, deck_id: deckId })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new StudyServiceError("Failed to start study session", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return {
+      session: {
+        id: data.id,
+        deck_id: data.deck_id,
+        started_at: data.started_at,
+        cards_to_review: queue.remaining,
+      },
+      first_card: queue.card,
+    };
+  }
+
+  /**
+   * Get the next card of an ongoing session
+   * @throws StudyServiceError if session not found, already ended or has no cards left
+   */
+  async getNextCard(sessionId: number): Promise<NextCardResponse> {
+    const session = await this.getSession(sessionId);
+
+    if (session.ended_at) {
+      throw new StudyServiceError("Study session has already ended", ErrorCodes.SESSION_COMPLETE, 410, {
+        session_id: sessionId,
+      });
+    }
+
+    const queue = await this.getDueQueue(session.deck_id);
+
+    if (!queue.card) {
+      throw new StudyServiceError("No more cards to review in this session", ErrorCodes.SESSION_COMPLETE, 410, {
+        session_id: sessionId,
+      });
+    }
+
+    return { card: queue.card, remaining: queue.remaining };
+  }
+
+  /**
+   * Grade a card, reschedule it, record the review and update the session counters
+   * @throws StudyServiceError if session not found or ended, or the card is not due in this session or was just reviewed
+   */
+  async reviewCard(sessionId: number, flashcardId: number, grade: ReviewGrade): Promise<ReviewCardResponse> {
+    const session = await this.getActiveSession(sessionId);
+    const now = new Date();
+    const today = now.toISOString().split("T")[0];
+
+    const { data: flashcard, error: flashcardError } = await this.supabase
+      .from("flashcards")
+      .select("id, ease_factor, interval, stability, difficulty, next_review_date, last_reviewed_at")
+      .eq("id", flashcardId)
+      .eq("deck_id", session.deck_id)
+      .in("status", STUDY_STATUSES)
+      .lte("next_review_date", today)
+      .maybeSingle();
+
+    if (flashcardError) {
+      throw new StudyServiceError("Failed to fetch flashcard", ErrorCodes.INTERNAL_ERROR, 500, flashcardError);
+    }
+
+    if (!flashcard) {
+      throw new StudyServiceError("Flashcard is not due in this session", ErrorCodes.INVALID_INPUT, 400, {
+        flashcard_id: flashcardId,
+      });
+    }
+
+    // FSRS decides the interval; the SM-2 ease factor is still tracked for existing analytics
+    const parameters = await new SettingsService(this.supabase, this.userId).getFsrsParameters();
+    const next = scheduleFsrs(flashcard, grade, parameters, now);
+    const { ease_factor } = scheduleReview(flashcard, grade, now);
+
+    // Only the schedule the grade was given for may be replaced, so a repeated or parallel review of the card
+    // finds no row instead of rescheduling it twice
+    let cardUpdate = this.supabase
+      .from("flashcards")
+      .update({
+        ease_factor,
+        interval: next.interval,
+        next_review_date: next.next_review_date,
+        stability: next.stability,
+        difficulty: next.difficulty,
+        retrievability: next.retrievability,
+        last_reviewed_at: now.toISOString(),
+        status: "finalized",
+      })
+      .eq("id", flashcardId)
+      .eq("next_review_date", flashcard.next_review_date);
+    cardUpdate = flashcard.last_reviewed_at
+      ? cardUpdate.eq("last_reviewed_at", flashcard.last_reviewed_at)
+      : cardUpdate.is("last_reviewed_at", null);
+
+    const { data: reviewed, error: updateError } = await cardUpdate
+      .select("id, ease_factor, interval, next_review_date, stability, difficulty, retrievability")
+      .maybeSingle();
+
+    if (updateError) {
+      throw new StudyServiceError("Failed to save review", ErrorCodes.INTERNAL_ERROR, 500, updateError);
+    }
+
+    if (!reviewed) {
+      throw new StudyServiceError("Flashcard was already reviewed", ErrorCodes.CARD_ALREADY_REVIEWED, 409, {
+        flashcard_id: flashcardId,
+      });
+    }
+
+    // Keep the before/after values of every review for analytics and FSRS optimization
+    const { error: performanceError } = await this.supabase.from("flashcard_performance").insert({
+      flashcard_id: flashcardId,
+      study_session_id: sessionId,
+      grade,
+      reviewed_at: now.toISOString(),
+      previous_ease_factor: flashcard.ease_factor,
+      previous_interval: flashcard.interval,
+      new_ease_factor: ease_factor,
+      new_interval: next.interval,
+      elapsed_days: next.elapsed_days,
+      retrievability: next.retrievability,
+      previous_stability: flashcard.stability,
+      previous_difficulty: flashcard.difficulty,
+      new_stability: next.stability,
+      new_difficulty: next.difficulty,
+    });
+
+    if (performanceError) {
+      throw new StudyServiceError("Failed to record review", ErrorCodes.INTERNAL_ERROR, 500, performanceError);
+    }
+
+    // Incremented in the database: parallel reviews of the session would overwrite counters written back from here
+    const { data: counted, error: sessionError } = await this.supabase.rpc("record_session_review", {
+      p_session_id: sessionId,
+      p_correct: CORRECT_GRADES.includes(grade),
+    });
+
+    if (sessionError) {
+      throw new StudyServiceError("Failed to update study session", ErrorCodes.INTERNAL_ERROR, 500, sessionError);
+    }
+
+    if (!counted) {
+      throw new StudyServiceError("Study session has already ended", ErrorCodes.SESSION_ENDED, 409, {
+        session_id: sessionId,
+      });
+    }
+
+    const queue = await this.getDueQueue(session.deck_id);
+
+    return {
+      flashcard: reviewed,
+      next_card: queue.card,
+      session: {
+        cards_remaining: queue.remaining,
+      },
+    };
+  }
+
+  /**
+   * End a session and report its accuracy
+   * @throws StudyServiceError if session not found or already ended
+   */
+  async endSession(sessionId: number): Promise<EndStudySessionResponse> {
+    await this.getActiveSession(sessionId);
+
+    const { data, error } = await this.supabase
+      .from("study_sessions")
+      .update({ ended_at: new Date().toISOString() })
+      .eq("id", sessionId)
+      .eq("user_id", this.userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new StudyServiceError("Failed to end study session", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return { session: this.toCompletedSession(data) };
+  }
+
+  /**
+   * List the user's past and ongoing sessions, most recent first
+   * @throws StudyServiceError if the deck filter points to a deck the user doesn't own
+   */
+  async listSessions(params: ListStudySessionsQueryInput): Promise<ListStudySessionsResponse> {
+    const { limit, offset, deck_id } = params;
+
+    if (deck_id !== undefined) {
+      await this.verifyDeckOwnership(deck_id);
+    }
+
+    let query = this.supabase
+      .from("study_sessions")
+      .select("*, decks(name)", { count: "exact" })
+      .eq("user_id", this.userId);
+
+    if (deck_id !== undefined) {
+      query = query.eq("deck_id", deck_id);
+    }
+
+    const { data, error, count } = await query
+      .order("started_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new StudyServiceError("Failed to fetch study sessions", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    const sessions = (data || []).map(({ decks, ...session }) => this.toHistoryItem(session, decks?.name));
+    const total = count ?? 0;
+
+    return {
+      sessions,
+      pagination: {
+        total,
+        limit,
+        offset,
+        has_more: offset + sessions.length < total,
+      },
+    };
+  }
+
+  /**
+   * Get a session with the grade given to each card, in review order
+   * @throws StudyServiceError if session not found or doesn't belong to user
+   */
+  async getSessionDetail(sessionId: number): Promise<StudySessionDetailResponse> {
+    const session = await this.getSession(sessionId);
+
+    const [deck, reviews] = await Promise.all([
+      this.supabase.from("decks").select("name").eq("id", session.deck_id).maybeSingle(),
+      this.supabase
+        .from("flashcard_performance")
+        .select("id, flashcard_id, grade, reviewed_at, previous_interval, new_interval, flashcards(front)")
+        .eq("study_session_id", sessionId)
+        .order("reviewed_at", { ascending: true })
+        .order("id", { ascending: true }),
+    ]);
+
+    if (deck.error || reviews.error) {
+      throw new StudyServiceError(
+        "Failed to fetch study session details",
+        ErrorCodes.INTERNAL_ERROR,
+        500,
+        deck.error ?? reviews.error
+      );
+    }
+
+    return {
+      session: this.toHistoryItem(session, deck.data?.name),
+      reviews: (reviews.data || []).map(({ flashcards, grade, ...review }) => ({
+        ...review,
+        front: flashcards?.front ?? "",
+        grade: grade as ReviewGrade,
+      })),
+    };
+  }
+
+  /**
+   * Verify that the deck exists and belongs to the user
+   * @throws StudyServiceError if deck not found or doesn't belong to user
+   */
+  private async verifyDeckOwnership(deckId: number): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("decks")
+      .select("id")
+      .eq("id", deckId)
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new StudyServiceError("Failed to fetch deck", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      throw new StudyServiceError("Deck not found", ErrorCodes.NOT_FOUND, 404, { deck_id: deckId });
+    }
+  }
+
+  /**
+   * Fetch one of the user's sessions
+   * @throws StudyServiceError if session not found or doesn't belong to user
+   */
+  private async getSession(sessionId: number): Promise<StudySession> {
+    const { data, error } = await this.supabase
+      .from("study_sessions")
+      .select("*")
+      .eq("id", sessionId)
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new StudyServiceError("Failed to fetch study session", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    if (!data) {
+      throw new StudyServiceError("Study session not found", ErrorCodes.NOT_FOUND, 404, { session_id: sessionId });
+    }
+
+    return data;
+  }
+
+  /**
+   * Fetch one of the user's sessions and ensure it has not ended yet
+   * @throws StudyServiceError if session not found or already ended
+   */
+  private async getActiveSession(sessionId: number): Promise<StudySession> {
+    const session = await this.getSession(sessionId);
+
+    if (session.ended_at) {
+      throw new StudyServiceError("Study session has already ended", ErrorCodes.SESSION_ENDED, 409, {
+        session_id: sessionId,
+        ended_at: session.ended_at,
+      });
+    }
+
+    return session;
+  }
+
+  /**
+   * Get the first due card of a deck (most overdue first) and the number of due cards
+   */
+  private async getDueQueue(deckId: number): Promise<DueQueue> {
+    const today = new Date().toISOString().split("T")[0];
+
+    const { data, error, count } = await this.supabase
+      .from("flashcards")
+      .select("id, front", { count: "exact" })
+      .eq("deck_id", deckId)
+      .in("status", STUDY_STATUSES)
+      .lte("next_review_date", today)
+      .order("next_review_date", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new StudyServiceError("Failed to fetch due cards", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return {
+      card: data?.[0] ?? null,
+      remaining: count ?? 0,
+    };
+  }
+
+  /**
+   * Earliest upcoming review date in a deck, or null if it has no cards to study
+   */
+  private async getNextReviewDate(deckId: number): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from("flashcards")
+      .select("next_review_date")
+      .eq("deck_id", deckId)
+      .in("status", STUDY_STATUSES)
+      .order("next_review_date", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new StudyServiceError("Failed to fetch next review date", ErrorCodes.INTERNAL_ERROR, 500, error);
+    }
+
+    return data?.next_review_date ?? null;
+  }
+
+  private toHistoryItem(session: StudySession, deckName = ""): StudySessionHistoryItem {
+    return { ...this.toCompletedSession(session), deck_name: deckName };
+  }
+
+  /**
+   * Strip the owner and add the accuracy rate (share of good/easy grades, 0-1)
+   */
+  private toCompletedSession(session: StudySession): CompletedStudySession {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { user_id, ...rest } = session;
+    return {
+      ...rest,
+      accuracy_rate:
+        session.cards_reviewed > 0 ? Math.round((session.cards_correct / session.cards_reviewed) * 100) / 100 : 0,
+    };
+  }
+}
@@ -2,35 +2,165 @@ import { z } from "zod";
 
 import { ValidationConstraints } from "../../types";
 
+const CARD_LANGUAGES = ["source", "en", "pl", "de", "fr", "es", "it", "pt", "uk"] as const;
+const CARD_DIFFICULTIES = ["intro", "intermediate", "expert"] as const;
+const CARD_STYLES = ["definition", "why_question", "application", "mixed"] as const;
+
 /**
- * Validation schema for AI flashcard generation request
+ * Validation schema for AI flashcard generation request.
+ * Text above the single-request limit is only accepted in long-document mode.
  */
-export const AIGenerateRequestSchema = z.object({
-  text: z
+export const AIGenerateRequestSchema = z
+  .object({
+    text: z
+      .string()
+      .min(
+        ValidationConstraints.aiGeneration.textMinLength,
+        `Text must be at least ${ValidationConstraints.aiGeneration.textMinLength} characters`
+      )
+      .max(
+        ValidationConstraints.aiGeneration.longTextMaxLength,
+        `Text must not exceed ${ValidationConstraints.aiGeneration.longTextMaxLength} characters`
+      )
+      .trim(),
+    deck_id: z.number().int().positive("Deck ID must be a positive integer"),
+    max_cards: z
+      .number()
+      .int()
+      .min(
+        ValidationConstraints.aiGeneration.maxCardsMin,
+        `Must generate at least ${ValidationConstraints.aiGeneration.maxCardsMin} card`
+      )
+      .max(
+        ValidationConstraints.aiGeneration.maxCardsMax,
+        `Cannot generate more than ${ValidationConstraints.aiGeneration.maxCardsMax} cards`
+      )
+      .default(ValidationConstraints.aiGeneration.maxCardsDefault)
+      .optional(),
+    long_document: z.boolean().default(false),
+    force_regenerate: z.boolean().default(false),
+    language: z
+      .enum(CARD_LANGUAGES, {
+        errorMap: () => ({ message: `Language must be one of: ${CARD_LANGUAGES.join(", ")}` }),
+      })
+      .optional(),
+    difficulty: z
+      .enum(CARD_DIFFICULTIES, {
+        errorMap: () => ({ message: `Difficulty must be one of: ${CARD_DIFFICULTIES.join(", ")}` }),
+      })
+      .optional(),
+    style: z
+      .enum(CARD_STYLES, {
+        errorMap: () => ({ message: `Style must be one of: ${CARD_STYLES.join(", ")}` }),
+      })
+      .optional(),
+    focus: z
+      .string()
+      .trim()
+      .max(
+        ValidationConstraints.aiGeneration.focusMaxLength,
+        `Focus must not exceed ${ValidationConstraints.aiGeneration.focusMaxLength} characters`
+      )
+      .optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.long_document && data.text.length > ValidationConstraints.aiGeneration.textMaxLength) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.too_big,
+        type: "string",
+        maximum: ValidationConstraints.aiGeneration.textMaxLength,
+        inclusive: true,
+        path: ["text"],
+        message: `Text must not exceed ${ValidationConstraints.aiGeneration.textMaxLength} characters (set long_document to split longer texts)`,
+      });
+    }
+  });
+
+export type AIGenerateRequestInput = z.infer<typeof AIGenerateRequestSchema>;
+
+/**
+ * Validation schema for refining one draft with AI
+ */
+export const RefineFlashcardRequestSchema = z.object({
+  instruction: z
     .string()
-    .min(
-      ValidationConstraints.aiGeneration.textMinLength,
-      `Text must be at least ${ValidationConstraints.aiGeneration.textMinLength} characters`
-    )
+    .trim()
+    .min(1, "Instruction is required")
     .max(
-      ValidationConstraints.aiGeneration.textMaxLength,
-      `Text must not exceed ${ValidationConstraints.aiGeneration.textMaxLength} characters`
-    )
-    .trim(),
-  deck_id: z.number().int().positive("Deck ID must be a positive integer"),
-  max_cards: z
-    .number()
-    .int()
-    .min(
-      ValidationConstraints.aiGeneration.maxCardsMin,
-      `Must generate at least ${ValidationConstraints.aiGeneration.maxCardsMin} card`
-    )
+      ValidationConstraints.aiGeneration.refineInstructionMaxLength,
+      `Instruction must not exceed ${ValidationConstraints.aiGeneration.refineInstructionMaxLength} characters`
+    ),
+  context: z
+    .string()
+    .trim()
     .max(
-      ValidationConstraints.aiGeneration.maxCardsMax,
-      `Cannot generate more than ${ValidationConstraints.aiGeneration.maxCardsMax} cards`
+      ValidationConstraints.aiGeneration.refineContextMaxLength,
+      `Context must not exceed ${ValidationConstraints.aiGeneration.refineContextMaxLength} characters`
     )
-    .default(ValidationConstraints.aiGeneration.maxCardsDefault)
     .optional(),
 });
 
-export type AIGenerateRequestInput = z.infer<typeof AIGenerateRequestSchema>;
+export type RefineFlashcardRequestInput = z.infer<typeof RefineFlashcardRequestSchema>;
+
+/**
+ * Validation schema for listing the active generation jobs of a deck
+ */
+export const ListAIGenerationJobsQuerySchema = z.object({
+  deck_id: z.coerce
+    .number({ invalid_type_error: "Deck ID must be a number" })
+    .int("Deck ID must be an integer")
+    .positive("Deck ID must be a positive integer"),
+});
+
+export type ListAIGenerationJobsQueryInput = z.infer<typeof ListAIGenerationJobsQuerySchema>;
+
+const REPORT_INTERVALS = ["day", "week", "month"] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reportDate = (name: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be a date in YYYY-MM-DD format`)
+    .refine((value) => !Number.isNaN(Date.parse(value)), `${name} must be a valid date`)
+    .optional();
+
+/**
+ * Validation schema for the acceptance report query parameters.
+ * Dates are UTC days, both inclusive. `to` defaults to today and `from` to `defaultDays` days up to `to`;
+ * the range may span at most `maxDays` days.
+ */
+export const AcceptanceReportQuerySchema = z
+  .object({
+    from: reportDate("From"),
+    to: reportDate("To"),
+    interval: z
+      .enum(REPORT_INTERVALS, {
+        errorMap: () => ({ message: `Interval must be one of: ${REPORT_INTERVALS.join(", ")}` }),
+      })
+      .default("day"),
+  })
+  .transform((data) => {
+    const to = data.to ?? new Date().toISOString().split("T")[0];
+    const from =
+      data.from ??
+      new Date(Date.parse(to) - (ValidationConstraints.acceptanceReport.defaultDays - 1) * DAY_MS)
+        .toISOString()
+        .split("T")[0];
+
+    return { from, to, interval: data.interval };
+  })
+  .superRefine((data, ctx) => {
+    const days = (Date.parse(data.to) - Date.parse(data.from)) / DAY_MS + 1;
+
+    if (days < 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["to"], message: "To must not be before From" });
+    } else if (days > ValidationConstraints.acceptanceReport.maxDays) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["from"],
+        message: `The report may span at most ${ValidationConstraints.acceptanceReport.maxDays} days`,
+      });
+    }
+  });
+
+export type AcceptanceReportQueryInput = z.infer<typeof AcceptanceReportQuerySchema>;
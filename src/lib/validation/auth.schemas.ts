@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+import { ValidationConstraints } from "../../types";
+
+/**
+ * Validation schema for account passwords (registration and password reset share the same rules)
+ */
+export const PasswordSchema = z
+  .string({ required_error: "Password is required", invalid_type_error: "Password must be a string" })
+  .min(
+    ValidationConstraints.password.minLength,
+    `Password must be at least ${ValidationConstraints.password.minLength} characters long`
+  )
+  .max(
+    ValidationConstraints.password.maxLength,
+    `Password must not exceed ${ValidationConstraints.password.maxLength} characters`
+  );
+
+/**
+ * Validation schema for requesting a password reset email
+ */
+export const ResetPasswordRequestSchema = z.object({
+  email: z
+    .string({ required_error: "Email is required", invalid_type_error: "Email must be a string" })
+    .trim()
+    .min(1, "Email is required")
+    .email("Please provide a valid email address"),
+});
+
+/**
+ * Validation schema for setting a new password during recovery
+ */
+export const UpdatePasswordRequestSchema = z.object({
+  password: PasswordSchema,
+});
+
+export type ResetPasswordRequestInput = z.infer<typeof ResetPasswordRequestSchema>;
+export type UpdatePasswordRequestInput = z.infer<typeof UpdatePasswordRequestSchema>;
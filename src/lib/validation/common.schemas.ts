@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+import { ValidationConstraints } from "../../types";
+
+/**
+ * Validation schema for pagination query parameters
+ * Query string values arrive as strings, so they are coerced to numbers
+ */
+export const PaginationQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int("Limit must be an integer")
+    .min(
+      ValidationConstraints.pagination.limitMin,
+      `Limit must be at least ${ValidationConstraints.pagination.limitMin}`
+    )
+    .max(ValidationConstraints.pagination.limitMax, `Limit cannot exceed ${ValidationConstraints.pagination.limitMax}`)
+    .default(ValidationConstraints.pagination.limitDefault),
+  offset: z.coerce
+    .number()
+    .int("Offset must be an integer")
+    .min(ValidationConstraints.pagination.offsetMin, "Offset must be non-negative")
+    .default(ValidationConstraints.pagination.offsetDefault),
+});
+
+/**
+ * Validation schema for sort order query parameter
+ */
+export const SortOrderSchema = z.enum(["asc", "desc"]).default("desc");
+
+/**
+ * Validation schema for numeric resource IDs in URL params (e.g. /api/decks/{deck_id})
+ */
+export const IdParamSchema = z.coerce.number().int("ID must be an integer").positive("ID must be a positive integer");
+
+export type PaginationQueryInput = z.infer<typeof PaginationQuerySchema>;
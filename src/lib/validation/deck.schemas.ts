@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+import { ValidationConstraints } from "../../types";
+import { PaginationQuerySchema, SortOrderSchema } from "./common.schemas";
+
+/**
+ * Validation schema for deck name
+ */
+const DeckNameSchema = z
+  .string({ required_error: "Deck name is required" })
+  .trim()
+  .min(ValidationConstraints.deck.nameMinLength, "Deck name is required")
+  .max(
+    ValidationConstraints.deck.nameMaxLength,
+    `Deck name must not exceed ${ValidationConstraints.deck.nameMaxLength} characters`
+  );
+
+/**
+ * Validation schema for creating a deck
+ */
+export const CreateDeckRequestSchema = z.object({
+  name: DeckNameSchema,
+});
+
+/**
+ * Validation schema for updating a deck
+ */
+export const UpdateDeckRequestSchema = z.object({
+  name: DeckNameSchema,
+});
+
+/**
+ * Validation schema for deck listing query parameters
+ */
+export const ListDecksQuerySchema = PaginationQuerySchema.extend({
+  sort: z.enum(["name", "created_at", "updated_at"]).default("created_at"),
+  order: SortOrderSchema,
+});
+
+export type CreateDeckRequestInput = z.infer<typeof CreateDeckRequestSchema>;
+export type UpdateDeckRequestInput = z.infer<typeof UpdateDeckRequestSchema>;
+export type ListDecksQueryInput = z.infer<typeof ListDecksQuerySchema>;
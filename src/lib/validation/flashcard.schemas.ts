@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+import { ValidationConstraints } from "../../types";
+import { PaginationQuerySchema, SortOrderSchema } from "./common.schemas";
+
+const FLASHCARD_STATUSES = ["draft", "new", "finalized"] as const;
+
+/**
+ * Validation schema for flashcard front text
+ */
+export const FlashcardFrontSchema = z
+  .string({ required_error: "Front text is required" })
+  .trim()
+  .min(ValidationConstraints.flashcard.frontMinLength, "Front text is required")
+  .max(
+    ValidationConstraints.flashcard.frontMaxLength,
+    `Front text must not exceed ${ValidationConstraints.flashcard.frontMaxLength} characters`
+  );
+
+/**
+ * Validation schema for flashcard back text
+ */
+export const FlashcardBackSchema = z
+  .string({ required_error: "Back text is required" })
+  .trim()
+  .min(ValidationConstraints.flashcard.backMinLength, "Back text is required")
+  .max(
+    ValidationConstraints.flashcard.backMaxLength,
+    `Back text must not exceed ${ValidationConstraints.flashcard.backMaxLength} characters`
+  );
+
+/**
+ * Validation schema for updating a flashcard
+ */
+export const UpdateFlashcardRequestSchema = z
+  .object({
+    front: FlashcardFrontSchema.optional(),
+    back: FlashcardBackSchema.optional(),
+  })
+  .refine((data) => data.front !== undefined || data.back !== undefined, {
+    message: "At least one of front or back must be provided",
+  });
+
+/**
+ * Validation schema for flashcard listing query parameters
+ * `status` accepts a comma-separated list, e.g. "draft,new"
+ */
+export const ListFlashcardsQuerySchema = PaginationQuerySchema.extend({
+  status: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ?.split(",")
+        .map((status) => status.trim())
+        .filter((status) => status.length > 0)
+    )
+    .pipe(
+      z
+        .array(
+          z.enum(FLASHCARD_STATUSES, {
+            errorMap: () => ({ message: `Status must be one of: ${FLASHCARD_STATUSES.join(", ")}` }),
+          })
+        )
+        .optional()
+    ),
+  sort: z.enum(["created_at", "next_review_date"]).default("created_at"),
+  order: SortOrderSchema,
+});
+
+/**
+ * Validation schema for a single item of a bulk create request
+ * Items are validated one by one so failures can be reported per index
+ */
+export const BulkFlashcardItemSchema = z.object({
+  front: FlashcardFrontSchema,
+  back: FlashcardBackSchema,
+});
+
+/**
+ * Validation schema for the bulk create request envelope
+ */
+export const BulkCreateFlashcardsRequestSchema = z.object({
+  flashcards: z
+    .array(z.unknown(), { required_error: "Flashcards array is required" })
+    .min(
+      ValidationConstraints.bulkFlashcards.minCount,
+      `Request must contain between ${ValidationConstraints.bulkFlashcards.minCount} and ${ValidationConstraints.bulkFlashcards.maxCount} flashcards`
+    )
+    .max(
+      ValidationConstraints.bulkFlashcards.maxCount,
+      `Request must contain between ${ValidationConstraints.bulkFlashcards.minCount} and ${ValidationConstraints.bulkFlashcards.maxCount} flashcards`
+    ),
+  source: z.enum(["ai", "manual"]).default("manual"),
+  atomic: z.boolean().default(false),
+});
+
+/**
+ * Validation schema for accepting or rejecting several drafts at once
+ */
+export const DraftIdsRequestSchema = z.object({
+  ids: z
+    .array(z.number().int().positive("Flashcard IDs must be positive integers"), {
+      required_error: "Flashcard IDs are required",
+    })
+    .min(ValidationConstraints.bulkFlashcards.minCount, "At least one flashcard ID is required")
+    .max(
+      ValidationConstraints.bulkFlashcards.maxCount,
+      `Cannot process more than ${ValidationConstraints.bulkFlashcards.maxCount} flashcards at once`
+    ),
+});
+
+export type UpdateFlashcardRequestInput = z.infer<typeof UpdateFlashcardRequestSchema>;
+export type ListFlashcardsQueryInput = z.infer<typeof ListFlashcardsQuerySchema>;
+export type BulkCreateFlashcardsRequestInput = z.infer<typeof BulkCreateFlashcardsRequestSchema>;
+export type DraftIdsRequestInput = z.infer<typeof DraftIdsRequestSchema>;
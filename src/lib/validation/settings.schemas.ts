@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+import { ValidationConstraints } from "../../types";
+import { isValidTimeZone } from "../quota/time-windows";
+
+const { desiredRetentionMin, desiredRetentionMax } = ValidationConstraints.fsrs;
+
+/**
+ * Validation schema for updating scheduling settings
+ */
+export const UpdateSchedulingSettingsRequestSchema = z
+  .object({
+    desired_retention: z
+      .number({ invalid_type_error: "Desired retention must be a number" })
+      .min(desiredRetentionMin, `Desired retention must be between ${desiredRetentionMin} and ${desiredRetentionMax}`)
+      .max(desiredRetentionMax, `Desired retention must be between ${desiredRetentionMin} and ${desiredRetentionMax}`)
+      .transform((value) => Math.round(value * 100) / 100)
+      .optional(),
+    timezone: z
+      .string({ invalid_type_error: "Time zone must be a string" })
+      .refine(isValidTimeZone, "Time zone must be an IANA time zone name, e.g. Europe/Warsaw")
+      .optional(),
+  })
+  .refine((data) => data.desired_retention !== undefined || data.timezone !== undefined, {
+    message: "Desired retention or time zone is required",
+  });
+
+export type UpdateSchedulingSettingsRequestInput = z.infer<typeof UpdateSchedulingSettingsRequestSchema>;
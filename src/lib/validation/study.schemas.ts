@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+import { PaginationQuerySchema } from "./common.schemas";
+
+const REVIEW_GRADES = ["again", "hard", "good", "easy"] as const;
+
+/**
+ * Validation schema for submitting a card review in a study session
+ */
+export const ReviewCardRequestSchema = z.object({
+  flashcard_id: z
+    .number({ required_error: "Flashcard ID is required", invalid_type_error: "Flashcard ID must be a number" })
+    .int("Flashcard ID must be an integer")
+    .positive("Flashcard ID must be a positive integer"),
+  grade: z.enum(REVIEW_GRADES, {
+    errorMap: () => ({ message: `Grade must be one of: ${REVIEW_GRADES.join(", ")}` }),
+  }),
+});
+
+/**
+ * Validation schema for study session history query parameters
+ */
+export const ListStudySessionsQuerySchema = PaginationQuerySchema.extend({
+  deck_id: z.coerce
+    .number()
+    .int("Deck ID must be an integer")
+    .positive("Deck ID must be a positive integer")
+    .optional(),
+});
+
+export type ReviewCardRequestInput = z.infer<typeof ReviewCardRequestSchema>;
+export type ListStudySessionsQueryInput = z.infer<typeof ListStudySessionsQuerySchema>;
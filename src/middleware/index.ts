@@ -17,6 +17,8 @@ const PUBLIC_PATHS = [
   "/api/auth/register",
   "/api/auth/logout",
   "/api/auth/reset-password",
+  // Checks the recovery session itself so an expired link gets a JSON error instead of a redirect
+  "/api/auth/update-password",
   // Public pages
   "/",
 ];
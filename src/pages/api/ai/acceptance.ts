@@ -0,0 +1,105 @@
+/**
+ * GET /api/ai/acceptance
+ * Report how many of the user's AI cards were accepted as generated, accepted after edits or rejected,
+ * per period, model and prompt version
+ */
+
+import type { APIRoute } from "astro";
+import { AIAcceptanceService, AIAcceptanceError } from "../../../lib/services/ai-acceptance.service";
+import { AcceptanceReportQuerySchema } from "../../../lib/validation/ai-generation.schemas";
+import type { AcceptanceReportResponse, ApiErrorResponse, ApiSuccessResponse } from "../../../types";
+import { ErrorCodes } from "../../../types";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate query parameters
+    const validationResult = AcceptanceReportQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid query parameters",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const acceptanceService = new AIAcceptanceService(locals.supabase, user.id);
+    const result = await acceptanceService.getReport(validationResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<AcceptanceReportResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof AIAcceptanceError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
@@ -0,0 +1,128 @@
+/**
+ * POST /api/ai/extract
+ * Extract the text of an uploaded file (multipart field "file") as sections to generate flashcards from
+ */
+
+import type { APIRoute } from "astro";
+import { DocumentExtractionError, extractDocument } from "../../../lib/extraction/extract-document";
+import { readUploadForm } from "../../../lib/extraction/upload-form";
+import type { ApiErrorResponse, ApiSuccessResponse, ExtractDocumentResponse } from "../../../types";
+import { ErrorCodes } from "../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse the uploaded file; a body over the size limit is refused before it is buffered
+    let file: FormDataEntryValue | null;
+    try {
+      file = (await readUploadForm(request)).get("file");
+    } catch (error) {
+      if (error instanceof DocumentExtractionError) {
+        throw error;
+      }
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Request body must be multipart form data",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!(file instanceof File) || file.size === 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "A non-empty file is required",
+            field: "file",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Extract the text locally
+    const result = await extractDocument({
+      name: file.name,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    // Return success response
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<ExtractDocumentResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    // Handle DocumentExtractionError
+    if (error instanceof DocumentExtractionError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Handle unexpected errors
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
@@ -5,6 +5,9 @@
 
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { supabaseAdmin } from "../../../db/supabase.client";
+import { createLLMProvider } from "../../../lib/llm/create-provider";
+import type { LLMProvider } from "../../../lib/llm/provider";
 import { AIGenerationService, AIGenerationError } from "../../../lib/services/ai-generation.service";
 import { AIGenerateRequestSchema } from "../../../lib/validation/ai-generation.schemas";
 import type { ApiErrorResponse, ApiSuccessResponse, AIGenerateResponse } from "../../../types";
@@ -33,10 +36,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    // Get OpenRouter API key from environment
-    const openRouterApiKey = import.meta.env.OPENROUTER_API_KEY;
-
-    if (!openRouterApiKey) {
+    // Create the AI provider selected in the environment
+    let provider: LLMProvider;
+    try {
+      provider = createLLMProvider();
+    } catch {
       return new Response(
         JSON.stringify({
           success: false,
@@ -94,7 +98,14 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    const { text, deck_id, max_cards = 10 } = validationResult.data;
+    const {
+      text,
+      deck_id,
+      max_cards = 10,
+      long_document,
+      force_regenerate,
+      ...generationOptions
+    } = validationResult.data;
 
     // Get authenticated user from middleware
     const user = locals.user;
@@ -117,11 +128,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     const userId = user.id;
 
-    // Initialize AI Generation Service with real API key
-    const aiService = new AIGenerationService(supabase, userId, openRouterApiKey);
+    // Initialize AI Generation Service with the configured provider
+    const aiService = new AIGenerationService(supabase, userId, provider, supabaseAdmin);
 
     // Generate and save flashcards using AI
-    const result: AIGenerateResponse = await aiService.generateAndSaveFlashcards(deck_id, text, max_cards);
+    const result: AIGenerateResponse = await aiService.generateAndSaveFlashcards(deck_id, text, max_cards, {
+      ...generationOptions,
+      longDocument: long_document,
+      forceRegenerate: force_regenerate,
+    });
 
     // Return success response
     return new Response(
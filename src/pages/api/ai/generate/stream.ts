@@ -0,0 +1,257 @@
+/**
+ * POST /api/ai/generate/stream
+ * Generate flashcards from text using AI, streaming each saved draft as a Server-Sent Event.
+ * A request answered from the generation cache streams the reused drafts at once.
+ */
+
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { supabaseAdmin } from "../../../../db/supabase.client";
+import { encodeSseEvent } from "../../../../lib/generation/sse";
+import { createLLMProvider } from "../../../../lib/llm/create-provider";
+import type { LLMProvider } from "../../../../lib/llm/provider";
+import { AIGenerationService, AIGenerationError } from "../../../../lib/services/ai-generation.service";
+import { AIGenerateRequestSchema } from "../../../../lib/validation/ai-generation.schemas";
+import type { AIGenerateStreamEvent, ApiErrorResponse } from "../../../../types";
+import { ErrorCodes } from "../../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Get Supabase client from middleware
+    const supabase = locals.supabase;
+
+    if (!supabase) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INTERNAL_ERROR,
+            message: "Database client not available",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Create the AI provider selected in the environment
+    let provider: LLMProvider;
+    try {
+      provider = createLLMProvider();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INTERNAL_ERROR,
+            message: "AI service not configured",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate input with Zod
+    const validationResult = AIGenerateRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const {
+      text,
+      deck_id,
+      max_cards = 10,
+      long_document,
+      force_regenerate,
+      ...generationOptions
+    } = validationResult.data;
+
+    // Long documents are generated chunk by chunk and only through the regular endpoint
+    if (long_document) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Streaming is not available for long documents, use POST /api/ai/generate",
+            field: "long_document",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const userId = user.id;
+
+    // Initialize AI Generation Service with the configured provider
+    const aiService = new AIGenerationService(supabase, userId, provider, supabaseAdmin);
+
+    // Reuse the cards of an identical earlier request; they are saved before the stream opens
+    const cached = force_regenerate ? null : await aiService.saveFromCache(deck_id, text, max_cards, generationOptions);
+
+    // Check deck ownership and reserve the cards before opening the stream, so failures get a status code
+    const reservation = cached ? null : await aiService.prepareGeneration(deck_id, max_cards);
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = ({ event, data }: AIGenerateStreamEvent) =>
+          controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+
+        try {
+          if (cached) {
+            // Answered from the cache: the drafts are already saved
+            cached.flashcards.forEach((card) => send({ event: "card", data: card }));
+            send({ event: "done", data: cached });
+          } else if (reservation) {
+            const result = await aiService.streamAndSaveFlashcards(
+              deck_id,
+              text,
+              reservation,
+              (card) => send({ event: "card", data: card }),
+              generationOptions
+            );
+            send({ event: "done", data: result });
+          }
+        } catch (error) {
+          send({
+            event: "error",
+            data:
+              error instanceof AIGenerationError
+                ? { code: error.code, message: error.message, details: error.details }
+                : { code: ErrorCodes.INTERNAL_ERROR, message: "An unexpected error occurred" },
+          });
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    // Handle AIGenerationError
+    if (error instanceof AIGenerationError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Handle Zod validation errors (shouldn't happen if we validated above)
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Validation failed",
+            details: error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Handle unexpected errors
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
@@ -0,0 +1,105 @@
+/**
+ * POST /api/ai/jobs/{job_id}/cancel
+ * Cancel a queued or running generation job; drafts it already saved stay in the deck
+ */
+
+import type { APIRoute } from "astro";
+import { generationWorker } from "../../../../../lib/jobs/generation-worker";
+import { AIJobService, AIJobError } from "../../../../../lib/services/ai-job.service";
+import { IdParamSchema } from "../../../../../lib/validation/common.schemas";
+import type { ApiErrorResponse, ApiSuccessResponse, AIGenerationJobResponse } from "../../../../../types";
+import { ErrorCodes } from "../../../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const jobIdResult = IdParamSchema.safeParse(params.job_id);
+
+    if (!jobIdResult.success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Job ID must be a positive integer",
+            field: "job_id",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const jobService = new AIJobService(locals.supabase, user.id);
+    const result = await jobService.cancelJob(jobIdResult.data);
+
+    // Stop the work if this server runs the job; its late result is discarded either way
+    generationWorker.cancel(result.id);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<AIGenerationJobResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof AIJobError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
@@ -0,0 +1,263 @@
+/**
+ * POST /api/ai/jobs
+ * Queue an AI flashcard generation as a background job; poll it with GET /api/ai/jobs/{job_id}
+ *
+ * GET /api/ai/jobs?deck_id={deck_id}
+ * List the user's queued and running generation jobs of a deck
+ */
+
+import type { APIRoute } from "astro";
+import { supabaseAdmin } from "../../../../db/supabase.client";
+import { generationWorker } from "../../../../lib/jobs/generation-worker";
+import { createLLMProvider } from "../../../../lib/llm/create-provider";
+import type { LLMProvider } from "../../../../lib/llm/provider";
+import { AIGenerationService, AIGenerationError } from "../../../../lib/services/ai-generation.service";
+import { AIJobService, AIJobError } from "../../../../lib/services/ai-job.service";
+import {
+  AIGenerateRequestSchema,
+  ListAIGenerationJobsQuerySchema,
+} from "../../../../lib/validation/ai-generation.schemas";
+import type {
+  ApiErrorResponse,
+  ApiSuccessResponse,
+  AIGenerationJobResponse,
+  ListAIGenerationJobsResponse,
+} from "../../../../types";
+import { ErrorCodes } from "../../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Create the AI provider selected in the environment
+    let provider: LLMProvider;
+    try {
+      provider = createLLMProvider();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INTERNAL_ERROR,
+            message: "AI service not configured",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const validationResult = AIGenerateRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const aiService = new AIGenerationService(locals.supabase, user.id, provider, supabaseAdmin);
+
+    // Report a missing deck or an exhausted limit now rather than as a failed job
+    await aiService.verifyDeckOwnership(validationResult.data.deck_id);
+    await aiService.checkDailyLimit();
+
+    const jobService = new AIJobService(locals.supabase, user.id);
+    const job = await jobService.createJob(validationResult.data);
+
+    generationWorker.enqueue(
+      job.id,
+      (signal) => jobService.runJob(job.id, aiService, signal),
+      () => jobService.heartbeat(job.id)
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: job,
+      } satisfies ApiSuccessResponse<AIGenerationJobResponse>),
+      {
+        status: 202,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof AIGenerationError || error instanceof AIJobError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate query parameters
+    const validationResult = ListAIGenerationJobsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid query parameters",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const jobService = new AIJobService(locals.supabase, user.id);
+    const result = await jobService.listActiveJobs(validationResult.data.deck_id);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<ListAIGenerationJobsResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof AIJobError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
@@ -1,17 +1,17 @@
 /**
  * GET /api/ai/usage
- * Get current AI usage and limits for the authenticated user
+ * Get the authenticated user's AI quota plan and usage in the current day and month of their time zone,
+ * with today's tokens and cost
  */
 
 import type { APIRoute } from "astro";
 
+import { AIUsageService, AIUsageError } from "../../../lib/services/ai-usage.service";
 import type { ApiErrorResponse, ApiSuccessResponse, AIUsageResponse } from "../../../types";
 import { ErrorCodes } from "../../../types";
 
 export const prerender = false;
 
-const DAILY_LIMIT = 50;
-
 export const GET: APIRoute = async ({ locals }) => {
   try {
     // Get Supabase client from middleware
@@ -52,67 +52,37 @@ export const GET: APIRoute = async ({ locals }) => {
       );
     }
 
-    const userId = user.id;
-
-    // Get today's date range (start of day to end of day)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const usageService = new AIUsageService(supabase, user.id);
+    const response = await usageService.getUsage();
 
-    // Query sum of cards generated today
-    const { data, error } = await supabase
-      .from("ai_generation_logs")
-      .select("cards_count")
-      .eq("user_id", userId)
-      .gte("generated_at", today.toISOString())
-      .lt("generated_at", tomorrow.toISOString());
-
-    if (error) {
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: response,
+      } satisfies ApiSuccessResponse<AIUsageResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof AIUsageError) {
       return new Response(
         JSON.stringify({
           success: false,
           error: {
-            code: ErrorCodes.INTERNAL_ERROR,
-            message: "Failed to fetch usage data",
-            details: error,
+            code: error.code,
+            message: error.message,
+            details: error.details,
           },
         } satisfies ApiErrorResponse),
         {
-          status: 500,
+          status: error.statusCode,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    // Calculate total cards generated today
-    const usedToday = data?.reduce((sum: number, log: { cards_count: number }) => sum + log.cards_count, 0) || 0;
-
-    // Calculate remaining
-    const remaining = Math.max(0, DAILY_LIMIT - usedToday);
-
-    // Calculate reset time (midnight tonight)
-    const resetAt = tomorrow.toISOString();
-
-    // Return usage information
-    const response: AIUsageResponse = {
-      daily_limit: DAILY_LIMIT,
-      used_today: usedToday,
-      remaining,
-      reset_at: resetAt,
-    };
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        data: response,
-      } satisfies ApiSuccessResponse<AIUsageResponse>),
-      {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
-  } catch (error) {
     // Handle unexpected errors
     return new Response(
       JSON.stringify({
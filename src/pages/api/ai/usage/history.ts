@@ -0,0 +1,104 @@
+/**
+ * GET /api/ai/usage/history
+ * List the user's logged AI generations and refinements with model, tokens, cost and outcome, most recent first
+ */
+
+import type { APIRoute } from "astro";
+import { AIUsageService, AIUsageError } from "../../../../lib/services/ai-usage.service";
+import { PaginationQuerySchema } from "../../../../lib/validation/common.schemas";
+import type { ApiErrorResponse, ApiSuccessResponse, AIUsageHistoryResponse } from "../../../../types";
+import { ErrorCodes } from "../../../../types";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate query parameters
+    const validationResult = PaginationQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid query parameters",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const usageService = new AIUsageService(locals.supabase, user.id);
+    const result = await usageService.listHistory(validationResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<AIUsageHistoryResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof AIUsageError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
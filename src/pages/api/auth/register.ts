@@ -5,6 +5,7 @@
  */
 
 import type { APIRoute } from "astro";
+import { PasswordSchema } from "../../../lib/validation/auth.schemas";
 
 export const prerender = false;
 
@@ -29,13 +30,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    // Server-side password validation
-    if (password.length < 8) {
+    // Server-side password validation (shared with the password reset flow)
+    const passwordResult = PasswordSchema.safeParse(password);
+
+    if (!passwordResult.success) {
       return new Response(
         JSON.stringify({
           success: false,
           error: {
-            message: "Password must be at least 8 characters long",
+            message: passwordResult.error.errors[0]?.message || "Invalid password",
           },
         }),
         {
@@ -0,0 +1,127 @@
+/**
+ * Reset Password API Endpoint
+ * Route: POST /api/auth/reset-password
+ * Purpose: US-004 - Send a password reset email
+ *
+ * The email links back to /auth/update-password, which exchanges the recovery code for a session.
+ * The response is the same whether or not an account exists, so the endpoint cannot be used to probe emails.
+ */
+
+import type { APIRoute } from "astro";
+import { ResetPasswordRequestSchema } from "../../../lib/validation/auth.schemas";
+import type { ApiErrorResponse } from "../../../types";
+import { ErrorCodes } from "../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, url, locals }) => {
+  try {
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate input
+    const validationResult = ResetPasswordRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The PKCE code verifier is stored in a cookie, so the link must be opened in the same browser
+    const { error } = await locals.supabase.auth.resetPasswordForEmail(validationResult.data.email, {
+      redirectTo: `${url.origin}/auth/update-password`,
+    });
+
+    if (error?.status === 429) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.RATE_LIMIT_EXCEEDED,
+            message: "Too many reset requests. Please wait a moment and try again.",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 429,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Reset password error:", error);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INTERNAL_ERROR,
+            message: "Failed to send reset email. Please try again.",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "If an account exists with that email, a password reset link has been sent.",
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (err) {
+    // Catch-all for unexpected errors
+    // eslint-disable-next-line no-console
+    console.error("Reset password error:", err);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
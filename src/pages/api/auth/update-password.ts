@@ -0,0 +1,131 @@
+/**
+ * Update Password API Endpoint
+ * Route: POST /api/auth/update-password
+ * Purpose: US-004 - Set a new password from a recovery session
+ *
+ * /auth/update-password turns the emailed recovery link into a session; this endpoint then
+ * changes the password and signs the user out so they log in again with the new one.
+ * Sessions that did not come from a recent reset link are refused (see PasswordService).
+ */
+
+import type { APIRoute } from "astro";
+import { PasswordService, PasswordServiceError } from "../../../lib/services/password.service";
+import { UpdatePasswordRequestSchema } from "../../../lib/validation/auth.schemas";
+import type { ApiErrorResponse } from "../../../types";
+import { ErrorCodes } from "../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // The recovery link must have been exchanged for a session first
+    if (!locals.user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_TOKEN,
+            message: "Password reset link is invalid or has expired. Please request a new one.",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate input (same password rules as registration)
+    const validationResult = UpdatePasswordRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    await new PasswordService(locals.supabase).updatePassword(validationResult.data.password);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Password updated successfully",
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (err) {
+    // Handle PasswordServiceError: no recovery session, a rejected password or a failed update
+    if (err instanceof PasswordServiceError) {
+      if (err.statusCode === 500) {
+        // eslint-disable-next-line no-console
+        console.error("Update password error:", err.details);
+      }
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: err.code,
+            message: err.message,
+            ...(err.statusCode === 400 && { field: "password" }),
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: err.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Catch-all for unexpected errors
+    // eslint-disable-next-line no-console
+    console.error("Update password error:", err);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
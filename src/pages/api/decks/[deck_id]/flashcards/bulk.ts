@@ -0,0 +1,149 @@
+/**
+ * POST /api/decks/{deck_id}/flashcards/bulk
+ * Create multiple flashcards in a single transaction
+ *
+ * Returns 201 when every card was saved and 207 when some items failed validation
+ * (the valid ones are saved, failures are reported per index). With `atomic: true`
+ * any invalid item rejects the whole request and nothing is saved.
+ */
+
+import type { APIRoute } from "astro";
+import { FlashcardService, FlashcardServiceError } from "../../../../../lib/services/flashcard.service";
+import { IdParamSchema } from "../../../../../lib/validation/common.schemas";
+import { BulkCreateFlashcardsRequestSchema } from "../../../../../lib/validation/flashcard.schemas";
+import type { ApiErrorResponse, ApiSuccessResponse, BulkCreateFlashcardsResponse } from "../../../../../types";
+import { ErrorCodes } from "../../../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckIdResult = IdParamSchema.safeParse(params.deck_id);
+
+    if (!deckIdResult.success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Deck ID must be a positive integer",
+            field: "deck_id",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const validationResult = BulkCreateFlashcardsRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { flashcards, source, atomic } = validationResult.data;
+
+    const flashcardService = new FlashcardService(locals.supabase, user.id);
+    const result = await flashcardService.bulkCreateFlashcards(deckIdResult.data, flashcards, { source, atomic });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<BulkCreateFlashcardsResponse>),
+      {
+        status: result.summary.total_failed > 0 ? 207 : 201,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof FlashcardServiceError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
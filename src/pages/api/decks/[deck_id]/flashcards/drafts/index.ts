@@ -0,0 +1,123 @@
+/**
+ * GET /api/decks/{deck_id}/flashcards/drafts
+ * List pending AI drafts of a deck in generation order, so the review grid survives a page reload
+ */
+
+import type { APIRoute } from "astro";
+import { FlashcardService, FlashcardServiceError } from "../../../../../../lib/services/flashcard.service";
+import { IdParamSchema, PaginationQuerySchema } from "../../../../../../lib/validation/common.schemas";
+import type { ApiErrorResponse, ApiSuccessResponse, ListDraftsResponse } from "../../../../../../types";
+import { ErrorCodes } from "../../../../../../types";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckIdResult = IdParamSchema.safeParse(params.deck_id);
+
+    if (!deckIdResult.success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Deck ID must be a positive integer",
+            field: "deck_id",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate query parameters
+    const validationResult = PaginationQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid query parameters",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const flashcardService = new FlashcardService(locals.supabase, user.id);
+    const result = await flashcardService.listDrafts(deckIdResult.data, validationResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<ListDraftsResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof FlashcardServiceError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
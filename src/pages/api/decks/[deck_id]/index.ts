@@ -0,0 +1,256 @@
+/**
+ * GET /api/decks/{deck_id}
+ * Get a deck with detailed card counts
+ *
+ * PATCH /api/decks/{deck_id}
+ * Rename a deck
+ *
+ * DELETE /api/decks/{deck_id}
+ * Delete a deck together with its flashcards and study sessions
+ */
+
+import type { APIRoute } from "astro";
+import { DeckService, DeckServiceError } from "../../../../lib/services/deck.service";
+import { IdParamSchema } from "../../../../lib/validation/common.schemas";
+import { UpdateDeckRequestSchema } from "../../../../lib/validation/deck.schemas";
+import type {
+  ApiErrorResponse,
+  ApiSuccessResponse,
+  DeckDetail,
+  DeleteDeckResponse,
+  UpdateDeckResponse,
+} from "../../../../types";
+import { ErrorCodes } from "../../../../types";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckIdResult = IdParamSchema.safeParse(params.deck_id);
+
+    if (!deckIdResult.success) {
+      return invalidDeckIdResponse();
+    }
+
+    const deckService = new DeckService(locals.supabase, user.id);
+    const deck = await deckService.getDeck(deckIdResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { deck },
+      } satisfies ApiSuccessResponse<{ deck: DeckDetail }>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckIdResult = IdParamSchema.safeParse(params.deck_id);
+
+    if (!deckIdResult.success) {
+      return invalidDeckIdResponse();
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const validationResult = UpdateDeckRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckService = new DeckService(locals.supabase, user.id);
+    const deck = await deckService.updateDeck(deckIdResult.data, validationResult.data.name);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { deck },
+      } satisfies ApiSuccessResponse<UpdateDeckResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckIdResult = IdParamSchema.safeParse(params.deck_id);
+
+    if (!deckIdResult.success) {
+      return invalidDeckIdResponse();
+    }
+
+    const deckService = new DeckService(locals.supabase, user.id);
+    await deckService.deleteDeck(deckIdResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { message: "Deck deleted successfully" },
+      } satisfies ApiSuccessResponse<DeleteDeckResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+function invalidDeckIdResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_INPUT,
+        message: "Deck ID must be a positive integer",
+        field: "deck_id",
+      },
+    } satisfies ApiErrorResponse),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * Map service and unexpected errors to API error responses
+ */
+function handleError(error: unknown): Response {
+  if (error instanceof DeckServiceError) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: error.statusCode,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  // In production, log this error to monitoring service
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        code: ErrorCodes.INTERNAL_ERROR,
+        message: "An unexpected error occurred",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+    } satisfies ApiErrorResponse),
+    {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
@@ -0,0 +1,194 @@
+/**
+ * GET /api/decks
+ * List the authenticated user's decks with card counts
+ *
+ * POST /api/decks
+ * Create a new deck
+ */
+
+import type { APIRoute } from "astro";
+import { DeckService, DeckServiceError } from "../../../lib/services/deck.service";
+import { CreateDeckRequestSchema, ListDecksQuerySchema } from "../../../lib/validation/deck.schemas";
+import type { ApiErrorResponse, ApiSuccessResponse, CreateDeckResponse, ListDecksResponse } from "../../../types";
+import { ErrorCodes } from "../../../types";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate query parameters
+    const validationResult = ListDecksQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid query parameters",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckService = new DeckService(locals.supabase, user.id);
+    const result = await deckService.listDecks(validationResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<ListDecksResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const validationResult = CreateDeckRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const deckService = new DeckService(locals.supabase, user.id);
+    const deck = await deckService.createDeck(validationResult.data.name);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { deck },
+      } satisfies ApiSuccessResponse<CreateDeckResponse>),
+      {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Map service and unexpected errors to API error responses
+ */
+function handleError(error: unknown): Response {
+  if (error instanceof DeckServiceError) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: error.statusCode,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  // In production, log this error to monitoring service
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        code: ErrorCodes.INTERNAL_ERROR,
+        message: "An unexpected error occurred",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+    } satisfies ApiErrorResponse),
+    {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * GET /api/flashcards/{flashcard_id}
+ * Get a single flashcard
+ *
+ * PATCH /api/flashcards/{flashcard_id}
+ * Update a flashcard's front and/or back text
+ *
+ * DELETE /api/flashcards/{flashcard_id}
+ * Delete a flashcard
+ */
+
+import type { APIRoute } from "astro";
+import { FlashcardService, FlashcardServiceError } from "../../../../lib/services/flashcard.service";
+import { IdParamSchema } from "../../../../lib/validation/common.schemas";
+import { UpdateFlashcardRequestSchema } from "../../../../lib/validation/flashcard.schemas";
+import type {
+  ApiErrorResponse,
+  ApiSuccessResponse,
+  DeleteFlashcardResponse,
+  FlashcardDetail,
+  UpdateFlashcardResponse,
+} from "../../../../types";
+import { ErrorCodes } from "../../../../types";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const flashcardIdResult = IdParamSchema.safeParse(params.flashcard_id);
+
+    if (!flashcardIdResult.success) {
+      return invalidFlashcardIdResponse();
+    }
+
+    const flashcardService = new FlashcardService(locals.supabase, user.id);
+    const flashcard = await flashcardService.getFlashcard(flashcardIdResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { flashcard },
+      } satisfies ApiSuccessResponse<{ flashcard: FlashcardDetail }>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const flashcardIdResult = IdParamSchema.safeParse(params.flashcard_id);
+
+    if (!flashcardIdResult.success) {
+      return invalidFlashcardIdResponse();
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const validationResult = UpdateFlashcardRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join(".") || undefined,
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const flashcardService = new FlashcardService(locals.supabase, user.id);
+    const flashcard = await flashcardService.updateFlashcard(flashcardIdResult.data, validationResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { flashcard },
+      } satisfies ApiSuccessResponse<UpdateFlashcardResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const flashcardIdResult = IdParamSchema.safeParse(params.flashcard_id);
+
+    if (!flashcardIdResult.success) {
+      return invalidFlashcardIdResponse();
+    }
+
+    const flashcardService = new FlashcardService(locals.supabase, user.id);
+    await flashcardService.deleteFlashcard(flashcardIdResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { message: "Flashcard deleted successfully" },
+      } satisfies ApiSuccessResponse<DeleteFlashcardResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+function invalidFlashcardIdResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_INPUT,
+        message: "Flashcard ID must be a positive integer",
+        field: "flashcard_id",
+      },
+    } satisfies ApiErrorResponse),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * Map service and unexpected errors to API error responses
+ */
+function handleError(error: unknown): Response {
+  if (error instanceof FlashcardServiceError) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: error.statusCode,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  // In production, log this error to monitoring service
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        code: ErrorCodes.INTERNAL_ERROR,
+        message: "An unexpected error occurred",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+    } satisfies ApiErrorResponse),
+    {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
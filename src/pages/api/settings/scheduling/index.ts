@@ -0,0 +1,172 @@
+/**
+ * GET /api/settings/scheduling
+ * Get the user's scheduling settings (desired retention, FSRS weights and time zone)
+ *
+ * PATCH /api/settings/scheduling
+ * Update the desired retention and/or the time zone; the time zone may change once every 30 days
+ */
+
+import type { APIRoute } from "astro";
+import { SettingsService, SettingsServiceError } from "../../../../lib/services/settings.service";
+import { UpdateSchedulingSettingsRequestSchema } from "../../../../lib/validation/settings.schemas";
+import type { ApiErrorResponse, ApiSuccessResponse, SchedulingSettings } from "../../../../types";
+import { ErrorCodes } from "../../../../types";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const settingsService = new SettingsService(locals.supabase, user.id);
+    const settings = await settingsService.getSettings();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { settings },
+      } satisfies ApiSuccessResponse<{ settings: SchedulingSettings }>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+export const PATCH: APIRoute = async ({ request, locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: "Invalid JSON in request body",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const validationResult = UpdateSchedulingSettingsRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_INPUT,
+            message: firstError?.message || "Invalid input",
+            field: firstError?.path.join("."),
+            details: validationResult.error.errors,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const settingsService = new SettingsService(locals.supabase, user.id);
+    const settings = await settingsService.updateSettings(validationResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { settings },
+      } satisfies ApiSuccessResponse<{ settings: SchedulingSettings }>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Map service and unexpected errors to API error responses
+ */
+function handleError(error: unknown): Response {
+  if (error instanceof SettingsServiceError) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: error.statusCode,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  // In production, log this error to monitoring service
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        code: ErrorCodes.INTERNAL_ERROR,
+        message: "An unexpected error occurred",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+    } satisfies ApiErrorResponse),
+    {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * POST /api/settings/scheduling/optimize
+ * Start fitting the user's FSRS weights to their review history; the weights are saved when the fit is done
+ *
+ * The fit runs in the background over the stored `flashcard_performance` records; the response is 202 with
+ * the running run, which the client polls with GET. Returns 422 INSUFFICIENT_HISTORY when there are not
+ * enough repeat reviews to fit, and 429 RATE_LIMIT_EXCEEDED when the last run started less than an hour ago.
+ *
+ * GET /api/settings/scheduling/optimize
+ * The user's settings and their latest optimization run
+ */
+
+import type { APIRoute } from "astro";
+import { SettingsService, SettingsServiceError } from "../../../../lib/services/settings.service";
+import type { ApiErrorResponse, ApiSuccessResponse, OptimizeSchedulingResponse } from "../../../../types";
+import { ErrorCodes } from "../../../../types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const settingsService = new SettingsService(locals.supabase, user.id);
+    const { run, ...started } = await settingsService.startFsrsOptimization();
+
+    // Fitted after the response; the run records its own outcome
+    void run();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: started,
+      } satisfies ApiSuccessResponse<OptimizeSchedulingResponse>),
+      {
+        status: 202,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof SettingsServiceError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Get authenticated user from middleware
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: ErrorCodes.UNAUTHORIZED,
+            message: "Authentication required",
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const settingsService = new SettingsService(locals.supabase, user.id);
+    const result = await settingsService.getOptimization();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+      } satisfies ApiSuccessResponse<OptimizeSchedulingResponse>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof SettingsServiceError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        } satisfies ApiErrorResponse),
+        {
+          status: error.statusCode,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In production, log this error to monitoring service
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: "An unexpected error occurred",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      } satisfies ApiErrorResponse),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
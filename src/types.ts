@@ -31,6 +31,27 @@ export type AIGenerationLog = Tables<"ai_generation_logs">;
 export type AIGenerationLogInsert = TablesInsert<"ai_generation_logs">;
 export type AIGenerationLogUpdate = TablesUpdate<"ai_generation_logs">;
 
+export type AIGenerationJob = Tables<"ai_generation_jobs">;
+export type AIGenerationJobInsert = TablesInsert<"ai_generation_jobs">;
+export type AIGenerationJobUpdate = TablesUpdate<"ai_generation_jobs">;
+
+export type AIGenerationSource = Tables<"ai_generation_sources">;
+export type AIGenerationSourceInsert = TablesInsert<"ai_generation_sources">;
+
+export type AICardReview = Tables<"ai_card_reviews">;
+export type AICardReviewInsert = TablesInsert<"ai_card_reviews">;
+
+export type AIGuardrailEvent = Tables<"ai_guardrail_events">;
+export type AIGuardrailEventInsert = TablesInsert<"ai_guardrail_events">;
+
+export type AIGenerationCacheEntry = Tables<"ai_generation_cache">;
+
+export type UserSettings = Tables<"user_settings">;
+export type UserSettingsInsert = TablesInsert<"user_settings">;
+export type UserSettingsUpdate = TablesUpdate<"user_settings">;
+
+export type FsrsOptimizationRun = Tables<"fsrs_optimization_runs">;
+
 // ============================================================================
 // Enums and Constants
 // ============================================================================
@@ -38,6 +59,21 @@ export type AIGenerationLogUpdate = TablesUpdate<"ai_generation_logs">;
 export type FlashcardStatus = "draft" | "new" | "finalized";
 export type FlashcardSource = "manual" | "ai";
 export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+/**
+ * Language of AI-generated cards: "source" keeps the language of the text
+ */
+export type CardLanguage = "source" | "en" | "pl" | "de" | "fr" | "es" | "it" | "pt" | "uk";
+
+/**
+ * Audience level of AI-generated cards
+ */
+export type CardDifficulty = "intro" | "intermediate" | "expert";
+
+/**
+ * Question style of AI-generated cards
+ */
+export type CardStyle = "definition" | "why_question" | "application" | "mixed";
 export type SortOrder = "asc" | "desc";
 
 // ============================================================================
@@ -251,9 +287,12 @@ export interface BulkFlashcardItem {
 
 /**
  * Request to create multiple flashcards at once
+ * With `atomic: true` nothing is saved unless every item is valid
  */
 export interface BulkCreateFlashcardsRequest {
   flashcards: BulkFlashcardItem[];
+  source?: FlashcardSource;
+  atomic?: boolean;
 }
 
 /**
@@ -327,6 +366,27 @@ export interface AcceptDraftResponse {
   flashcard: Pick<Flashcard, "id" | "status" | "updated_at">;
 }
 
+/**
+ * Request to accept or reject several draft flashcards of a deck at once
+ */
+export interface DraftIdsRequest {
+  ids: number[];
+}
+
+/**
+ * Response after accepting several draft flashcards
+ */
+export interface AcceptDraftsResponse {
+  flashcards: AcceptDraftResponse["flashcard"][];
+}
+
+/**
+ * Response after rejecting (deleting) several draft flashcards
+ */
+export interface RejectDraftsResponse {
+  deleted_ids: number[];
+}
+
 // ============================================================================
 // AI Generation DTOs
 // ============================================================================
@@ -338,8 +398,22 @@ export interface AIGenerateRequest {
   text: string;
   deck_id: number;
   max_cards?: number;
+  /** Split text longer than the single-request limit into chunks and merge the results */
+  long_document?: boolean;
+  language?: CardLanguage;
+  difficulty?: CardDifficulty;
+  style?: CardStyle;
+  /** Free-form topics to emphasize; treated as a preference, never as instructions */
+  focus?: string;
+  /** Call the model even when the same request was answered before, instead of reusing the cached cards */
+  force_regenerate?: boolean;
 }
 
+/**
+ * Options that shape the generation prompt
+ */
+export type GenerationOptions = Pick<AIGenerateRequest, "language" | "difficulty" | "style" | "focus">;
+
 /**
  * AI-generated flashcard (draft status)
  */
@@ -349,6 +423,42 @@ export interface AIGeneratedFlashcard {
   back: string;
   status: "draft";
   source: "ai";
+  /** Set when the deck already has a card that asks much the same thing */
+  duplicate_of?: DuplicateCardMatch;
+  /** Passage of the source text the card was derived from; see GET /api/flashcards/{id}/source */
+  source_span?: SourceSpan;
+}
+
+/**
+ * Character offsets of a passage in a generation's source text, end exclusive
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * The source passage of an AI card, with some of the surrounding text
+ */
+export interface FlashcardSourceResponse {
+  flashcard_id: number;
+  generation_id: number;
+  span: SourceSpan;
+  /** Text just before the passage; empty at the start of the source */
+  before: string;
+  passage: string;
+  /** Text just after the passage; empty at the end of the source */
+  after: string;
+}
+
+/**
+ * Existing deck card that a generated draft likely duplicates
+ */
+export interface DuplicateCardMatch {
+  id: number;
+  front: string;
+  /** Weighted similarity of the fronts and backs, between 0 and 1 */
+  similarity: number;
 }
 
 /**
@@ -359,16 +469,249 @@ export interface AIGenerateResponse {
   deck_id: number;
   flashcards: AIGeneratedFlashcard[];
   cards_generated: number;
+  /** Present for long-document generations: how many chunks the text was split into and how many failed */
+  chunks?: {
+    total: number;
+    failed: number;
+  };
+  /** The cards were reused from an identical earlier request instead of being generated again */
+  cached?: boolean;
+}
+
+/**
+ * Server-Sent Events of POST /api/ai/generate/stream
+ * - card: a draft, saved as soon as the AI has completed it
+ * - done: the final result with the generation_id
+ * - error: the generation failed; drafts already sent stay saved
+ */
+export type AIGenerateStreamEvent =
+  | { event: "card"; data: AIGeneratedFlashcard }
+  | { event: "done"; data: AIGenerateResponse }
+  | { event: "error"; data: ApiErrorResponse["error"] };
+
+/**
+ * How an AI request ended: partial means some cards were saved before it failed.
+ * Pending while the request is in progress and holds its quota reservation.
+ */
+export type GenerationOutcome = "pending" | "success" | "partial" | "failed";
+
+/**
+ * Cards reserved against the user's AI quota before calling the model.
+ * The reservation is the usage log row of the request; settling it refunds the unused part.
+ */
+export interface QuotaReservation {
+  logId: number;
+  /** Cards granted: the requested count capped at what was left of the limits */
+  cards: number;
+}
+
+/**
+ * State of a background generation job: queued -> running -> succeeded | failed, or cancelled
+ * before it finishes
+ */
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * A background generation job, as returned when it is created, polled or cancelled
+ */
+export interface AIGenerationJobResponse {
+  id: number;
+  deck_id: number;
+  status: GenerationJobStatus;
+  /** Set once the job succeeded */
+  result: AIGenerateResponse | null;
+  /** Set once the job failed */
+  error: ApiErrorResponse["error"] | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/**
+ * Query parameters for listing the active generation jobs of a deck
+ */
+export interface ListAIGenerationJobsParams {
+  deck_id: number;
+}
+
+/**
+ * The user's queued and running generation jobs of a deck, oldest first
+ */
+export interface ListAIGenerationJobsResponse {
+  jobs: AIGenerationJobResponse[];
+}
+
+/**
+ * Request to rewrite one draft with AI
+ */
+export interface RefineFlashcardRequest {
+  /** What to change, e.g. "make it shorter" or "split into two cards" */
+  instruction: string;
+  /** Optional passage of the source text the card was made from */
+  context?: string;
+}
+
+/**
+ * Response after refining a draft: the rewritten draft first, then any drafts split off from it
+ */
+export interface RefineFlashcardResponse {
+  flashcards: AIGeneratedFlashcard[];
+}
+
+/**
+ * The AI quota plan in effect for a user, with their overrides applied
+ */
+export interface AIQuotaPlan {
+  name: string;
+  daily_limit: number;
+  /** Null when the plan has no monthly limit */
+  monthly_limit: number | null;
+  /** IANA time zone the limits reset in */
+  timezone: string;
 }
 
 /**
  * Response for AI usage information
  */
 export interface AIUsageResponse {
+  plan: AIQuotaPlan;
   daily_limit: number;
   used_today: number;
+  /** Cards left today, also capped by what is left of the monthly limit */
   remaining: number;
+  /** Next local midnight */
   reset_at: string;
+  monthly_limit: number | null;
+  /** Null when the plan has no monthly limit */
+  used_this_month: number | null;
+  /** First local midnight of next month; null when the plan has no monthly limit */
+  monthly_reset_at: string | null;
+  prompt_tokens_today: number;
+  completion_tokens_today: number;
+  /** USD; null when no call today reported a cost */
+  cost_today: number | null;
+}
+
+/**
+ * One logged AI generation or refinement, with its model usage
+ */
+export interface AIUsageHistoryItem extends Omit<AIGenerationLog, "user_id" | "outcome"> {
+  outcome: GenerationOutcome;
+  deck_name: string | null;
+}
+
+/**
+ * Query parameters for AI usage history
+ */
+export type ListAIUsageHistoryParams = PaginationParams;
+
+/**
+ * Response for AI usage history
+ */
+export interface AIUsageHistoryResponse {
+  logs: AIUsageHistoryItem[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * What the user did with an AI card: accepted it as generated, accepted it after editing it, or rejected it
+ */
+export type CardReviewDecision = "accepted" | "edited" | "rejected";
+
+/**
+ * Why a guardrail flagged the source text or blocked a generated card
+ */
+export type GuardrailReason =
+  | "instructions_in_source"
+  | "leaked_prompt"
+  | "markup"
+  | "url"
+  | "off_topic"
+  | "unsupported";
+
+/**
+ * Length of the periods of the acceptance report
+ */
+export type AcceptanceReportInterval = "day" | "week" | "month";
+
+/**
+ * Query parameters for the acceptance report; dates are UTC days, both inclusive
+ */
+export interface AcceptanceReportParams {
+  /** Defaults to 30 days before `to` */
+  from?: string;
+  /** Defaults to today */
+  to?: string;
+  interval?: AcceptanceReportInterval;
+}
+
+/**
+ * Accepted, edited and rejected cards with the share of reviewed cards that was kept
+ */
+export interface AcceptanceCounts {
+  accepted: number;
+  edited: number;
+  rejected: number;
+  /** Share of reviewed cards accepted, with or without edits; null when no card was reviewed */
+  acceptance_rate: number | null;
+  /** Share of reviewed cards accepted as generated; null when no card was reviewed */
+  unedited_rate: number | null;
+  /** Mean edit distance of the edited cards; null when none was edited */
+  avg_edit_distance: number | null;
+}
+
+/**
+ * Reviewed cards of the generations of one period that used the same model and prompt version
+ */
+export interface AcceptanceReportRow extends AcceptanceCounts {
+  /** Start of the period (UTC) the cards were generated in */
+  period_start: string;
+  model: string | null;
+  prompt_version: string | null;
+  /** Generations with at least one reviewed card */
+  generations: number;
+}
+
+/**
+ * Acceptance of AI cards over time, for the user or, in the admin report, for all users
+ */
+export interface AcceptanceReportResponse {
+  from: string;
+  to: string;
+  interval: AcceptanceReportInterval;
+  scope: "user" | "all";
+  totals: AcceptanceCounts;
+  rows: AcceptanceReportRow[];
+}
+
+/**
+ * File formats text can be extracted from for generation
+ */
+export type DocumentFormat = "markdown" | "html" | "pdf" | "subtitles" | "epub";
+
+/**
+ * A part of an uploaded document, listed in its table of contents
+ */
+export interface DocumentSection {
+  title: string;
+  /** Depth in the table of contents, 1 for top-level entries */
+  level: number;
+  text: string;
+}
+
+/**
+ * Text extracted from an uploaded file; the user picks sections of it to generate from
+ */
+export interface ExtractDocumentResponse {
+  file_name: string;
+  format: DocumentFormat;
+  /** Title from the document's metadata, if it has one */
+  title: string | null;
+  sections: DocumentSection[];
+  /** Characters in all sections */
+  characters: number;
+  /** Sections past the extraction limit were left out */
+  truncated: boolean;
 }
 
 /**
@@ -438,6 +781,9 @@ export interface ReviewedFlashcard {
   ease_factor: number;
   interval: number;
   next_review_date: string;
+  stability: number | null;
+  difficulty: number | null;
+  retrievability: number | null;
 }
 
 /**
@@ -468,8 +814,8 @@ export interface EndStudySessionResponse {
 /**
  * Study session in history list
  */
-export interface StudySessionHistoryItem extends Omit<StudySession, "user_id"> {
-  deck_name?: string;
+export interface StudySessionHistoryItem extends CompletedStudySession {
+  deck_name: string;
 }
 
 /**
@@ -487,6 +833,27 @@ export interface ListStudySessionsResponse {
   pagination: PaginationMeta;
 }
 
+/**
+ * A single graded card within a past session
+ */
+export interface StudySessionReview {
+  id: number;
+  flashcard_id: number;
+  front: string;
+  grade: ReviewGrade;
+  reviewed_at: string;
+  previous_interval: number;
+  new_interval: number;
+}
+
+/**
+ * Response for a past session with its per-card grades
+ */
+export interface StudySessionDetailResponse {
+  session: StudySessionHistoryItem;
+  reviews: StudySessionReview[];
+}
+
 // ============================================================================
 // Statistics DTOs
 // ============================================================================
@@ -546,11 +913,65 @@ export interface OverviewStatsResponse {
   study: {
     total_sessions: number;
     total_cards_reviewed: number;
+    average_accuracy: number;
     current_streak_days: number;
   };
   ai: AIStats;
 }
 
+// ============================================================================
+// Settings DTOs
+// ============================================================================
+
+/**
+ * The user's scheduling settings (defaults apply when no settings row exists)
+ */
+export type SchedulingSettings = Pick<
+  UserSettings,
+  | "desired_retention"
+  | "fsrs_weights"
+  | "weights_optimized_at"
+  | "optimized_review_count"
+  | "timezone"
+  | "timezone_changed_at"
+>;
+
+/**
+ * Request to update scheduling settings; at least one field is required
+ */
+export interface UpdateSchedulingSettingsRequest {
+  desired_retention?: number;
+  /** IANA time zone, e.g. "Europe/Warsaw" */
+  timezone?: string;
+}
+
+/**
+ * The user's settings with their latest FSRS optimization, from starting or polling one
+ */
+export interface OptimizeSchedulingResponse {
+  settings: SchedulingSettings;
+  /** The latest run, or null before the first */
+  optimization: FsrsOptimizationRunResponse | null;
+}
+
+export type FsrsOptimizationStatus = "running" | "succeeded" | "failed";
+
+/**
+ * A background fit of the FSRS weights to the user's review history
+ */
+export interface FsrsOptimizationRunResponse {
+  id: number;
+  status: FsrsOptimizationStatus;
+  /** Set once the run succeeded */
+  review_count: number | null;
+  loss_before: number | null;
+  loss_after: number | null;
+  /** Set once the run failed */
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
 // ============================================================================
 // Validation Schemas (for use with Zod)
 // ============================================================================
@@ -585,9 +1006,39 @@ export const ValidationConstraints = {
   aiGeneration: {
     textMinLength: 1000,
     textMaxLength: 10000,
+    /** Upper bound for long-document requests, which are split into chunks of at most `chunkMaxLength` */
+    longTextMaxLength: 100000,
+    chunkMaxLength: 8000,
+    focusMaxLength: 300,
+    refineInstructionMaxLength: 300,
+    refineContextMaxLength: 2000,
+    /** Longest passage the model may quote as the source of a card */
+    sourceQuoteMaxLength: 500,
+    /** Characters of surrounding text shown on each side of a source passage */
+    sourceContextLength: 300,
+    /** Refinements are cheap: this many count as one card against the daily limit */
+    refinementsPerCard: 5,
     maxCardsMin: 1,
     maxCardsMax: 50,
     maxCardsDefault: 10,
+    /** Used when no quota plan is configured in the database */
+    dailyCardLimit: 50,
+  },
+  /** Fixed in put_ai_cache_entry(); kept here to describe the cache to users */
+  aiCache: {
+    /** Days a generation's cards are reused for identical requests */
+    ttlDays: 7,
+    /** Cached generations kept per user; the least recently used are evicted first */
+    maxEntriesPerUser: 50,
+  },
+  acceptanceReport: {
+    defaultDays: 30,
+    maxDays: 366,
+  },
+  documentUpload: {
+    maxBytes: 10 * 1024 * 1024,
+    /** Text kept from one file; sections past it are left out */
+    extractedTextMaxLength: 1000000,
   },
   pagination: {
     limitMin: 1,
@@ -601,6 +1052,17 @@ export const ValidationConstraints = {
     minEaseFactor: 1.3,
     maxEaseFactor: 4.0,
     defaultInterval: 0,
+    desiredRetentionMin: 0.7,
+    desiredRetentionMax: 0.97,
+    desiredRetentionDefault: 0.9,
+    optimizerMinReviews: 50,
+    optimizerMaxReviews: 10000,
+    /** A user may start one optimization per this many minutes; fixed in start_fsrs_optimization() */
+    optimizerCooldownMinutes: 60,
+  },
+  settings: {
+    /** The time zone may change once per this many days; fixed in limit_time_zone_changes() */
+    timezoneChangeCooldownDays: 30,
   },
 } as const;
 
@@ -612,6 +1074,7 @@ export const ErrorCodes = {
   // Validation
   INVALID_INPUT: "INVALID_INPUT",
   INVALID_CREDENTIALS: "INVALID_CREDENTIALS",
+  INVALID_TOKEN: "INVALID_TOKEN",
   INVALID_STATUS: "INVALID_STATUS",
   INVALID_GRADE: "INVALID_GRADE",
 
@@ -625,15 +1088,25 @@ export const ErrorCodes = {
   // Conflicts
   USERNAME_EXISTS: "USERNAME_EXISTS",
   DECK_EXISTS: "DECK_EXISTS",
+  CARD_ALREADY_REVIEWED: "CARD_ALREADY_REVIEWED",
 
   // Business Logic
   DAILY_LIMIT_EXCEEDED: "DAILY_LIMIT_EXCEEDED",
+  MONTHLY_LIMIT_EXCEEDED: "MONTHLY_LIMIT_EXCEEDED",
   NO_CARDS_DUE: "NO_CARDS_DUE",
   SESSION_COMPLETE: "SESSION_COMPLETE",
+  SESSION_ENDED: "SESSION_ENDED",
   ALL_CARDS_INVALID: "ALL_CARDS_INVALID",
+  INSUFFICIENT_HISTORY: "INSUFFICIENT_HISTORY",
 
   // External Services
   AI_SERVICE_ERROR: "AI_SERVICE_ERROR",
+  GENERATION_CANCELLED: "GENERATION_CANCELLED",
+
+  // Uploads
+  FILE_TOO_LARGE: "FILE_TOO_LARGE",
+  UNSUPPORTED_FILE_TYPE: "UNSUPPORTED_FILE_TYPE",
+  NO_TEXT_FOUND: "NO_TEXT_FOUND",
 
   // Rate Limiting
   RATE_LIMIT_EXCEEDED: "RATE_LIMIT_EXCEEDED",
@@ -0,0 +1,144 @@
+-- =====================================================================================
+-- Migration: FSRS Scheduling
+-- =====================================================================================
+-- Description: Adds the FSRS memory model to flashcards and review history, and a per-user
+--              settings table holding the desired retention and the fitted FSRS weights.
+--
+-- Affected Tables:
+--   - flashcards: new stability, difficulty, retrievability and last_reviewed_at columns
+--   - flashcard_performance: new FSRS before/after columns for every review
+--   - user_settings: new table (one row per user)
+--
+-- Special Considerations:
+--   - All new flashcard columns are nullable: cards that were never reviewed under FSRS have no
+--     memory state yet and get one on their next review. No existing data is rewritten.
+--   - ease_factor and interval are kept; ease_factor is still maintained for analytics,
+--     interval now holds the FSRS interval.
+--   - user_settings rows are optional; the application falls back to defaults when missing.
+--
+-- Date: 2025-12-01
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. FLASHCARDS
+-- =====================================================================================
+
+alter table public.flashcards
+  add column if not exists stability double precision,
+  add column if not exists difficulty double precision,
+  add column if not exists retrievability double precision,
+  add column if not exists last_reviewed_at timestamptz;
+
+-- keep the memory state within the model's ranges
+alter table public.flashcards
+  add constraint valid_stability check (stability is null or stability > 0),
+  add constraint valid_difficulty check (difficulty is null or difficulty between 1 and 10),
+  add constraint valid_retrievability check (retrievability is null or retrievability between 0 and 1);
+
+comment on column public.flashcards.stability is 'FSRS stability: days until recall probability drops to 90% (null until first FSRS review)';
+comment on column public.flashcards.difficulty is 'FSRS difficulty, 1 (easy) to 10 (hard) (null until first FSRS review)';
+comment on column public.flashcards.retrievability is 'FSRS predicted recall probability at the last review, before grading';
+comment on column public.flashcards.last_reviewed_at is 'Time of the last review (FSRS elapsed days are measured from it)';
+
+-- =====================================================================================
+-- 2. FLASHCARD_PERFORMANCE
+-- =====================================================================================
+
+alter table public.flashcard_performance
+  add column if not exists elapsed_days integer,
+  add column if not exists retrievability double precision,
+  add column if not exists previous_stability double precision,
+  add column if not exists previous_difficulty double precision,
+  add column if not exists new_stability double precision,
+  add column if not exists new_difficulty double precision;
+
+comment on column public.flashcard_performance.elapsed_days is 'Whole days since the previous review of the card (0 for the first review)';
+comment on column public.flashcard_performance.retrievability is 'FSRS predicted recall probability at review time (null for the first review)';
+comment on column public.flashcard_performance.previous_stability is 'FSRS stability before this review (null for the first review)';
+comment on column public.flashcard_performance.previous_difficulty is 'FSRS difficulty before this review (null for the first review)';
+comment on column public.flashcard_performance.new_stability is 'FSRS stability after this review';
+comment on column public.flashcard_performance.new_difficulty is 'FSRS difficulty after this review';
+
+-- optimizer reads a user's history in review order
+create index if not exists idx_flashcard_performance_reviewed_at
+on public.flashcard_performance(reviewed_at);
+
+comment on index public.idx_flashcard_performance_reviewed_at is
+'Speeds up replaying review history in order for FSRS optimization';
+
+-- =====================================================================================
+-- 3. USER_SETTINGS
+-- =====================================================================================
+
+-- -------------------------------------------------------------------------------------
+-- 3.1. user_settings table
+-- -------------------------------------------------------------------------------------
+-- Per-user scheduling preferences and fitted FSRS weights.
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  desired_retention numeric(3,2) not null default 0.90,
+  fsrs_weights double precision[],
+  weights_optimized_at timestamptz,
+  optimized_review_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- ensure a sensible retention target
+  constraint valid_desired_retention check (desired_retention between 0.70 and 0.97),
+  -- FSRS-4.5 uses 17 weights
+  constraint valid_fsrs_weights check (fsrs_weights is null or array_length(fsrs_weights, 1) = 17)
+);
+
+comment on table public.user_settings is 'Per-user scheduling preferences and fitted FSRS weights';
+
+comment on column public.user_settings.user_id is 'Owner of the settings';
+comment on column public.user_settings.desired_retention is 'Target recall probability when a card becomes due (0.70-0.97)';
+comment on column public.user_settings.fsrs_weights is 'FSRS weights fitted to the user''s history (null = defaults)';
+comment on column public.user_settings.weights_optimized_at is 'Time of the last successful optimization';
+comment on column public.user_settings.optimized_review_count is 'Number of reviews used by the last optimization';
+
+-- -------------------------------------------------------------------------------------
+-- 3.2. user_settings RLS
+-- -------------------------------------------------------------------------------------
+alter table public.user_settings enable row level security;
+
+-- Policy: authenticated users can view their own settings
+create policy user_settings_select_own
+on public.user_settings
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy user_settings_select_own on public.user_settings is
+'Allows authenticated users to view only their own settings';
+
+-- Policy: authenticated users can create their own settings row
+create policy user_settings_insert_own
+on public.user_settings
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+comment on policy user_settings_insert_own on public.user_settings is
+'Allows authenticated users to create only their own settings row';
+
+-- Policy: authenticated users can update their own settings
+create policy user_settings_update_own
+on public.user_settings
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+comment on policy user_settings_update_own on public.user_settings is
+'Allows authenticated users to update only their own settings';
+
+-- -------------------------------------------------------------------------------------
+-- 3.3. user_settings updated_at trigger
+-- -------------------------------------------------------------------------------------
+create trigger update_user_settings_updated_at
+before update on public.user_settings
+for each row
+execute function public.update_updated_at_column();
+
+comment on trigger update_user_settings_updated_at on public.user_settings is
+'Automatically updates updated_at timestamp when settings are modified';
@@ -0,0 +1,25 @@
+-- =====================================================================================
+-- Migration: AI Card Refinements
+-- =====================================================================================
+-- Description: Counts AI refinements of single cards in the AI usage log, so they are charged
+--              against the daily limit in a smaller unit than generated cards.
+--
+-- Affected Tables:
+--   - ai_generation_logs: new refinements_count column
+--
+-- Special Considerations:
+--   - Existing rows get refinements_count = 0; no data is rewritten.
+--   - A refinement is logged as its own row with refinements_count = 1 and cards_count set to
+--     the number of extra drafts it split off. The application charges a fraction of a card
+--     per refinement (ValidationConstraints.aiGeneration.refinementsPerCard).
+--
+-- Date: 2025-12-15
+-- =====================================================================================
+
+alter table public.ai_generation_logs
+  add column if not exists refinements_count integer not null default 0;
+
+alter table public.ai_generation_logs
+  add constraint valid_refinements_count check (refinements_count >= 0);
+
+comment on column public.ai_generation_logs.refinements_count is 'Number of single-card AI refinements in this request';
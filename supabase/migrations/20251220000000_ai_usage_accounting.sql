@@ -0,0 +1,47 @@
+-- =====================================================================================
+-- Migration: AI Usage Accounting
+-- =====================================================================================
+-- Description: Records the model, token usage, cost, latency, deck and outcome of every AI
+--              generation and refinement, so AI spend can be budgeted per user.
+--
+-- Affected Tables:
+--   - ai_generation_logs: new deck_id, model, prompt_tokens, completion_tokens, cost,
+--     latency_ms, outcome and error_message columns
+--
+-- Special Considerations:
+--   - Failed calls are now logged too, with outcome = 'failed' and cards_count = 0, so they
+--     never count against the daily limit.
+--   - Token counts and cost cover every model call of the request (all chunks of a long
+--     document). cost is null when the provider does not report it.
+--   - Existing rows keep outcome = 'success' and zero tokens; no data is rewritten.
+--   - deck_id is set to null when the deck is deleted, so the spend history is kept.
+--
+-- Date: 2025-12-20
+-- =====================================================================================
+
+alter table public.ai_generation_logs
+  add column if not exists deck_id bigint references public.decks(id) on delete set null,
+  add column if not exists model text,
+  add column if not exists prompt_tokens integer not null default 0,
+  add column if not exists completion_tokens integer not null default 0,
+  add column if not exists cost numeric(12, 6),
+  add column if not exists latency_ms integer,
+  add column if not exists outcome text not null default 'success',
+  add column if not exists error_message text;
+
+alter table public.ai_generation_logs
+  add constraint valid_outcome check (outcome in ('success', 'partial', 'failed')),
+  add constraint valid_token_counts check (prompt_tokens >= 0 and completion_tokens >= 0);
+
+comment on column public.ai_generation_logs.deck_id is 'Deck the cards were generated for (null once the deck is deleted)';
+comment on column public.ai_generation_logs.model is 'Model that served the request, as reported by the provider';
+comment on column public.ai_generation_logs.prompt_tokens is 'Prompt tokens of all model calls in this request';
+comment on column public.ai_generation_logs.completion_tokens is 'Completion tokens of all model calls in this request';
+comment on column public.ai_generation_logs.cost is 'Cost in USD of all model calls in this request (null if not reported)';
+comment on column public.ai_generation_logs.latency_ms is 'Wall-clock time of the AI part of the request';
+comment on column public.ai_generation_logs.outcome is 'success, partial (some cards saved before a failure) or failed';
+comment on column public.ai_generation_logs.error_message is 'Why the request failed, for partial and failed outcomes';
+
+-- usage history is listed per user, most recent first
+comment on index public.idx_ai_generation_logs_user_date is
+'Optimizes daily AI generation limit checks and usage history for users';
@@ -0,0 +1,135 @@
+-- =====================================================================================
+-- Migration: AI Quota Plans
+-- =====================================================================================
+-- Description: Moves the AI generation limits from the application into the database as
+--              quota plans with daily and monthly card limits, per-user overrides and a user
+--              time zone, so limits reset at the user's local midnight.
+--
+-- Affected Tables:
+--   - ai_quota_plans: new table (named plans, one of them the default)
+--   - user_ai_quotas: new table (optional per-user plan assignment and limit overrides)
+--   - user_settings: new timezone column
+--
+-- Special Considerations:
+--   - The 'free' plan (50 cards a day, no monthly limit) is seeded as the default, matching
+--     the limit the application enforced before this migration.
+--   - Users can read plans and their own override but cannot change them; plans and overrides
+--     are managed with the service role.
+--   - Override limits left null fall back to the limits of the assigned plan.
+--   - The time zone is an IANA name (e.g. 'Europe/Warsaw'), validated by the application.
+--   - get_ai_quota_plan() resolves the effective plan in one call; it runs with the caller's
+--     privileges, so RLS still applies.
+--
+-- Date: 2025-12-28
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. AI_QUOTA_PLANS
+-- =====================================================================================
+
+create table if not exists public.ai_quota_plans (
+  id bigserial primary key,
+  name text not null unique,
+  daily_card_limit integer not null,
+  monthly_card_limit integer,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  constraint valid_daily_card_limit check (daily_card_limit > 0),
+  constraint valid_monthly_card_limit check (monthly_card_limit is null or monthly_card_limit > 0)
+);
+
+-- at most one default plan
+create unique index if not exists idx_ai_quota_plans_default on public.ai_quota_plans (is_default) where is_default;
+
+comment on table public.ai_quota_plans is 'Named AI generation quota plans';
+comment on column public.ai_quota_plans.daily_card_limit is 'Cards a user may generate per day in their time zone';
+comment on column public.ai_quota_plans.monthly_card_limit is 'Cards a user may generate per calendar month (null = no monthly limit)';
+comment on column public.ai_quota_plans.is_default is 'Plan of users without an assigned plan';
+
+insert into public.ai_quota_plans (name, daily_card_limit, monthly_card_limit, is_default)
+values ('free', 50, null, true)
+on conflict (name) do nothing;
+
+alter table public.ai_quota_plans enable row level security;
+
+-- Policy: authenticated users can view the plans
+create policy ai_quota_plans_select_authenticated
+on public.ai_quota_plans
+for select
+to authenticated
+using (true);
+
+comment on policy ai_quota_plans_select_authenticated on public.ai_quota_plans is
+'Allows authenticated users to view the quota plans';
+
+-- =====================================================================================
+-- 2. USER_AI_QUOTAS
+-- =====================================================================================
+
+create table if not exists public.user_ai_quotas (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  plan_id bigint references public.ai_quota_plans(id) on delete set null,
+  daily_card_limit integer,
+  monthly_card_limit integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint valid_override_daily_limit check (daily_card_limit is null or daily_card_limit > 0),
+  constraint valid_override_monthly_limit check (monthly_card_limit is null or monthly_card_limit > 0)
+);
+
+create index if not exists idx_user_ai_quotas_plan_id on public.user_ai_quotas (plan_id);
+
+comment on table public.user_ai_quotas is 'Per-user AI quota plan assignment and limit overrides';
+comment on column public.user_ai_quotas.plan_id is 'Assigned plan (null = the default plan)';
+comment on column public.user_ai_quotas.daily_card_limit is 'Overrides the plan''s daily limit (null = plan limit)';
+comment on column public.user_ai_quotas.monthly_card_limit is 'Overrides the plan''s monthly limit (null = plan limit)';
+
+alter table public.user_ai_quotas enable row level security;
+
+-- Policy: authenticated users can view their own quota
+create policy user_ai_quotas_select_own
+on public.user_ai_quotas
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy user_ai_quotas_select_own on public.user_ai_quotas is
+'Allows authenticated users to view only their own quota override';
+
+create trigger update_user_ai_quotas_updated_at
+before update on public.user_ai_quotas
+for each row
+execute function public.update_updated_at_column();
+
+-- =====================================================================================
+-- 3. USER_SETTINGS
+-- =====================================================================================
+
+alter table public.user_settings
+  add column if not exists timezone text not null default 'UTC';
+
+comment on column public.user_settings.timezone is 'IANA time zone; daily and monthly AI limits reset at midnight in it';
+
+-- =====================================================================================
+-- 4. EFFECTIVE PLAN
+-- =====================================================================================
+
+create or replace function public.get_ai_quota_plan(p_user_id uuid)
+returns table (plan_name text, daily_card_limit integer, monthly_card_limit integer, timezone text)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    p.name,
+    coalesce(q.daily_card_limit, p.daily_card_limit),
+    coalesce(q.monthly_card_limit, p.monthly_card_limit),
+    coalesce((select s.timezone from user_settings s where s.user_id = p_user_id), 'UTC')
+  from ai_quota_plans p
+  left join user_ai_quotas q on q.user_id = p_user_id
+  where p.id = coalesce(q.plan_id, (select d.id from ai_quota_plans d where d.is_default));
+$$;
+
+comment on function public.get_ai_quota_plan(uuid) is
+'Effective AI quota of a user: assigned or default plan, overridden limits and time zone';
@@ -0,0 +1,197 @@
+-- =====================================================================================
+-- Migration: AI Quota Reservations
+-- =====================================================================================
+-- Description: Reserves AI quota in the database before the model is called, so concurrent
+--              requests of one user cannot together exceed their daily or monthly limit.
+--              A request reserves its cards as a 'pending' usage log row and settles the
+--              row with the actual result afterwards, refunding the unused part.
+--
+-- Affected Tables:
+--   - ai_generation_logs: outcome may be 'pending' while a request is in progress; counts
+--     must not be negative; users can no longer insert rows directly
+--
+-- Special Considerations:
+--   - reserve_ai_quota() serializes the reservations of one user with a transaction-level
+--     advisory lock, so the usage it reads cannot change before its own row is inserted.
+--   - A reservation is capped at what is left of the limits; when nothing is left no row
+--     is inserted and log_id is null. A refinement is reserved as long as its own share of a
+--     card fits; the cards it may split off are capped at what is left after it, possibly none.
+--   - Used cards are counted as in the application: cards plus one card per 5 refinements
+--     (ValidationConstraints.aiGeneration.refinementsPerCard), rounded down.
+--   - Usage rows are only written by reserve_ai_quota(), which is security definer and checks
+--     the caller itself. A direct insert policy would let users log negative counts or
+--     backdate rows to raise their remaining quota, so it is dropped.
+--   - settle_ai_quota() can only lower the reserved counts and only settles pending rows of
+--     the given user. Only the service role may execute it: a user calling it directly could
+--     settle their own reservation to zero cards while the request is still generating.
+--   - A request that dies before settling keeps its reservation until the window resets;
+--     its drafts may already be saved, so it is never refunded automatically.
+--
+-- Date: 2026-01-05
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. AI_GENERATION_LOGS
+-- =====================================================================================
+
+alter table public.ai_generation_logs
+  drop constraint if exists valid_outcome;
+
+alter table public.ai_generation_logs
+  add constraint valid_outcome check (outcome in ('pending', 'success', 'partial', 'failed'));
+
+comment on column public.ai_generation_logs.outcome is
+'success, partial (some cards saved before a failure), failed, or pending while the request holds a quota reservation';
+
+alter table public.ai_generation_logs
+  add constraint valid_cards_count check (cards_count >= 0);
+
+-- usage is only logged through reserve_ai_quota()
+drop policy if exists ai_generation_logs_insert_own on public.ai_generation_logs;
+
+-- =====================================================================================
+-- 2. RESERVE
+-- =====================================================================================
+
+create or replace function public.reserve_ai_quota(
+  p_user_id uuid,
+  p_deck_id bigint,
+  p_cards integer,
+  p_refinements integer default 0
+)
+returns table (log_id bigint, cards_granted integer)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_plan record;
+  v_daily_limit integer := 50;
+  v_monthly_limit integer := null;
+  v_timezone text := 'UTC';
+  v_cards integer;
+  v_refinements integer;
+  v_remaining integer;
+  v_granted integer;
+  v_log_id bigint;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Cannot reserve AI quota for another user' using errcode = '42501';
+  end if;
+
+  if p_cards < 0 or p_refinements < 0 then
+    raise exception 'Reserved counts must not be negative' using errcode = '22023';
+  end if;
+
+  if p_deck_id is not null and not exists (select 1 from decks d where d.id = p_deck_id and d.user_id = p_user_id) then
+    raise exception 'Cannot reserve AI quota for another user''s deck' using errcode = '42501';
+  end if;
+
+  -- held until the end of the transaction, after the reservation row is inserted
+  perform pg_advisory_xact_lock(hashtextextended('ai_quota:' || p_user_id::text, 0));
+
+  select * into v_plan from get_ai_quota_plan(p_user_id);
+  if found then
+    v_daily_limit := v_plan.daily_card_limit;
+    v_monthly_limit := v_plan.monthly_card_limit;
+    v_timezone := v_plan.timezone;
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = v_timezone) then
+    v_timezone := 'UTC';
+  end if;
+
+  -- what is left once the requested refinements are counted
+  select coalesce(sum(l.cards_count), 0), coalesce(sum(l.refinements_count), 0)
+  into v_cards, v_refinements
+  from ai_generation_logs l
+  where l.user_id = p_user_id
+    and l.generated_at >= date_trunc('day', now() at time zone v_timezone) at time zone v_timezone;
+
+  v_remaining := v_daily_limit - (v_cards + (v_refinements + p_refinements) / 5);
+
+  if v_monthly_limit is not null then
+    select coalesce(sum(l.cards_count), 0), coalesce(sum(l.refinements_count), 0)
+    into v_cards, v_refinements
+    from ai_generation_logs l
+    where l.user_id = p_user_id
+      and l.generated_at >= date_trunc('month', now() at time zone v_timezone) at time zone v_timezone;
+
+    v_remaining := least(v_remaining, v_monthly_limit - (v_cards + (v_refinements + p_refinements) / 5));
+  end if;
+
+  -- a refinement only needs its share of a card to fit; its cards may then be capped at none
+  if v_remaining < 0 or (v_remaining = 0 and p_refinements = 0) then
+    return query select null::bigint, 0;
+    return;
+  end if;
+
+  v_granted := least(p_cards, v_remaining);
+
+  insert into ai_generation_logs (user_id, deck_id, cards_count, refinements_count, outcome)
+  values (p_user_id, p_deck_id, v_granted, p_refinements, 'pending')
+  returning id into v_log_id;
+
+  return query select v_log_id, v_granted;
+end;
+$$;
+
+comment on function public.reserve_ai_quota(uuid, bigint, integer, integer) is
+'Atomically reserves up to p_cards cards of the user''s AI quota as a pending usage log row';
+
+-- =====================================================================================
+-- 3. SETTLE
+-- =====================================================================================
+
+create or replace function public.settle_ai_quota(
+  p_user_id uuid,
+  p_log_id bigint,
+  p_cards_count integer,
+  p_refinements_count integer,
+  p_outcome text,
+  p_model text default null,
+  p_prompt_tokens integer default 0,
+  p_completion_tokens integer default 0,
+  p_cost numeric default null,
+  p_latency_ms integer default null,
+  p_error_message text default null
+)
+returns boolean
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+begin
+  if p_outcome not in ('success', 'partial', 'failed') then
+    raise exception 'Invalid outcome: %', p_outcome using errcode = '22023';
+  end if;
+
+  update ai_generation_logs
+  set
+    cards_count = least(cards_count, greatest(p_cards_count, 0)),
+    refinements_count = least(refinements_count, greatest(p_refinements_count, 0)),
+    outcome = p_outcome,
+    model = p_model,
+    prompt_tokens = p_prompt_tokens,
+    completion_tokens = p_completion_tokens,
+    cost = p_cost,
+    latency_ms = p_latency_ms,
+    error_message = p_error_message
+  where id = p_log_id
+    and user_id = p_user_id
+    and outcome = 'pending';
+
+  return found;
+end;
+$$;
+
+comment on function public.settle_ai_quota(uuid, bigint, integer, integer, text, text, integer, integer, numeric, integer, text) is
+'Records the result of a reserved AI request and refunds the unused part of its reservation';
+
+-- settled by the application with the service role only
+revoke execute on function public.settle_ai_quota(uuid, bigint, integer, integer, text, text, integer, integer, numeric, integer, text)
+  from public, anon, authenticated;
+grant execute on function public.settle_ai_quota(uuid, bigint, integer, integer, text, text, integer, integer, numeric, integer, text)
+  to service_role;
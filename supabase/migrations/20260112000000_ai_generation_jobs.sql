@@ -0,0 +1,85 @@
+-- =====================================================================================
+-- Migration: AI Generation Jobs
+-- =====================================================================================
+-- Description: Persists AI generations as background jobs, so a long generation no longer
+--              holds an HTTP request open. The client creates a job, polls it and can
+--              cancel it; an in-process worker runs it.
+--
+-- Affected Tables:
+--   - ai_generation_jobs: new table (one row per requested generation)
+--
+-- Special Considerations:
+--   - Status moves queued -> running -> succeeded | failed, or to cancelled from queued or
+--     running. Finished jobs never change again.
+--   - request holds the validated generation request (text, card count, options); result
+--     holds the generation response and error the API error of a failed job.
+--   - Users can create, view and cancel their own jobs. The worker runs with the creating
+--     user's session, so it is bound by the same policies.
+--   - A job left queued or running by a stopped server is marked failed once it is older
+--     than the job timeout of the application.
+--
+-- Date: 2026-01-12
+-- =====================================================================================
+
+create table if not exists public.ai_generation_jobs (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  deck_id bigint not null references public.decks(id) on delete cascade,
+  status text not null default 'queued',
+  request jsonb not null,
+  result jsonb,
+  error jsonb,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  updated_at timestamptz not null default now(),
+  constraint valid_job_status check (status in ('queued', 'running', 'succeeded', 'failed', 'cancelled'))
+);
+
+-- active jobs of a deck, for resuming after a reload
+create index if not exists idx_ai_generation_jobs_user_deck_status
+on public.ai_generation_jobs (user_id, deck_id, status);
+
+comment on table public.ai_generation_jobs is 'Background AI flashcard generations';
+comment on column public.ai_generation_jobs.status is 'queued, running, succeeded, failed or cancelled';
+comment on column public.ai_generation_jobs.request is 'Validated generation request: text, max_cards, long_document and options';
+comment on column public.ai_generation_jobs.result is 'Generation response of a succeeded job';
+comment on column public.ai_generation_jobs.error is 'API error (code, message, details) of a failed job';
+
+alter table public.ai_generation_jobs enable row level security;
+
+-- Policy: authenticated users can view their own jobs
+create policy ai_generation_jobs_select_own
+on public.ai_generation_jobs
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy ai_generation_jobs_select_own on public.ai_generation_jobs is
+'Allows authenticated users to view only their own generation jobs';
+
+-- Policy: authenticated users can create jobs for themselves
+create policy ai_generation_jobs_insert_own
+on public.ai_generation_jobs
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+comment on policy ai_generation_jobs_insert_own on public.ai_generation_jobs is
+'Allows authenticated users to create generation jobs for themselves';
+
+-- Policy: authenticated users can update their own jobs (the worker and cancellation)
+create policy ai_generation_jobs_update_own
+on public.ai_generation_jobs
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+comment on policy ai_generation_jobs_update_own on public.ai_generation_jobs is
+'Allows authenticated users to update only their own generation jobs';
+
+create trigger update_ai_generation_jobs_updated_at
+before update on public.ai_generation_jobs
+for each row
+execute function public.update_updated_at_column();
@@ -0,0 +1,89 @@
+-- =====================================================================================
+-- Migration: Generation Provenance
+-- =====================================================================================
+-- Description: Keeps the source text of each AI generation and links every generated card
+--              to the generation and the passage of the text it was derived from, so a
+--              user can check a card against its source.
+--
+-- Affected Tables:
+--   - ai_generation_sources: new table (the source text of a generation)
+--   - flashcards: generation_id, source_start, source_end
+--
+-- Special Considerations:
+--   - One source row per generation log row; it is deleted with the log row.
+--   - source_start and source_end are character offsets into the source text, end exclusive.
+--     They are set together or not at all: the model quotes the passage each card is based
+--     on, and cards whose quote cannot be found in the text get no span.
+--   - generation_id is set for every AI card, with or without a span. It is cleared if the
+--     log row is deleted, and then the card no longer has a source.
+--   - The source text is stored as submitted. It is visible only to its owner and deleted
+--     with the account.
+--
+-- Date: 2026-01-19
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. AI_GENERATION_SOURCES
+-- =====================================================================================
+
+create table if not exists public.ai_generation_sources (
+  generation_id bigint primary key references public.ai_generation_logs(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  text text not null,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.ai_generation_sources is 'Source text of AI generations, for showing the passage a card came from';
+comment on column public.ai_generation_sources.generation_id is 'The generation (usage log row) the text was submitted to';
+comment on column public.ai_generation_sources.text is 'Source text as submitted; card spans are offsets into it';
+
+alter table public.ai_generation_sources enable row level security;
+
+-- Policy: authenticated users can view their own sources
+create policy ai_generation_sources_select_own
+on public.ai_generation_sources
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy ai_generation_sources_select_own on public.ai_generation_sources is
+'Allows authenticated users to view only their own generation sources';
+
+-- Policy: authenticated users can store sources of their own generations
+create policy ai_generation_sources_insert_own
+on public.ai_generation_sources
+for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.ai_generation_logs l
+    where l.id = generation_id and l.user_id = auth.uid()
+  )
+);
+
+comment on policy ai_generation_sources_insert_own on public.ai_generation_sources is
+'Allows authenticated users to store the source text of their own generations';
+
+-- =====================================================================================
+-- 2. FLASHCARDS
+-- =====================================================================================
+
+alter table public.flashcards
+  add column if not exists generation_id bigint references public.ai_generation_logs(id) on delete set null,
+  add column if not exists source_start integer,
+  add column if not exists source_end integer;
+
+alter table public.flashcards
+  add constraint valid_source_span check (
+    (source_start is null and source_end is null)
+    or (source_start >= 0 and source_end > source_start)
+  );
+
+create index if not exists idx_flashcards_generation_id
+on public.flashcards (generation_id)
+where generation_id is not null;
+
+comment on column public.flashcards.generation_id is 'AI generation that produced the card; null for manual cards';
+comment on column public.flashcards.source_start is 'Offset of the first character of the source passage';
+comment on column public.flashcards.source_end is 'Offset just past the last character of the source passage';
@@ -0,0 +1,258 @@
+-- =====================================================================================
+-- Migration: AI Acceptance Tracking
+-- =====================================================================================
+-- Description: Records what happens to every AI-generated card - accepted as generated,
+--              accepted after edits (with the edit distance) or rejected - linked to its
+--              generation and the model and prompt version that produced it, and reports
+--              acceptance rates over time.
+--
+-- Affected Tables:
+--   - ai_generation_logs: new prompt_version column
+--   - flashcards: generated_front, generated_back
+--   - ai_card_reviews: new table (one decision per AI card)
+--   - admin_users: new table (users allowed to see the report across all users)
+--
+-- Special Considerations:
+--   - generated_front and generated_back keep the card as the AI wrote it, so edits made before
+--     accepting can be measured. Drafts that already exist are backfilled with their current
+--     text; edits made to them before this migration are not known.
+--   - A refinement rewrites a draft, so a refined card that is accepted counts as edited.
+--   - flashcard_id has no foreign key: rejected drafts are deleted, their decision is kept.
+--     Without one, a card id proves nothing about its owner, so decisions are unique per user
+--     and card, and a decision can only name a card that still exists if it belongs to the
+--     generation the decision is recorded for.
+--   - Decisions are recorded by the application and deleted with their generation log row.
+--   - settle_ai_quota() gains p_prompt_version; the old signature is dropped. The new one is
+--     again executable by the service role only.
+--   - get_ai_acceptance_report() is security definer so admins can read the decisions of all
+--     users; everyone else only gets their own.
+--   - admin_users is managed with the service role.
+--
+-- Date: 2026-01-26
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. AI_GENERATION_LOGS
+-- =====================================================================================
+
+alter table public.ai_generation_logs
+  add column if not exists prompt_version text;
+
+comment on column public.ai_generation_logs.prompt_version is 'Version of the prompts the request was built from (null when no prompt was used)';
+
+-- =====================================================================================
+-- 2. FLASHCARDS
+-- =====================================================================================
+
+alter table public.flashcards
+  add column if not exists generated_front text,
+  add column if not exists generated_back text;
+
+update public.flashcards
+set generated_front = front, generated_back = back
+where status = 'draft'
+  and generation_id is not null
+  and generated_front is null;
+
+comment on column public.flashcards.generated_front is 'Front of the card as the AI generated it; null for manual cards';
+comment on column public.flashcards.generated_back is 'Back of the card as the AI generated it; null for manual cards';
+
+-- =====================================================================================
+-- 3. AI_CARD_REVIEWS
+-- =====================================================================================
+
+create table if not exists public.ai_card_reviews (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  generation_id bigint not null references public.ai_generation_logs(id) on delete cascade,
+  flashcard_id bigint not null,
+  decision text not null,
+  edit_distance integer not null default 0,
+  decided_at timestamptz not null default now(),
+  constraint valid_decision check (decision in ('accepted', 'edited', 'rejected')),
+  constraint valid_edit_distance check (
+    edit_distance >= 0 and (decision = 'edited' or edit_distance = 0)
+  ),
+  constraint unique_user_flashcard_review unique (user_id, flashcard_id)
+);
+
+create index if not exists idx_ai_card_reviews_generation_id on public.ai_card_reviews (generation_id);
+
+comment on table public.ai_card_reviews is 'What the user decided about each AI-generated card';
+comment on column public.ai_card_reviews.flashcard_id is 'The reviewed card; rejected cards no longer exist';
+comment on column public.ai_card_reviews.decision is 'accepted (as generated), edited (accepted after edits) or rejected';
+comment on column public.ai_card_reviews.edit_distance is 'Characters inserted, deleted or replaced in the front and back before accepting';
+
+alter table public.ai_card_reviews enable row level security;
+
+-- Policy: authenticated users can view their own decisions
+create policy ai_card_reviews_select_own
+on public.ai_card_reviews
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy ai_card_reviews_select_own on public.ai_card_reviews is
+'Allows authenticated users to view only their own card decisions';
+
+-- Policy: authenticated users can record decisions about cards of their own generations
+create policy ai_card_reviews_insert_own
+on public.ai_card_reviews
+for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.ai_generation_logs l
+    where l.id = generation_id and l.user_id = auth.uid()
+  )
+  -- rejected cards are already deleted; a card that exists must come from this generation
+  and not exists (
+    select 1 from public.flashcards f
+    where f.id = ai_card_reviews.flashcard_id
+      and f.generation_id is distinct from ai_card_reviews.generation_id
+  )
+);
+
+comment on policy ai_card_reviews_insert_own on public.ai_card_reviews is
+'Allows authenticated users to record decisions about the existing or deleted cards of their own generations';
+
+-- =====================================================================================
+-- 4. ADMIN_USERS
+-- =====================================================================================
+
+create table if not exists public.admin_users (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.admin_users is 'Users allowed to see reports across all users';
+
+alter table public.admin_users enable row level security;
+
+-- Policy: authenticated users can check whether they are an admin
+create policy admin_users_select_own
+on public.admin_users
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy admin_users_select_own on public.admin_users is
+'Allows authenticated users to see only their own admin entry';
+
+-- =====================================================================================
+-- 5. SETTLE
+-- =====================================================================================
+
+drop function if exists public.settle_ai_quota(uuid, bigint, integer, integer, text, text, integer, integer, numeric, integer, text);
+
+create or replace function public.settle_ai_quota(
+  p_user_id uuid,
+  p_log_id bigint,
+  p_cards_count integer,
+  p_refinements_count integer,
+  p_outcome text,
+  p_model text default null,
+  p_prompt_tokens integer default 0,
+  p_completion_tokens integer default 0,
+  p_cost numeric default null,
+  p_latency_ms integer default null,
+  p_error_message text default null,
+  p_prompt_version text default null
+)
+returns boolean
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+begin
+  if p_outcome not in ('success', 'partial', 'failed') then
+    raise exception 'Invalid outcome: %', p_outcome using errcode = '22023';
+  end if;
+
+  update ai_generation_logs
+  set
+    cards_count = least(cards_count, greatest(p_cards_count, 0)),
+    refinements_count = least(refinements_count, greatest(p_refinements_count, 0)),
+    outcome = p_outcome,
+    model = p_model,
+    prompt_tokens = p_prompt_tokens,
+    completion_tokens = p_completion_tokens,
+    cost = p_cost,
+    latency_ms = p_latency_ms,
+    error_message = p_error_message,
+    prompt_version = p_prompt_version
+  where id = p_log_id
+    and user_id = p_user_id
+    and outcome = 'pending';
+
+  return found;
+end;
+$$;
+
+comment on function public.settle_ai_quota(uuid, bigint, integer, integer, text, text, integer, integer, numeric, integer, text, text) is
+'Records the result of a reserved AI request and refunds the unused part of its reservation';
+
+revoke execute on function public.settle_ai_quota(uuid, bigint, integer, integer, text, text, integer, integer, numeric, integer, text, text)
+  from public, anon, authenticated;
+grant execute on function public.settle_ai_quota(uuid, bigint, integer, integer, text, text, integer, integer, numeric, integer, text, text)
+  to service_role;
+
+-- =====================================================================================
+-- 6. REPORT
+-- =====================================================================================
+
+create or replace function public.get_ai_acceptance_report(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_interval text default 'day',
+  p_all_users boolean default false
+)
+returns table (
+  period_start timestamptz,
+  model text,
+  prompt_version text,
+  generations bigint,
+  accepted bigint,
+  edited bigint,
+  rejected bigint,
+  avg_edit_distance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_interval not in ('day', 'week', 'month') then
+    raise exception 'Invalid interval: %', p_interval using errcode = '22023';
+  end if;
+
+  if p_all_users and not exists (select 1 from admin_users a where a.user_id = auth.uid()) then
+    raise exception 'Only admins can report on all users' using errcode = '42501';
+  end if;
+
+  -- cards are counted in the period they were generated in, whenever they were reviewed
+  return query
+  select
+    date_trunc(p_interval, l.generated_at at time zone 'UTC') at time zone 'UTC',
+    l.model,
+    l.prompt_version,
+    count(distinct r.generation_id),
+    count(*) filter (where r.decision = 'accepted'),
+    count(*) filter (where r.decision = 'edited'),
+    count(*) filter (where r.decision = 'rejected'),
+    round(avg(r.edit_distance) filter (where r.decision = 'edited'), 1)
+  from ai_card_reviews r
+  join ai_generation_logs l on l.id = r.generation_id
+  where l.generated_at >= p_from
+    and l.generated_at < p_to
+    and (p_all_users or r.user_id = auth.uid())
+  group by 1, 2, 3
+  order by 1, 2, 3;
+end;
+$$;
+
+comment on function public.get_ai_acceptance_report(timestamptz, timestamptz, text, boolean) is
+'Counts accepted, edited and rejected AI cards per period, model and prompt version';
@@ -0,0 +1,74 @@
+-- =====================================================================================
+-- Migration: AI Guardrail Events
+-- =====================================================================================
+-- Description: Records what the generation guardrails caught: source text that contains
+--              instructions aimed at the model, and generated cards that were blocked
+--              before being saved, each with the reason and an excerpt.
+--
+-- Affected Tables:
+--   - ai_guardrail_events: new table
+--
+-- Special Considerations:
+--   - Events are written by the application and never fail a generation; a missing event
+--     only means the guardrail's decision was not recorded.
+--   - Instructions found in the source do not block the generation: the text is still sent
+--     as delimited data, and the cards generated from it are checked like any other.
+--   - Blocked cards are not saved, so they are not charged against the daily limit.
+--   - Events are deleted with their generation log row.
+--
+-- Date: 2026-02-02
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. AI_GUARDRAIL_EVENTS
+-- =====================================================================================
+
+create table if not exists public.ai_guardrail_events (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  generation_id bigint not null references public.ai_generation_logs(id) on delete cascade,
+  stage text not null,
+  reason text not null,
+  excerpt text not null default '',
+  created_at timestamptz not null default now(),
+  constraint valid_stage check (stage in ('input', 'output')),
+  constraint valid_reason check (
+    reason in ('instructions_in_source', 'leaked_prompt', 'markup', 'url', 'off_topic', 'unsupported')
+  ),
+  constraint valid_excerpt check (char_length(excerpt) <= 500)
+);
+
+create index if not exists idx_ai_guardrail_events_generation_id on public.ai_guardrail_events (generation_id);
+
+comment on table public.ai_guardrail_events is 'Source text flagged and generated cards blocked by the generation guardrails';
+comment on column public.ai_guardrail_events.stage is 'input (the source text was flagged) or output (a generated card was blocked)';
+comment on column public.ai_guardrail_events.reason is 'Which check caught it';
+comment on column public.ai_guardrail_events.excerpt is 'The flagged passage or the blocked card, shortened';
+
+alter table public.ai_guardrail_events enable row level security;
+
+-- Policy: authenticated users can view the events of their own generations
+create policy ai_guardrail_events_select_own
+on public.ai_guardrail_events
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy ai_guardrail_events_select_own on public.ai_guardrail_events is
+'Allows authenticated users to view only the guardrail events of their own generations';
+
+-- Policy: authenticated users can record events of their own generations
+create policy ai_guardrail_events_insert_own
+on public.ai_guardrail_events
+for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.ai_generation_logs l
+    where l.id = generation_id and l.user_id = auth.uid()
+  )
+);
+
+comment on policy ai_guardrail_events_insert_own on public.ai_guardrail_events is
+'Allows authenticated users to record guardrail events of their own generations';
@@ -0,0 +1,286 @@
+-- =====================================================================================
+-- Migration: AI Generation Cache
+-- =====================================================================================
+-- Description: Caches the cards of each generation under a hash of the normalized source
+--              text, the model, the prompt version and the generation options, so the same
+--              request is answered with fresh drafts of the earlier cards instead of another
+--              model call. Cache hits are logged, but do not count against the AI limits.
+--
+-- Affected Tables:
+--   - ai_generation_logs: new cache_hit column
+--   - ai_generation_cache: new table (cached cards per user and key)
+--
+-- Special Considerations:
+--   - The cache is per user: a hit must not reveal that another user submitted the same text.
+--   - The key is computed by the application (lib/generation/cache-key.ts); the database only
+--     stores it.
+--   - Users can read and evict their entries, but not write them. Entries are written by the
+--     application through take_ai_cache_entry() and put_ai_cache_entry(), which only the service
+--     role may execute, so a user cannot plant cards under a key or keep an entry from expiring.
+--   - An entry serves requests for at most the number of cards it was generated for
+--     (max_cards); a request for more cards misses and replaces it.
+--   - Entries expire after 7 days and each user keeps at most 50 of them
+--     (ValidationConstraints.aiCache); both limits are fixed in put_ai_cache_entry(). Storing an
+--     entry first deletes the user's expired entries, then the least recently used ones
+--     beyond the limit. Expired entries of users who stop generating stay until the next
+--     store; lookups never return them.
+--   - reserve_ai_quota() gains p_cache_hit: a cache hit is logged as its own row without
+--     checking the limits, and cache hits are left out of the used cards. The old signature
+--     is dropped. The new one may only be executed by the service role: a user calling it
+--     directly could log any request as a free cache hit.
+--
+-- Date: 2026-02-09
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. AI_GENERATION_LOGS
+-- =====================================================================================
+
+alter table public.ai_generation_logs
+  add column if not exists cache_hit boolean not null default false;
+
+comment on column public.ai_generation_logs.cache_hit is 'The cards were served from the generation cache, without a model call; not counted against the limits';
+
+-- =====================================================================================
+-- 2. AI_GENERATION_CACHE
+-- =====================================================================================
+
+create table if not exists public.ai_generation_cache (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  cache_key text not null,
+  model text,
+  prompt_version text,
+  max_cards integer not null,
+  cards jsonb not null,
+  hit_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  primary key (user_id, cache_key),
+  constraint valid_cache_key check (cache_key ~ '^[0-9a-f]{64}$'),
+  constraint valid_max_cards check (max_cards > 0),
+  constraint valid_cards check (jsonb_typeof(cards) = 'array')
+);
+
+create index if not exists idx_ai_generation_cache_user_last_used on public.ai_generation_cache (user_id, last_used_at desc);
+
+comment on table public.ai_generation_cache is 'Cards of earlier generations, reused for identical requests';
+comment on column public.ai_generation_cache.cache_key is 'SHA-256 of the normalized text, model, prompt version and generation options';
+comment on column public.ai_generation_cache.max_cards is 'Cards the model was asked for; the entry serves requests for up to this many';
+comment on column public.ai_generation_cache.cards is 'The generated cards (front, back, source_quote) as they were saved';
+comment on column public.ai_generation_cache.last_used_at is 'When the entry was stored or last served; the least recently used entries are evicted first';
+
+alter table public.ai_generation_cache enable row level security;
+
+-- Policy: authenticated users can view their own cache entries
+create policy ai_generation_cache_select_own
+on public.ai_generation_cache
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy ai_generation_cache_select_own on public.ai_generation_cache is
+'Allows authenticated users to view only their own cache entries';
+
+-- Policy: authenticated users can evict their own cache entries
+create policy ai_generation_cache_delete_own
+on public.ai_generation_cache
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy ai_generation_cache_delete_own on public.ai_generation_cache is
+'Allows authenticated users to evict only their own cache entries';
+
+-- =====================================================================================
+-- 3. TAKE AND PUT
+-- =====================================================================================
+
+create or replace function public.take_ai_cache_entry(
+  p_user_id uuid,
+  p_cache_key text,
+  p_min_cards integer
+)
+returns table (cards jsonb, model text, prompt_version text)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update ai_generation_cache c
+  set hit_count = c.hit_count + 1, last_used_at = now()
+  where c.user_id = p_user_id
+    and c.cache_key = p_cache_key
+    and c.expires_at > now()
+    and c.max_cards >= p_min_cards
+  returning c.cards, c.model, c.prompt_version;
+end;
+$$;
+
+comment on function public.take_ai_cache_entry(uuid, text, integer) is
+'Returns the user''s unexpired cache entry for the key if it has enough cards, and marks it as used';
+
+create or replace function public.put_ai_cache_entry(
+  p_user_id uuid,
+  p_cache_key text,
+  p_model text,
+  p_prompt_version text,
+  p_max_cards integer,
+  p_cards jsonb
+)
+returns void
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_ttl constant interval := interval '7 days';
+  v_max_entries constant integer := 50;
+begin
+  delete from ai_generation_cache
+  where user_id = p_user_id
+    and expires_at <= now();
+
+  insert into ai_generation_cache (user_id, cache_key, model, prompt_version, max_cards, cards, expires_at)
+  values (p_user_id, p_cache_key, p_model, p_prompt_version, p_max_cards, p_cards, now() + v_ttl)
+  on conflict (user_id, cache_key) do update
+  set
+    model = excluded.model,
+    prompt_version = excluded.prompt_version,
+    max_cards = excluded.max_cards,
+    cards = excluded.cards,
+    hit_count = 0,
+    created_at = now(),
+    last_used_at = now(),
+    expires_at = excluded.expires_at;
+
+  -- least recently used first; the entry just stored is the most recent
+  delete from ai_generation_cache c
+  where c.user_id = p_user_id
+    and c.cache_key in (
+      select e.cache_key
+      from ai_generation_cache e
+      where e.user_id = p_user_id
+      order by e.last_used_at desc, e.created_at desc
+      offset v_max_entries
+    );
+end;
+$$;
+
+comment on function public.put_ai_cache_entry(uuid, text, text, text, integer, jsonb) is
+'Stores or replaces the user''s cache entry for the key for 7 days, then evicts expired entries and all but the 50 most recently used';
+
+-- written by the application with the service role only
+revoke execute on function public.take_ai_cache_entry(uuid, text, integer) from public, anon, authenticated;
+grant execute on function public.take_ai_cache_entry(uuid, text, integer) to service_role;
+revoke execute on function public.put_ai_cache_entry(uuid, text, text, text, integer, jsonb) from public, anon, authenticated;
+grant execute on function public.put_ai_cache_entry(uuid, text, text, text, integer, jsonb) to service_role;
+
+-- =====================================================================================
+-- 4. RESERVE
+-- =====================================================================================
+
+drop function if exists public.reserve_ai_quota(uuid, bigint, integer, integer);
+
+create or replace function public.reserve_ai_quota(
+  p_user_id uuid,
+  p_deck_id bigint,
+  p_cards integer,
+  p_refinements integer default 0,
+  p_cache_hit boolean default false
+)
+returns table (log_id bigint, cards_granted integer)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_plan record;
+  v_daily_limit integer := 50;
+  v_monthly_limit integer := null;
+  v_timezone text := 'UTC';
+  v_cards integer;
+  v_refinements integer;
+  v_remaining integer;
+  v_granted integer;
+  v_log_id bigint;
+begin
+  if p_cards < 0 or p_refinements < 0 then
+    raise exception 'Reserved counts must not be negative' using errcode = '22023';
+  end if;
+
+  if p_deck_id is not null and not exists (select 1 from decks d where d.id = p_deck_id and d.user_id = p_user_id) then
+    raise exception 'Cannot reserve AI quota for another user''s deck' using errcode = '42501';
+  end if;
+
+  -- a cache hit makes no model call, so it is logged without checking the limits
+  if p_cache_hit then
+    insert into ai_generation_logs (user_id, deck_id, cards_count, refinements_count, outcome, cache_hit)
+    values (p_user_id, p_deck_id, p_cards, 0, 'pending', true)
+    returning id into v_log_id;
+
+    return query select v_log_id, p_cards;
+    return;
+  end if;
+
+  -- held until the end of the transaction, after the reservation row is inserted
+  perform pg_advisory_xact_lock(hashtextextended('ai_quota:' || p_user_id::text, 0));
+
+  select * into v_plan from get_ai_quota_plan(p_user_id);
+  if found then
+    v_daily_limit := v_plan.daily_card_limit;
+    v_monthly_limit := v_plan.monthly_card_limit;
+    v_timezone := v_plan.timezone;
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = v_timezone) then
+    v_timezone := 'UTC';
+  end if;
+
+  -- what is left once the requested refinements are counted
+  select coalesce(sum(l.cards_count), 0), coalesce(sum(l.refinements_count), 0)
+  into v_cards, v_refinements
+  from ai_generation_logs l
+  where l.user_id = p_user_id
+    and not l.cache_hit
+    and l.generated_at >= date_trunc('day', now() at time zone v_timezone) at time zone v_timezone;
+
+  v_remaining := v_daily_limit - (v_cards + (v_refinements + p_refinements) / 5);
+
+  if v_monthly_limit is not null then
+    select coalesce(sum(l.cards_count), 0), coalesce(sum(l.refinements_count), 0)
+    into v_cards, v_refinements
+    from ai_generation_logs l
+    where l.user_id = p_user_id
+      and not l.cache_hit
+      and l.generated_at >= date_trunc('month', now() at time zone v_timezone) at time zone v_timezone;
+
+    v_remaining := least(v_remaining, v_monthly_limit - (v_cards + (v_refinements + p_refinements) / 5));
+  end if;
+
+  -- a refinement only needs its share of a card to fit; its cards may then be capped at none
+  if v_remaining < 0 or (v_remaining = 0 and p_refinements = 0) then
+    return query select null::bigint, 0;
+    return;
+  end if;
+
+  v_granted := least(p_cards, v_remaining);
+
+  insert into ai_generation_logs (user_id, deck_id, cards_count, refinements_count, outcome)
+  values (p_user_id, p_deck_id, v_granted, p_refinements, 'pending')
+  returning id into v_log_id;
+
+  return query select v_log_id, v_granted;
+end;
+$$;
+
+comment on function public.reserve_ai_quota(uuid, bigint, integer, integer, boolean) is
+'Atomically reserves up to p_cards cards of the user''s AI quota as a pending usage log row; cache hits are logged without a limit check';
+
+-- reserved by the application with the service role only
+revoke execute on function public.reserve_ai_quota(uuid, bigint, integer, integer, boolean) from public, anon, authenticated;
+grant execute on function public.reserve_ai_quota(uuid, bigint, integer, integer, boolean) to service_role;
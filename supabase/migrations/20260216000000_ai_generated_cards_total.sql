@@ -0,0 +1,33 @@
+-- =====================================================================================
+-- Migration: AI Generated Cards Total
+-- =====================================================================================
+-- Description: Sums the cards the model generated for the user in the database, for the
+--              overview statistics. Summing fetched log rows stopped at the API row limit.
+--
+-- Affected Tables:
+--   - none (new function only)
+--
+-- Special Considerations:
+--   - Pending rows are reservations whose result is not known yet, and cache hits made no
+--     model call, so neither is counted.
+--   - security invoker: RLS limits the sum to the caller's own log rows.
+--
+-- Date: 2026-02-16
+-- =====================================================================================
+
+create or replace function public.get_ai_cards_generated_total()
+returns bigint
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select coalesce(sum(l.cards_count), 0)
+  from ai_generation_logs l
+  where l.user_id = auth.uid()
+    and l.outcome <> 'pending'
+    and not l.cache_hit;
+$$;
+
+comment on function public.get_ai_cards_generated_total() is
+'Total cards the model generated for the caller, without pending reservations and cache hits';
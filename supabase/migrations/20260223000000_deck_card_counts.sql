@@ -0,0 +1,48 @@
+-- =====================================================================================
+-- Migration: Deck Card Counts
+-- =====================================================================================
+-- Description: Counts the cards of each deck in the database, for the deck list and deck
+--              details. Counting fetched card rows stopped at the API row limit.
+--
+-- Affected Tables:
+--   - none (new function only)
+--
+-- Special Considerations:
+--   - Drafts are not counted until they are accepted, as in the application.
+--   - "Today" is passed in by the application (the UTC date it schedules reviews by).
+--   - Decks without cards get no row.
+--   - security invoker: RLS limits the counts to cards in the caller's own decks.
+--
+-- Date: 2026-02-23
+-- =====================================================================================
+
+create or replace function public.get_deck_card_counts(
+  p_deck_ids bigint[],
+  p_today date
+)
+returns table (
+  deck_id bigint,
+  cards_count bigint,
+  cards_due_today bigint,
+  cards_new bigint,
+  cards_learning bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    f.deck_id,
+    count(*),
+    count(*) filter (where f.next_review_date <= p_today),
+    count(*) filter (where f.status = 'new'),
+    count(*) filter (where f.status = 'finalized')
+  from flashcards f
+  where f.deck_id = any(p_deck_ids)
+    and f.status <> 'draft'
+  group by f.deck_id;
+$$;
+
+comment on function public.get_deck_card_counts(bigint[], date) is
+'Counts the accepted cards of each given deck: all, due by p_today, new and learning';
@@ -0,0 +1,138 @@
+-- =====================================================================================
+-- Migration: FSRS Optimization Runs
+-- =====================================================================================
+-- Description: Runs the FSRS weight optimizer in the background instead of during the
+--              request, and limits how often each user may start it. Each run is a row the
+--              client polls until it has succeeded or failed.
+--
+-- Affected Tables:
+--   - fsrs_optimization_runs: new table (one row per started optimization)
+--
+-- Special Considerations:
+--   - Status moves running -> succeeded | failed; finished runs never change again.
+--   - A user may start one run per hour. start_fsrs_optimization() checks the last run and
+--     inserts the new one under a per-user advisory lock, so parallel requests cannot both
+--     start a run.
+--   - Users can only read their runs: rows are written by start_fsrs_optimization() and
+--     finish_fsrs_optimization(), which are security definer and only touch the caller's
+--     runs. A direct insert or delete would let a user get around the hourly limit.
+--   - The fitted weights are still saved in user_settings; a run only records its outcome.
+--   - A run left running by a stopped server is reported as failed once the next run may
+--     start; the optimizer takes seconds, not an hour.
+--
+-- Date: 2026-03-02
+-- =====================================================================================
+
+create table if not exists public.fsrs_optimization_runs (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'running',
+  review_count integer,
+  loss_before double precision,
+  loss_after double precision,
+  error_message text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  constraint valid_optimization_status check (status in ('running', 'succeeded', 'failed'))
+);
+
+-- the user's latest run, for the status and the hourly limit
+create index if not exists idx_fsrs_optimization_runs_user_started
+on public.fsrs_optimization_runs (user_id, started_at desc);
+
+comment on table public.fsrs_optimization_runs is 'Background fits of a user''s FSRS weights to their review history';
+comment on column public.fsrs_optimization_runs.status is 'running, succeeded or failed';
+comment on column public.fsrs_optimization_runs.review_count is 'Repeat reviews the weights were fitted to';
+comment on column public.fsrs_optimization_runs.loss_before is 'Mean log loss with the weights the run started from';
+comment on column public.fsrs_optimization_runs.loss_after is 'Mean log loss with the fitted weights';
+
+alter table public.fsrs_optimization_runs enable row level security;
+
+-- Policy: authenticated users can view their own runs
+create policy fsrs_optimization_runs_select_own
+on public.fsrs_optimization_runs
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy fsrs_optimization_runs_select_own on public.fsrs_optimization_runs is
+'Allows authenticated users to view only their own optimization runs';
+
+-- =====================================================================================
+-- START AND FINISH
+-- =====================================================================================
+
+create or replace function public.start_fsrs_optimization()
+returns bigint
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_run_id bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'Only signed-in users can optimize scheduling' using errcode = '42501';
+  end if;
+
+  -- held until the end of the transaction, after the run is inserted
+  perform pg_advisory_xact_lock(hashtextextended('fsrs_optimization:' || auth.uid()::text, 0));
+
+  if exists (
+    select 1
+    from fsrs_optimization_runs r
+    where r.user_id = auth.uid()
+      and r.started_at > now() - interval '1 hour'
+  ) then
+    return null;
+  end if;
+
+  insert into fsrs_optimization_runs (user_id)
+  values (auth.uid())
+  returning id into v_run_id;
+
+  return v_run_id;
+end;
+$$;
+
+comment on function public.start_fsrs_optimization() is
+'Starts an optimization run for the caller, or returns null when their last run started less than an hour ago';
+
+create or replace function public.finish_fsrs_optimization(
+  p_run_id bigint,
+  p_status text,
+  p_review_count integer default null,
+  p_loss_before double precision default null,
+  p_loss_after double precision default null,
+  p_error_message text default null
+)
+returns boolean
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+begin
+  if p_status not in ('succeeded', 'failed') then
+    raise exception 'Invalid status: %', p_status using errcode = '22023';
+  end if;
+
+  update fsrs_optimization_runs
+  set
+    status = p_status,
+    review_count = p_review_count,
+    loss_before = p_loss_before,
+    loss_after = p_loss_after,
+    error_message = p_error_message,
+    finished_at = now()
+  where id = p_run_id
+    and user_id = auth.uid()
+    and status = 'running';
+
+  return found;
+end;
+$$;
+
+comment on function public.finish_fsrs_optimization(bigint, text, integer, double precision, double precision, text) is
+'Records the outcome of the caller''s running optimization run';
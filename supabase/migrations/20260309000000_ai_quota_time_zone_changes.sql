@@ -0,0 +1,103 @@
+-- =====================================================================================
+-- Migration: AI Quota Time Zone Changes
+-- =====================================================================================
+-- Description: Limits how often a user may change the time zone their AI limits reset in,
+--              and sums their AI usage within a window in the database.
+--
+-- Affected Tables:
+--   - user_settings: new timezone_changed_at column and a trigger limiting time zone changes
+--
+-- Special Considerations:
+--   - Moving the time zone moves the start of the current day: usage logged before the new
+--     local midnight no longer counts, which gives back up to almost a day of quota. The time
+--     zone may therefore change once every 30 days (ValidationConstraints.settings); the limit
+--     is fixed in limit_time_zone_changes().
+--   - The trigger also keeps timezone_changed_at in step with the time zone, so users who
+--     update their settings row directly can neither skip the limit nor reset it.
+--   - A new settings row counts as a change when its time zone is not UTC, the zone users
+--     without a row are counted in.
+--   - get_ai_usage_totals() replaces reading the usage log rows of a window, which stopped at
+--     the API row limit. security invoker: RLS limits the sums to the caller's own rows.
+--
+-- Date: 2026-03-09
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. USER_SETTINGS
+-- =====================================================================================
+
+alter table public.user_settings
+  add column if not exists timezone_changed_at timestamptz;
+
+comment on column public.user_settings.timezone_changed_at is 'Time of the last time zone change (null = never changed); set by limit_time_zone_changes()';
+
+create or replace function public.limit_time_zone_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.timezone_changed_at := case when new.timezone <> 'UTC' then now() end;
+    return new;
+  end if;
+
+  if new.timezone is not distinct from old.timezone then
+    new.timezone_changed_at := old.timezone_changed_at;
+    return new;
+  end if;
+
+  if old.timezone_changed_at > now() - interval '30 days' then
+    raise exception 'The time zone can be changed once every 30 days' using errcode = '55000';
+  end if;
+
+  new.timezone_changed_at := now();
+  return new;
+end;
+$$;
+
+comment on function public.limit_time_zone_changes() is
+'Allows one time zone change per 30 days and records when it happened';
+
+create trigger limit_user_settings_time_zone_changes
+before insert or update on public.user_settings
+for each row
+execute function public.limit_time_zone_changes();
+
+comment on trigger limit_user_settings_time_zone_changes on public.user_settings is
+'Keeps users from regaining AI quota by moving the start of their day';
+
+-- =====================================================================================
+-- 2. USAGE TOTALS
+-- =====================================================================================
+
+create or replace function public.get_ai_usage_totals(
+  p_user_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns table (
+  cards_count bigint,
+  refinements_count bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    coalesce(sum(l.cards_count) filter (where not l.cache_hit), 0),
+    coalesce(sum(l.refinements_count) filter (where not l.cache_hit), 0),
+    coalesce(sum(l.prompt_tokens), 0),
+    coalesce(sum(l.completion_tokens), 0),
+    sum(l.cost)
+  from ai_generation_logs l
+  where l.user_id = p_user_id
+    and l.generated_at >= p_from
+    and l.generated_at < p_to;
+$$;
+
+comment on function public.get_ai_usage_totals(uuid, timestamptz, timestamptz) is
+'Sums a user''s AI usage in [p_from, p_to): cards and refinements charged (no cache hits), tokens and the reported cost';
@@ -0,0 +1,179 @@
+-- =====================================================================================
+-- Migration: AI Card Review Checks
+-- =====================================================================================
+-- Description: Checks every card decision against the real card. The insert policy of
+--              ai_card_reviews only checked the generation, so a user could record decisions
+--              about made-up card ids and skew the acceptance report.
+--
+-- Affected Tables:
+--   - ai_rejected_drafts: new table (a tombstone per deleted AI draft)
+--   - flashcards: trigger writing the tombstones
+--   - ai_card_reviews: trigger checking each decision; the insert policy is replaced
+--
+-- Special Considerations:
+--   - Rejected drafts are deleted before their decision is recorded. Deleting an AI draft now
+--     leaves a tombstone naming its generation and owner, written by a security definer trigger;
+--     users can read but not write tombstones. Drafts deleted with their deck leave none.
+--   - An accepted or edited decision needs the card to exist in one of the user's decks, no
+--     longer be a draft and come from the generation. A rejected decision needs the tombstone.
+--   - A generation gets at most as many decisions as it has cards (cards_count). The check locks
+--     the generation's log row, so parallel or multi-row inserts cannot go past it.
+--   - A decision about a card that already has one is left to the unique constraint, so
+--     re-recording it stays a no-op under "on conflict do nothing".
+--   - The checks run in a security definer trigger: RLS would hide the rows they count.
+--
+-- Date: 2026-03-16
+-- =====================================================================================
+
+-- =====================================================================================
+-- 1. AI_REJECTED_DRAFTS
+-- =====================================================================================
+
+create table if not exists public.ai_rejected_drafts (
+  flashcard_id bigint primary key,
+  generation_id bigint not null references public.ai_generation_logs(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  rejected_at timestamptz not null default now()
+);
+
+create index if not exists idx_ai_rejected_drafts_generation_id on public.ai_rejected_drafts (generation_id);
+
+comment on table public.ai_rejected_drafts is 'AI drafts deleted by their owner, so their rejection can be recorded';
+comment on column public.ai_rejected_drafts.flashcard_id is 'Id of the deleted draft';
+
+alter table public.ai_rejected_drafts enable row level security;
+
+-- Policy: authenticated users can view their own tombstones
+create policy ai_rejected_drafts_select_own
+on public.ai_rejected_drafts
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+comment on policy ai_rejected_drafts_select_own on public.ai_rejected_drafts is
+'Allows authenticated users to view only the tombstones of their own drafts';
+
+create or replace function public.record_rejected_draft()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into ai_rejected_drafts (flashcard_id, generation_id, user_id)
+  select old.id, old.generation_id, d.user_id
+  from decks d
+  join ai_generation_logs l on l.id = old.generation_id and l.user_id = d.user_id
+  where d.id = old.deck_id
+  on conflict (flashcard_id) do nothing;
+
+  return old;
+end;
+$$;
+
+comment on function public.record_rejected_draft() is
+'Leaves a tombstone for a deleted AI draft of the owner''s own generation';
+
+create trigger record_flashcards_rejected_draft
+after delete on public.flashcards
+for each row
+when (old.status = 'draft' and old.generation_id is not null)
+execute function public.record_rejected_draft();
+
+comment on trigger record_flashcards_rejected_draft on public.flashcards is
+'Records deleted AI drafts, the only cards a rejected decision may name';
+
+-- =====================================================================================
+-- 2. AI_CARD_REVIEWS
+-- =====================================================================================
+
+create or replace function public.check_ai_card_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cards_count integer;
+  v_decisions integer;
+begin
+  -- the unique constraint handles a card decided before
+  if exists (
+    select 1 from ai_card_reviews r
+    where r.user_id = new.user_id and r.flashcard_id = new.flashcard_id
+  ) then
+    return new;
+  end if;
+
+  select l.cards_count into v_cards_count
+  from ai_generation_logs l
+  where l.id = new.generation_id and l.user_id = new.user_id
+  for update;
+
+  if not found then
+    raise exception 'Generation % does not belong to the user', new.generation_id using errcode = '42501';
+  end if;
+
+  select count(*) into v_decisions
+  from ai_card_reviews r
+  where r.generation_id = new.generation_id;
+
+  if v_decisions >= v_cards_count then
+    raise exception 'Every card of generation % already has a decision', new.generation_id using errcode = '42501';
+  end if;
+
+  if new.decision = 'rejected' then
+    if not exists (
+      select 1 from ai_rejected_drafts t
+      where t.flashcard_id = new.flashcard_id
+        and t.generation_id = new.generation_id
+        and t.user_id = new.user_id
+    ) then
+      raise exception 'Card % is not a rejected draft of generation %', new.flashcard_id, new.generation_id
+        using errcode = '42501';
+    end if;
+  elsif not exists (
+    select 1 from flashcards f
+    join decks d on d.id = f.deck_id
+    where f.id = new.flashcard_id
+      and f.generation_id = new.generation_id
+      and f.status <> 'draft'
+      and d.user_id = new.user_id
+  ) then
+    raise exception 'Card % is not an accepted card of generation %', new.flashcard_id, new.generation_id
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+comment on function public.check_ai_card_review() is
+'Allows a decision only about a real card of the generation, up to one per card the generation produced';
+
+create trigger check_ai_card_reviews_card
+before insert on public.ai_card_reviews
+for each row
+execute function public.check_ai_card_review();
+
+comment on trigger check_ai_card_reviews_card on public.ai_card_reviews is
+'Rejects decisions about made-up cards and beyond the cards of the generation';
+
+-- the card checks moved to check_ai_card_review()
+drop policy if exists ai_card_reviews_insert_own on public.ai_card_reviews;
+
+-- Policy: authenticated users can record decisions about cards of their own generations
+create policy ai_card_reviews_insert_own
+on public.ai_card_reviews
+for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.ai_generation_logs l
+    where l.id = generation_id and l.user_id = auth.uid()
+  )
+);
+
+comment on policy ai_card_reviews_insert_own on public.ai_card_reviews is
+'Allows authenticated users to record decisions about their own generations; check_ai_card_review() checks the card';
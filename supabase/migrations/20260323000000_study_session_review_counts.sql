@@ -0,0 +1,44 @@
+-- =====================================================================================
+-- Migration: Study Session Review Counts
+-- =====================================================================================
+-- Description: Counts a review in its study session with a single update. The service read
+--              the counters with the session and wrote them back incremented, so parallel
+--              reviews of one session overwrote each other's counts.
+--
+-- Affected Tables:
+--   - study_sessions: counters incremented by record_session_review()
+--
+-- Special Considerations:
+--   - security invoker: the update policy of study_sessions limits it to the caller's own
+--     sessions, and the function also checks the owner.
+--   - Returns false when the session is not the caller's or has ended, so a review cannot be
+--     counted in a session that ended after it was read.
+--
+-- Date: 2026-03-23
+-- =====================================================================================
+
+create or replace function public.record_session_review(
+  p_session_id bigint,
+  p_correct boolean
+)
+returns boolean
+language plpgsql
+volatile
+security invoker
+set search_path = public
+as $$
+begin
+  update study_sessions
+  set
+    cards_reviewed = cards_reviewed + 1,
+    cards_correct = cards_correct + case when p_correct then 1 else 0 end
+  where id = p_session_id
+    and user_id = auth.uid()
+    and ended_at is null;
+
+  return found;
+end;
+$$;
+
+comment on function public.record_session_review(bigint, boolean) is
+'Counts one review, correct or not, in the caller''s active study session';
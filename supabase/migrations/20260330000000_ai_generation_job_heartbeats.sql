@@ -0,0 +1,26 @@
+-- =====================================================================================
+-- Migration: AI Generation Job Heartbeats
+-- =====================================================================================
+-- Description: Records when the worker holding a generation job last showed it is alive.
+--              Jobs were failed once updated_at was older than the job timeout, which also
+--              failed long generations whose worker was still running them.
+--
+-- Affected Tables:
+--   - ai_generation_jobs: new heartbeat_at column
+--
+-- Special Considerations:
+--   - The worker of the server process refreshes heartbeat_at of its queued and running
+--     jobs every 30 seconds. A job whose heartbeat stopped for longer than the application's
+--     heartbeat timeout is marked failed the next time it is read.
+--   - A new job starts with a heartbeat, as it is handed to the worker when it is created.
+--     Existing rows get one now, so jobs left behind by a stopped server expire once the
+--     timeout has passed.
+--   - The heartbeat is written under the existing update policy of the job's owner.
+--
+-- Date: 2026-03-30
+-- =====================================================================================
+
+alter table public.ai_generation_jobs
+  add column if not exists heartbeat_at timestamptz not null default now();
+
+comment on column public.ai_generation_jobs.heartbeat_at is 'Last time the worker holding the job showed it is alive';